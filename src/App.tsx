@@ -11,6 +11,12 @@ import Dashboard from "./pages/Dashboard";
 import Auth from "./pages/Auth";
 import About from "./pages/About";
 import VolunteerManagement from "./pages/VolunteerManagement";
+import RegionManagement from "./pages/RegionManagement";
+import RiskThresholds from "./pages/RiskThresholds";
+import StaticSources from "./pages/StaticSources";
+import ConfirmSubscription from "./pages/ConfirmSubscription";
+import ManageSubscriptions from "./pages/ManageSubscriptions";
+import Unsubscribe from "./pages/Unsubscribe";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +34,9 @@ const App = () => (
             <Route path="/public" element={<Public />} />
             <Route path="/about" element={<About />} />
             <Route path="/auth" element={<Auth />} />
+            <Route path="/subscriptions/confirm" element={<ConfirmSubscription />} />
+            <Route path="/subscriptions/manage" element={<ManageSubscriptions />} />
+            <Route path="/subscriptions/unsubscribe" element={<Unsubscribe />} />
             
             {/* Protected institutional routes */}
             <Route
@@ -46,6 +55,32 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+
+            {/* Admin routes */}
+            <Route
+              path="/admin/regions"
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <RegionManagement />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/thresholds"
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <RiskThresholds />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/admin/static-sources"
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <StaticSources />
+                </ProtectedRoute>
+              }
+            />
             
             {/* Catch-all */}
             <Route path="*" element={<NotFound />} />
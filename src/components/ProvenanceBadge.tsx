@@ -0,0 +1,49 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { MetricProvenance, ProvenanceStatus } from "@/lib/satellite-api";
+import { cn } from "@/lib/utils";
+
+const provenanceConfig: Record<ProvenanceStatus, { label: string; short: string; className: string }> = {
+  measured: { label: "Measured", short: "obs", className: "text-accent border-accent/40" },
+  estimated: { label: "Estimated", short: "est", className: "text-alert border-alert/40 border-dashed" },
+  unavailable: { label: "Unavailable", short: "n/a", className: "text-muted-foreground border-border" },
+};
+
+interface ProvenanceBadgeProps {
+  provenance: MetricProvenance | undefined;
+  compact?: boolean;
+  className?: string;
+}
+
+export function ProvenanceBadge({ provenance, compact = false, className }: ProvenanceBadgeProps) {
+  if (!provenance) return null;
+  const config = provenanceConfig[provenance.status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn("cursor-help", compact ? "text-[9px] px-1 py-0 h-4" : "text-[10px] px-1.5 py-0", config.className, className)}
+        >
+          {compact ? config.short : config.label}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs text-xs space-y-1">
+        <p className="font-medium">{config.label}</p>
+        <p className="text-muted-foreground">{provenance.method}</p>
+        {provenance.sceneIds.length > 0 && (
+          <div>
+            <p className="text-muted-foreground">Input scenes ({provenance.sceneIds.length}):</p>
+            <ul className="font-mono text-[10px] break-all">
+              {provenance.sceneIds.slice(0, 5).map((id) => (
+                <li key={id}>{id}</li>
+              ))}
+              {provenance.sceneIds.length > 5 && <li>…and {provenance.sceneIds.length - 5} more</li>}
+            </ul>
+          </div>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { Button } from "@/components/ui/button";
+import { polygonFromLatLngs, type RegionGeometry } from "@/lib/geometry";
+import type { Region } from "@/types";
+import { cn } from "@/lib/utils";
+import { Check, Trash2, Undo2, PenTool } from "lucide-react";
+
+interface RegionDrawMapProps {
+  regions?: Region[];
+  geometry: RegionGeometry | null;
+  onGeometryChange: (geometry: RegionGeometry | null) => void;
+  className?: string;
+}
+
+const ROMANIA_CENTER: L.LatLngTuple = [45.9432, 24.9668];
+const ROMANIA_ZOOM = 7;
+const DRAW_COLOR = "#f97316";
+
+export function RegionDrawMap({ regions = [], geometry, onGeometryChange, className }: RegionDrawMapProps) {
+  const [vertices, setVertices] = useState<[number, number][]>([]);
+  const [isDrawing, setIsDrawing] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const regionLayerRef = useRef<L.LayerGroup | null>(null);
+  const shapeLayerRef = useRef<L.LayerGroup | null>(null);
+  const isDrawingRef = useRef(isDrawing);
+  isDrawingRef.current = isDrawing;
+
+  // Create the Leaflet map once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current, {
+      center: ROMANIA_CENTER,
+      zoom: ROMANIA_ZOOM,
+      doubleClickZoom: false,
+    });
+
+    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      maxZoom: 18,
+      className: "map-tiles-dark",
+    }).addTo(map);
+
+    regionLayerRef.current = L.layerGroup().addTo(map);
+    shapeLayerRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    map.on("click", (e: L.LeafletMouseEvent) => {
+      if (!isDrawingRef.current) return;
+      setVertices((prev) => [...prev, [e.latlng.lat, e.latlng.lng]]);
+    });
+
+    const observer = new ResizeObserver(() => map.invalidateSize());
+    observer.observe(containerRef.current);
+
+    return () => {
+      observer.disconnect();
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  // Existing regions as dashed context outlines
+  useEffect(() => {
+    const layer = regionLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    regions.forEach((r) => {
+      if (!r.geometry) return;
+      L.geoJSON(r.geometry, {
+        style: () => ({ color: "#94a3b8", weight: 1, dashArray: "4 4", fillOpacity: 0 }),
+        interactive: false,
+      }).addTo(layer);
+    });
+  }, [regions]);
+
+  // The shape being drawn, or the saved/uploaded geometry
+  useEffect(() => {
+    const layer = shapeLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    if (isDrawing) {
+      if (vertices.length > 1) {
+        L.polyline(vertices, { color: DRAW_COLOR, weight: 2, dashArray: "6 4" }).addTo(layer);
+      }
+      vertices.forEach((vertex) => {
+        L.circleMarker(vertex, { radius: 4, color: DRAW_COLOR, fillOpacity: 1, interactive: false }).addTo(layer);
+      });
+      return;
+    }
+
+    if (geometry) {
+      const shape = L.geoJSON(geometry, {
+        style: () => ({ color: DRAW_COLOR, weight: 2, fillColor: DRAW_COLOR, fillOpacity: 0.15 }),
+      }).addTo(layer);
+      mapRef.current?.fitBounds(shape.getBounds(), { padding: [24, 24] });
+    }
+  }, [geometry, vertices, isDrawing]);
+
+  const handleStartDrawing = () => {
+    setVertices([]);
+    setIsDrawing(true);
+    onGeometryChange(null);
+  };
+
+  const handleFinish = () => {
+    if (vertices.length < 3) return;
+    setIsDrawing(false);
+    onGeometryChange(polygonFromLatLngs(vertices));
+    setVertices([]);
+  };
+
+  const handleClear = () => {
+    setVertices([]);
+    setIsDrawing(false);
+    onGeometryChange(null);
+  };
+
+  return (
+    <div className={cn("relative w-full h-full rounded-xl overflow-hidden border border-border bg-card", className)}>
+      <div ref={containerRef} className={cn("w-full h-full z-0", isDrawing && "cursor-crosshair")} />
+
+      <div className="absolute top-3 right-3 z-[500] flex gap-2">
+        {isDrawing ? (
+          <>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setVertices((prev) => prev.slice(0, -1))}
+              disabled={vertices.length === 0}
+            >
+              <Undo2 className="w-4 h-4" />
+              Undo
+            </Button>
+            <Button size="sm" onClick={handleFinish} disabled={vertices.length < 3}>
+              <Check className="w-4 h-4" />
+              Finish ({vertices.length})
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" variant="secondary" onClick={handleStartDrawing}>
+            <PenTool className="w-4 h-4" />
+            {geometry ? "Redraw" : "Draw Polygon"}
+          </Button>
+        )}
+        {(isDrawing || geometry) && (
+          <Button size="sm" variant="ghost" className="glass-panel" onClick={handleClear}>
+            <Trash2 className="w-4 h-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {isDrawing && (
+        <div className="absolute bottom-3 left-3 glass-panel px-3 py-2 z-[500] text-xs text-muted-foreground">
+          Click on the map to add vertices, then press Finish
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/useAuth";
+import { listAlerts, setAlertStatus } from "@/lib/alerts";
+import type { Alert, AlertStatus, Region } from "@/types";
+import { Bell, RefreshCw, AlertCircle, Check, CheckCheck, Waves, Leaf, Flame } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface AlertsPanelProps {
+  regions: Region[];
+  onRegionSelect: (region: Region) => void;
+  refreshKey?: unknown; // changes when a new analysis was stored, e.g. the latest RegionAnalysis
+}
+
+const statusTabs: { value: AlertStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "acknowledged", label: "Acknowledged" },
+  { value: "resolved", label: "Resolved" },
+];
+
+const alertIcons: Record<Alert["type"], typeof Waves> = {
+  flood: Waves,
+  drought: Leaf,
+  vegetation_stress: Leaf,
+  fire_risk: Flame,
+};
+
+const alertColors: Record<Alert["type"], string> = {
+  flood: "text-flood",
+  drought: "text-alert",
+  vegetation_stress: "text-vegetation",
+  fire_risk: "text-danger",
+};
+
+const severityStyles: Record<Alert["severity"], string> = {
+  info: "bg-primary/20 text-primary border-primary/30",
+  warning: "bg-alert/20 text-alert border-alert/30",
+  danger: "bg-danger/20 text-danger border-danger/30",
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+// Inbox of hazard alerts raised by the analyses; analysts and admins acknowledge and resolve them
+export function AlertsPanel({ regions, onRegionSelect, refreshKey }: AlertsPanelProps) {
+  const { hasRole } = useAuth();
+  const canManage = hasRole("admin") || hasRole("analyst");
+  const [status, setStatus] = useState<AlertStatus>("open");
+  const [liveAlerts, setLiveAlerts] = useState<Alert[]>([]);
+  const [resolvedAlerts, setResolvedAlerts] = useState<Alert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+    Promise.all([
+      listAlerts(["open", "acknowledged"]),
+      status === "resolved" ? listAlerts(["resolved"]) : Promise.resolve(null),
+    ])
+      .then(([live, resolved]) => {
+        if (cancelled) return;
+        setLiveAlerts(live);
+        if (resolved) setResolvedAlerts(resolved);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load alerts");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status, refreshKey, reloadCount]);
+
+  // Alerts are opened and cleared by analyses running elsewhere (e.g. the scheduled job)
+  useEffect(() => {
+    const channel = supabase
+      .channel("alerts_changes")
+      .on("postgres_changes", { event: "*", schema: "public", table: "alerts" }, () => setReloadCount((c) => c + 1))
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const handleStatusChange = async (alert: Alert, next: "acknowledged" | "resolved") => {
+    setUpdatingId(alert.id);
+    try {
+      await setAlertStatus(alert.id, next);
+      toast.success(next === "resolved" ? "Alert resolved" : "Alert acknowledged");
+      setReloadCount((c) => c + 1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update alert");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const alerts = status === "resolved" ? resolvedAlerts : liveAlerts.filter((a) => a.status === status);
+  const counts: Record<AlertStatus, number | null> = {
+    open: liveAlerts.filter((a) => a.status === "open").length,
+    acknowledged: liveAlerts.filter((a) => a.status === "acknowledged").length,
+    resolved: null,
+  };
+
+  return (
+    <div className="glass-panel-elevated border border-border rounded-xl overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 bg-gradient-to-r from-danger/10 to-alert/10 border-b border-border flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Bell className="w-4 h-4 text-danger" />
+          <span>Alerts</span>
+          {counts.open > 0 && (
+            <Badge variant="outline" className="text-xs text-danger border-danger/40">
+              {counts.open} open
+            </Badge>
+          )}
+        </h3>
+        <div className="flex items-center gap-1">
+          {statusTabs.map((tab) => (
+            <Button
+              key={tab.value}
+              variant={status === tab.value ? "secondary" : "ghost"}
+              size="sm"
+              className="h-8 px-2 text-xs"
+              onClick={() => setStatus(tab.value)}
+            >
+              {tab.label}
+              {counts[tab.value] !== null && <span className="ml-1 text-muted-foreground">{counts[tab.value]}</span>}
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setReloadCount((c) => c + 1)}
+            disabled={isLoading}
+            className="h-8 w-8 p-0"
+          >
+            <RefreshCw className={cn("w-4 h-4", isLoading && "animate-spin")} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-3">
+        {error ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-danger">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        ) : isLoading && alerts.length === 0 ? (
+          <div className="flex items-center justify-center py-6">
+            <RefreshCw className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <div className="text-center py-6 space-y-2">
+            <CheckCheck className="w-8 h-8 text-muted-foreground/50 mx-auto" />
+            <p className="text-sm text-muted-foreground">No {status} alerts</p>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-[360px] overflow-y-auto pr-1">
+            {alerts.map((alert) => {
+              const Icon = alertIcons[alert.type];
+              const region = regions.find((r) => r.id === alert.region_id);
+              return (
+                <div
+                  key={alert.id}
+                  className="flex flex-wrap items-start justify-between gap-3 p-3 rounded-lg border border-border/50 bg-card/50"
+                >
+                  <div className="flex items-start gap-3 min-w-0">
+                    <Icon className={cn("w-4 h-4 mt-0.5 flex-shrink-0", alertColors[alert.type])} />
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <button
+                          type="button"
+                          className="text-sm font-medium hover:text-primary disabled:hover:text-foreground"
+                          onClick={() => region && onRegionSelect(region)}
+                          disabled={!region}
+                        >
+                          {alert.region_name}
+                        </button>
+                        <Badge className={cn("text-[10px] uppercase", severityStyles[alert.severity])}>
+                          {alert.severity}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">{alert.message}</p>
+                      <p className="text-[10px] text-muted-foreground/70">
+                        Opened {formatTime(alert.timestamp)}
+                        {alert.status !== "resolved" && <> · last seen {formatTime(alert.last_seen_at)}</>}
+                        {alert.acknowledged_at && alert.status === "acknowledged" && (
+                          <> · acknowledged {formatTime(alert.acknowledged_at)}</>
+                        )}
+                        {alert.resolved_at && (
+                          <>
+                            {" "}· {alert.auto_resolved ? "cleared" : "resolved"} {formatTime(alert.resolved_at)}
+                          </>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+
+                  {canManage && alert.status !== "resolved" && (
+                    <div className="flex items-center gap-1">
+                      {alert.status === "open" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          disabled={updatingId === alert.id}
+                          onClick={() => handleStatusChange(alert, "acknowledged")}
+                        >
+                          <Check className="w-3.5 h-3.5" />
+                          Acknowledge
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={updatingId === alert.id}
+                        onClick={() => handleStatusChange(alert, "resolved")}
+                      >
+                        <CheckCheck className="w-3.5 h-3.5" />
+                        Resolve
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { MOCK_REGIONS } from "@/lib/api";
+import { useRegions } from "@/hooks/useRegions";
 import { toast } from "sonner";
 import { Plus, Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
@@ -25,6 +25,7 @@ const HAZARD_TYPES = [
 
 export function AnnouncementCreationForm({ onCreated }: { onCreated?: () => void }) {
   const { user } = useAuth();
+  const { regions } = useRegions();
   const [isOpen, setIsOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState({
@@ -41,7 +42,7 @@ export function AnnouncementCreationForm({ onCreated }: { onCreated?: () => void
       return;
     }
 
-    const selectedRegion = MOCK_REGIONS.find(r => r.id === formData.region_id);
+    const selectedRegion = regions.find(r => r.id === formData.region_id);
     if (!selectedRegion) {
       toast.error("Invalid region selected");
       return;
@@ -101,7 +102,7 @@ export function AnnouncementCreationForm({ onCreated }: { onCreated?: () => void
               <SelectValue placeholder="Select region" />
             </SelectTrigger>
             <SelectContent>
-              {MOCK_REGIONS.map((region) => (
+              {regions.map((region) => (
                 <SelectItem key={region.id} value={region.id}>
                   {region.displayName}
                 </SelectItem>
@@ -3,14 +3,17 @@ import { Button } from "@/components/ui/button";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Slider } from "@/components/ui/slider";
-import type { Region, HazardType, AcquisitionMode } from "@/types";
-import type { RegionAnalysis } from "@/lib/satellite-api";
+import type { Region, RegionKind, HazardType, AcquisitionMode } from "@/types";
+import { isRadarProduct, type FireEventStatus, type ProductMetadata, type RegionAnalysis } from "@/lib/satellite-api";
+import { analysisRisk } from "@/lib/risk-scoring";
 import { 
   Satellite, 
   Waves, 
@@ -31,6 +34,7 @@ import {
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
+import { ProvenanceBadge } from "@/components/ProvenanceBadge";
 
 interface ControlPanelProps {
   regions: Region[];
@@ -40,8 +44,12 @@ interface ControlPanelProps {
   onHazardTypeChange: (type: HazardType) => void;
   satelliteData: RegionAnalysis | null;
   isLoading: boolean;
-  onRunAcquisition: (mode: AcquisitionMode) => void;
+  onRunAcquisition: (mode: AcquisitionMode, maxCloudCover: number) => void;
   onRefresh: () => void;
+  overlayOpacity: number;
+  onOverlayOpacityChange: (opacity: number) => void;
+  overlayAvailable: boolean; // whether the hazard map has a raster or vector overlay to fade
+  pinnedScene: ProductMetadata | null; // analyzed instead of the latest scenes of its sensor
 }
 
 const hazardTypes: { value: HazardType; label: string; icon: typeof Waves; color: string }[] = [
@@ -53,31 +61,29 @@ const hazardTypes: { value: HazardType; label: string; icon: typeof Waves; color
 
 const acquisitionModes: { value: AcquisitionMode; label: string; icon: typeof Satellite; description: string }[] = [
   { value: "auto", label: "Auto", icon: Satellite, description: "Selects best sensor based on conditions" },
-  { value: "optical", label: "Optical", icon: Sun, description: "Sentinel-2 (requires clear sky)" },
+  { value: "optical", label: "Optical", icon: Sun, description: "Sentinel-2 (falls back to radar under cloud)" },
   { value: "radar", label: "Radar", icon: CloudRain, description: "Sentinel-1 (works in any weather)" },
 ];
 
-// Calculate risk level from satellite data
-function calculateRiskLevel(data: RegionAnalysis): 'low' | 'medium' | 'high' | 'critical' {
-  const { indicators, geeAnalysis, fireHotspots } = data;
-  
-  // Fire risk takes priority
-  if (indicators.fireRisk === 'critical' || fireHotspots.length >= 10) return 'critical';
-  if (indicators.fireRisk === 'high' || fireHotspots.length >= 5) return 'high';
-  
-  // Flood risk
-  if (indicators.floodRisk === 'high') return 'high';
-  if (geeAnalysis?.floodPercentage && geeAnalysis.floodPercentage > 10) return 'high';
-  
-  // Vegetation stress
-  if (geeAnalysis?.vegetationStress === 'high') return 'medium';
-  if (indicators.vegetationHealth === 'poor') return 'medium';
-  
-  // Medium conditions
-  if (indicators.fireRisk === 'medium' || indicators.floodRisk === 'medium') return 'medium';
-  
-  return 'low';
-}
+// Sentinel-2 scenes above this cloud cover are left out unless the analyst raises it
+// (GEE_S2_MAX_CLOUD_COVER in satellite-data)
+const DEFAULT_MAX_CLOUD_COVER = 30;
+
+const fireStatusColors: Record<FireEventStatus, string> = {
+  growing: "text-danger",
+  stable: "text-alert",
+  extinguished: "text-muted-foreground",
+};
+
+const daysAgo = (value: string) => {
+  const days = Math.floor((Date.now() - new Date(value).getTime()) / 86400000);
+  return days <= 0 ? "today" : days === 1 ? "yesterday" : `${days} days ago`;
+};
+
+const regionGroups: { kind: RegionKind; label: string }[] = [
+  { kind: "area", label: "Monitoring Areas" },
+  { kind: "county", label: "Counties" },
+];
 
 export function ControlPanel({
   regions,
@@ -89,20 +95,31 @@ export function ControlPanel({
   isLoading,
   onRunAcquisition,
   onRefresh,
+  overlayOpacity,
+  onOverlayOpacityChange,
+  overlayAvailable,
+  pinnedScene,
 }: ControlPanelProps) {
   const [acquisitionMode, setAcquisitionMode] = useState<AcquisitionMode>("auto");
-  const [opacity, setOpacity] = useState([70]);
+  const [maxCloudCover, setMaxCloudCover] = useState(DEFAULT_MAX_CLOUD_COVER);
   const [isPostingAnnouncement, setIsPostingAnnouncement] = useState(false);
 
-  const riskLevel = satelliteData ? calculateRiskLevel(satelliteData) : null;
+  const riskLevel = satelliteData ? analysisRisk(satelliteData).level : null;
+
+  // A pinned scene can only be analyzed by its own sensor: auto still acquires both sensors,
+  // a single-sensor mode becomes the scene's
+  const pinnedMode: AcquisitionMode | null = pinnedScene ? (isRadarProduct(pinnedScene) ? "radar" : "optical") : null;
+  const runMode = pinnedMode && acquisitionMode !== "auto" ? pinnedMode : acquisitionMode;
+  // The cloud limit only filters the Sentinel-2 date window
+  const usesCloudCover = runMode !== "radar" && pinnedMode !== "optical";
 
   const handleAcquisition = () => {
     if (!selectedRegion) {
       toast.error("Please select a region first");
       return;
     }
-    onRunAcquisition(acquisitionMode);
-    toast.success(`Starting ${acquisitionMode} acquisition for ${selectedRegion.displayName}`);
+    onRunAcquisition(runMode, maxCloudCover);
+    toast.success(`Starting ${runMode} acquisition for ${selectedRegion.displayName}`);
   };
 
   const handlePostVolunteerAnnouncement = async () => {
@@ -172,11 +189,20 @@ export function ControlPanel({
               <SelectValue placeholder="Choose a region..." />
             </SelectTrigger>
             <SelectContent>
-              {regions.map((region) => (
-                <SelectItem key={region.id} value={region.id}>
-                  {region.displayName}
-                </SelectItem>
-              ))}
+              {regionGroups.map((group) => {
+                const groupRegions = regions.filter((r) => (r.kind ?? "area") === group.kind);
+                if (groupRegions.length === 0) return null;
+                return (
+                  <SelectGroup key={group.kind}>
+                    <SelectLabel>{group.label}</SelectLabel>
+                    {groupRegions.map((region) => (
+                      <SelectItem key={region.id} value={region.id}>
+                        {region.displayName}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                );
+              })}
             </SelectContent>
           </Select>
         </div>
@@ -217,16 +243,19 @@ export function ControlPanel({
           <div className="space-y-2">
             {acquisitionModes.map((mode) => {
               const Icon = mode.icon;
-              const isSelected = acquisitionMode === mode.value;
+              const isSelected = runMode === mode.value;
+              const isDisabled = !!pinnedMode && mode.value !== "auto" && mode.value !== pinnedMode;
               return (
                 <button
                   key={mode.value}
                   onClick={() => setAcquisitionMode(mode.value)}
+                  disabled={isDisabled}
                   className={cn(
                     "w-full flex items-start gap-3 p-3 rounded-lg border transition-all duration-200 text-left",
                     isSelected
                       ? "bg-secondary border-primary/50"
-                      : "bg-card/50 border-border hover:bg-secondary/50"
+                      : "bg-card/50 border-border hover:bg-secondary/50",
+                    isDisabled && "opacity-50 cursor-not-allowed hover:bg-card/50"
                   )}
                 >
                   <Icon className={cn("w-4 h-4 mt-0.5", isSelected ? "text-primary" : "text-muted-foreground")} />
@@ -238,6 +267,29 @@ export function ControlPanel({
               );
             })}
           </div>
+          {pinnedScene && (
+            <p className="text-xs text-muted-foreground">
+              Pinned scene {pinnedScene.name} is analyzed with {pinnedMode === "radar" ? "Sentinel-1 radar" : "Sentinel-2 optical"}
+            </p>
+          )}
+        </div>
+
+        {/* Max Cloud Cover */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-foreground">
+              Max Cloud Cover
+            </label>
+            <span className="text-xs text-muted-foreground">{usesCloudCover ? `${maxCloudCover}%` : "Not used"}</span>
+          </div>
+          <Slider
+            value={[maxCloudCover]}
+            onValueChange={([value]) => setMaxCloudCover(value)}
+            max={100}
+            step={5}
+            disabled={!usesCloudCover}
+            className="w-full"
+          />
         </div>
 
         {/* Overlay Opacity */}
@@ -246,13 +298,14 @@ export function ControlPanel({
             <label className="text-sm font-medium text-foreground">
               Overlay Opacity
             </label>
-            <span className="text-xs text-muted-foreground">{opacity[0]}%</span>
+            <span className="text-xs text-muted-foreground">{overlayAvailable ? `${overlayOpacity}%` : "No overlay"}</span>
           </div>
           <Slider
-            value={opacity}
-            onValueChange={setOpacity}
+            value={[overlayOpacity]}
+            onValueChange={([value]) => onOverlayOpacityChange(value)}
             max={100}
             step={5}
+            disabled={!overlayAvailable}
             className="w-full"
           />
         </div>
@@ -328,6 +381,36 @@ export function ControlPanel({
                   )}
                 </div>
               </div>
+
+              {/* Sensor chosen by the acquisition mode */}
+              {satelliteData.geeAnalysis?.acquisition && (
+                <div className="flex items-center justify-between text-xs" title={satelliteData.geeAnalysis.acquisition.reason}>
+                  <span className="text-muted-foreground">Sensor ({satelliteData.geeAnalysis.acquisition.mode})</span>
+                  <span className="font-medium">
+                    {satelliteData.geeAnalysis.acquisition.sensor === "radar"
+                      ? "Sentinel-1 radar"
+                      : satelliteData.geeAnalysis.acquisition.sensor === "optical"
+                        ? "Sentinel-2 optical"
+                        : "None"}
+                  </span>
+                </div>
+              )}
+              {satelliteData.geeAnalysis?.acquisition?.pinnedScene && (
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-muted-foreground flex-shrink-0">Pinned Scene</span>
+                  <span className="font-mono truncate" title={satelliteData.geeAnalysis.acquisition.pinnedScene}>
+                    {satelliteData.geeAnalysis.acquisition.pinnedScene}
+                  </span>
+                </div>
+              )}
+              {satelliteData.geeAnalysis?.acquisition?.cloudCover && (
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-muted-foreground">Cloud Cover (S2)</span>
+                  <span className="font-mono">
+                    {satelliteData.geeAnalysis.acquisition.cloudCover.mean}% avg · {satelliteData.geeAnalysis.acquisition.cloudCover.max}% max
+                  </span>
+                </div>
+              )}
               
               {/* GEE NDVI - show for vegetation and hybrid */}
               {satelliteData.geeAnalysis && satelliteData.geeAnalysis.ndviMean !== null && (hazardType === "vegetation" || hazardType === "hybrid") && (
@@ -336,6 +419,7 @@ export function ControlPanel({
                     <span className="text-xs text-muted-foreground flex items-center gap-1">
                       <Leaf className="w-3 h-3" />
                       NDVI (GEE)
+                      <ProvenanceBadge provenance={satelliteData.geeAnalysis.provenance?.ndvi} />
                     </span>
                     <span className="text-sm font-mono text-vegetation">
                       {satelliteData.geeAnalysis.ndviMean.toFixed(3)}
@@ -361,6 +445,7 @@ export function ControlPanel({
                     <span className="text-xs text-muted-foreground flex items-center gap-1">
                       <Droplets className="w-3 h-3" />
                       Flood Coverage (GEE)
+                      <ProvenanceBadge provenance={satelliteData.geeAnalysis.provenance?.flood} />
                     </span>
                     <span className="text-sm font-mono text-flood">
                       {satelliteData.geeAnalysis.floodPercentage.toFixed(1)}%
@@ -382,12 +467,13 @@ export function ControlPanel({
                     <span className="text-xs text-muted-foreground flex items-center gap-1">
                       <Flame className="w-3 h-3" />
                       Fire Hotspots (FIRMS)
+                      <ProvenanceBadge provenance={satelliteData.indicators.provenance?.fire} />
                     </span>
                     <span className={cn(
                       "text-sm font-mono",
                       satelliteData.fireHotspots.length > 0 ? "text-danger" : "text-muted-foreground"
                     )}>
-                      {satelliteData.fireHotspots.length}
+                      {satelliteData.indicators.fireData?.activeHotspots ?? satelliteData.fireHotspots.length}
                     </span>
                   </div>
                   {satelliteData.indicators.fireData && (
@@ -402,6 +488,46 @@ export function ControlPanel({
                       </div>
                     </div>
                   )}
+                  {satelliteData.industrialHotspots && satelliteData.industrialHotspots.length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {satelliteData.industrialHotspots.length} industrial detection(s) excluded from fire risk
+                    </div>
+                  )}
+                  {satelliteData.fireEvents && satelliteData.fireEvents.length > 0 && (
+                    <div className="space-y-1 pt-1">
+                      <span className="text-xs text-muted-foreground">
+                        Fire Events ({satelliteData.fireEvents.length})
+                      </span>
+                      {satelliteData.fireEvents.slice(0, 3).map((event) => (
+                        <div key={event.id} className="flex items-center justify-between gap-2 text-xs bg-muted/50 rounded px-2 py-1">
+                          <span>
+                            {event.eventNumber && <span className="font-medium">#{event.eventNumber} </span>}
+                            {event.status && (
+                              <span className={cn(fireStatusColors[event.status], "capitalize")}>{event.status} </span>
+                            )}
+                            {(event.eventNumber || event.status) && "· "}
+                            started {daysAgo(event.firstDetection)} · ~{event.areaKm2.toFixed(1)} km²
+                          </span>
+                          <span className="font-mono flex-shrink-0">{event.cumulativeFRP.toFixed(1)} MW</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Metrics that are not observations */}
+              {satelliteData.indicators.provenance &&
+                Object.values(satelliteData.indicators.provenance).some((p) => p.status !== "measured") && (
+                <div className="flex items-start gap-2 p-2 rounded bg-alert/10 border border-alert/30 text-xs text-alert">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                  <span>
+                    {Object.entries(satelliteData.indicators.provenance)
+                      .filter(([, p]) => p.status !== "measured")
+                      .map(([metric, p]) => `${metric} ${p.status}`)
+                      .join(", ")}
+                    {" "}— not a satellite observation for this window.
+                  </span>
                 </div>
               )}
 
@@ -1,10 +1,22 @@
-import type { Region, HazardType } from "@/types";
-import { cn } from "@/lib/utils";
+import { useEffect, useRef } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import type { Region, HazardType, HazardMapResponse } from "@/types";
+import type { FireEvent, FireHotspot, ProductMetadata, RegionAnalysis } from "@/lib/satellite-api";
+import { cn, escapeHtml } from "@/lib/utils";
 import { MapPin, Satellite, Waves, Leaf, Layers, Flame } from "lucide-react";
 
 interface HazardMapProps {
+  regions?: Region[];
   region: Region | null;
+  onRegionSelect?: (region: Region) => void;
   hazardType: HazardType;
+  analysis?: RegionAnalysis | null;
+  hazardMap?: HazardMapResponse | null;
+  overlayOpacity?: number; // 0 - 100, from the ControlPanel slider
+  scenes?: ProductMetadata[]; // catalogue scenes listed in the ScenesPanel
+  highlightedSceneId?: string | null;
+  pinnedSceneId?: string | null;
   className?: string;
 }
 
@@ -15,45 +27,296 @@ const hazardConfig: Record<HazardType, { color: string; icon: typeof Waves; labe
   hybrid: { color: "#f97316", icon: Layers, label: "Combined Hazard" },
 };
 
-export function HazardMap({ region, hazardType, className }: HazardMapProps) {
+// Romania overview when no region is selected
+const ROMANIA_CENTER: L.LatLngTuple = [45.9432, 24.9668];
+const ROMANIA_ZOOM = 7;
+
+// Region.bbox is [minLon, minLat, maxLon, maxLat]; Leaflet wants [lat, lon] corners
+function bboxToLatLngs(bbox: number[]): L.LatLngTuple[] {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  return [
+    [minLat, minLon],
+    [minLat, maxLon],
+    [maxLat, maxLon],
+    [maxLat, minLon],
+  ];
+}
+
+const SCENE_COLOR = "#a78bfa";
+
+const FIRE_EVENT_COLOR = "#f97316";
+
+const INDUSTRIAL_COLOR = "#94a3b8";
+
+// Scale marker radius with fire radiative power (MW), clamped so large fires stay readable
+function hotspotRadius(frp: number): number {
+  return Math.min(4 + Math.sqrt(Math.max(frp, 0)) * 1.5, 22);
+}
+
+function hotspotPopup(hotspot: FireHotspot): string {
+  return `
+    <div style="font-size: 12px; line-height: 1.5">
+      <strong>${hotspot.category === "industrial" ? "Industrial heat source" : "Fire hotspot"}</strong><br/>
+      ${hotspot.staticSource ? `${escapeHtml(hotspot.staticSource)} (not scored as fire)<br/>` : ""}
+      FRP: ${Number(hotspot.frp).toFixed(1)} MW<br/>
+      Confidence: ${escapeHtml(hotspot.confidence)}<br/>
+      Acquired: ${escapeHtml(hotspot.acq_date)} ${escapeHtml(hotspot.acq_time)}<br/>
+      Satellite: ${escapeHtml(hotspot.satellite)}
+    </div>
+  `;
+}
+
+const formatDetection = (value: string) =>
+  new Date(value).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+function fireEventPopup(event: FireEvent): string {
+  return `
+    <div style="font-size: 12px; line-height: 1.5">
+      <strong>${event.eventNumber ? `Fire #${event.eventNumber}` : "Fire event"}</strong>${event.status ? ` · ${escapeHtml(event.status)}` : ""}<br/>
+      Hotspots: ${Number(event.hotspotCount)}<br/>
+      Area: ~${Number(event.areaKm2).toFixed(2)} km² (perimeter ${Number(event.perimeterKm).toFixed(1)} km)<br/>
+      Cumulative FRP: ${Number(event.cumulativeFRP).toFixed(1)} MW<br/>
+      First: ${escapeHtml(formatDetection(event.firstDetection))}<br/>
+      Last: ${escapeHtml(formatDetection(event.lastDetection))}
+    </div>
+  `;
+}
+
+export function HazardMap({
+  regions = [],
+  region,
+  onRegionSelect,
+  hazardType,
+  analysis,
+  hazardMap,
+  overlayOpacity = 70,
+  scenes = [],
+  highlightedSceneId,
+  pinnedSceneId,
+  className,
+}: HazardMapProps) {
   const config = hazardConfig[hazardType];
   const Icon = config.icon;
+  const opacity = overlayOpacity / 100;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const regionLayerRef = useRef<L.LayerGroup | null>(null);
+  const hotspotLayerRef = useRef<L.LayerGroup | null>(null);
+  const overlayLayerRef = useRef<L.LayerGroup | null>(null);
+  const sceneLayerRef = useRef<L.LayerGroup | null>(null);
+  const onRegionSelectRef = useRef(onRegionSelect);
+  onRegionSelectRef.current = onRegionSelect;
+  // Read when the overlay is rebuilt; opacity changes alone are applied in place below
+  const opacityRef = useRef(opacity);
+  opacityRef.current = opacity;
+
+  // Create the Leaflet map once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current, {
+      center: ROMANIA_CENTER,
+      zoom: ROMANIA_ZOOM,
+      zoomControl: true,
+    });
+
+    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+      maxZoom: 18,
+      className: "map-tiles-dark",
+    }).addTo(map);
+
+    overlayLayerRef.current = L.layerGroup().addTo(map);
+    sceneLayerRef.current = L.layerGroup().addTo(map);
+    regionLayerRef.current = L.layerGroup().addTo(map);
+    hotspotLayerRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    // The map is mounted inside flex/lazy containers whose size settles after first paint
+    const observer = new ResizeObserver(() => map.invalidateSize());
+    observer.observe(containerRef.current);
+
+    return () => {
+      observer.disconnect();
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  // Region footprints - every region outlined, the selected one highlighted
+  useEffect(() => {
+    const layer = regionLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    // Outline the set the selected region belongs to, so areas and counties don't overlap
+    const kind = region?.kind ?? "area";
+    const sameSet = regions.filter((r) => (r.kind ?? "area") === kind);
+    const footprints = sameSet.length > 0 ? sameSet : region ? [region] : [];
+    footprints.forEach((r) => {
+      const isSelected = r.id === region?.id;
+      const style: L.PathOptions = {
+        color: isSelected ? config.color : "#94a3b8",
+        weight: isSelected ? 2.5 : 1,
+        dashArray: isSelected ? undefined : "4 4",
+        fillColor: config.color,
+        fillOpacity: isSelected ? 0.08 : 0,
+      };
+      // Prefer the registry geometry so the map shows the footprint the analysis used
+      const footprint = r.geometry
+        ? L.geoJSON(r.geometry, { style: () => style })
+        : L.polygon(bboxToLatLngs(r.bbox), style);
+      footprint.bindTooltip(escapeHtml(r.displayName), { sticky: true });
+      footprint.on("click", () => onRegionSelectRef.current?.(r));
+      footprint.addTo(layer);
+    });
+  }, [regions, region, config.color]);
+
+  // Scene footprints - outlined only, the highlighted and pinned scenes drawn on top
+  useEffect(() => {
+    const layer = sceneLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    const emphasized = (scene: ProductMetadata) => scene.id === highlightedSceneId || scene.id === pinnedSceneId;
+    const ordered = [...scenes.filter((s) => !emphasized(s)), ...scenes.filter(emphasized)];
+    ordered.forEach((scene) => {
+      if (!scene.footprint) return;
+      const isEmphasized = emphasized(scene);
+      L.geoJSON(scene.footprint, {
+        style: () => ({
+          color: SCENE_COLOR,
+          weight: isEmphasized ? 2.5 : 1,
+          opacity: isEmphasized ? 1 : 0.5,
+          dashArray: scene.id === pinnedSceneId ? undefined : "6 4",
+          fillColor: SCENE_COLOR,
+          fillOpacity: isEmphasized ? 0.12 : 0,
+        }),
+        interactive: false,
+      }).addTo(layer);
+    });
+  }, [scenes, highlightedSceneId, pinnedSceneId]);
+
+  // Fly to the selected region
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
 
-  // Build OpenStreetMap iframe URL centered on region or Romania
-  const lat = region?.center[0] || 45.9432;
-  const lon = region?.center[1] || 24.9668;
-  const zoom = region?.zoom || 7;
-  
-  // Use OpenStreetMap embed
-  const mapUrl = `https://www.openstreetmap.org/export/embed.html?bbox=${
-    region ? `${region.bbox[0]},${region.bbox[1]},${region.bbox[2]},${region.bbox[3]}` : `22,43,30,48`
-  }&layer=mapnik&marker=${lat},${lon}`;
+    if (region) {
+      map.fitBounds(L.latLngBounds(bboxToLatLngs(region.bbox)), { padding: [24, 24] });
+    } else {
+      map.setView(ROMANIA_CENTER, ROMANIA_ZOOM);
+    }
+  }, [region]);
+
+  // FIRMS hotspots sized by FRP, and the fire events they form
+  useEffect(() => {
+    const layer = hotspotLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    if (!analysis || analysis.regionId !== region?.id) return;
+    if (hazardType !== "fire" && hazardType !== "hybrid") return;
+
+    // Event perimeters under the hotspots that make them up
+    analysis.fireEvents?.forEach((event) => {
+      L.geoJSON(event.perimeter, {
+        style: () => ({
+          color: FIRE_EVENT_COLOR,
+          weight: 1.5,
+          fillColor: FIRE_EVENT_COLOR,
+          fillOpacity: 0.2,
+        }),
+      })
+        .bindPopup(fireEventPopup(event))
+        .addTo(layer);
+    });
+
+    analysis.fireHotspots.forEach((hotspot) => {
+      if (!Number.isFinite(hotspot.latitude) || !Number.isFinite(hotspot.longitude)) return;
+      L.circleMarker([hotspot.latitude, hotspot.longitude], {
+        radius: hotspotRadius(hotspot.frp),
+        color: "#fca5a5",
+        weight: 1,
+        fillColor: "#ef4444",
+        fillOpacity: 0.75,
+      })
+        .bindPopup(hotspotPopup(hotspot))
+        .addTo(layer);
+    });
+
+    // Static thermal sources (steelworks, flares) as grey squares, kept out of fire risk
+    analysis.industrialHotspots?.forEach((hotspot) => {
+      if (!Number.isFinite(hotspot.latitude) || !Number.isFinite(hotspot.longitude)) return;
+      L.rectangle(L.latLng(hotspot.latitude, hotspot.longitude).toBounds(400), {
+        color: INDUSTRIAL_COLOR,
+        weight: 1,
+        fillColor: INDUSTRIAL_COLOR,
+        fillOpacity: 0.6,
+      })
+        .bindPopup(hotspotPopup(hotspot))
+        .addTo(layer);
+    });
+  }, [analysis, region, hazardType]);
+
+  // Hazard raster / vector overlay from the hazard map response
+  useEffect(() => {
+    const layer = overlayLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    if (!hazardMap || hazardMap.status !== "success") return;
+
+    const opacity = opacityRef.current;
+    const bounds = hazardMap.bounds
+      ? L.latLngBounds(hazardMap.bounds)
+      : region
+        ? L.latLngBounds(bboxToLatLngs(region.bbox))
+        : null;
+
+    if (hazardMap.overlay_url && bounds) {
+      L.imageOverlay(hazardMap.overlay_url, bounds, { opacity }).addTo(layer);
+    }
+
+    if (hazardMap.geojson) {
+      L.geoJSON(hazardMap.geojson, {
+        style: () => ({
+          color: config.color,
+          weight: 1,
+          opacity,
+          fillColor: config.color,
+          fillOpacity: opacity * 0.6,
+        }),
+      }).addTo(layer);
+    }
+  }, [hazardMap, region, config.color]);
+
+  useEffect(() => {
+    overlayLayerRef.current?.eachLayer((layer) => {
+      if (layer instanceof L.ImageOverlay) {
+        layer.setOpacity(opacity);
+      } else if (layer instanceof L.GeoJSON) {
+        layer.setStyle({ opacity, fillOpacity: opacity * 0.6 });
+      }
+    });
+  }, [opacity]);
+
+  const lat = region?.center[0] ?? ROMANIA_CENTER[0];
+  const lon = region?.center[1] ?? ROMANIA_CENTER[1];
+  const currentAnalysis = analysis && analysis.regionId === region?.id ? analysis : null;
+  const hotspotCount = currentAnalysis?.indicators.fireData?.activeHotspots ?? currentAnalysis?.fireHotspots.length ?? 0;
+  const eventCount = currentAnalysis?.fireEvents?.length;
+  const industrialCount = currentAnalysis?.industrialHotspots?.length;
 
   return (
     <div className={cn("relative w-full h-full rounded-xl overflow-hidden border border-border bg-card", className)}>
-      {/* Map iframe */}
-      <iframe
-        src={mapUrl}
-        className="w-full h-full border-0"
-        style={{ filter: "invert(90%) hue-rotate(180deg)" }}
-        title="SAFE-RO Map"
-        loading="lazy"
-      />
-
-      {/* Hazard Indicator Overlay */}
-      {region && (
-        <div 
-          className="absolute inset-4 border-2 rounded-lg pointer-events-none animate-pulse"
-          style={{ 
-            borderColor: config.color,
-            boxShadow: `0 0 20px ${config.color}40, inset 0 0 20px ${config.color}20`
-          }}
-        />
-      )}
+      {/* Leaflet map */}
+      <div ref={containerRef} className="w-full h-full z-0" />
 
       {/* Info Panel */}
       {region && (
-        <div className="absolute top-4 right-4 glass-panel p-3 z-10 min-w-[180px]">
+        <div className="absolute top-4 right-4 glass-panel p-3 z-[500] min-w-[180px]">
           <div className="flex items-center gap-2 mb-2">
             <Satellite className="w-4 h-4 text-primary" />
             <span className="text-xs font-semibold text-foreground">{region.displayName}</span>
@@ -61,13 +324,24 @@ export function HazardMap({ region, hazardType, className }: HazardMapProps) {
           <div className="text-xs text-muted-foreground space-y-1">
             <div>Lat: {lat.toFixed(4)}°</div>
             <div>Lon: {lon.toFixed(4)}°</div>
-            <div>Zoom: {zoom}x</div>
+            {hazardMap?.metadata && (
+              <div>
+                {hazardMap.metadata.sensor === "sentinel-1" ? "Sentinel-1" : "Sentinel-2"} · {hazardMap.metadata.acquisition_date}
+              </div>
+            )}
+            {(hazardType === "fire" || hazardType === "hybrid") && <div>Hotspots: {hotspotCount}</div>}
+            {(hazardType === "fire" || hazardType === "hybrid") && eventCount !== undefined && (
+              <div>Fire events: {eventCount}</div>
+            )}
+            {(hazardType === "fire" || hazardType === "hybrid") && !!industrialCount && (
+              <div>Industrial: {industrialCount}</div>
+            )}
           </div>
         </div>
       )}
 
       {/* Legend */}
-      <div className="absolute bottom-4 left-4 glass-panel p-3 z-10">
+      <div className="absolute bottom-4 left-4 glass-panel p-3 z-[500]">
         <h4 className="text-xs font-semibold mb-2 text-foreground">Legend</h4>
         <div className="flex items-center gap-2">
           <div className="w-4 h-4 rounded flex items-center justify-center" style={{ backgroundColor: config.color }}>
@@ -77,15 +351,43 @@ export function HazardMap({ region, hazardType, className }: HazardMapProps) {
         </div>
         {region && (
           <div className="flex items-center gap-2 mt-1.5">
-            <div className="w-4 h-4 rounded border-2 border-dashed border-foreground/50" />
+            <div className="w-4 h-4 rounded border-2" style={{ borderColor: config.color }} />
             <span className="text-xs text-muted-foreground">Region Bounds</span>
           </div>
         )}
+        {scenes.some((s) => s.footprint) && (
+          <div className="flex items-center gap-2 mt-1.5">
+            <div className="w-4 h-4 rounded border-2 border-dashed" style={{ borderColor: SCENE_COLOR }} />
+            <span className="text-xs text-muted-foreground">Scene Footprint</span>
+          </div>
+        )}
+        {(hazardType === "fire" || hazardType === "hybrid") && (
+          <div className="flex items-center gap-2 mt-1.5">
+            <div className="w-4 h-4 flex items-center justify-center">
+              <div className="w-2.5 h-2.5 rounded-full bg-danger border border-danger/40" />
+            </div>
+            <span className="text-xs text-muted-foreground">Hotspot (size = FRP)</span>
+          </div>
+        )}
+        {(hazardType === "fire" || hazardType === "hybrid") && !!eventCount && (
+          <div className="flex items-center gap-2 mt-1.5">
+            <div className="w-4 h-4 rounded border" style={{ borderColor: FIRE_EVENT_COLOR, backgroundColor: `${FIRE_EVENT_COLOR}33` }} />
+            <span className="text-xs text-muted-foreground">Fire Event Perimeter</span>
+          </div>
+        )}
+        {(hazardType === "fire" || hazardType === "hybrid") && !!industrialCount && (
+          <div className="flex items-center gap-2 mt-1.5">
+            <div className="w-4 h-4 flex items-center justify-center">
+              <div className="w-2.5 h-2.5 border" style={{ borderColor: INDUSTRIAL_COLOR, backgroundColor: `${INDUSTRIAL_COLOR}99` }} />
+            </div>
+            <span className="text-xs text-muted-foreground">Industrial Heat (not scored)</span>
+          </div>
+        )}
       </div>
 
       {/* No region selected overlay */}
       {!region && (
-        <div className="absolute inset-0 flex items-center justify-center bg-background/70 backdrop-blur-sm z-20">
+        <div className="absolute inset-0 flex items-center justify-center bg-background/70 backdrop-blur-sm z-[600] pointer-events-none">
           <div className="text-center">
             <MapPin className="w-12 h-12 text-primary mx-auto mb-3 animate-bounce" />
             <p className="text-foreground font-medium">Select a Region</p>
@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { isRadarProduct, searchProducts, type ProductMetadata } from "@/lib/satellite-api";
+import type { Region } from "@/types";
+import { Satellite, RefreshCw, AlertCircle, Pin, PinOff, Cloud, Radar } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type SceneMission = "sentinel-2" | "sentinel-1";
+
+interface ScenesPanelProps {
+  region: Region | null;
+  pinnedScene: ProductMetadata | null;
+  onPinScene: (scene: ProductMetadata | null) => void;
+  highlightedSceneId?: string | null;
+  onHighlight?: (sceneId: string | null) => void;
+  onScenesChange?: (scenes: ProductMetadata[]) => void; // the listed scenes, for the map footprints
+}
+
+const missionTabs: { value: SceneMission; label: string }[] = [
+  { value: "sentinel-2", label: "Sentinel-2" },
+  { value: "sentinel-1", label: "Sentinel-1" },
+];
+
+// Catalogue window listed; every scene is shown, the cloud cover badge tells the clear ones apart
+const SCENE_WINDOW_DAYS = 30;
+
+function cloudStyle(cloudCover: number): string {
+  if (cloudCover < 20) return "bg-vegetation/20 text-vegetation border-vegetation/30";
+  if (cloudCover < 60) return "bg-alert/20 text-alert border-alert/30";
+  return "bg-danger/20 text-danger border-danger/30";
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+// Sentinel scenes over the selected region from the Copernicus catalogue. Pinning a scene makes
+// the next analysis run use it instead of the latest scenes in the window.
+export function ScenesPanel({
+  region,
+  pinnedScene,
+  onPinScene,
+  highlightedSceneId,
+  onHighlight,
+  onScenesChange,
+}: ScenesPanelProps) {
+  const [mission, setMission] = useState<SceneMission>("sentinel-2");
+  const [scenes, setScenes] = useState<ProductMetadata[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  // onScenesChange is a notification only; a new callback identity must not refetch
+  const onScenesChangeRef = useRef(onScenesChange);
+  onScenesChangeRef.current = onScenesChange;
+
+  useEffect(() => {
+    if (!region) {
+      setScenes([]);
+      onScenesChangeRef.current?.([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+    searchProducts(region.id, mission, 100, SCENE_WINDOW_DAYS)
+      .then((products) => {
+        if (cancelled) return;
+        setScenes(products);
+        onScenesChangeRef.current?.(products);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to load scenes");
+        setScenes([]);
+        onScenesChangeRef.current?.([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [region, mission, reloadCount]);
+
+  return (
+    <div className="glass-panel-elevated border border-border rounded-xl overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 bg-gradient-to-r from-primary/10 to-accent/10 border-b border-border flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Satellite className="w-4 h-4 text-primary" />
+          <span>Scenes</span>
+          {scenes.length > 0 && (
+            <span className="text-xs font-normal text-muted-foreground">last {SCENE_WINDOW_DAYS} days</span>
+          )}
+        </h3>
+        <div className="flex items-center gap-1">
+          {missionTabs.map((tab) => (
+            <Button
+              key={tab.value}
+              variant={mission === tab.value ? "secondary" : "ghost"}
+              size="sm"
+              className="h-8 px-2 text-xs"
+              onClick={() => setMission(tab.value)}
+            >
+              {tab.label}
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setReloadCount((c) => c + 1)}
+            disabled={isLoading || !region}
+            className="h-8 w-8 p-0"
+          >
+            <RefreshCw className={cn("w-4 h-4", isLoading && "animate-spin")} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Pinned scene */}
+      {pinnedScene && (
+        <div className="px-4 py-2 border-b border-border bg-primary/5 flex items-center justify-between gap-2">
+          <div className="min-w-0 text-xs">
+            <span className="text-muted-foreground">Next run uses </span>
+            <span className="font-mono break-all">{pinnedScene.name}</span>
+          </div>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs flex-shrink-0" onClick={() => onPinScene(null)}>
+            <PinOff className="w-3.5 h-3.5" />
+            Unpin
+          </Button>
+        </div>
+      )}
+
+      {/* Content */}
+      <div className="p-3">
+        {!region ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Select a region to browse its scenes</p>
+        ) : error ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-danger">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </div>
+        ) : isLoading && scenes.length === 0 ? (
+          <div className="flex items-center justify-center py-6">
+            <RefreshCw className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : scenes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No {mission === "sentinel-2" ? "Sentinel-2" : "Sentinel-1"} scenes in the last {SCENE_WINDOW_DAYS} days
+          </p>
+        ) : (
+          <div className="space-y-1.5 max-h-[320px] overflow-y-auto pr-1" onMouseLeave={() => onHighlight?.(null)}>
+            {scenes.map((scene) => {
+              const isPinned = scene.id === pinnedScene?.id;
+              const SensorIcon = isRadarProduct(scene) ? Radar : Cloud;
+              return (
+                <div
+                  key={scene.id}
+                  className={cn(
+                    "flex items-center justify-between gap-3 px-3 py-2 rounded-lg border bg-card/50",
+                    isPinned ? "border-primary/60" : "border-border/50",
+                    scene.id === highlightedSceneId && "bg-accent/10"
+                  )}
+                  onMouseEnter={() => onHighlight?.(scene.id)}
+                >
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">{formatDate(scene.acquisitionDate)}</span>
+                      <span className="text-xs text-muted-foreground flex items-center gap-1">
+                        <SensorIcon className="w-3 h-3" />
+                        {scene.satellite}
+                      </span>
+                      {scene.cloudCover !== undefined && (
+                        <Badge className={cn("text-[10px]", cloudStyle(scene.cloudCover))}>
+                          {scene.cloudCover}% cloud
+                        </Badge>
+                      )}
+                      {!scene.footprint && (
+                        <span className="text-[10px] text-muted-foreground/70">no footprint</span>
+                      )}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground/70 font-mono truncate" title={scene.name}>
+                      {scene.name}
+                    </p>
+                  </div>
+                  <Button
+                    variant={isPinned ? "secondary" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs flex-shrink-0"
+                    onClick={() => onPinScene(isPinned ? null : scene)}
+                  >
+                    {isPinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                    {isPinned ? "Unpin" : "Pin"}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Area,
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { getAnalysisHistory } from "@/lib/satellite-api";
+import {
+  ANOMALY_Z_SCORE,
+  buildBaseline,
+  buildDailySeries,
+  flagAnomalies,
+  type TrendBaseline,
+  type TrendMetric,
+  type TrendPoint,
+} from "@/lib/trends";
+import type { Region } from "@/types";
+import { TrendingUp, RefreshCw, AlertCircle, Leaf, Waves, Flame } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TrendsPanelProps {
+  region: Region | null;
+  refreshKey?: unknown; // changes when a new analysis was stored, e.g. the latest RegionAnalysis
+}
+
+const trendWindows = [30, 90, 180] as const;
+type TrendWindow = (typeof trendWindows)[number];
+
+const DAY_MS = 86400000;
+// Seasonal baseline = the same window one year earlier, padded on both sides
+const BASELINE_PADDING_DAYS = 15;
+
+const ANOMALY_COLOR = "hsl(var(--danger))";
+
+const ndviConfig = {
+  ndviMean: { label: "NDVI mean", color: "hsl(var(--vegetation))" },
+  ndviRange: { label: "NDVI min–max", color: "hsl(var(--vegetation))" },
+} satisfies ChartConfig;
+
+const floodConfig = {
+  floodPercentage: { label: "Flood %", color: "hsl(var(--flood))" },
+  waterPercentage: { label: "Water %", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const fireConfig = {
+  hotspotCount: { label: "Hotspots", color: "hsl(var(--danger))" },
+  totalFRP: { label: "FRP (MW)", color: "hsl(var(--alert))" },
+} satisfies ChartConfig;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+// Line dot that only renders for anomalous points
+function anomalyDot(metric: TrendMetric) {
+  return (props: { cx?: number; cy?: number; index?: number; payload?: TrendPoint }) => {
+    const { cx, cy, index, payload } = props;
+    if (cx === undefined || cy === undefined || !payload?.anomalies[metric]) {
+      return <g key={`${metric}-${index}`} />;
+    }
+    return (
+      <circle
+        key={`${metric}-${index}`}
+        cx={cx}
+        cy={cy}
+        r={4}
+        fill={ANOMALY_COLOR}
+        stroke="hsl(var(--background))"
+        strokeWidth={1}
+      />
+    );
+  };
+}
+
+// Shaded "normal" band (mean ± z·σ) for a metric
+function baselineBand(baseline: TrendBaseline | null, metric: TrendMetric, yAxisId?: string) {
+  const stats = baseline?.metrics[metric];
+  if (!stats) return null;
+  return (
+    <ReferenceArea
+      yAxisId={yAxisId}
+      y1={Math.max(stats.mean - ANOMALY_Z_SCORE * stats.std, metric === "ndviMean" ? -1 : 0)}
+      y2={stats.mean + ANOMALY_Z_SCORE * stats.std}
+      fill="hsl(var(--muted-foreground))"
+      fillOpacity={0.08}
+      strokeOpacity={0}
+      ifOverflow="extendDomain"
+    />
+  );
+}
+
+export function TrendsPanel({ region, refreshKey }: TrendsPanelProps) {
+  const [windowDays, setWindowDays] = useState<TrendWindow>(90);
+  const [points, setPoints] = useState<TrendPoint[]>([]);
+  const [baseline, setBaseline] = useState<TrendBaseline | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (!region) {
+      setPoints([]);
+      setBaseline(null);
+      return;
+    }
+
+    let cancelled = false;
+    const now = Date.now();
+    const from = new Date(now - windowDays * DAY_MS);
+    const seasonalFrom = new Date(now - (windowDays + 365 + BASELINE_PADDING_DAYS) * DAY_MS);
+    const seasonalTo = new Date(now - (365 - BASELINE_PADDING_DAYS) * DAY_MS);
+
+    setIsLoading(true);
+    setError(null);
+    Promise.all([
+      getAnalysisHistory(region.id, from, new Date(now)),
+      getAnalysisHistory(region.id, seasonalFrom, seasonalTo),
+    ])
+      .then(([current, seasonal]) => {
+        if (cancelled) return;
+        // Fire summaries of older runs can reach back before the window start
+        const fromDay = from.toISOString().slice(0, 10);
+        const series = buildDailySeries(current.snapshots).filter((p) => p.date >= fromDay);
+        const trendBaseline = buildBaseline(buildDailySeries(seasonal.snapshots), series);
+        setPoints(flagAnomalies(series, trendBaseline));
+        setBaseline(trendBaseline);
+      })
+      .catch((err) => {
+        console.error("[TrendsPanel] Failed to load history:", err);
+        if (!cancelled) setError("Failed to load analysis history");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [region, windowDays, refreshKey, reloadCount]);
+
+  const chartData = useMemo(
+    () =>
+      points.map((p) => ({
+        ...p,
+        ndviRange: p.ndviMin !== null && p.ndviMax !== null ? [p.ndviMin, p.ndviMax] : null,
+      })),
+    [points]
+  );
+
+  const anomalyCount = points.reduce((sum, p) => sum + Object.keys(p.anomalies).length, 0);
+  const hasGEEData = points.some((p) => p.ndviMean !== null || p.floodPercentage !== null || p.waterPercentage !== null);
+  const hasFireData = points.some((p) => p.hotspotCount !== null);
+
+  return (
+    <div className="glass-panel-elevated border border-border rounded-xl overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 bg-gradient-to-r from-primary/10 to-vegetation/10 border-b border-border flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-primary" />
+          <span>Trends</span>
+          {region && <span className="text-sm font-normal text-muted-foreground">{region.displayName}</span>}
+          {anomalyCount > 0 && (
+            <Badge variant="outline" className="text-xs text-danger border-danger/40">
+              {anomalyCount} anomal{anomalyCount === 1 ? "y" : "ies"}
+            </Badge>
+          )}
+        </h3>
+        <div className="flex items-center gap-1">
+          {trendWindows.map((days) => (
+            <Button
+              key={days}
+              variant={windowDays === days ? "secondary" : "ghost"}
+              size="sm"
+              className="h-8 px-2 text-xs"
+              onClick={() => setWindowDays(days)}
+            >
+              {days}d
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setReloadCount((c) => c + 1)}
+            disabled={!region || isLoading}
+            className="h-8 w-8 p-0"
+          >
+            <RefreshCw className={cn("w-4 h-4", isLoading && "animate-spin")} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="p-3">
+        {!region ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Select a region to see its history</p>
+        ) : isLoading && points.length === 0 ? (
+          <div className="flex items-center justify-center py-6">
+            <RefreshCw className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-danger text-center py-6">{error}</p>
+        ) : points.length === 0 ? (
+          <div className="text-center py-6 space-y-2">
+            <AlertCircle className="w-8 h-8 text-muted-foreground/50 mx-auto" />
+            <p className="text-sm text-muted-foreground">No stored analyses in the last {windowDays} days</p>
+            <p className="text-xs text-muted-foreground/70">Every analysis run is recorded and will appear here</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-3">
+              {/* NDVI */}
+              <div className="space-y-1">
+                <p className="text-xs font-medium flex items-center gap-1.5">
+                  <Leaf className="w-3.5 h-3.5 text-vegetation" /> Vegetation (NDVI)
+                </p>
+                <ChartContainer config={ndviConfig} className="aspect-auto h-[160px] w-full">
+                  <ComposedChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} domain={["auto", "auto"]} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => formatDay(String(label))} />} />
+                    {baselineBand(baseline, "ndviMean")}
+                    <Area
+                      dataKey="ndviRange"
+                      stroke="none"
+                      fill="var(--color-ndviRange)"
+                      fillOpacity={0.15}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      dataKey="ndviMean"
+                      stroke="var(--color-ndviMean)"
+                      strokeWidth={2}
+                      dot={anomalyDot("ndviMean")}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  </ComposedChart>
+                </ChartContainer>
+              </div>
+
+              {/* Flood and water extent */}
+              <div className="space-y-1">
+                <p className="text-xs font-medium flex items-center gap-1.5">
+                  <Waves className="w-3.5 h-3.5 text-flood" /> Flood &amp; water extent (%)
+                </p>
+                <ChartContainer config={floodConfig} className="aspect-auto h-[160px] w-full">
+                  <ComposedChart data={chartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => formatDay(String(label))} />} />
+                    {baselineBand(baseline, "floodPercentage")}
+                    <Line
+                      dataKey="floodPercentage"
+                      stroke="var(--color-floodPercentage)"
+                      strokeWidth={2}
+                      dot={anomalyDot("floodPercentage")}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                    <Line
+                      dataKey="waterPercentage"
+                      stroke="var(--color-waterPercentage)"
+                      strokeWidth={1.5}
+                      strokeDasharray="4 3"
+                      dot={anomalyDot("waterPercentage")}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  </ComposedChart>
+                </ChartContainer>
+              </div>
+
+              {/* Fire activity */}
+              <div className="space-y-1">
+                <p className="text-xs font-medium flex items-center gap-1.5">
+                  <Flame className="w-3.5 h-3.5 text-danger" /> Daily hotspots &amp; FRP
+                </p>
+                <ChartContainer config={fireConfig} className="aspect-auto h-[160px] w-full">
+                  <ComposedChart data={chartData} margin={{ top: 5, right: -15, left: -20, bottom: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis yAxisId="count" tickLine={false} axisLine={false} allowDecimals={false} />
+                    <YAxis yAxisId="frp" orientation="right" tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => formatDay(String(label))} />} />
+                    {baselineBand(baseline, "hotspotCount", "count")}
+                    <Bar yAxisId="count" dataKey="hotspotCount" radius={2} isAnimationActive={false}>
+                      {/* Bars can't use the dot renderer, so anomalous days get the anomaly colour */}
+                      {chartData.map((p) => (
+                        <Cell
+                          key={p.date}
+                          fill={p.anomalies.hotspotCount ? ANOMALY_COLOR : "var(--color-hotspotCount)"}
+                          fillOpacity={p.anomalies.hotspotCount ? 1 : 0.6}
+                        />
+                      ))}
+                    </Bar>
+                    <Line
+                      yAxisId="frp"
+                      dataKey="totalFRP"
+                      stroke="var(--color-totalFRP)"
+                      strokeWidth={1.5}
+                      dot={anomalyDot("totalFRP")}
+                      connectNulls
+                      isAnimationActive={false}
+                    />
+                  </ComposedChart>
+                </ChartContainer>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-2 text-[10px] sm:text-xs text-muted-foreground">
+              <span className="flex items-center gap-1.5">
+                <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: ANOMALY_COLOR }} />
+                Anomaly: beyond ±{ANOMALY_Z_SCORE}σ of the{" "}
+                {baseline?.source === "seasonal"
+                  ? "same season last year"
+                  : baseline?.source === "mixed"
+                    ? "same season last year, or the displayed window where there is no seasonal history yet"
+                    : "displayed window (no seasonal history yet)"}
+                <span className="inline-block w-4 h-2.5 rounded-sm bg-muted-foreground/15 ml-2" /> normal range
+              </span>
+              {(!hasGEEData || !hasFireData) && (
+                <span>
+                  {!hasGEEData && "No measured Earth Engine values in this window. "}
+                  {!hasFireData && "No FIRMS data in this window."}
+                </span>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,10 @@ import {
   Users, 
   Shield,
   LogOut,
-  LogIn
+  LogIn,
+  MapIcon,
+  SlidersHorizontal,
+  Factory
 } from "lucide-react";
 import { useState } from "react";
 
@@ -27,11 +30,19 @@ const institutionalNavItems = [
   { path: "/volunteers", label: "Volunteers", icon: Users },
 ];
 
+const adminNavItems = [
+  { path: "/admin/regions", label: "Regions", icon: MapIcon },
+  { path: "/admin/thresholds", label: "Thresholds", icon: SlidersHorizontal },
+  { path: "/admin/static-sources", label: "Heat Sources", icon: Factory },
+];
+
 export function Header() {
   const location = useLocation();
-  const { user, signOut } = useAuth();
+  const { user, signOut, hasRole } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
+  const userNavItems = [...institutionalNavItems, ...(hasRole("admin") ? adminNavItems : [])];
+
   const handleSignOut = async () => {
     await signOut();
     setMobileMenuOpen(false);
@@ -78,7 +89,7 @@ export function Header() {
             })}
 
             {/* Institutional items (only if logged in) */}
-            {user && institutionalNavItems.map((item) => {
+            {user && userNavItems.map((item) => {
               const Icon = item.icon;
               const isActive = location.pathname === item.path;
               return (
@@ -166,7 +177,7 @@ export function Header() {
               {user && (
                 <>
                   <div className="border-t border-border my-2" />
-                  {institutionalNavItems.map((item) => {
+                  {userNavItems.map((item) => {
                     const Icon = item.icon;
                     const isActive = location.pathname === item.path;
                     return (
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from "react";
+import { invalidateRegions, loadRegions } from "@/lib/regions";
+import type { Region } from "@/types";
+
+export function useRegions() {
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadRegions()
+      .then((data) => {
+        if (!cancelled) {
+          setRegions(data);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        console.error("[useRegions] Failed to load regions:", err);
+        if (!cancelled) setError("Failed to load regions");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  // Refetch the registry, e.g. after an admin created or deleted a region
+  const reload = useCallback(() => {
+    invalidateRegions();
+    setVersion((v) => v + 1);
+  }, []);
+
+  return { regions, isLoading, error, reload };
+}
@@ -14,35 +14,370 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_notifications: {
+        Row: {
+          created_at: string
+          error: string | null
+          hazard_type: string
+          id: string
+          level: string
+          payload: Json | null
+          region_id: string
+          scheduled_for: string | null
+          sent_at: string | null
+          severity: string | null
+          snapshot_id: string | null
+          status: string
+          subscription_id: string
+          transport: string | null
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          hazard_type: string
+          id?: string
+          level: string
+          payload?: Json | null
+          region_id: string
+          scheduled_for?: string | null
+          sent_at?: string | null
+          severity?: string | null
+          snapshot_id?: string | null
+          status: string
+          subscription_id: string
+          transport?: string | null
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          hazard_type?: string
+          id?: string
+          level?: string
+          payload?: Json | null
+          region_id?: string
+          scheduled_for?: string | null
+          sent_at?: string | null
+          severity?: string | null
+          snapshot_id?: string | null
+          status?: string
+          subscription_id?: string
+          transport?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_notifications_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_notifications_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_snapshots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_notifications_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "alert_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       alert_subscriptions: {
         Row: {
+          confirmation_expires_at: string | null
+          confirmation_sent_at: string | null
+          confirmation_token: string | null
+          confirmed_at: string | null
           created_at: string
+          digest_frequency: string
           email: string
+          flood_threshold: number | null
           hazard_types: string[] | null
+          hotspot_threshold: number | null
           id: string
           is_active: boolean | null
+          min_severity: string
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
           region_id: string
+          timezone: string
           unsubscribe_token: string
         }
         Insert: {
+          confirmation_expires_at?: string | null
+          confirmation_sent_at?: string | null
+          confirmation_token?: string | null
+          confirmed_at?: string | null
           created_at?: string
+          digest_frequency?: string
           email: string
+          flood_threshold?: number | null
           hazard_types?: string[] | null
+          hotspot_threshold?: number | null
           id?: string
           is_active?: boolean | null
+          min_severity?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
           region_id: string
+          timezone?: string
           unsubscribe_token?: string
         }
         Update: {
+          confirmation_expires_at?: string | null
+          confirmation_sent_at?: string | null
+          confirmation_token?: string | null
+          confirmed_at?: string | null
           created_at?: string
+          digest_frequency?: string
           email?: string
+          flood_threshold?: number | null
           hazard_types?: string[] | null
+          hotspot_threshold?: number | null
           id?: string
           is_active?: boolean | null
+          min_severity?: string
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
           region_id?: string
+          timezone?: string
           unsubscribe_token?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "alert_subscriptions_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alerts: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          first_snapshot_id: string | null
+          hazard_type: string
+          id: string
+          last_seen_at: string
+          last_snapshot_id: string | null
+          message: string
+          opened_at: string
+          region_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          severity: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          first_snapshot_id?: string | null
+          hazard_type: string
+          id?: string
+          last_seen_at?: string
+          last_snapshot_id?: string | null
+          message: string
+          opened_at?: string
+          region_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          severity: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          first_snapshot_id?: string | null
+          hazard_type?: string
+          id?: string
+          last_seen_at?: string
+          last_snapshot_id?: string | null
+          message?: string
+          opened_at?: string
+          region_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          severity?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alerts_first_snapshot_id_fkey"
+            columns: ["first_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_snapshots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_last_snapshot_id_fkey"
+            columns: ["last_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_snapshots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alerts_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_snapshots: {
+        Row: {
+          analyzed_at: string
+          data_date: string | null
+          days_back: number
+          fire_daily: Json | null
+          fire_hotspots: Json
+          fire_risk: string
+          flood_percentage: number | null
+          flood_risk: string
+          gee_analysis: Json | null
+          high_confidence_count: number
+          hotspot_count: number
+          id: string
+          indicators: Json
+          max_brightness: number
+          ndvi_max: number | null
+          ndvi_mean: number | null
+          ndvi_min: number | null
+          region_id: string
+          total_frp: number
+          vegetation_health: string
+          water_percentage: number | null
+        }
+        Insert: {
+          analyzed_at?: string
+          data_date?: string | null
+          days_back: number
+          fire_daily?: Json | null
+          fire_hotspots?: Json
+          fire_risk: string
+          flood_percentage?: number | null
+          flood_risk: string
+          gee_analysis?: Json | null
+          high_confidence_count?: number
+          hotspot_count?: number
+          id?: string
+          indicators: Json
+          max_brightness?: number
+          ndvi_max?: number | null
+          ndvi_mean?: number | null
+          ndvi_min?: number | null
+          region_id: string
+          total_frp?: number
+          vegetation_health: string
+          water_percentage?: number | null
+        }
+        Update: {
+          analyzed_at?: string
+          data_date?: string | null
+          days_back?: number
+          fire_daily?: Json | null
+          fire_hotspots?: Json
+          fire_risk?: string
+          flood_percentage?: number | null
+          flood_risk?: string
+          gee_analysis?: Json | null
+          high_confidence_count?: number
+          hotspot_count?: number
+          id?: string
+          indicators?: Json
+          max_brightness?: number
+          ndvi_max?: number | null
+          ndvi_mean?: number | null
+          ndvi_min?: number | null
+          region_id?: string
+          total_frp?: number
+          vegetation_health?: string
+          water_percentage?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_snapshots_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fire_events: {
+        Row: {
+          area_km2: number
+          centroid_lat: number
+          centroid_lon: number
+          created_at: string
+          cumulative_frp: number
+          first_detected_at: string
+          hotspot_count: number
+          id: number
+          last_detected_at: string
+          max_frp: number
+          perimeter: Json
+          perimeter_km: number
+          region_id: string
+          sources: string[]
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          area_km2: number
+          centroid_lat: number
+          centroid_lon: number
+          created_at?: string
+          cumulative_frp: number
+          first_detected_at: string
+          hotspot_count: number
+          id?: number
+          last_detected_at: string
+          max_frp: number
+          perimeter: Json
+          perimeter_km: number
+          region_id: string
+          sources?: string[]
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          area_km2?: number
+          centroid_lat?: number
+          centroid_lon?: number
+          created_at?: string
+          cumulative_frp?: number
+          first_detected_at?: string
+          hotspot_count?: number
+          id?: number
+          last_detected_at?: string
+          max_frp?: number
+          perimeter?: Json
+          perimeter_km?: number
+          region_id?: string
+          sources?: string[]
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fire_events_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -71,6 +406,227 @@ export type Database = {
         }
         Relationships: []
       }
+      region_risk_thresholds: {
+        Row: {
+          hazard_type: string
+          model_version: number
+          region_id: string
+          thresholds: Json
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          hazard_type: string
+          model_version: number
+          region_id: string
+          thresholds: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          hazard_type?: string
+          model_version?: number
+          region_id?: string
+          thresholds?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "region_risk_thresholds_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      regions: {
+        Row: {
+          bbox: number[]
+          center: number[]
+          code: string | null
+          created_at: string
+          created_by: string | null
+          display_name: string
+          geometry: Json
+          id: string
+          kind: string
+          name: string
+          source: string
+          updated_at: string
+          zoom: number
+        }
+        Insert: {
+          bbox: number[]
+          center: number[]
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          display_name: string
+          geometry: Json
+          id: string
+          kind?: string
+          name: string
+          source?: string
+          updated_at?: string
+          zoom?: number
+        }
+        Update: {
+          bbox?: number[]
+          center?: number[]
+          code?: string | null
+          created_at?: string
+          created_by?: string | null
+          display_name?: string
+          geometry?: Json
+          id?: string
+          kind?: string
+          name?: string
+          source?: string
+          updated_at?: string
+          zoom?: number
+        }
+        Relationships: []
+      }
+      risk_threshold_changes: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          changed_by_email: string | null
+          hazard_type: string
+          id: string
+          model_version: number
+          previous_thresholds: Json | null
+          region_id: string | null
+          thresholds: Json | null
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          hazard_type: string
+          id?: string
+          model_version: number
+          previous_thresholds?: Json | null
+          region_id?: string | null
+          thresholds?: Json | null
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          hazard_type?: string
+          id?: string
+          model_version?: number
+          previous_thresholds?: Json | null
+          region_id?: string | null
+          thresholds?: Json | null
+        }
+        Relationships: []
+      }
+      risk_thresholds: {
+        Row: {
+          hazard_type: string
+          model_version: number
+          thresholds: Json
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          hazard_type: string
+          model_version: number
+          thresholds: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          hazard_type?: string
+          model_version?: number
+          thresholds?: Json
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      static_thermal_sources: {
+        Row: {
+          active: boolean
+          confirmed_at: string | null
+          created_at: string
+          geometry: Json
+          id: string
+          last_seen_at: string | null
+          name: string
+          origin: string
+          radius_km: number
+        }
+        Insert: {
+          active?: boolean
+          confirmed_at?: string | null
+          created_at?: string
+          geometry: Json
+          id?: string
+          last_seen_at?: string | null
+          name: string
+          origin?: string
+          radius_km?: number
+        }
+        Update: {
+          active?: boolean
+          confirmed_at?: string | null
+          created_at?: string
+          geometry?: Json
+          id?: string
+          last_seen_at?: string | null
+          name?: string
+          origin?: string
+          radius_km?: number
+        }
+        Relationships: []
+      }
+      subscription_alert_states: {
+        Row: {
+          changed_at: string
+          hazard_type: string
+          severity: string | null
+          snapshot_id: string | null
+          subscription_id: string
+          updated_at: string
+        }
+        Insert: {
+          changed_at?: string
+          hazard_type: string
+          severity?: string | null
+          snapshot_id?: string | null
+          subscription_id: string
+          updated_at?: string
+        }
+        Update: {
+          changed_at?: string
+          hazard_type?: string
+          severity?: string | null
+          snapshot_id?: string | null
+          subscription_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscription_alert_states_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_snapshots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_alert_states_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "alert_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -156,7 +712,43 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      latest_analysis_snapshots: {
+        Row: {
+          analyzed_at: string | null
+          data_date: string | null
+          days_back: number | null
+          fire_daily: Json | null
+          fire_hotspots: Json | null
+          fire_risk: string | null
+          flood_percentage: number | null
+          flood_risk: string | null
+          gee_analysis: Json | null
+          high_confidence_count: number | null
+          hotspot_count: number | null
+          id: string | null
+          indicators: Json | null
+          max_brightness: number | null
+          ndvi_max: number | null
+          ndvi_mean: number | null
+          ndvi_min: number | null
+          region_bbox: number[] | null
+          region_id: string | null
+          region_kind: string | null
+          region_name: string | null
+          total_frp: number | null
+          vegetation_health: string | null
+          water_percentage: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_snapshots_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
       has_role: {
@@ -166,6 +758,42 @@ export type Database = {
         }
         Returns: boolean
       }
+      track_fire_events: {
+        Args: {
+          _clusters: Json
+          _extinguished_days: number
+          _growth_ratio: number
+          _link_km: number
+          _now: string
+          _region_id: string
+        }
+        Returns: {
+          area_km2: number
+          centroid_lat: number
+          centroid_lon: number
+          created_at: string
+          cumulative_frp: number
+          first_detected_at: string
+          hotspot_count: number
+          id: number
+          last_detected_at: string
+          max_frp: number
+          perimeter: Json
+          perimeter_km: number
+          region_id: string
+          sources: string[]
+          status: string
+          updated_at: string
+        }[]
+      }
+      update_subscription_preferences: {
+        Args: {
+          _email: string
+          _preferences: Json
+          _region_ids: string[]
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "analyst" | "viewer"
@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { Alert, AlertStatus } from "@/types";
+
+// Hazard alerts raised by the satellite-data function from each stored analysis. One live
+// alert per region and hazard; analysts acknowledge and resolve them from the Dashboard.
+
+type AlertRow = Database["public"]["Tables"]["alerts"]["Row"] & { regions: { display_name: string } | null };
+
+const ALERT_TYPES: Record<string, Alert["type"]> = {
+  flood: "flood",
+  vegetation: "vegetation_stress",
+  fire: "fire_risk",
+};
+
+// Alerts shown per status in the inbox
+const MAX_ALERTS = 100;
+
+function toAlert(row: AlertRow): Alert {
+  return {
+    id: row.id,
+    region_id: row.region_id,
+    region_name: row.regions?.display_name ?? row.region_id,
+    type: ALERT_TYPES[row.hazard_type] ?? "flood",
+    severity: row.severity as Alert["severity"],
+    status: row.status as AlertStatus,
+    message: row.message,
+    timestamp: row.opened_at,
+    last_seen_at: row.last_seen_at,
+    acknowledged_at: row.acknowledged_at,
+    resolved_at: row.resolved_at,
+    auto_resolved: row.status === "resolved" && !row.resolved_by,
+  };
+}
+
+// Most recently active first
+export async function listAlerts(statuses: AlertStatus[], regionId?: string): Promise<Alert[]> {
+  let query = supabase
+    .from("alerts")
+    .select("*, regions(display_name)")
+    .in("status", statuses)
+    .order("last_seen_at", { ascending: false })
+    .limit(MAX_ALERTS);
+
+  if (regionId) {
+    query = query.eq("region_id", regionId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("[alerts] list error:", error);
+    throw new Error("Failed to load alerts");
+  }
+
+  return ((data || []) as AlertRow[]).map(toAlert);
+}
+
+// Who and when are recorded by the database
+export async function setAlertStatus(alertId: string, status: Exclude<AlertStatus, "open">): Promise<void> {
+  const { error } = await supabase.from("alerts").update({ status }).eq("id", alertId);
+
+  if (error) {
+    console.error("[alerts] update error:", error);
+    throw new Error(status === "resolved" ? "Failed to resolve alert" : "Failed to acknowledge alert");
+  }
+}
@@ -0,0 +1,13 @@
+// Edge function errors carry the JSON body ({ error }) in the response context
+export async function functionErrorMessage(error: { message?: string; context?: unknown }, fallback: string): Promise<string> {
+  const response = error.context;
+  if (response instanceof Response) {
+    try {
+      const body = await response.json();
+      if (body?.error) return body.error;
+    } catch {
+      // not JSON
+    }
+  }
+  return error.message || fallback;
+}
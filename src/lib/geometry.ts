@@ -0,0 +1,104 @@
+// Parsing of uploaded region footprints (GeoJSON / KML) into a single Polygon or MultiPolygon.
+// The manage-regions edge function validates the result again before saving.
+
+export type RegionGeometry = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+
+function closeRing(ring: number[][]): number[][] {
+  if (ring.length === 0) return ring;
+  const [firstLon, firstLat] = ring[0];
+  const [lastLon, lastLat] = ring[ring.length - 1];
+  return firstLon === lastLon && firstLat === lastLat ? ring : [...ring, ring[0]];
+}
+
+// Merge any number of polygonal geometries into one geometry
+function mergePolygons(geometries: GeoJSON.Geometry[]): RegionGeometry {
+  const polygons: GeoJSON.Position[][][] = [];
+  for (const geometry of geometries) {
+    if (geometry.type === "Polygon") {
+      polygons.push(geometry.coordinates);
+    } else if (geometry.type === "MultiPolygon") {
+      polygons.push(...geometry.coordinates);
+    } else if (geometry.type === "GeometryCollection") {
+      const merged = mergePolygons(geometry.geometries);
+      polygons.push(...(merged.type === "Polygon" ? [merged.coordinates] : merged.coordinates));
+    }
+  }
+
+  if (polygons.length === 0) {
+    throw new Error("No polygon found in the file");
+  }
+
+  return polygons.length === 1
+    ? { type: "Polygon", coordinates: polygons[0] }
+    : { type: "MultiPolygon", coordinates: polygons };
+}
+
+export function parseGeoJSON(text: string): RegionGeometry {
+  let data: GeoJSON.GeoJSON;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  switch (data.type) {
+    case "FeatureCollection":
+      return mergePolygons(data.features.map((f) => f.geometry).filter(Boolean));
+    case "Feature":
+      return mergePolygons(data.geometry ? [data.geometry] : []);
+    default:
+      return mergePolygons([data as GeoJSON.Geometry]);
+  }
+}
+
+// KML <coordinates> are "lon,lat[,alt]" tuples separated by whitespace
+function parseKMLCoordinates(text: string): number[][] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(",").slice(0, 2).map(Number))
+    .filter((position) => position.length === 2 && position.every(Number.isFinite));
+}
+
+export function parseKML(text: string): RegionGeometry {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("File is not valid KML");
+  }
+
+  const polygons: GeoJSON.Polygon[] = Array.from(doc.getElementsByTagName("Polygon")).map((polygon) => {
+    const ringOf = (boundary: Element) =>
+      closeRing(parseKMLCoordinates(boundary.getElementsByTagName("coordinates")[0]?.textContent || ""));
+    const outer = polygon.getElementsByTagName("outerBoundaryIs")[0];
+    const inner = Array.from(polygon.getElementsByTagName("innerBoundaryIs"));
+    return {
+      type: "Polygon",
+      coordinates: [outer ? ringOf(outer) : [], ...inner.map(ringOf)],
+    };
+  });
+
+  return mergePolygons(polygons);
+}
+
+export function parseRegionFile(text: string, fileName: string): RegionGeometry {
+  return fileName.toLowerCase().endsWith(".kml") ? parseKML(text) : parseGeoJSON(text);
+}
+
+// Polygon from vertices clicked on the map ([lat, lon] pairs as Leaflet reports them)
+export function polygonFromLatLngs(points: [number, number][]): GeoJSON.Polygon {
+  return {
+    type: "Polygon",
+    coordinates: [closeRing(points.map(([lat, lon]) => [lon, lat]))],
+  };
+}
+
+// Lowercase id suitable for regions.id, e.g. "Parcul Național Retezat" -> "parcul_national_retezat"
+export function slugifyRegionId(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 48);
+}
@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+import { functionErrorMessage } from "./functions";
+import { listRegions } from "./satellite-api";
+import type { Region } from "@/types";
+
+// The region registry rarely changes, so every consumer on the page shares one request
+let regionsPromise: Promise<Region[]> | null = null;
+
+export function loadRegions(): Promise<Region[]> {
+  if (!regionsPromise) {
+    regionsPromise = listRegions().catch((error) => {
+      regionsPromise = null;
+      throw error;
+    });
+  }
+  return regionsPromise;
+}
+
+export async function findRegion(regionId: string): Promise<Region | undefined> {
+  const regions = await loadRegions();
+  return regions.find((r) => r.id === regionId);
+}
+
+// Drop the cached registry so the next loadRegions() sees admin changes
+export function invalidateRegions(): void {
+  regionsPromise = null;
+}
+
+// Create a custom region (admin only - enforced by the manage-regions function)
+export async function createRegion(input: {
+  id: string;
+  name: string;
+  displayName: string;
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon;
+}): Promise<Region> {
+  const { data, error } = await supabase.functions.invoke("manage-regions", {
+    body: {
+      action: "create",
+      id: input.id,
+      name: input.name,
+      display_name: input.displayName,
+      geometry: input.geometry,
+    },
+  });
+
+  if (error) {
+    console.error("[regions] createRegion error:", error);
+    throw new Error(await functionErrorMessage(error, "Failed to create region"));
+  }
+
+  invalidateRegions();
+  return data.region;
+}
+
+export async function deleteRegion(regionId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke("manage-regions", {
+    body: { action: "delete", id: regionId },
+  });
+
+  if (error) {
+    console.error("[regions] deleteRegion error:", error);
+    throw new Error(await functionErrorMessage(error, "Failed to delete region"));
+  }
+
+  invalidateRegions();
+}
@@ -0,0 +1,25 @@
+import { assessRisk, type RiskAssessment } from "../../supabase/functions/_shared/risk-scoring.ts";
+import type { RegionAnalysis } from "./satellite-api";
+
+// The risk model is shared with the edge functions: this re-exports their module so the
+// Dashboard, the public page and the alerts classify a region with the same code.
+export * from "../../supabase/functions/_shared/risk-scoring.ts";
+
+// Risk of an analysis as scored by the analyze action. Older snapshots without a stored
+// assessment are scored here with the default thresholds, as the edge functions do.
+export function analysisRisk(analysis: RegionAnalysis): RiskAssessment {
+  const { indicators, geeAnalysis } = analysis;
+  if (indicators.risk) return indicators.risk;
+
+  return assessRisk({
+    flood:
+      geeAnalysis?.floodPercentage != null
+        ? { percentage: geeAnalysis.floodPercentage, measured: geeAnalysis.provenance?.flood.status === "measured" }
+        : null,
+    vegetation:
+      geeAnalysis?.ndviMean != null
+        ? { ndviMean: geeAnalysis.ndviMean, measured: geeAnalysis.provenance?.ndvi.status === "measured" }
+        : null,
+    fire: indicators.provenance?.fire.status === "measured" ? indicators.fireData : null,
+  });
+}
@@ -0,0 +1,265 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import {
+  DEFAULT_RISK_THRESHOLDS,
+  RISK_HAZARDS,
+  RISK_LEVELS,
+  RISK_MODEL_VERSION,
+  alertSeverity,
+  scoreFire,
+  scoreFlood,
+  scoreVegetation,
+  validateRiskThresholds,
+  type RiskHazard,
+  type RiskLevel,
+  type RiskThresholds,
+} from "./risk-scoring";
+
+// Admin editing of the risk thresholds: the defaults in risk_thresholds and per-region
+// overrides in region_risk_thresholds. The database records every change in
+// risk_threshold_changes; the analyses pick up new values from their next run.
+
+type ThresholdRow = Database["public"]["Tables"]["risk_thresholds"]["Row"];
+type OverrideRow = Database["public"]["Tables"]["region_risk_thresholds"]["Row"];
+
+export interface ThresholdSettings {
+  defaults: ThresholdRow[];
+  overrides: OverrideRow[];
+}
+
+export interface ThresholdChange {
+  id: string;
+  hazard: RiskHazard;
+  regionId: string | null;
+  previous: unknown | null;
+  thresholds: unknown | null;
+  changedBy: string | null;
+  changedAt: string;
+}
+
+// The parts of an analysis snapshot the risk model reads
+export interface PreviewSnapshot {
+  regionId: string;
+  floodPercentage: number | null;
+  ndviMean: number | null;
+  fire: { activeHotspots: number; highConfidenceCount: number; totalFRP: number } | null;
+  measured: { flood: boolean; vegetation: boolean };
+}
+
+export interface ReclassificationPreview {
+  scored: number; // snapshots with measured data for the hazard
+  changed: number;
+  raised: number;
+  lowered: number;
+  alertsChanged: number; // snapshots whose alert severity would differ
+}
+
+// Changes shown in the audit log
+const MAX_CHANGES = 50;
+
+// Snapshots fetched per request, and in total, for the preview
+const PREVIEW_PAGE_SIZE = 1000;
+const MAX_PREVIEW_SNAPSHOTS = 10000;
+
+// Typed as a plain string: the JSON path is too deep for the select() type parser
+const PREVIEW_COLUMNS: string =
+  "region_id, flood_percentage, ndvi_mean, hotspot_count, high_confidence_count, total_frp, fire_daily, provenance:gee_analysis->provenance";
+
+export async function loadThresholdSettings(): Promise<ThresholdSettings> {
+  const [defaults, overrides] = await Promise.all([
+    supabase.from("risk_thresholds").select("*"),
+    supabase.from("region_risk_thresholds").select("*"),
+  ]);
+
+  if (defaults.error || overrides.error) {
+    console.error("[risk-thresholds] load error:", defaults.error ?? overrides.error);
+    throw new Error("Failed to load thresholds");
+  }
+
+  return { defaults: defaults.data || [], overrides: overrides.data || [] };
+}
+
+function usable(row: { hazard_type: string; thresholds: Json; model_version: number } | undefined) {
+  if (!row || row.model_version !== RISK_MODEL_VERSION) return null;
+  return validateRiskThresholds(row.hazard_type as RiskHazard, row.thresholds) ? null : row.thresholds;
+}
+
+// Thresholds the analyses currently apply to a region (or to regions without overrides), with
+// the same fallbacks as loadRiskThresholds in the edge functions
+export function effectiveThresholds(settings: ThresholdSettings, regionId?: string | null): RiskThresholds {
+  const thresholds = { ...DEFAULT_RISK_THRESHOLDS };
+  for (const hazard of RISK_HAZARDS) {
+    const override = regionId
+      ? settings.overrides.find((r) => r.region_id === regionId && r.hazard_type === hazard)
+      : undefined;
+    const value = usable(override) ?? usable(settings.defaults.find((r) => r.hazard_type === hazard));
+    if (value) Object.assign(thresholds, { [hazard]: value });
+  }
+  return thresholds;
+}
+
+export function hasOverride(settings: ThresholdSettings, regionId: string, hazard: RiskHazard): boolean {
+  return settings.overrides.some((r) => r.region_id === regionId && r.hazard_type === hazard);
+}
+
+// Save thresholds for every region without an override (regionId null), or override them for
+// one region. Who and when are recorded by the database.
+export async function saveThresholds<H extends RiskHazard>(
+  hazard: H,
+  thresholds: RiskThresholds[H],
+  regionId: string | null
+): Promise<void> {
+  const problem = validateRiskThresholds(hazard, thresholds);
+  if (problem) throw new Error(problem);
+
+  const values = { thresholds: thresholds as unknown as Json, model_version: RISK_MODEL_VERSION };
+  const { data, error } = regionId
+    ? await supabase
+        .from("region_risk_thresholds")
+        .upsert({ region_id: regionId, hazard_type: hazard, ...values })
+        .select("hazard_type")
+    : await supabase.from("risk_thresholds").update(values).eq("hazard_type", hazard).select("hazard_type");
+
+  if (error || !data?.length) {
+    console.error("[risk-thresholds] save error:", error);
+    throw new Error("Failed to save thresholds");
+  }
+}
+
+// Drop a region's override so it follows the defaults again
+export async function removeThresholdOverride(regionId: string, hazard: RiskHazard): Promise<void> {
+  const { error } = await supabase
+    .from("region_risk_thresholds")
+    .delete()
+    .eq("region_id", regionId)
+    .eq("hazard_type", hazard);
+
+  if (error) {
+    console.error("[risk-thresholds] remove error:", error);
+    throw new Error("Failed to remove override");
+  }
+}
+
+// Most recent first
+export async function listThresholdChanges(): Promise<ThresholdChange[]> {
+  const { data, error } = await supabase
+    .from("risk_threshold_changes")
+    .select("*")
+    .order("changed_at", { ascending: false })
+    .limit(MAX_CHANGES);
+
+  if (error) {
+    console.error("[risk-thresholds] changes error:", error);
+    throw new Error("Failed to load the change log");
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    hazard: row.hazard_type as RiskHazard,
+    regionId: row.region_id,
+    previous: row.previous_thresholds,
+    thresholds: row.thresholds,
+    changedBy: row.changed_by_email,
+    changedAt: row.changed_at,
+  }));
+}
+
+interface PreviewRow {
+  region_id: string;
+  flood_percentage: number | null;
+  ndvi_mean: number | null;
+  hotspot_count: number;
+  high_confidence_count: number;
+  total_frp: number;
+  fire_daily: unknown[] | null;
+  provenance: Record<string, { status: string }> | null;
+}
+
+// Snapshots of all regions analyzed in the last `days` days, newest first
+export async function loadPreviewSnapshots(days: number): Promise<PreviewSnapshot[]> {
+  const from = new Date(Date.now() - days * 86400000).toISOString();
+  const rows: PreviewRow[] = [];
+
+  while (rows.length < MAX_PREVIEW_SNAPSHOTS) {
+    const { data, error } = await supabase
+      .from("analysis_snapshots")
+      .select(PREVIEW_COLUMNS)
+      .gte("analyzed_at", from)
+      .order("analyzed_at", { ascending: false })
+      .range(rows.length, rows.length + PREVIEW_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("[risk-thresholds] snapshots error:", error);
+      throw new Error("Failed to load past analyses");
+    }
+
+    rows.push(...((data || []) as unknown as PreviewRow[]));
+    if (!data || data.length < PREVIEW_PAGE_SIZE) break;
+  }
+
+  return rows.map((row) => ({
+    regionId: row.region_id,
+    floodPercentage: row.flood_percentage,
+    ndviMean: row.ndvi_mean,
+    // fire_daily is null when the FIRMS request failed
+    fire:
+      row.fire_daily !== null
+        ? {
+            activeHotspots: row.hotspot_count,
+            highConfidenceCount: row.high_confidence_count,
+            totalFRP: row.total_frp,
+          }
+        : null,
+    measured: {
+      flood: row.provenance?.flood?.status === "measured",
+      vegetation: row.provenance?.ndvi?.status === "measured",
+    },
+  }));
+}
+
+// Seasonal estimates are left out: they are not history the thresholds could be tuned on
+function hazardLevel<H extends RiskHazard>(
+  snapshot: PreviewSnapshot,
+  hazard: H,
+  thresholds: RiskThresholds[H]
+): RiskLevel | null {
+  if (hazard === "flood") {
+    return snapshot.measured.flood && snapshot.floodPercentage !== null
+      ? scoreFlood(snapshot.floodPercentage, thresholds as RiskThresholds["flood"]).level
+      : null;
+  }
+  if (hazard === "vegetation") {
+    return snapshot.measured.vegetation && snapshot.ndviMean !== null
+      ? scoreVegetation(snapshot.ndviMean, thresholds as RiskThresholds["vegetation"]).level
+      : null;
+  }
+  return snapshot.fire ? scoreFire(snapshot.fire, thresholds as RiskThresholds["fire"]).level : null;
+}
+
+// How the snapshots would have been classified for `hazard` with the proposed thresholds
+// instead of the current ones
+export function previewReclassification<H extends RiskHazard>(
+  snapshots: PreviewSnapshot[],
+  hazard: H,
+  current: RiskThresholds[H],
+  proposed: RiskThresholds[H]
+): ReclassificationPreview {
+  const preview: ReclassificationPreview = { scored: 0, changed: 0, raised: 0, lowered: 0, alertsChanged: 0 };
+
+  for (const snapshot of snapshots) {
+    const before = hazardLevel(snapshot, hazard, current);
+    const after = hazardLevel(snapshot, hazard, proposed);
+    if (before === null || after === null) continue;
+
+    preview.scored++;
+    if (before === after) continue;
+
+    preview.changed++;
+    if (RISK_LEVELS.indexOf(after) > RISK_LEVELS.indexOf(before)) preview.raised++;
+    else preview.lowered++;
+
+    if (alertSeverity(before) !== alertSeverity(after)) preview.alertsChanged++;
+  }
+
+  return preview;
+}
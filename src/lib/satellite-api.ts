@@ -1,21 +1,23 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { AcquisitionMode, Region, RegionKind } from "@/types";
+import type { RiskAssessment } from "./risk-scoring";
 
-export interface SatelliteRegion {
-  id: string;
-  name: string;
-  bbox: number[];
-}
-
+// A Sentinel product from the Copernicus Data Space catalogue
 export interface ProductMetadata {
   id: string;
   name: string;
   acquisitionDate: string;
-  cloudCover?: number;
+  cloudCover?: number; // Sentinel-2 only
   productType: string;
   satellite: string;
   processingLevel: string;
+  footprint: GeoJSON.Geometry | null;
 }
 
+// NASA FIRMS near-real-time products the edge function merges
+export type FirmsSource = 'VIIRS_SNPP_NRT' | 'VIIRS_NOAA20_NRT' | 'VIIRS_NOAA21_NRT' | 'MODIS_NRT';
+
 export interface FireHotspot {
   latitude: number;
   longitude: number;
@@ -23,8 +25,32 @@ export interface FireHotspot {
   confidence: string | number;
   acq_date: string;
   acq_time: string;
-  satellite: string;
+  satellite: string; // every sensor that detected the fire, e.g. "VIIRS NOAA-20, MODIS Aqua"
   frp: number;
+  sources?: FirmsSource[]; // missing on snapshots stored before FIRMS sources were merged
+  // Detections of a static thermal source (steelworks, flares), left out of fire risk
+  category?: 'industrial';
+  staticSource?: string;
+}
+
+export type FireEventStatus = 'growing' | 'stable' | 'extinguished';
+
+// Hotspots close in space and time grouped into one fire, with a convex-hull perimeter estimate
+export interface FireEvent {
+  id: string;
+  centroid: { latitude: number; longitude: number };
+  perimeter: GeoJSON.Polygon;
+  perimeterKm: number;
+  areaKm2: number;
+  hotspotCount: number;
+  firstDetection: string;
+  lastDetection: string;
+  cumulativeFRP: number;
+  maxFRP: number;
+  sources: FirmsSource[];
+  // Set on events tracked across analyze runs (public.fire_events)
+  eventNumber?: number;
+  status?: FireEventStatus;
 }
 
 export interface FireData {
@@ -34,6 +60,15 @@ export interface FireData {
   totalFRP: number;
 }
 
+// Whether a metric was observed, filled in from climatology, or could not be produced
+export type ProvenanceStatus = 'measured' | 'estimated' | 'unavailable';
+
+export interface MetricProvenance {
+  status: ProvenanceStatus;
+  method: string;
+  sceneIds: string[];
+}
+
 export interface HazardIndicators {
   floodRisk: 'low' | 'medium' | 'high';
   vegetationHealth: 'poor' | 'moderate' | 'good';
@@ -43,6 +78,23 @@ export interface HazardIndicators {
   radarCoverage: boolean;
   opticalCoverage: boolean;
   fireData: FireData;
+  provenance: {
+    flood: MetricProvenance;
+    vegetation: MetricProvenance;
+    fire: MetricProvenance;
+  };
+  risk?: RiskAssessment; // missing on snapshots stored before risk scoring was recorded
+}
+
+// Sensor an analyze run relied on; in auto mode radar replaces optical when every Sentinel-2
+// scene in the window is cloudier than maxCloudCover
+export interface AcquisitionInfo {
+  mode: AcquisitionMode;
+  sensor: 'optical' | 'radar' | null;
+  maxCloudCover: number;
+  cloudCover: { mean: number; max: number; sceneCount: number } | null; // of the Sentinel-2 scenes used
+  pinnedScene?: string | null; // Earth Engine ID of the scene the analyst pinned for the run
+  reason: string;
 }
 
 // GEE Analysis Results
@@ -54,7 +106,14 @@ export interface GEEAnalysis {
   waterPercentage: number | null;
   vegetationStress: 'low' | 'moderate' | 'high' | null;
   dataDate: string | null;
-  source: 'gee';
+  source: 'gee' | 'mixed' | 'estimate' | 'unavailable'; // 'unavailable' when nothing was measured or estimated
+  geeConnected?: boolean;
+  acquisition?: AcquisitionInfo; // missing on snapshots stored before the mode was recorded
+  provenance: {
+    ndvi: MetricProvenance;
+    flood: MetricProvenance;
+    water: MetricProvenance;
+  };
 }
 
 export interface RegionAnalysis {
@@ -65,7 +124,11 @@ export interface RegionAnalysis {
   geeAnalysis?: GEEAnalysis | null;
   sentinel2Products: ProductMetadata[];
   sentinel1Products: ProductMetadata[];
-  fireHotspots: FireHotspot[];
+  fireHotspots: FireHotspot[]; // the 20 strongest
+  fireEvents?: FireEvent[]; // tracked events, or this run's clusters when tracking failed
+  industrialHotspots?: FireHotspot[]; // static thermal sources of a live run; not stored with snapshots
+  fireWarnings?: string[]; // malformed FIRMS rows skipped by a live run; not stored with snapshots
+  stored?: boolean; // whether a live run was recorded; only signed-in and scheduled runs are
 }
 
 export interface FireAnalysis {
@@ -78,6 +141,52 @@ export interface FireAnalysis {
   maxBrightness: number;
   totalFRP: number;
   hotspots: FireHotspot[];
+  industrialHotspots: FireHotspot[];
+  events: FireEvent[];
+  available: boolean;
+  sources: FirmsSource[]; // sources that answered
+  failedSources: FirmsSource[];
+  rejectedRows: number; // malformed FIRMS CSV rows that were skipped
+  warnings: string[];
+}
+
+// One stored analyze run (public.analysis_snapshots)
+export interface AnalysisSnapshot {
+  id: string;
+  regionId: string;
+  analyzedAt: string;
+  daysBack: number;
+  dataDate: string | null;
+  ndviMean: number | null;
+  ndviMin: number | null;
+  ndviMax: number | null;
+  floodPercentage: number | null;
+  waterPercentage: number | null;
+  hotspotCount: number;
+  highConfidenceCount: number;
+  totalFRP: number;
+  maxBrightness: number;
+  floodRisk: HazardIndicators['floodRisk'];
+  vegetationHealth: HazardIndicators['vegetationHealth'];
+  fireRisk: HazardIndicators['fireRisk'];
+  indicators: HazardIndicators;
+  geeAnalysis: GEEAnalysis | null;
+  fireDaily: FireDay[] | null; // per acquisition day of the FIRMS window; null if FIRMS failed
+  fireHotspots: FireHotspot[];
+}
+
+export interface FireDay {
+  date: string; // YYYY-MM-DD
+  count: number;
+  frp: number;
+}
+
+export interface AnalysisHistory {
+  regionId: string;
+  regionName: string;
+  from: string;
+  to: string;
+  snapshots: AnalysisSnapshot[];
 }
 
 export interface GEERegionAnalysis extends GEEAnalysis {
@@ -86,10 +195,10 @@ export interface GEERegionAnalysis extends GEEAnalysis {
   bbox: number[];
 }
 
-// List available Romanian regions
-export async function listRegions(): Promise<SatelliteRegion[]> {
+// List available Romanian regions from the shared region registry
+export async function listRegions(kind?: RegionKind): Promise<Region[]> {
   const { data, error } = await supabase.functions.invoke('satellite-data', {
-    body: { action: 'list-regions' },
+    body: { action: 'list-regions', kind },
   });
 
   if (error) {
@@ -100,7 +209,12 @@ export async function listRegions(): Promise<SatelliteRegion[]> {
   return data.regions;
 }
 
-// Search for satellite products
+// Sentinel-1 products are radar scenes, Sentinel-2 ones optical
+export function isRadarProduct(product: ProductMetadata): boolean {
+  return product.satellite.startsWith('Sentinel-1');
+}
+
+// Search the Copernicus catalogue for products over a region, newest first
 export async function searchProducts(
   regionId: string,
   satellite: 'sentinel-1' | 'sentinel-2' = 'sentinel-2',
@@ -129,7 +243,9 @@ export async function searchProducts(
 export async function analyzeRegion(
   regionId: string,
   maxCloudCover: number = 30,
-  daysBack: number = 30
+  daysBack: number = 30,
+  mode: AcquisitionMode = 'auto',
+  sceneId?: string // product name of a pinned scene, analyzed instead of the latest ones
 ): Promise<RegionAnalysis> {
   const { data, error } = await supabase.functions.invoke('satellite-data', {
     body: { 
@@ -137,6 +253,8 @@ export async function analyzeRegion(
       regionId,
       maxCloudCover,
       daysBack,
+      mode,
+      sceneId,
     },
   });
 
@@ -148,36 +266,18 @@ export async function analyzeRegion(
   return data;
 }
 
-// Analyze all regions (for overview)
-export async function analyzeAllRegions(
-  maxCloudCover: number = 30,
-  daysBack: number = 30
-): Promise<RegionAnalysis[]> {
-  const regions = await listRegions();
-  
-  const analyses = await Promise.all(
-    regions.map(region => 
-      analyzeRegion(region.id, maxCloudCover, daysBack)
-        .catch(err => {
-          console.warn(`[satellite-api] Failed to analyze ${region.id}:`, err);
-          return null;
-        })
-    )
-  );
-
-  return analyses.filter((a): a is RegionAnalysis => a !== null);
-}
-
 // Get fire hotspots for a specific region
 export async function getFireData(
   regionId: string,
-  daysBack: number = 3
+  daysBack: number = 3,
+  sensor?: FirmsSource[] // all sources when omitted
 ): Promise<FireAnalysis> {
   const { data, error } = await supabase.functions.invoke('satellite-data', {
     body: { 
       action: 'fires',
       regionId,
       daysBack,
+      sensor,
     },
   });
 
@@ -209,3 +309,128 @@ export async function getGEEData(
 
   return data;
 }
+
+// Get stored analysis snapshots for a region (defaults to the last 90 days)
+export async function getAnalysisHistory(
+  regionId: string,
+  from?: Date,
+  to?: Date
+): Promise<AnalysisHistory> {
+  const { data, error } = await supabase.functions.invoke('satellite-data', {
+    body: { 
+      action: 'history',
+      regionId,
+      from: from?.toISOString(),
+      to: to?.toISOString(),
+    },
+  });
+
+  if (error) {
+    console.error('[satellite-api] getAnalysisHistory error:', error);
+    throw new Error(error.message || 'Failed to get analysis history');
+  }
+
+  return data;
+}
+
+// A RegionAnalysis rebuilt from its stored snapshot
+export interface StoredAnalysis {
+  analysis: RegionAnalysis;
+  analyzedAt: string;
+}
+
+type LatestSnapshotRow = Database['public']['Views']['latest_analysis_snapshots']['Row'];
+
+function toStoredAnalysis(row: LatestSnapshotRow): StoredAnalysis {
+  return {
+    analysis: {
+      regionId: row.region_id!,
+      regionName: row.region_name!,
+      bbox: row.region_bbox ?? [],
+      indicators: row.indicators as unknown as HazardIndicators,
+      geeAnalysis: row.gee_analysis as unknown as GEEAnalysis | null,
+      sentinel2Products: [],
+      sentinel1Products: [],
+      fireHotspots: (row.fire_hotspots as unknown as FireHotspot[]) ?? [],
+    },
+    analyzedAt: row.analyzed_at!,
+  };
+}
+
+// Latest stored analysis of every region in a set, as written by the scheduled analyze-regions job
+export async function getLatestAnalyses(kind?: RegionKind): Promise<StoredAnalysis[]> {
+  let query = supabase.from('latest_analysis_snapshots').select('*');
+  if (kind) {
+    query = query.eq('region_kind', kind);
+  }
+
+  const { data, error } = await query.order('region_name');
+
+  if (error) {
+    console.error('[satellite-api] getLatestAnalyses error:', error);
+    throw new Error(error.message || 'Failed to load latest analyses');
+  }
+
+  return (data || []).map(toStoredAnalysis);
+}
+
+// Latest stored analysis of one region, or null if it was never analyzed, with the region's
+// fire events that are still burning
+export async function getLatestAnalysis(regionId: string): Promise<StoredAnalysis | null> {
+  const [{ data, error }, fireEvents] = await Promise.all([
+    supabase.from('latest_analysis_snapshots').select('*').eq('region_id', regionId).maybeSingle(),
+    // Fire events are extra; the stored analysis shows without them
+    listFireEvents(regionId).catch(() => undefined),
+  ]);
+
+  if (error) {
+    console.error('[satellite-api] getLatestAnalysis error:', error);
+    throw new Error(error.message || 'Failed to load latest analysis');
+  }
+
+  if (!data) return null;
+  const stored = toStoredAnalysis(data);
+  return { ...stored, analysis: { ...stored.analysis, fireEvents } };
+}
+
+type FireEventRow = Database['public']['Tables']['fire_events']['Row'];
+
+function toFireEvent(row: FireEventRow): FireEvent {
+  return {
+    id: String(row.id),
+    eventNumber: row.id,
+    status: row.status as FireEventStatus,
+    centroid: { latitude: row.centroid_lat, longitude: row.centroid_lon },
+    perimeter: row.perimeter as unknown as GeoJSON.Polygon,
+    perimeterKm: row.perimeter_km,
+    areaKm2: row.area_km2,
+    hotspotCount: row.hotspot_count,
+    firstDetection: row.first_detected_at,
+    lastDetection: row.last_detected_at,
+    cumulativeFRP: row.cumulative_frp,
+    maxFRP: row.max_frp,
+    sources: row.sources as FirmsSource[],
+  };
+}
+
+// Fire events tracked for a region, most recently detected first
+export async function listFireEvents(regionId: string, includeExtinguished = false): Promise<FireEvent[]> {
+  let query = supabase
+    .from('fire_events')
+    .select('*')
+    .eq('region_id', regionId)
+    .order('last_detected_at', { ascending: false })
+    .limit(50);
+  if (!includeExtinguished) {
+    query = query.neq('status', 'extinguished');
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('[satellite-api] listFireEvents error:', error);
+    throw new Error(error.message || 'Failed to load fire events');
+  }
+
+  return (data || []).map(toFireEvent);
+}
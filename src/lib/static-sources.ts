@@ -0,0 +1,96 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+// Admin review of public.static_thermal_sources. Stored analyses add locations that fire on most
+// days of their FIRMS window as 'auto' candidates; they mask detections only once confirmed here.
+// Switching a source off stops it masking and keeps analyses from proposing it again.
+
+type SourceRow = Database["public"]["Tables"]["static_thermal_sources"]["Row"];
+
+// As in supabase/functions/_shared/static-sources.ts: auto sources not seen for this long stop
+// masking until an analysis sees them again
+export const STATIC_SOURCE_EXPIRY_DAYS = 60;
+
+export type StaticSourceStatus = "candidate" | "confirmed" | "expired" | "off";
+
+export interface StaticSource {
+  id: string;
+  name: string;
+  origin: "manual" | "auto";
+  status: StaticSourceStatus;
+  latitude: number | null; // centre of point sources
+  longitude: number | null;
+  radiusKm: number;
+  createdAt: string;
+  confirmedAt: string | null;
+  lastSeenAt: string | null;
+}
+
+function sourceStatus(row: SourceRow, now: Date): StaticSourceStatus {
+  if (!row.active) return "off";
+  if (!row.confirmed_at) return "candidate";
+  const expiry = now.getTime() - STATIC_SOURCE_EXPIRY_DAYS * 86400000;
+  if (row.origin === "auto" && (!row.last_seen_at || Date.parse(row.last_seen_at) < expiry)) return "expired";
+  return "confirmed";
+}
+
+function toStaticSource(row: SourceRow, now: Date): StaticSource {
+  const geometry = row.geometry as { type?: string; coordinates?: number[] } | null;
+  const point = geometry?.type === "Point" && geometry.coordinates ? geometry.coordinates : null;
+  return {
+    id: row.id,
+    name: row.name,
+    origin: row.origin as StaticSource["origin"],
+    status: sourceStatus(row, now),
+    latitude: point ? point[1] : null,
+    longitude: point ? point[0] : null,
+    radiusKm: row.radius_km,
+    createdAt: row.created_at,
+    confirmedAt: row.confirmed_at,
+    lastSeenAt: row.last_seen_at,
+  };
+}
+
+// Newest first
+export async function listStaticSources(): Promise<StaticSource[]> {
+  const { data, error } = await supabase
+    .from("static_thermal_sources")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("[static-sources] list error:", error);
+    throw new Error("Failed to load static thermal sources");
+  }
+
+  const now = new Date();
+  return (data || []).map((row) => toStaticSource(row, now));
+}
+
+// Confirm a candidate (or switch a source back on) so it masks detections
+export async function confirmStaticSource(id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("static_thermal_sources")
+    .update({ active: true, confirmed_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("id");
+
+  if (error || !data?.length) {
+    console.error("[static-sources] confirm error:", error);
+    throw new Error("Failed to confirm the source");
+  }
+}
+
+// Reject a candidate or retire a source; its detections count as fires again
+export async function switchOffStaticSource(id: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("static_thermal_sources")
+    .update({ active: false })
+    .eq("id", id)
+    .select("id");
+
+  if (error || !data?.length) {
+    console.error("[static-sources] switch off error:", error);
+    throw new Error("Failed to switch the source off");
+  }
+}
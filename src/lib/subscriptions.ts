@@ -0,0 +1,119 @@
+import { supabase } from "@/integrations/supabase/client";
+import { functionErrorMessage } from "./functions";
+
+// Subscriber self-service through the manage-subscription function. Every call is
+// authenticated by the token from an alert email link.
+
+// Hazards a subscriber can be alerted about (hybrid is an analysis mode, not an alert)
+export type AlertHazardType = "flood" | "vegetation" | "fire";
+export type AlertSeverity = "warning" | "danger";
+export type DigestFrequency = "immediate" | "daily" | "weekly";
+
+export interface SubscriptionPreferences {
+  hazardTypes: AlertHazardType[];
+  minSeverity: AlertSeverity;
+  digestFrequency: DigestFrequency;
+  // Optional extra conditions; null means the severity bands alone decide
+  floodThreshold: number | null; // alert only when flood extent exceeds this %
+  hotspotThreshold: number | null; // alert only with at least this many fire hotspots
+  // No emails between these local times ("HH:MM"); held back until quiet hours end
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timezone: string;
+}
+
+export interface SubscribedRegion {
+  regionId: string;
+  regionName: string;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface Subscriber {
+  email: string;
+  // Token to use for further calls; the one from the link may belong to a removed region
+  token: string | null;
+  paused: boolean;
+  preferences: SubscriptionPreferences;
+  subscriptions: SubscribedRegion[];
+}
+
+interface SubscriberResponse {
+  email: string;
+  token: string | null;
+  paused: boolean;
+  preferences: {
+    hazard_types: AlertHazardType[];
+    min_severity: AlertSeverity;
+    digest_frequency: DigestFrequency;
+    flood_threshold: number | null;
+    hotspot_threshold: number | null;
+    quiet_hours_start: string | null;
+    quiet_hours_end: string | null;
+    timezone: string;
+  };
+  subscriptions: { region_id: string; region_name: string; is_active: boolean; created_at: string }[];
+}
+
+function toSubscriber(data: SubscriberResponse): Subscriber {
+  return {
+    email: data.email,
+    token: data.token,
+    paused: data.paused,
+    preferences: {
+      hazardTypes: data.preferences.hazard_types,
+      minSeverity: data.preferences.min_severity,
+      digestFrequency: data.preferences.digest_frequency,
+      floodThreshold: data.preferences.flood_threshold,
+      hotspotThreshold: data.preferences.hotspot_threshold,
+      quietHoursStart: data.preferences.quiet_hours_start,
+      quietHoursEnd: data.preferences.quiet_hours_end,
+      timezone: data.preferences.timezone,
+    },
+    subscriptions: data.subscriptions.map((s) => ({
+      regionId: s.region_id,
+      regionName: s.region_name,
+      isActive: s.is_active,
+      createdAt: s.created_at,
+    })),
+  };
+}
+
+async function invokeManage(body: Record<string, unknown>, fallback: string): Promise<Subscriber> {
+  const { data, error } = await supabase.functions.invoke("manage-subscription", { body });
+
+  if (error) {
+    console.error(`[subscriptions] ${body.action} error:`, error);
+    throw new Error(await functionErrorMessage(error, fallback));
+  }
+
+  return toSubscriber(data as SubscriberResponse);
+}
+
+export function getSubscriber(token: string): Promise<Subscriber> {
+  return invokeManage({ action: "list", unsubscribe_token: token }, "Failed to load subscriptions");
+}
+
+// Replaces the followed regions and applies the preferences to all of them
+export function updateSubscriber(token: string, regionIds: string[], preferences: SubscriptionPreferences): Promise<Subscriber> {
+  return invokeManage(
+    {
+      action: "update",
+      unsubscribe_token: token,
+      region_ids: regionIds,
+      hazard_types: preferences.hazardTypes,
+      min_severity: preferences.minSeverity,
+      digest_frequency: preferences.digestFrequency,
+      flood_threshold: preferences.floodThreshold,
+      hotspot_threshold: preferences.hotspotThreshold,
+      quiet_hours_start: preferences.quietHoursStart,
+      quiet_hours_end: preferences.quietHoursEnd,
+      timezone: preferences.timezone,
+    },
+    "Failed to save preferences"
+  );
+}
+
+export function setSubscriberPaused(token: string, paused: boolean): Promise<Subscriber> {
+  return invokeManage({ action: "pause", unsubscribe_token: token, paused }, "Failed to update subscriptions");
+}
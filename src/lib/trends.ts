@@ -0,0 +1,152 @@
+import type { AnalysisSnapshot } from "./satellite-api";
+
+// Turns stored analysis snapshots into one point per day and flags values that fall
+// outside the region's seasonal baseline.
+
+export type TrendMetric = "ndviMean" | "floodPercentage" | "waterPercentage" | "hotspotCount" | "totalFRP";
+
+export type AnomalyDirection = "high" | "low";
+
+export interface TrendPoint {
+  date: string; // YYYY-MM-DD
+  ndviMean: number | null;
+  ndviMin: number | null;
+  ndviMax: number | null;
+  floodPercentage: number | null;
+  waterPercentage: number | null;
+  hotspotCount: number | null;
+  totalFRP: number | null;
+  anomalies: Partial<Record<TrendMetric, AnomalyDirection>>;
+}
+
+// "seasonal" = same time of year, one year earlier; "window" = the displayed window itself
+export type BaselineSource = "seasonal" | "window";
+
+export interface MetricBaseline {
+  mean: number;
+  std: number;
+  samples: number;
+  source: BaselineSource;
+}
+
+export interface TrendBaseline {
+  // "mixed" when some metrics have seasonal history and others fall back to the window
+  source: BaselineSource | "mixed";
+  metrics: Partial<Record<TrendMetric, MetricBaseline>>;
+}
+
+export const TREND_METRICS: TrendMetric[] = ["ndviMean", "floodPercentage", "waterPercentage", "hotspotCount", "totalFRP"];
+
+// A value is anomalous when it is more than this many standard deviations from the baseline mean
+export const ANOMALY_Z_SCORE = 2;
+// Fewer baseline days than this and the baseline is not trusted
+const MIN_BASELINE_SAMPLES = 5;
+// Floor on the baseline spread so a flat history (e.g. no fires at all) doesn't flag every blip
+const MIN_STD: Record<TrendMetric, number> = {
+  ndviMean: 0.02,
+  floodPercentage: 0.5,
+  waterPercentage: 0.5,
+  hotspotCount: 1,
+  totalFRP: 5,
+};
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+// Collapse snapshots into daily points. Earth Engine metrics are averaged per analysis day and
+// only kept when measured (seasonal estimates would look like real trends); fire activity comes
+// from each run's per-acquisition-day summary, the latest run winning for overlapping days.
+export function buildDailySeries(snapshots: AnalysisSnapshot[]): TrendPoint[] {
+  const gee = new Map<string, { ndvi: number[]; ndviMin: number[]; ndviMax: number[]; flood: number[]; water: number[] }>();
+  const fire = new Map<string, { count: number; frp: number; analyzedAt: string }>();
+
+  for (const snapshot of snapshots) {
+    const date = snapshot.analyzedAt.slice(0, 10);
+    const day = gee.get(date) ?? { ndvi: [], ndviMin: [], ndviMax: [], flood: [], water: [] };
+    const provenance = snapshot.geeAnalysis?.provenance;
+
+    if (provenance?.ndvi.status === "measured" && snapshot.ndviMean !== null) {
+      day.ndvi.push(snapshot.ndviMean);
+      if (snapshot.ndviMin !== null) day.ndviMin.push(snapshot.ndviMin);
+      if (snapshot.ndviMax !== null) day.ndviMax.push(snapshot.ndviMax);
+    }
+    if (provenance?.flood.status === "measured" && snapshot.floodPercentage !== null) {
+      day.flood.push(snapshot.floodPercentage);
+    }
+    if (provenance?.water.status === "measured" && snapshot.waterPercentage !== null) {
+      day.water.push(snapshot.waterPercentage);
+    }
+    gee.set(date, day);
+
+    for (const fireDay of snapshot.fireDaily ?? []) {
+      const existing = fire.get(fireDay.date);
+      if (!existing || existing.analyzedAt < snapshot.analyzedAt) {
+        fire.set(fireDay.date, { count: fireDay.count, frp: fireDay.frp, analyzedAt: snapshot.analyzedAt });
+      }
+    }
+  }
+
+  const dates = [...new Set([...gee.keys(), ...fire.keys()])].sort();
+  return dates.map((date) => {
+    const day = gee.get(date);
+    const fireDay = fire.get(date);
+    const ndviMean = day ? average(day.ndvi) : null;
+    const ndviMin = day && day.ndviMin.length > 0 ? Math.min(...day.ndviMin) : null;
+    const ndviMax = day && day.ndviMax.length > 0 ? Math.max(...day.ndviMax) : null;
+    const flood = day ? average(day.flood) : null;
+    const water = day ? average(day.water) : null;
+
+    return {
+      date,
+      ndviMean: ndviMean !== null ? round(ndviMean, 3) : null,
+      ndviMin: ndviMin !== null ? round(ndviMin, 3) : null,
+      ndviMax: ndviMax !== null ? round(ndviMax, 3) : null,
+      floodPercentage: flood !== null ? round(flood, 2) : null,
+      waterPercentage: water !== null ? round(water, 2) : null,
+      hotspotCount: fireDay?.count ?? null,
+      totalFRP: fireDay ? round(fireDay.frp, 1) : null,
+      anomalies: {},
+    };
+  });
+}
+
+function metricBaseline(points: TrendPoint[], metric: TrendMetric, source: BaselineSource): MetricBaseline | null {
+  const values = points.map((p) => p[metric]).filter((v): v is number => v !== null);
+  if (values.length < MIN_BASELINE_SAMPLES) return null;
+
+  const mean = average(values)!;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.max(Math.sqrt(variance), MIN_STD[metric]), samples: values.length, source };
+}
+
+// Prefer last year's values for the same season; each metric without enough history that far
+// back (e.g. FIRMS data but no measured Earth Engine values) falls back to the displayed window
+export function buildBaseline(seasonal: TrendPoint[], current: TrendPoint[]): TrendBaseline {
+  const metrics: TrendBaseline["metrics"] = {};
+  TREND_METRICS.forEach((metric) => {
+    const baseline = metricBaseline(seasonal, metric, "seasonal") ?? metricBaseline(current, metric, "window");
+    if (baseline) metrics[metric] = baseline;
+  });
+
+  const sources = new Set(Object.values(metrics).map((baseline) => baseline.source));
+  return { source: sources.size > 1 ? "mixed" : sources.has("seasonal") ? "seasonal" : "window", metrics };
+}
+
+export function flagAnomalies(points: TrendPoint[], baseline: TrendBaseline): TrendPoint[] {
+  return points.map((point) => {
+    const anomalies: TrendPoint["anomalies"] = {};
+    TREND_METRICS.forEach((metric) => {
+      const value = point[metric];
+      const stats = baseline.metrics[metric];
+      if (value === null || !stats) return;
+
+      const z = (value - stats.mean) / stats.std;
+      if (z > ANOMALY_Z_SCORE) anomalies[metric] = "high";
+      else if (z < -ANOMALY_Z_SCORE) anomalies[metric] = "low";
+    });
+    return { ...point, anomalies };
+  });
+}
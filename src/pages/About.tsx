@@ -10,7 +10,8 @@ import {
   Cpu,
   ExternalLink,
   Github,
-  Flame
+  Flame,
+  ShieldCheck
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
@@ -66,6 +67,27 @@ const algorithms = [
   },
 ];
 
+const provenanceLevels = [
+  {
+    status: "measured",
+    label: "Measured (obs)",
+    color: "text-accent",
+    description: "Computed in Google Earth Engine from Sentinel-1/2 scenes acquired in the analysis window, or reported by NASA FIRMS.",
+  },
+  {
+    status: "estimated",
+    label: "Estimated (est)",
+    color: "text-alert",
+    description: "Earth Engine could not be reached, so a seasonal climatology value for Romania is shown instead. Not an observation.",
+  },
+  {
+    status: "unavailable",
+    label: "Unavailable (n/a)",
+    color: "text-muted-foreground",
+    description: "No usable scene in the window (e.g. every Sentinel-2 pass was cloudy) or the computation failed. No value is shown.",
+  },
+];
+
 const architecture = [
   {
     layer: "Frontend",
@@ -273,6 +295,28 @@ export function About() {
           </div>
         </section>
 
+        {/* Data Provenance */}
+        <section className="mb-10 sm:mb-16">
+          <h2 className="text-lg sm:text-2xl font-bold mb-4 sm:mb-6 flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 sm:w-6 sm:h-6 text-primary" />
+            Data Provenance
+          </h2>
+          <div className="glass-panel p-4 sm:p-6 space-y-4">
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              Every metric shown on the dashboard and status pages carries a provenance tag, so an estimate
+              is never presented as an observation. Hover a tag to see the method and the input scene IDs.
+            </p>
+            <div className="grid sm:grid-cols-3 gap-3">
+              {provenanceLevels.map((level) => (
+                <div key={level.status} className="p-3 rounded-lg bg-secondary/50">
+                  <span className={`text-xs font-mono font-semibold ${level.color}`}>{level.label}</span>
+                  <p className="text-xs text-muted-foreground mt-1">{level.description}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </section>
+
         {/* Source Code */}
         <section className="mb-10 sm:mb-16">
           <div className="glass-panel-elevated p-5 sm:p-8 text-center">
@@ -0,0 +1,82 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { Bell, CheckCircle2, AlertTriangle, Loader2 } from "lucide-react";
+
+type ConfirmStatus = "working" | "done" | "error";
+
+// Target of the link in the double opt-in email: opening it activates the pending subscription
+export default function ConfirmSubscription() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [status, setStatus] = useState<ConfirmStatus>(token ? "working" : "error");
+  const [regionName, setRegionName] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    supabase.functions
+      .invoke("manage-subscription", {
+        body: { action: "confirm", confirmation_token: token },
+      })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("[confirm-subscription] Failed to confirm:", error);
+          setStatus("error");
+          return;
+        }
+        setRegionName(data?.region_name ?? null);
+        setStatus("done");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <Layout>
+      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+        <div className="w-full max-w-md glass-panel-elevated p-8 text-center space-y-4">
+          {status === "working" && (
+            <>
+              <Loader2 className="w-10 h-10 mx-auto animate-spin text-primary" />
+              <h1 className="text-xl font-bold">Confirming your subscription…</h1>
+            </>
+          )}
+          {status === "done" && (
+            <>
+              <CheckCircle2 className="w-10 h-10 mx-auto text-vegetation" />
+              <h1 className="text-xl font-bold">Subscription confirmed</h1>
+              <p className="text-sm text-muted-foreground">
+                {regionName
+                  ? `You will receive hazard alert emails for ${regionName}.`
+                  : "You will receive hazard alert emails for this region."}
+              </p>
+            </>
+          )}
+          {status === "error" && (
+            <>
+              <AlertTriangle className="w-10 h-10 mx-auto text-alert" />
+              <h1 className="text-xl font-bold">Could not confirm subscription</h1>
+              <p className="text-sm text-muted-foreground">
+                This confirmation link is invalid or has expired. Subscribe again from the public
+                status page to receive a new link.
+              </p>
+            </>
+          )}
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/public">
+              <Bell className="w-4 h-4" />
+              Back to public status
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </Layout>
+  );
+}
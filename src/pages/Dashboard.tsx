@@ -2,12 +2,19 @@ import { useState, useEffect, lazy, Suspense } from "react";
 import { Layout } from "@/components/layout/Layout";
 import { ControlPanel } from "@/components/dashboard/ControlPanel";
 import { VolunteerAnnouncementsPanel } from "@/components/dashboard/VolunteerAnnouncementsPanel";
-import { MOCK_REGIONS } from "@/lib/api";
-import { analyzeRegion, type RegionAnalysis } from "@/lib/satellite-api";
-import type { Region, HazardType, AcquisitionMode } from "@/types";
+import { TrendsPanel } from "@/components/dashboard/TrendsPanel";
+import { AlertsPanel } from "@/components/dashboard/AlertsPanel";
+import { ScenesPanel } from "@/components/dashboard/ScenesPanel";
+import { api } from "@/lib/api";
+import { analyzeRegion, getLatestAnalysis, type ProductMetadata, type RegionAnalysis } from "@/lib/satellite-api";
+import type { Region, HazardType, AcquisitionMode, HazardMapResponse } from "@/types";
+import { useRegions } from "@/hooks/useRegions";
 import { toast } from "sonner";
 import { MapPin } from "lucide-react";
 
+// The scheduled job re-analyzes monitoring areas every 3 h and counties every 6 h
+const SNAPSHOT_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
 // Lazy load the map to avoid SSR issues
 const HazardMap = lazy(() => import("@/components/dashboard/HazardMap").then(m => ({ default: m.HazardMap })));
 
@@ -23,44 +30,112 @@ function MapFallback() {
 }
 
 export function Dashboard() {
-  const [regions] = useState<Region[]>(MOCK_REGIONS);
+  const { regions, error: regionsError } = useRegions();
   const [selectedRegion, setSelectedRegion] = useState<Region | null>(null);
   const [hazardType, setHazardType] = useState<HazardType>("flood");
   const [satelliteData, setSatelliteData] = useState<RegionAnalysis | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [hazardMap, setHazardMap] = useState<HazardMapResponse | null>(null);
+  const [overlayOpacity, setOverlayOpacity] = useState(70);
+  const [scenes, setScenes] = useState<ProductMetadata[]>([]);
+  const [highlightedSceneId, setHighlightedSceneId] = useState<string | null>(null);
+  const [pinnedScene, setPinnedScene] = useState<ProductMetadata | null>(null);
+
+  useEffect(() => {
+    if (regionsError) toast.error(regionsError);
+  }, [regionsError]);
+
+  // A pinned scene belongs to the region it was listed for
+  useEffect(() => {
+    setPinnedScene(null);
+    setHighlightedSceneId(null);
+  }, [selectedRegion]);
 
   useEffect(() => {
     if (!selectedRegion) {
       setSatelliteData(null);
       return;
     }
-    
+
+    let cancelled = false;
+
+    // Show the latest stored snapshot right away; only analyze live when it is missing or stale
     const loadSatelliteData = async () => {
       setIsLoading(true);
       try {
+        const stored = await getLatestAnalysis(selectedRegion.id);
+        if (cancelled) return;
+
+        if (stored) {
+          setSatelliteData(stored.analysis);
+        }
+
+        const isStale = !stored || Date.now() - new Date(stored.analyzedAt).getTime() > SNAPSHOT_MAX_AGE_MS;
+        if (!isStale) {
+          toast.success(`Loaded ${selectedRegion.displayName} analysis from ${new Date(stored.analyzedAt).toLocaleString()}`);
+          return;
+        }
+
         const data = await analyzeRegion(selectedRegion.id, 50, 14);
+        if (cancelled) return;
         setSatelliteData(data);
         toast.success(`Loaded satellite data for ${selectedRegion.displayName}`);
       } catch (error) {
         console.error("Failed to load satellite data:", error);
-        toast.error("Failed to load satellite data");
-        setSatelliteData(null);
+        if (!cancelled) {
+          toast.error("Failed to load satellite data");
+          setSatelliteData(null);
+        }
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
       }
     };
     
     loadSatelliteData();
+
+    return () => {
+      cancelled = true;
+    };
   }, [selectedRegion]);
 
-  const handleRunAcquisition = async (mode: AcquisitionMode) => {
+  // Hazard overlay (raster/GeoJSON) for the selected region and hazard type
+  useEffect(() => {
+    if (!selectedRegion) {
+      setHazardMap(null);
+      return;
+    }
+
+    let cancelled = false;
+    api.getHazardMap(selectedRegion.id, hazardType)
+      .then((map) => {
+        if (!cancelled) setHazardMap(map);
+      })
+      .catch((error) => {
+        console.error("Failed to load hazard map:", error);
+        if (!cancelled) setHazardMap(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRegion, hazardType]);
+
+  // The control panel has already narrowed the mode to the pinned scene's sensor
+  const handleRunAcquisition = async (mode: AcquisitionMode, maxCloudCover: number) => {
     if (!selectedRegion) return;
+    const scene = pinnedScene;
     setIsLoading(true);
     try {
-      // Run fresh analysis with satellite-data edge function
-      const data = await analyzeRegion(selectedRegion.id, 30, 30);
+      // Run fresh analysis with satellite-data edge function, acquiring the sensor(s) of the mode
+      const data = await analyzeRegion(selectedRegion.id, maxCloudCover, 30, mode, scene?.name);
       setSatelliteData(data);
-      toast.success(`Analysis complete for ${selectedRegion.displayName}`);
+      if (scene) setPinnedScene(null);
+      const sensor = data.geeAnalysis?.acquisition?.sensor;
+      toast.success(
+        `Analysis complete for ${selectedRegion.displayName}` +
+          (sensor ? ` (${sensor === "radar" ? "Sentinel-1 radar" : "Sentinel-2 optical"})` : "") +
+          (scene ? ` from scene ${scene.name}` : "")
+      );
     } catch {
       toast.error("Failed to run acquisition");
     } finally {
@@ -97,6 +172,10 @@ export function Dashboard() {
             isLoading={isLoading}
             onRunAcquisition={handleRunAcquisition}
             onRefresh={handleRefresh}
+            overlayOpacity={overlayOpacity}
+            onOverlayOpacityChange={setOverlayOpacity}
+            overlayAvailable={!!(hazardMap?.overlay_url || hazardMap?.geojson)}
+            pinnedScene={pinnedScene}
           />
         </aside>
         
@@ -106,11 +185,45 @@ export function Dashboard() {
           <div className="flex-1 p-3 lg:p-4 min-h-[250px] lg:min-h-0">
             <div className="h-full min-h-[250px] rounded-xl overflow-hidden border border-border/50 shadow-lg">
               <Suspense fallback={<MapFallback />}>
-                <HazardMap region={selectedRegion} hazardType={hazardType} className="h-full w-full" />
+                <HazardMap
+                  regions={regions}
+                  region={selectedRegion}
+                  onRegionSelect={setSelectedRegion}
+                  hazardType={hazardType}
+                  analysis={satelliteData}
+                  hazardMap={hazardMap}
+                  overlayOpacity={overlayOpacity}
+                  scenes={scenes}
+                  highlightedSceneId={highlightedSceneId}
+                  pinnedSceneId={pinnedScene?.id}
+                  className="h-full w-full"
+                />
               </Suspense>
             </div>
           </div>
           
+          {/* Scenes Section */}
+          <div className="p-3 lg:p-4 pt-0">
+            <ScenesPanel
+              region={selectedRegion}
+              pinnedScene={pinnedScene}
+              onPinScene={setPinnedScene}
+              highlightedSceneId={highlightedSceneId}
+              onHighlight={setHighlightedSceneId}
+              onScenesChange={setScenes}
+            />
+          </div>
+
+          {/* Alerts Section */}
+          <div className="p-3 lg:p-4 pt-0">
+            <AlertsPanel regions={regions} onRegionSelect={setSelectedRegion} refreshKey={satelliteData} />
+          </div>
+
+          {/* Trends Section */}
+          <div className="p-3 lg:p-4 pt-0">
+            <TrendsPanel region={selectedRegion} refreshKey={satelliteData} />
+          </div>
+          
           {/* Announcements Section */}
           <div className="p-3 lg:p-4 pt-0">
             <VolunteerAnnouncementsPanel />
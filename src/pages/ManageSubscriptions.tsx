@@ -0,0 +1,431 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useRegions } from "@/hooks/useRegions";
+import {
+  getSubscriber,
+  setSubscriberPaused,
+  updateSubscriber,
+  type AlertHazardType,
+  type AlertSeverity,
+  type DigestFrequency,
+  type Subscriber,
+  type SubscriptionPreferences,
+} from "@/lib/subscriptions";
+import { Bell, BellOff, Waves, Leaf, Flame, Search, Save, RefreshCw, AlertTriangle, Play, Pause } from "lucide-react";
+import { toast } from "sonner";
+
+const hazardOptions: { value: AlertHazardType; label: string; icon: typeof Waves; color: string }[] = [
+  { value: "flood", label: "Flood", icon: Waves, color: "text-flood" },
+  { value: "vegetation", label: "Vegetation stress", icon: Leaf, color: "text-vegetation" },
+  { value: "fire", label: "Wildfire", icon: Flame, color: "text-danger" },
+];
+
+const severityOptions: { value: AlertSeverity; label: string }[] = [
+  { value: "warning", label: "Warning and above" },
+  { value: "danger", label: "Danger only" },
+];
+
+const frequencyOptions: { value: DigestFrequency; label: string }[] = [
+  { value: "immediate", label: "As soon as they happen" },
+  { value: "daily", label: "Daily digest" },
+  { value: "weekly", label: "Weekly digest" },
+];
+
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" };
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Empty number inputs mean "no threshold"
+const parseThreshold = (value: string): number | null => (value === "" ? null : Number(value));
+
+// Token-authenticated preferences page linked from every alert email
+export default function ManageSubscriptions() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const { regions } = useRegions();
+  const [subscriber, setSubscriber] = useState<Subscriber | null>(null);
+  const [selectedRegions, setSelectedRegions] = useState<Set<string>>(new Set());
+  const [preferences, setPreferences] = useState<SubscriptionPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(!!token);
+  const [loadError, setLoadError] = useState<string | null>(token ? null : "This link is incomplete. Use the link from your alert email.");
+  const [search, setSearch] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPausing, setIsPausing] = useState(false);
+
+  // Token of the subscriber on screen, so replacing the token in the address bar does not reload
+  const loadedTokenRef = useRef<string | null>(null);
+
+  const applySubscriber = useCallback(
+    (data: Subscriber) => {
+      loadedTokenRef.current = data.token;
+      setSubscriber(data);
+      setSelectedRegions(new Set(data.subscriptions.map((s) => s.regionId)));
+      setPreferences(data.preferences);
+      // Keep the address bar usable if the token's own region was removed
+      if (data.token && data.token !== token) {
+        setSearchParams({ token: data.token }, { replace: true });
+      }
+    },
+    [token, setSearchParams]
+  );
+
+  useEffect(() => {
+    if (!token || token === loadedTokenRef.current) return;
+    let cancelled = false;
+
+    getSubscriber(token)
+      .then((data) => {
+        if (!cancelled) applySubscriber(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : "Failed to load subscriptions");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, applySubscriber]);
+
+  const timeZoneOptions = useMemo(
+    () => [...new Set([preferences?.timezone, browserTimeZone, "Europe/Bucharest", "UTC"].filter(Boolean))],
+    [preferences?.timezone]
+  );
+
+  const regionGroups = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const matches = regions.filter(
+      (r) =>
+        !query ||
+        r.displayName.toLowerCase().includes(query) ||
+        r.name.toLowerCase().includes(query) ||
+        r.code?.toLowerCase() === query
+    );
+    return [
+      { label: "Monitoring Areas", regions: matches.filter((r) => r.kind !== "county") },
+      { label: "Counties", regions: matches.filter((r) => r.kind === "county") },
+    ].filter((g) => g.regions.length > 0);
+  }, [regions, search]);
+
+  const toggleRegion = (regionId: string, checked: boolean) => {
+    setSelectedRegions((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(regionId);
+      else next.delete(regionId);
+      return next;
+    });
+  };
+
+  const toggleHazard = (hazard: AlertHazardType, checked: boolean) => {
+    setPreferences((prev) =>
+      prev && {
+        ...prev,
+        hazardTypes: checked ? [...prev.hazardTypes, hazard] : prev.hazardTypes.filter((h) => h !== hazard),
+      }
+    );
+  };
+
+  const handleSave = async () => {
+    if (!subscriber?.token || !preferences) return;
+    if (selectedRegions.size === 0) {
+      toast.error("Select at least one region, or pause your alerts instead");
+      return;
+    }
+    if (preferences.hazardTypes.length === 0) {
+      toast.error("Select at least one hazard type");
+      return;
+    }
+    if (preferences.floodThreshold !== null && !(preferences.floodThreshold >= 0 && preferences.floodThreshold <= 100)) {
+      toast.error("Flood threshold must be between 0 and 100%");
+      return;
+    }
+    if (preferences.hotspotThreshold !== null && !(Number.isInteger(preferences.hotspotThreshold) && preferences.hotspotThreshold >= 1)) {
+      toast.error("Hotspot threshold must be a whole number of at least 1");
+      return;
+    }
+    if (preferences.quietHoursStart !== null && (!preferences.quietHoursStart || !preferences.quietHoursEnd)) {
+      toast.error("Set both the start and end of your quiet hours");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      applySubscriber(await updateSubscriber(subscriber.token, [...selectedRegions], preferences));
+      toast.success("Preferences saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save preferences");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePause = async () => {
+    if (!subscriber?.token) return;
+
+    setIsPausing(true);
+    try {
+      const data = await setSubscriberPaused(subscriber.token, !subscriber.paused);
+      applySubscriber(data);
+      toast.success(data.paused ? "Alerts paused" : "Alerts resumed");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update subscriptions");
+    } finally {
+      setIsPausing(false);
+    }
+  };
+
+  if (isLoading || loadError || !subscriber || !preferences) {
+    return (
+      <Layout>
+        <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+          <div className="w-full max-w-md glass-panel-elevated p-8 text-center space-y-4">
+            {isLoading ? (
+              <RefreshCw className="w-8 h-8 mx-auto animate-spin text-primary" />
+            ) : (
+              <>
+                <AlertTriangle className="w-10 h-10 mx-auto text-alert" />
+                <h1 className="text-xl font-bold">Could not load your subscriptions</h1>
+                <p className="text-sm text-muted-foreground">{loadError}</p>
+                <Button asChild variant="outline">
+                  <Link to="/public">Back to public status</Link>
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 p-3 sm:p-6">
+        <div className="max-w-5xl mx-auto space-y-4 sm:space-y-6">
+          {/* Header */}
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+                <Bell className="w-5 h-5 sm:w-6 sm:h-6 text-primary" />
+                Alert Preferences
+              </h1>
+              <p className="text-muted-foreground text-xs sm:text-sm mt-1">
+                Settings for <span className="font-medium text-foreground">{subscriber.email}</span> apply to all
+                regions you follow
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleTogglePause} disabled={isPausing}>
+              {isPausing ? (
+                <RefreshCw className="w-4 h-4 animate-spin" />
+              ) : subscriber.paused ? (
+                <Play className="w-4 h-4" />
+              ) : (
+                <Pause className="w-4 h-4" />
+              )}
+              {subscriber.paused ? "Resume alerts" : "Pause all alerts"}
+            </Button>
+          </div>
+
+          {subscriber.paused && (
+            <div className="flex items-center gap-2 p-3 rounded-lg border border-alert/30 bg-alert/10 text-sm">
+              <BellOff className="w-4 h-4 text-alert flex-shrink-0" />
+              Your alerts are paused. You will not receive any emails until you resume them.
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+            {/* Regions */}
+            <div className="lg:col-span-2 glass-panel-elevated border border-border rounded-xl p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold">Regions</h2>
+                <Badge variant="outline" className="text-xs">{selectedRegions.size} selected</Badge>
+              </div>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search regions or county codes"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <div className="space-y-4 max-h-[480px] overflow-y-auto pr-1">
+                {regionGroups.map((group) => (
+                  <div key={group.label} className="space-y-1.5">
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{group.label}</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-1.5">
+                      {group.regions.map((region) => (
+                        <label
+                          key={region.id}
+                          className="flex items-center gap-2 p-2 rounded-lg bg-card/50 border border-border/50 cursor-pointer hover:border-primary/40"
+                        >
+                          <Checkbox
+                            checked={selectedRegions.has(region.id)}
+                            onCheckedChange={(checked) => toggleRegion(region.id, checked === true)}
+                          />
+                          <span className="text-sm truncate">{region.displayName}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Preferences */}
+            <div className="glass-panel-elevated border border-border rounded-xl p-4 space-y-5">
+              <div className="space-y-2">
+                <h2 className="text-sm font-semibold">Hazards</h2>
+                {hazardOptions.map((option) => {
+                  const Icon = option.icon;
+                  return (
+                    <label key={option.value} className="flex items-center gap-2 cursor-pointer">
+                      <Checkbox
+                        checked={preferences.hazardTypes.includes(option.value)}
+                        onCheckedChange={(checked) => toggleHazard(option.value, checked === true)}
+                      />
+                      <Icon className={`w-4 h-4 ${option.color}`} />
+                      <span className="text-sm">{option.label}</span>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>Minimum severity</Label>
+                <Select
+                  value={preferences.minSeverity}
+                  onValueChange={(value) => setPreferences({ ...preferences, minSeverity: value as AlertSeverity })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {severityOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>Email frequency</Label>
+                <Select
+                  value={preferences.digestFrequency}
+                  onValueChange={(value) => setPreferences({ ...preferences, digestFrequency: value as DigestFrequency })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {frequencyOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <div>
+                  <h2 className="text-sm font-semibold">Alert conditions</h2>
+                  <p className="text-xs text-muted-foreground">Leave empty to be alerted at the severity above</p>
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="flood-threshold">Flood extent above (%)</Label>
+                  <Input
+                    id="flood-threshold"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    placeholder="e.g. 5"
+                    value={preferences.floodThreshold ?? ""}
+                    onChange={(e) => setPreferences({ ...preferences, floodThreshold: parseThreshold(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="hotspot-threshold">At least this many fire hotspots</Label>
+                  <Input
+                    id="hotspot-threshold"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder="e.g. 3"
+                    value={preferences.hotspotThreshold ?? ""}
+                    onChange={(e) => setPreferences({ ...preferences, hotspotThreshold: parseThreshold(e.target.value) })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="quiet-hours">Quiet hours</Label>
+                  <Switch
+                    id="quiet-hours"
+                    checked={preferences.quietHoursStart !== null}
+                    onCheckedChange={(checked) =>
+                      setPreferences({
+                        ...preferences,
+                        quietHoursStart: checked ? DEFAULT_QUIET_HOURS.start : null,
+                        quietHoursEnd: checked ? DEFAULT_QUIET_HOURS.end : null,
+                      })
+                    }
+                  />
+                </div>
+                {preferences.quietHoursStart !== null && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      type="time"
+                      aria-label="Quiet hours start"
+                      value={preferences.quietHoursStart}
+                      onChange={(e) => setPreferences({ ...preferences, quietHoursStart: e.target.value })}
+                    />
+                    <Input
+                      type="time"
+                      aria-label="Quiet hours end"
+                      value={preferences.quietHoursEnd ?? ""}
+                      onChange={(e) => setPreferences({ ...preferences, quietHoursEnd: e.target.value })}
+                    />
+                  </div>
+                )}
+                <div className="space-y-1.5">
+                  <Label>Time zone</Label>
+                  <Select
+                    value={preferences.timezone}
+                    onValueChange={(value) => setPreferences({ ...preferences, timezone: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeZoneOptions.map((zone) => (
+                        <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Emails held back during quiet hours are sent when they end. Digests arrive at 08:00.
+                  </p>
+                </div>
+              </div>
+
+              <Button className="w-full" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                Save Preferences
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -6,8 +6,10 @@ import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { z } from "zod";
-import { getCachedSatelliteData } from "@/lib/satellite-cache";
-import { type RegionAnalysis } from "@/lib/satellite-api";
+import { getLatestAnalyses, type StoredAnalysis, type HazardIndicators } from "@/lib/satellite-api";
+import { alertSeverity, analysisRisk, RISK_HAZARDS, type RiskLevel } from "@/lib/risk-scoring";
+import { ProvenanceBadge } from "@/components/ProvenanceBadge";
+import { useRegions } from "@/hooks/useRegions";
 
 const emailSchema = z.string()
   .trim()
@@ -33,74 +35,55 @@ import {
   RefreshCw
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { VolunteerAnnouncement } from "@/types";
+import type { RegionKind, VolunteerAnnouncement } from "@/types";
 
 interface AnnouncementWithSignup extends VolunteerAnnouncement {
   isSigningUp?: boolean;
   volunteerEmail?: string;
 }
 
-type RiskLevel = "low" | "medium" | "high" | "critical";
-
 interface RegionStatus {
   id: string;
   name: string;
   displayName: string;
   riskLevel: RiskLevel;
-  floodRisk: number;
+  floodRisk: number; // risk model score, 0-100
   vegetationHealth: number;
-  fireRisk: number;
+  fireRisk: number; // risk model score, 0-100
   lastUpdated: string;
   alerts: number;
+  provenance?: HazardIndicators['provenance'];
 }
 
-// Convert satellite API data to UI format
-function convertAnalysisToStatus(analysis: RegionAnalysis): RegionStatus {
+// Convert a stored analysis snapshot to UI format; levels and the flood / fire scores come
+// from the shared risk model, so they match the Dashboard and the alerts
+function convertAnalysisToStatus({ analysis, analyzedAt }: StoredAnalysis): RegionStatus {
   const { indicators, geeAnalysis } = analysis;
-  
-  // Use actual numeric data from GEE analysis when available
-  const floodRisk = geeAnalysis?.floodPercentage ?? 
-    (indicators.floodRisk === 'high' ? 65 : indicators.floodRisk === 'medium' ? 35 : 15);
+  const risk = analysisRisk(analysis);
   
   // Convert NDVI to vegetation health percentage (NDVI ranges from -1 to 1, healthy > 0.3)
   const ndviValue = geeAnalysis?.ndviMean ?? 0.4;
   const vegetationHealth = Math.max(0, Math.min(100, Math.round((ndviValue + 0.2) * 70)));
   
-  // Use actual fire data from FIRMS
-  const fireHotspots = indicators.fireData?.activeHotspots ?? 0;
-  const totalFRP = indicators.fireData?.totalFRP ?? 0;
-  
-  // Calculate fire risk based on actual hotspot data
-  let fireRisk: number;
-  if (fireHotspots >= 10 || totalFRP > 100) {
-    fireRisk = 85 + Math.random() * 10;
-  } else if (fireHotspots >= 5 || totalFRP > 50) {
-    fireRisk = 60 + Math.random() * 15;
-  } else if (fireHotspots >= 1) {
-    fireRisk = 35 + Math.random() * 15;
-  } else {
-    fireRisk = 5 + Math.random() * 15;
-  }
-  
-  const maxRisk = Math.max(floodRisk, fireRisk);
-  const riskLevel: RiskLevel = 
-    maxRisk > 60 ? "critical" : 
-    maxRisk > 40 ? "high" : 
-    maxRisk > 20 ? "medium" : "low";
-  
   return {
     id: analysis.regionId,
     name: analysis.regionId,
     displayName: analysis.regionName,
-    riskLevel,
-    floodRisk: Math.round(floodRisk),
-    vegetationHealth: Math.round(vegetationHealth),
-    fireRisk: Math.round(fireRisk),
-    lastUpdated: geeAnalysis?.dataDate || indicators.lastUpdate || new Date().toISOString(),
-    alerts: fireHotspots + (floodRisk > 50 ? 1 : 0),
+    riskLevel: risk.level,
+    floodRisk: risk.hazards.flood?.score ?? 0,
+    vegetationHealth,
+    fireRisk: risk.hazards.fire?.score ?? 0,
+    lastUpdated: analyzedAt,
+    alerts: RISK_HAZARDS.filter((h) => risk.hazards[h]?.measured && alertSeverity(risk.hazards[h].level)).length,
+    provenance: indicators.provenance,
   };
 }
 
+const regionSets: { value: RegionKind; label: string }[] = [
+  { value: "area", label: "Monitoring Areas" },
+  { value: "county", label: "Counties" },
+];
+
 const riskConfig: Record<RiskLevel, { color: string; bg: string; icon: typeof CheckCircle2; label: string }> = {
   low: { color: "text-vegetation", bg: "bg-vegetation/10", icon: CheckCircle2, label: "Low Risk" },
   medium: { color: "text-alert", bg: "bg-alert/10", icon: Clock, label: "Moderate" },
@@ -119,30 +102,35 @@ export function Public() {
   const [regionStatuses, setRegionStatuses] = useState<RegionStatus[]>([]);
   const [isLoadingData, setIsLoadingData] = useState(true);
   const [dataError, setDataError] = useState<string | null>(null);
-  const [lastCacheTime, setLastCacheTime] = useState<number | null>(null);
+  const [lastAnalyzedAt, setLastAnalyzedAt] = useState<number | null>(null);
+  const [regionSet, setRegionSet] = useState<RegionKind>("area");
+  const { regions } = useRegions();
 
-  // Fetch satellite data (with caching)
+  // Latest snapshots written by the scheduled analysis job for the selected region set
   useEffect(() => {
+    let cancelled = false;
+
     const fetchSatelliteData = async () => {
       setIsLoadingData(true);
       setDataError(null);
+      setRegionStatuses([]);
       try {
-        const { data: analyses, fromCache, cacheTime } = await getCachedSatelliteData(false);
-        const statuses = analyses.map(convertAnalysisToStatus);
-        setRegionStatuses(statuses);
-        setLastCacheTime(cacheTime);
-        if (fromCache) {
-          console.log("Loaded satellite data from cache");
-        }
+        const analyses = await getLatestAnalyses(regionSet);
+        if (cancelled) return;
+        applyAnalyses(analyses);
       } catch (error) {
         console.error("Failed to fetch satellite data:", error);
-        setDataError("Unable to load satellite data. Please try again.");
+        if (!cancelled) setDataError("Unable to load satellite data. Please try again.");
       } finally {
-        setIsLoadingData(false);
+        if (!cancelled) setIsLoadingData(false);
       }
     };
     fetchSatelliteData();
-  }, []);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [regionSet]);
 
   useEffect(() => {
     const fetchAnnouncements = async () => {
@@ -160,18 +148,31 @@ export function Public() {
     fetchAnnouncements();
   }, []);
 
-  const filteredRegions = regionStatuses.filter((region) =>
-    region.displayName.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const applyAnalyses = (analyses: StoredAnalysis[]) => {
+    setRegionStatuses(analyses.map(convertAnalysisToStatus));
+    setLastAnalyzedAt(
+      analyses.length > 0 ? Math.max(...analyses.map((a) => new Date(a.analyzedAt).getTime())) : null
+    );
+  };
+
+  // Names come from the region registry so cards, search and subscriptions agree
+  const registryRegion = (regionId: string) => regions.find((r) => r.id === regionId);
+
+  const filteredRegions = regionStatuses.filter((region) => {
+    const query = searchQuery.toLowerCase();
+    const registered = registryRegion(region.id);
+    return (
+      region.displayName.toLowerCase().includes(query) ||
+      (registered?.name.toLowerCase().includes(query) ?? false) ||
+      (registered?.code?.toLowerCase() === query)
+    );
+  });
 
   const handleRefreshData = async () => {
     setIsLoadingData(true);
     setDataError(null);
     try {
-      const { data: analyses, cacheTime } = await getCachedSatelliteData(true); // Force refresh
-      const statuses = analyses.map(convertAnalysisToStatus);
-      setRegionStatuses(statuses);
-      setLastCacheTime(cacheTime);
+      applyAnalyses(await getLatestAnalyses(regionSet));
       toast.success("Data refreshed successfully");
     } catch (error) {
       console.error("Failed to refresh satellite data:", error);
@@ -277,9 +278,9 @@ export function Public() {
               <RefreshCw className={cn("w-4 h-4 mr-2", isLoadingData && "animate-spin")} />
               {isLoadingData ? "Loading..." : "Refresh Data"}
             </Button>
-            {lastCacheTime && (
+            {lastAnalyzedAt && (
               <p className="text-xs text-muted-foreground">
-                Last updated: {new Date(lastCacheTime).toLocaleString()}
+                Last analyzed: {new Date(lastAnalyzedAt).toLocaleString()}
               </p>
             )}
           </div>
@@ -363,6 +364,19 @@ export function Public() {
 
         {/* Search */}
         <div className="mb-6 sm:mb-8">
+          <div className="flex justify-center gap-1 mb-3">
+            {regionSets.map((set) => (
+              <Button
+                key={set.value}
+                variant={regionSet === set.value ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setRegionSet(set.value)}
+                disabled={isLoadingData && regionSet !== set.value}
+              >
+                {set.label}
+              </Button>
+            ))}
+          </div>
           <div className="relative max-w-md mx-auto">
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
             <Input
@@ -373,6 +387,11 @@ export function Public() {
               className="pl-12 h-12 sm:h-11 text-base bg-card border-border"
             />
           </div>
+          <p className="text-[10px] sm:text-xs text-muted-foreground text-center mt-2">
+            <span className="text-accent">obs</span> satellite observation ·{" "}
+            <span className="text-alert">est</span> seasonal estimate ·{" "}
+            n/a no usable scene. Hover a tag for the method used.
+          </p>
         </div>
 
         {/* Region Status Grid */}
@@ -392,7 +411,11 @@ export function Public() {
           </div>
         ) : filteredRegions.length === 0 ? (
           <div className="text-center py-16">
-            <p className="text-muted-foreground">No regions found matching your search.</p>
+            <p className="text-muted-foreground">
+              {regionStatuses.length === 0
+                ? "No analyses available yet. Regions are analyzed automatically every few hours."
+                : "No regions found matching your search."}
+            </p>
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4 mb-8 sm:mb-12">
@@ -427,16 +450,17 @@ export function Public() {
                       <div className="flex items-center justify-between text-xs sm:text-sm mb-1">
                         <span className="text-muted-foreground flex items-center gap-1">
                           <Waves className="w-3 h-3" /> Flood
+                          <ProvenanceBadge provenance={region.provenance?.flood} compact />
                         </span>
                         <span className={region.floodRisk > 50 ? "text-danger font-medium" : "text-foreground"}>
-                          {region.floodRisk}%
+                          {region.floodRisk}/100
                         </span>
                       </div>
                       <div className="h-1.5 bg-muted rounded-full overflow-hidden">
                         <div
                           className={cn(
                             "h-full rounded-full transition-all",
-                            region.floodRisk > 70 ? "bg-danger" :
+                            region.floodRisk > 75 ? "bg-danger" :
                             region.floodRisk > 50 ? "bg-alert" :
                             region.floodRisk > 25 ? "bg-primary" : "bg-vegetation"
                           )}
@@ -450,16 +474,17 @@ export function Public() {
                       <div className="flex items-center justify-between text-xs sm:text-sm mb-1">
                         <span className="text-muted-foreground flex items-center gap-1">
                           <Flame className="w-3 h-3" /> Fire
+                          <ProvenanceBadge provenance={region.provenance?.fire} compact />
                         </span>
                         <span className={region.fireRisk > 50 ? "text-danger font-medium" : "text-foreground"}>
-                          {region.fireRisk}%
+                          {region.fireRisk}/100
                         </span>
                       </div>
                       <div className="h-1.5 bg-muted rounded-full overflow-hidden">
                         <div
                           className={cn(
                             "h-full rounded-full transition-all",
-                            region.fireRisk > 70 ? "bg-danger" :
+                            region.fireRisk > 75 ? "bg-danger" :
                             region.fireRisk > 50 ? "bg-alert" :
                             region.fireRisk > 25 ? "bg-primary" : "bg-vegetation"
                           )}
@@ -473,6 +498,7 @@ export function Public() {
                       <div className="flex items-center justify-between text-xs sm:text-sm mb-1">
                         <span className="text-muted-foreground flex items-center gap-1">
                           <Leaf className="w-3 h-3" /> Veg
+                          <ProvenanceBadge provenance={region.provenance?.vegetation} compact />
                         </span>
                         <span className="text-vegetation">{region.vegetationHealth}%</span>
                       </div>
@@ -487,7 +513,7 @@ export function Public() {
 
                   <div className="flex items-center justify-between mt-3 sm:mt-4 pt-2 sm:pt-3 border-t border-border">
                     <span className="text-[10px] sm:text-xs text-muted-foreground">
-                      {lastCacheTime ? `Updated ${new Date(lastCacheTime).toLocaleTimeString()}` : "Loading..."}
+                      Analyzed {new Date(region.lastUpdated).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
                     </span>
                     {region.alerts > 0 && (
                       <Badge variant="destructive" className="text-[10px] sm:text-xs px-1.5 sm:px-2">
@@ -510,6 +536,7 @@ export function Public() {
           <h2 className="text-xl sm:text-2xl font-bold mb-2">Stay Informed</h2>
           <p className="text-sm sm:text-base text-muted-foreground mb-4 sm:mb-6 max-w-md mx-auto">
             Subscribe to receive email alerts when hazard levels change in your selected region.
+            We'll email you a link to confirm the subscription first.
           </p>
 
           <div className="flex flex-col gap-3 max-w-lg mx-auto">
@@ -536,7 +563,7 @@ export function Public() {
 
           {selectedRegion ? (
             <p className="text-xs sm:text-sm text-primary mt-3">
-              Subscribing to: {regionStatuses.find((r) => r.id === selectedRegion)?.displayName}
+              Subscribing to: {registryRegion(selectedRegion)?.displayName ?? regionStatuses.find((r) => r.id === selectedRegion)?.displayName}
             </p>
           ) : (
             <p className="text-xs sm:text-sm text-muted-foreground mt-3">
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { Layout } from "@/components/layout/Layout";
+import { RegionDrawMap } from "@/components/admin/RegionDrawMap";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRegions } from "@/hooks/useRegions";
+import { createRegion, deleteRegion } from "@/lib/regions";
+import { parseRegionFile, slugifyRegionId, type RegionGeometry } from "@/lib/geometry";
+import { MapIcon, Upload, Save, Trash2, RefreshCw, Lock } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+export default function RegionManagement() {
+  const { regions, isLoading, error, reload } = useRegions();
+  const [name, setName] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [regionId, setRegionId] = useState("");
+  const [idEdited, setIdEdited] = useState(false);
+  const [geometry, setGeometry] = useState<RegionGeometry | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!idEdited) setRegionId(slugifyRegionId(value));
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setGeometry(parseRegionFile(await file.text(), file.name));
+      toast.success(`Loaded polygon from ${file.name}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to read file");
+    }
+  };
+
+  const resetForm = () => {
+    setName("");
+    setDisplayName("");
+    setRegionId("");
+    setIdEdited(false);
+    setGeometry(null);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || !displayName.trim() || !regionId) {
+      toast.error("Please fill in the name, display name and ID");
+      return;
+    }
+    if (!geometry) {
+      toast.error("Draw or upload a polygon first");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const region = await createRegion({ id: regionId, name, displayName, geometry });
+      toast.success(`Region "${region.displayName}" created`);
+      resetForm();
+      reload();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create region");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id);
+    try {
+      await deleteRegion(id);
+      toast.success("Region deleted");
+      reload();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete region");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 p-3 sm:p-6">
+        <div className="max-w-6xl mx-auto space-y-4 sm:space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+              <MapIcon className="w-5 h-5 sm:w-6 sm:h-6 text-primary" />
+              Monitoring Regions
+            </h1>
+            <p className="text-muted-foreground text-xs sm:text-sm mt-1">
+              Define custom areas by drawing a polygon or uploading GeoJSON / KML
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+            {/* New region form */}
+            <div className="lg:col-span-2 glass-panel-elevated border border-border rounded-xl p-4 space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="region-name">Name</Label>
+                  <Input
+                    id="region-name"
+                    placeholder="Retezat"
+                    value={name}
+                    onChange={(e) => handleNameChange(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="region-display-name">Display Name</Label>
+                  <Input
+                    id="region-display-name"
+                    placeholder="Parcul Național Retezat"
+                    value={displayName}
+                    onChange={(e) => setDisplayName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="region-id">ID</Label>
+                  <Input
+                    id="region-id"
+                    placeholder="retezat"
+                    className="font-mono"
+                    value={regionId}
+                    onChange={(e) => {
+                      setIdEdited(true);
+                      setRegionId(e.target.value.toLowerCase());
+                    }}
+                  />
+                </div>
+              </div>
+
+              <RegionDrawMap
+                regions={regions}
+                geometry={geometry}
+                onGeometryChange={setGeometry}
+                className="h-[420px]"
+              />
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="w-4 h-4" />
+                    Upload GeoJSON / KML
+                    <input
+                      type="file"
+                      accept=".geojson,.json,.kml"
+                      className="hidden"
+                      onChange={handleFileUpload}
+                    />
+                  </label>
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving || !geometry}>
+                  {isSaving ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                  Save Region
+                </Button>
+              </div>
+            </div>
+
+            {/* Existing regions */}
+            <div className="glass-panel-elevated border border-border rounded-xl p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold">Registered Regions</h2>
+                <Badge variant="outline" className="text-xs">{regions.length}</Badge>
+              </div>
+
+              {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <RefreshCw className="w-5 h-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : error ? (
+                <p className="text-sm text-danger text-center py-8">{error}</p>
+              ) : (
+                <div className="space-y-2 max-h-[520px] overflow-y-auto">
+                  {regions.map((region) => (
+                    <div
+                      key={region.id}
+                      className="flex items-center justify-between gap-2 p-2.5 rounded-lg bg-card/50 border border-border/50"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{region.displayName}</p>
+                        <p className="text-xs text-muted-foreground font-mono truncate">{region.id}</p>
+                      </div>
+                      {region.source === "custom" ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(region.id)}
+                          disabled={deletingId === region.id}
+                          className="h-7 w-7 p-0 flex-shrink-0 text-muted-foreground hover:text-danger hover:bg-danger/10"
+                        >
+                          <Trash2 className={cn("w-3.5 h-3.5", deletingId === region.id && "animate-pulse")} />
+                        </Button>
+                      ) : (
+                        <Lock className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" aria-label="Built-in region" />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
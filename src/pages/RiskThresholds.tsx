@@ -0,0 +1,426 @@
+import { useEffect, useMemo, useState } from "react";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useRegions } from "@/hooks/useRegions";
+import {
+  effectiveThresholds,
+  hasOverride,
+  listThresholdChanges,
+  loadPreviewSnapshots,
+  loadThresholdSettings,
+  previewReclassification,
+  removeThresholdOverride,
+  saveThresholds,
+  type PreviewSnapshot,
+  type ThresholdChange,
+  type ThresholdSettings,
+} from "@/lib/risk-thresholds";
+import { validateRiskThresholds, type RiskHazard, type RiskThresholds as Thresholds } from "@/lib/risk-scoring";
+import { SlidersHorizontal, Save, RefreshCw, RotateCcw, History, AlertCircle, Waves, Leaf, Flame } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+const DEFAULT_SCOPE = "default";
+
+const hazardTabs: { value: RiskHazard; label: string; icon: typeof Waves; color: string }[] = [
+  { value: "flood", label: "Flood", icon: Waves, color: "text-flood" },
+  { value: "vegetation", label: "Vegetation", icon: Leaf, color: "text-vegetation" },
+  { value: "fire", label: "Fire", icon: Flame, color: "text-danger" },
+];
+
+interface ThresholdField {
+  key: string; // path into the thresholds object, e.g. "hotspots.high"
+  label: string;
+  step: number;
+}
+
+const hazardFields: Record<RiskHazard, { description: string; fields: ThresholdField[] }> = {
+  flood: {
+    description: "Flooded share of the region (%). A level applies above its value.",
+    fields: [
+      { key: "medium", label: "Medium", step: 0.5 },
+      { key: "high", label: "High", step: 0.5 },
+      { key: "critical", label: "Critical", step: 0.5 },
+    ],
+  },
+  vegetation: {
+    description: "Mean NDVI. A level applies below its value; vegetation above \"good\" is reported healthy.",
+    fields: [
+      { key: "good", label: "Good", step: 0.01 },
+      { key: "medium", label: "Medium", step: 0.01 },
+      { key: "high", label: "High", step: 0.01 },
+      { key: "critical", label: "Critical", step: 0.01 },
+    ],
+  },
+  fire: {
+    description: "FIRMS detections in the window. Any one criterion at or above its value is enough for the level.",
+    fields: [
+      { key: "hotspots.medium", label: "Hotspots · medium", step: 1 },
+      { key: "hotspots.high", label: "Hotspots · high", step: 1 },
+      { key: "hotspots.critical", label: "Hotspots · critical", step: 1 },
+      { key: "highConfidence.high", label: "High confidence · high", step: 1 },
+      { key: "highConfidence.critical", label: "High confidence · critical", step: 1 },
+      { key: "frp.high", label: "Total FRP (MW) · high", step: 5 },
+      { key: "frp.critical", label: "Total FRP (MW) · critical", step: 5 },
+    ],
+  },
+};
+
+const previewWindows = [
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last year" },
+];
+
+// Flat { "hotspots.high": 5 } view of a thresholds object
+function flattenThresholds(value: unknown, prefix = ""): Record<string, number> {
+  const flat: Record<string, number> = {};
+  if (!value || typeof value !== "object") return flat;
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === "number") flat[prefix + key] = entry;
+    else Object.assign(flat, flattenThresholds(entry, `${prefix}${key}.`));
+  }
+  return flat;
+}
+
+function buildThresholds(values: Record<string, string>): Record<string, unknown> {
+  const thresholds: Record<string, unknown> = {};
+  for (const [path, value] of Object.entries(values)) {
+    const keys = path.split(".");
+    let target = thresholds;
+    for (const key of keys.slice(0, -1)) {
+      target = (target[key] ??= {}) as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value.trim() === "" ? NaN : Number(value);
+  }
+  return thresholds;
+}
+
+const toValues = (thresholds: unknown) =>
+  Object.fromEntries(Object.entries(flattenThresholds(thresholds)).map(([key, value]) => [key, String(value)]));
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+function changeSummary(change: ThresholdChange): string {
+  if (change.thresholds === null) return "Override removed";
+  const before = flattenThresholds(change.previous);
+  const after = flattenThresholds(change.thresholds);
+  const diffs = Object.keys(after)
+    .filter((key) => before[key] !== after[key])
+    .map((key) => (key in before ? `${key} ${before[key]} → ${after[key]}` : `${key} ${after[key]}`));
+  return change.previous === null ? `Override added: ${diffs.join(", ")}` : diffs.join(", ") || "No change";
+}
+
+export default function RiskThresholds() {
+  const { regions } = useRegions();
+  const [settings, setSettings] = useState<ThresholdSettings | null>(null);
+  const [changes, setChanges] = useState<ThresholdChange[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [scope, setScope] = useState(DEFAULT_SCOPE);
+  const [hazard, setHazard] = useState<RiskHazard>("flood");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [previewDays, setPreviewDays] = useState("90");
+  const [snapshots, setSnapshots] = useState<PreviewSnapshot[] | null>(null);
+  const [snapshotsError, setSnapshotsError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const regionId = scope === DEFAULT_SCOPE ? null : scope;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([loadThresholdSettings(), listThresholdChanges()])
+      .then(([loadedSettings, loadedChanges]) => {
+        if (cancelled) return;
+        setSettings(loadedSettings);
+        setChanges(loadedChanges);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load thresholds");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadCount]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setSnapshots(null);
+    setSnapshotsError(null);
+    loadPreviewSnapshots(Number(previewDays))
+      .then((data) => {
+        if (!cancelled) setSnapshots(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setSnapshotsError(err instanceof Error ? err.message : "Failed to load past analyses");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewDays]);
+
+  const current = useMemo(
+    () => (settings ? effectiveThresholds(settings, regionId)[hazard] : null),
+    [settings, regionId, hazard]
+  );
+
+  // Start editing from what the analyses currently use
+  useEffect(() => {
+    if (current) setValues(toValues(current));
+  }, [current]);
+
+  const proposed = useMemo(() => buildThresholds(values) as unknown as Thresholds[RiskHazard], [values]);
+  const problem = current ? validateRiskThresholds(hazard, proposed) : null;
+  const currentValues = current ? flattenThresholds(current) : {};
+  const isDirty = Object.entries(flattenThresholds(proposed)).some(([key, value]) => currentValues[key] !== value);
+  const isOverridden = !!settings && !!regionId && hasOverride(settings, regionId, hazard);
+
+  const preview = useMemo(() => {
+    if (!settings || !snapshots || !current || problem) return null;
+    // Defaults apply to every region that has no override of its own
+    const affected = snapshots.filter((s) =>
+      regionId ? s.regionId === regionId : !hasOverride(settings, s.regionId, hazard)
+    );
+    return previewReclassification(affected, hazard, current, proposed);
+  }, [settings, snapshots, current, proposed, problem, regionId, hazard]);
+
+  const regionName = (id: string | null) =>
+    id ? (regions.find((r) => r.id === id)?.displayName ?? id) : "All regions (default)";
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveThresholds(hazard, proposed, regionId);
+      toast.success(`${hazardTabs.find((t) => t.value === hazard)?.label} thresholds saved for ${regionName(regionId)}`);
+      setReloadCount((c) => c + 1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save thresholds");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveOverride = async () => {
+    if (!regionId) return;
+    setIsSaving(true);
+    try {
+      await removeThresholdOverride(regionId, hazard);
+      toast.success(`${regionName(regionId)} now uses the default thresholds`);
+      setReloadCount((c) => c + 1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove override");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 p-3 sm:p-6">
+        <div className="max-w-6xl mx-auto space-y-4 sm:space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+              <SlidersHorizontal className="w-5 h-5 sm:w-6 sm:h-6 text-primary" />
+              Risk Thresholds
+            </h1>
+            <p className="text-muted-foreground text-xs sm:text-sm mt-1">
+              Tune when a hazard is rated medium, high or critical, for all regions or one region. Changes apply from
+              the next analysis run.
+            </p>
+          </div>
+
+          {error ? (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-danger">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </div>
+          ) : !settings ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+              {/* Editor */}
+              <div className="lg:col-span-2 glass-panel-elevated border border-border rounded-xl p-4 space-y-4">
+                <div className="flex flex-wrap items-end justify-between gap-3">
+                  <div className="space-y-1.5 min-w-[220px]">
+                    <Label>Applies to</Label>
+                    <Select value={scope} onValueChange={setScope}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_SCOPE}>All regions (default)</SelectItem>
+                        {regions.map((region) => (
+                          <SelectItem key={region.id} value={region.id}>
+                            {region.displayName}
+                            {settings.overrides.some((r) => r.region_id === region.id) && " · custom"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {hazardTabs.map((tab) => (
+                      <Button
+                        key={tab.value}
+                        variant={hazard === tab.value ? "secondary" : "ghost"}
+                        size="sm"
+                        className="h-8 px-2 text-xs"
+                        onClick={() => setHazard(tab.value)}
+                      >
+                        <tab.icon className={cn("w-3.5 h-3.5", tab.color)} />
+                        {tab.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <p className="text-xs text-muted-foreground">{hazardFields[hazard].description}</p>
+                  {regionId && (
+                    <Badge variant="outline" className="text-[10px]">
+                      {isOverridden ? "Region override" : "Using defaults"}
+                    </Badge>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  {hazardFields[hazard].fields.map((field) => (
+                    <div key={field.key} className="space-y-1.5">
+                      <Label htmlFor={`threshold-${field.key}`} className="text-xs">
+                        {field.label}
+                      </Label>
+                      <Input
+                        id={`threshold-${field.key}`}
+                        type="number"
+                        step={field.step}
+                        value={values[field.key] ?? ""}
+                        onChange={(e) => setValues((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                        className={cn(
+                          "font-mono",
+                          currentValues[field.key] !== Number(values[field.key]) && "border-primary/60"
+                        )}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {problem && (
+                  <p className="text-xs text-danger flex items-center gap-1.5">
+                    <AlertCircle className="w-3.5 h-3.5" />
+                    {problem}
+                  </p>
+                )}
+
+                {/* Impact on past analyses */}
+                <div className="rounded-lg border border-border/50 bg-card/50 p-3 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <h2 className="text-sm font-semibold">Impact on past analyses</h2>
+                    <Select value={previewDays} onValueChange={setPreviewDays}>
+                      <SelectTrigger className="h-8 w-[140px] text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {previewWindows.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {snapshotsError ? (
+                    <p className="text-xs text-danger">{snapshotsError}</p>
+                  ) : !snapshots ? (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                      <RefreshCw className="w-3.5 h-3.5 animate-spin" />
+                      Loading past analyses…
+                    </p>
+                  ) : !preview ? (
+                    <p className="text-xs text-muted-foreground">Fix the thresholds to see their impact.</p>
+                  ) : preview.scored === 0 ? (
+                    <p className="text-xs text-muted-foreground">No analyses with measured {hazard} data in this period.</p>
+                  ) : (
+                    <div className="space-y-1">
+                      <p className="text-sm">
+                        <span className={cn("font-semibold", preview.changed > 0 && "text-primary")}>
+                          {preview.changed}
+                        </span>{" "}
+                        of {preview.scored} snapshots would be classified differently
+                      </p>
+                      {preview.changed > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          {preview.raised} raised · {preview.lowered} lowered · {preview.alertsChanged} with a different
+                          alert outcome
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap items-center justify-end gap-2">
+                  {isOverridden && (
+                    <Button variant="outline" onClick={handleRemoveOverride} disabled={isSaving}>
+                      <RotateCcw className="w-4 h-4" />
+                      Use Defaults
+                    </Button>
+                  )}
+                  <Button variant="ghost" onClick={() => current && setValues(toValues(current))} disabled={!isDirty}>
+                    Discard
+                  </Button>
+                  <Button onClick={handleSave} disabled={isSaving || !isDirty || !!problem}>
+                    {isSaving ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Save Thresholds
+                  </Button>
+                </div>
+              </div>
+
+              {/* Audit log */}
+              <div className="glass-panel-elevated border border-border rounded-xl p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-sm font-semibold flex items-center gap-2">
+                    <History className="w-4 h-4 text-muted-foreground" />
+                    Change Log
+                  </h2>
+                  <Badge variant="outline" className="text-xs">{changes.length}</Badge>
+                </div>
+
+                {changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">No changes yet</p>
+                ) : (
+                  <div className="space-y-2 max-h-[560px] overflow-y-auto">
+                    {changes.map((change) => (
+                      <div key={change.id} className="p-2.5 rounded-lg bg-card/50 border border-border/50 space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium truncate">
+                            {hazardTabs.find((t) => t.value === change.hazard)?.label ?? change.hazard} ·{" "}
+                            {regionName(change.regionId)}
+                          </p>
+                          <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                            {formatTime(change.changedAt)}
+                          </span>
+                        </div>
+                        <p className="text-xs text-muted-foreground font-mono break-words">{changeSummary(change)}</p>
+                        <p className="text-[10px] text-muted-foreground/70">{change.changedBy ?? "Unknown user"}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
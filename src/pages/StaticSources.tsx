@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  STATIC_SOURCE_EXPIRY_DAYS,
+  confirmStaticSource,
+  listStaticSources,
+  switchOffStaticSource,
+  type StaticSource,
+  type StaticSourceStatus,
+} from "@/lib/static-sources";
+import { Factory, Check, Power, RefreshCw, AlertCircle } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+const statusBadges: Record<StaticSourceStatus, { label: string; className: string }> = {
+  candidate: { label: "Needs review", className: "border-alert/50 text-alert" },
+  confirmed: { label: "Masking", className: "border-vegetation/50 text-vegetation" },
+  expired: { label: "Expired", className: "text-muted-foreground" },
+  off: { label: "Off", className: "text-muted-foreground" },
+};
+
+const filters: { value: "review" | "all"; label: string }[] = [
+  { value: "review", label: "Needs review" },
+  { value: "all", label: "All sources" },
+];
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+
+export default function StaticSources() {
+  const [sources, setSources] = useState<StaticSource[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [filter, setFilter] = useState<"review" | "all">("review");
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listStaticSources()
+      .then((data) => {
+        if (cancelled) return;
+        setSources(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load static thermal sources");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadCount]);
+
+  const candidates = sources?.filter((source) => source.status === "candidate") ?? [];
+  const shown = filter === "review" ? candidates : (sources ?? []);
+
+  const handleUpdate = async (source: StaticSource, action: "confirm" | "off") => {
+    setUpdatingId(source.id);
+    try {
+      if (action === "confirm") {
+        await confirmStaticSource(source.id);
+        toast.success(`${source.name} now masks its detections as industrial`);
+      } else {
+        await switchOffStaticSource(source.id);
+        toast.success(`${source.name} switched off; its detections count as fires`);
+      }
+      setReloadCount((c) => c + 1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update the source");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 p-3 sm:p-6">
+        <div className="max-w-4xl mx-auto space-y-4 sm:space-y-6">
+          {/* Header */}
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+              <Factory className="w-5 h-5 sm:w-6 sm:h-6 text-primary" />
+              Static Thermal Sources
+            </h1>
+            <p className="text-muted-foreground text-xs sm:text-sm mt-1">
+              FIRMS detections inside a confirmed source count as industrial heat, not fire. Analyses propose
+              locations that fire on most days; they mask nothing until confirmed here. Detected sources not seen
+              for {STATIC_SOURCE_EXPIRY_DAYS} days expire until an analysis sees them again.
+            </p>
+          </div>
+
+          <div className="glass-panel-elevated border border-border rounded-xl p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <div className="flex items-center gap-1">
+                {filters.map((option) => (
+                  <Button
+                    key={option.value}
+                    variant={filter === option.value ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-8 px-2 text-xs"
+                    onClick={() => setFilter(option.value)}
+                  >
+                    {option.label}
+                    {option.value === "review" && candidates.length > 0 && (
+                      <Badge variant="outline" className="ml-1 text-[10px]">{candidates.length}</Badge>
+                    )}
+                  </Button>
+                ))}
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setReloadCount((c) => c + 1)}>
+                <RefreshCw className="w-4 h-4" />
+                Refresh
+              </Button>
+            </div>
+
+            {error ? (
+              <div className="flex items-center justify-center gap-2 py-8 text-sm text-danger">
+                <AlertCircle className="w-4 h-4" />
+                {error}
+              </div>
+            ) : !sources ? (
+              <div className="flex items-center justify-center py-8">
+                <RefreshCw className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : shown.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {filter === "review" ? "No sources waiting for review" : "No static thermal sources"}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {shown.map((source) => (
+                  <div
+                    key={source.id}
+                    className="flex flex-wrap items-center justify-between gap-2 p-2.5 rounded-lg bg-card/50 border border-border/50"
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <p className="text-sm font-medium truncate">{source.name}</p>
+                        <Badge variant="outline" className={cn("text-[10px]", statusBadges[source.status].className)}>
+                          {statusBadges[source.status].label}
+                        </Badge>
+                        <Badge variant="outline" className="text-[10px]">
+                          {source.origin === "auto" ? "Detected" : "Manual"}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground font-mono">
+                        {source.latitude !== null && source.longitude !== null
+                          ? `${source.latitude.toFixed(4)}, ${source.longitude.toFixed(4)} · ${source.radiusKm} km`
+                          : "Polygon"}
+                      </p>
+                      <p className="text-[10px] text-muted-foreground/70">
+                        Added {formatDate(source.createdAt)}
+                        {source.lastSeenAt && ` · last seen ${formatDate(source.lastSeenAt)}`}
+                        {source.confirmedAt && ` · confirmed ${formatDate(source.confirmedAt)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {(source.status === "candidate" || source.status === "off") && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUpdate(source, "confirm")}
+                          disabled={updatingId === source.id}
+                        >
+                          <Check className="w-4 h-4" />
+                          {source.status === "off" ? "Switch On" : "Confirm"}
+                        </Button>
+                      )}
+                      {source.status !== "off" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleUpdate(source, "off")}
+                          disabled={updatingId === source.id}
+                          className="text-muted-foreground hover:text-danger hover:bg-danger/10"
+                        >
+                          <Power className="w-4 h-4" />
+                          {source.status === "candidate" ? "Reject" : "Switch Off"}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Layout } from "@/components/layout/Layout";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { BellOff, CheckCircle2, AlertTriangle, Loader2 } from "lucide-react";
+
+type UnsubscribeStatus = "confirm" | "working" | "done" | "error";
+
+// Target of the unsubscribe link in alert emails. Nothing is removed until the subscriber
+// confirms, so link scanners that open every URL in an email cannot unsubscribe anyone.
+export default function Unsubscribe() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [status, setStatus] = useState<UnsubscribeStatus>(token ? "confirm" : "error");
+
+  const unsubscribe = async () => {
+    setStatus("working");
+    const { error } = await supabase.functions.invoke("manage-subscription", {
+      body: { action: "unsubscribe", unsubscribe_token: token },
+    });
+    if (error) console.error("[unsubscribe] Failed to unsubscribe:", error);
+    setStatus(error ? "error" : "done");
+  };
+
+  return (
+    <Layout>
+      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+        <div className="w-full max-w-md glass-panel-elevated p-8 text-center space-y-4">
+          {status === "confirm" && (
+            <>
+              <BellOff className="w-10 h-10 mx-auto text-muted-foreground" />
+              <h1 className="text-xl font-bold">Unsubscribe from alerts?</h1>
+              <p className="text-sm text-muted-foreground">
+                You will no longer receive hazard alert emails for this region.
+              </p>
+              <Button onClick={unsubscribe} className="w-full">
+                Unsubscribe
+              </Button>
+            </>
+          )}
+          {status === "working" && (
+            <>
+              <Loader2 className="w-10 h-10 mx-auto animate-spin text-primary" />
+              <h1 className="text-xl font-bold">Unsubscribing…</h1>
+            </>
+          )}
+          {status === "done" && (
+            <>
+              <CheckCircle2 className="w-10 h-10 mx-auto text-vegetation" />
+              <h1 className="text-xl font-bold">You have been unsubscribed</h1>
+              <p className="text-sm text-muted-foreground">
+                You will no longer receive hazard alert emails for this region.
+              </p>
+            </>
+          )}
+          {status === "error" && (
+            <>
+              <AlertTriangle className="w-10 h-10 mx-auto text-alert" />
+              <h1 className="text-xl font-bold">Could not unsubscribe</h1>
+              <p className="text-sm text-muted-foreground">
+                {token
+                  ? "Something went wrong. Please try the link again later."
+                  : "This unsubscribe link is incomplete. Use the link from your alert email."}
+              </p>
+            </>
+          )}
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/public">
+              <BellOff className="w-4 h-4" />
+              Back to public status
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </Layout>
+  );
+}
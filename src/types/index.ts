@@ -5,8 +5,15 @@ export interface Region {
   bbox: [number, number, number, number]; // [minLon, minLat, maxLon, maxLat]
   center: [number, number]; // [lat, lon]
   zoom: number;
+  geometry?: GeoJSON.Polygon | GeoJSON.MultiPolygon;
+  source?: 'builtin' | 'custom'; // custom regions are drawn or uploaded by admins
+  kind?: RegionKind;
+  code?: string | null; // two-letter county code (e.g. "CJ"), counties only
 }
 
+// 'area' = monitoring areas, 'county' = județe keyed by SIRUTA code
+export type RegionKind = 'area' | 'county';
+
 export type HazardType = 'flood' | 'vegetation' | 'fire' | 'hybrid';
 
 export interface VolunteerAnnouncement {
@@ -55,19 +62,29 @@ export interface HazardSummary {
   region_id: string;
   region_name: string;
   flood_percentage?: number;
-  fire_percentage?: number;
+  fire_risk_score?: number; // 0-100 fire hazard score of the risk model, not an area share
   avg_ndvi?: number;
   risk_level: 'low' | 'medium' | 'high' | 'critical';
   last_updated: string;
   alerts: Alert[];
 }
 
+// Lifecycle of a stored alert: live while open or acknowledged, final once resolved
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
 export interface Alert {
   id: string;
+  region_id: string;
+  region_name: string;
   type: 'flood' | 'drought' | 'vegetation_stress' | 'fire_risk';
   severity: 'info' | 'warning' | 'danger';
+  status: AlertStatus;
   message: string;
-  timestamp: string;
+  timestamp: string; // when the alert was opened
+  last_seen_at: string; // latest analysis still showing the hazard
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  auto_resolved: boolean; // the hazard cleared without an analyst resolving it
 }
 
 export interface JobStatus {
@@ -0,0 +1,432 @@
+import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { renderAlertEmail, renderDigestEmail, type AlertEmailMetric } from './alert-email.ts'
+import { type MailTransport, type MailMessage } from './mail.ts'
+import { deliveryTime } from './schedule.ts'
+import { alertSeverity } from './risk-scoring.ts'
+import { snapshotRisk, type SnapshotRecord } from './snapshots.ts'
+
+// Notifies alert_subscriptions when a region's latest snapshot meets a subscriber's rules:
+// the hazard's severity is at least min_severity and the optional numeric thresholds hold.
+// subscription_alert_states remembers what each subscriber was last alerted about, so an
+// ongoing flood is reported once when it starts (and again if it escalates), not after every
+// scheduled analysis. A state only advances once its notification was sent or queued, so a
+// failed delivery is tried again by the next dispatch. Quiet hours and digest modes queue the
+// notification instead of sending it.
+
+export type HazardType = 'flood' | 'vegetation' | 'fire'
+
+export const HAZARD_TYPES: HazardType[] = ['flood', 'vegetation', 'fire']
+
+export const HAZARD_LABELS: Record<HazardType, string> = {
+  flood: 'Flood',
+  vegetation: 'Vegetation stress',
+  fire: 'Wildfire',
+}
+
+// Lowest alert severity a subscriber wants to hear about (Alert.severity without 'info')
+export type AlertSeverity = 'warning' | 'danger'
+export const ALERT_SEVERITIES: AlertSeverity[] = ['warning', 'danger']
+
+// 'immediate' emails each alert as it happens; digests bundle them
+export type DigestFrequency = 'immediate' | 'daily' | 'weekly'
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['immediate', 'daily', 'weekly']
+
+// Column default of alert_subscriptions.hazard_types
+export const DEFAULT_SUBSCRIBED_HAZARDS: HazardType[] = ['flood', 'vegetation']
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { warning: 1, danger: 2 }
+
+// Queued notifications delivered per send-alert-digests run
+const MAX_QUEUED_PER_RUN = 500
+
+// The alert_subscriptions columns the rules and delivery need
+const SUBSCRIPTION_RULE_COLUMNS =
+  'id, email, region_id, hazard_types, unsubscribe_token, min_severity, digest_frequency, flood_threshold, hotspot_threshold, quiet_hours_start, quiet_hours_end, timezone'
+
+interface SubscriptionRules {
+  id: string
+  email: string
+  region_id: string
+  hazard_types: string[] | null
+  unsubscribe_token: string
+  min_severity: AlertSeverity
+  digest_frequency: DigestFrequency
+  flood_threshold: number | null // flood % must be above this
+  hotspot_threshold: number | null // hotspot count must be at least this
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+  timezone: string
+}
+
+interface HazardRule {
+  level: (snapshot: SnapshotRecord) => string
+  meetsThreshold: (snapshot: SnapshotRecord, subscription: SubscriptionRules) => boolean
+  metrics: (snapshot: SnapshotRecord) => AlertEmailMetric[]
+}
+
+const formatNumber = (value: number | null, digits: number, unit = '') =>
+  value === null ? 'n/a' : `${value.toFixed(digits)}${unit}`
+
+const VEGETATION_LEVELS: Record<string, string> = { poor: 'high', moderate: 'medium', good: 'low' }
+
+// Severity itself comes from the snapshot's risk assessment (see evaluateHazard)
+const HAZARD_RULES: Record<HazardType, HazardRule> = {
+  flood: {
+    level: (s) => s.flood_risk,
+    meetsThreshold: (s, sub) => sub.flood_threshold === null || s.flood_percentage! > sub.flood_threshold,
+    metrics: (s) => [
+      { label: 'Flooded area', value: formatNumber(s.flood_percentage, 1, ' %') },
+      { label: 'Permanent water', value: formatNumber(s.water_percentage, 1, ' %') },
+      { label: 'Latest scene', value: s.data_date ? s.data_date.slice(0, 10) : 'n/a' },
+    ],
+  },
+  vegetation: {
+    level: (s) => VEGETATION_LEVELS[s.vegetation_health] ?? s.vegetation_health,
+    meetsThreshold: () => true,
+    metrics: (s) => [
+      { label: 'Mean NDVI', value: formatNumber(s.ndvi_mean, 2) },
+      { label: 'NDVI range', value: `${formatNumber(s.ndvi_min, 2)} – ${formatNumber(s.ndvi_max, 2)}` },
+      { label: 'Latest scene', value: s.data_date ? s.data_date.slice(0, 10) : 'n/a' },
+    ],
+  },
+  fire: {
+    level: (s) => s.fire_risk,
+    meetsThreshold: (s, sub) => sub.hotspot_threshold === null || s.hotspot_count >= sub.hotspot_threshold,
+    metrics: (s) => [
+      { label: 'Active hotspots', value: String(s.hotspot_count) },
+      { label: 'High-confidence detections', value: String(s.high_confidence_count) },
+      { label: 'Total fire radiative power', value: formatNumber(s.total_frp, 1, ' MW') },
+      { label: 'Max brightness', value: formatNumber(s.max_brightness, 1, ' K') },
+    ],
+  },
+}
+
+export interface HazardEvaluation {
+  severity: AlertSeverity | null
+  level: string
+}
+
+// Region-level reading of one hazard, before any subscriber's own rules; null when the
+// snapshot has no measured data for it (seasonal estimates must never trigger an alert)
+export function evaluateHazard(hazard: HazardType, snapshot: SnapshotRecord): HazardEvaluation | null {
+  const score = snapshotRisk(snapshot).hazards[hazard]
+  if (!score?.measured) return null
+  return { severity: alertSeverity(score.level), level: HAZARD_RULES[hazard].level(snapshot) }
+}
+
+interface AlertState {
+  subscription_id: string
+  hazard_type: HazardType
+  severity: AlertSeverity | null
+  snapshot_id: string | null
+  changed_at: string
+}
+
+// What a notification shows, stored with queued notifications so they render the same later
+export interface AlertPayload {
+  regionName: string
+  hazardLabel: string
+  level: string
+  severity: AlertSeverity
+  analyzedAt: string
+  metrics: AlertEmailMetric[]
+}
+
+type LatestSnapshot = SnapshotRecord & { region_name: string }
+
+export interface DispatchOptions {
+  siteUrl: string // public web app, e.g. https://safero.ro
+  functionsUrl: string // <SUPABASE_URL>/functions/v1
+}
+
+export interface DispatchResult {
+  triggered: number
+  sent: number
+  queued: number
+  failed: number
+}
+
+function subscriberLinks(token: string, options: DispatchOptions) {
+  const encoded = encodeURIComponent(token)
+  return {
+    manageUrl: `${options.siteUrl}/subscriptions/manage?token=${encoded}`,
+    unsubscribeUrl: `${options.siteUrl}/subscriptions/unsubscribe?token=${encoded}`,
+    oneClickUnsubscribeUrl: `${options.functionsUrl}/manage-subscription?action=unsubscribe&token=${encoded}`,
+  }
+}
+
+function alertMessage(email: string, token: string, payload: AlertPayload, options: DispatchOptions): MailMessage {
+  return renderAlertEmail({
+    to: email,
+    regionName: payload.regionName,
+    hazardLabel: payload.hazardLabel,
+    level: payload.level,
+    analyzedAt: payload.analyzedAt,
+    metrics: payload.metrics,
+    regionUrl: `${options.siteUrl}/public`,
+    ...subscriberLinks(token, options),
+  })
+}
+
+// Returns the delivery error, or null when the message was handed to the transport
+async function trySend(transport: MailTransport, message: MailMessage, subscriptionIds: string[]): Promise<string | null> {
+  try {
+    await transport.send(message)
+    return null
+  } catch (sendError) {
+    const error = sendError instanceof Error ? sendError.message : String(sendError)
+    console.error(`[alerts] Failed to email subscription ${subscriptionIds.join(', ')}:`, error)
+    return error
+  }
+}
+
+// Returns false when the states could not be saved; the evaluations are then repeated by the
+// next dispatch
+async function saveAlertStates(supabase: SupabaseClient, states: AlertState[], now: Date): Promise<boolean> {
+  if (states.length === 0) return true
+  const { error } = await supabase
+    .from('subscription_alert_states')
+    .upsert(states.map((s) => ({ ...s, updated_at: now.toISOString() })))
+
+  if (error) {
+    console.error(`[alerts] Failed to save alert states for ${states.map((s) => s.subscription_id).join(', ')}:`, error)
+    return false
+  }
+  return true
+}
+
+export async function dispatchRegionAlerts(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  regionIds: string[],
+  options: DispatchOptions
+): Promise<DispatchResult> {
+  const result: DispatchResult = { triggered: 0, sent: 0, queued: 0, failed: 0 }
+  if (regionIds.length === 0) return result
+
+  const { data: snapshots, error: snapshotError } = await supabase
+    .from('latest_analysis_snapshots')
+    .select('*')
+    .in('region_id', regionIds)
+
+  if (snapshotError) {
+    throw new Error(`Failed to load latest snapshots: ${snapshotError.message}`)
+  }
+
+  const { data: subscriptions, error: subscriptionError } = await supabase
+    .from('alert_subscriptions')
+    .select(SUBSCRIPTION_RULE_COLUMNS)
+    .in('region_id', regionIds)
+    .eq('is_active', true)
+    .not('confirmed_at', 'is', null)
+
+  if (subscriptionError) {
+    throw new Error(`Failed to load subscriptions: ${subscriptionError.message}`)
+  }
+
+  const { data: states, error: stateError } = await supabase
+    .from('subscription_alert_states')
+    .select('subscription_id, hazard_type, severity, snapshot_id, changed_at, alert_subscriptions!inner(region_id)')
+    .in('alert_subscriptions.region_id', regionIds)
+
+  if (stateError) {
+    throw new Error(`Failed to load alert states: ${stateError.message}`)
+  }
+
+  const stateByKey = new Map(
+    (states as unknown as AlertState[]).map((s) => [`${s.subscription_id}:${s.hazard_type}`, s])
+  )
+  const now = new Date()
+
+  for (const snapshot of snapshots as LatestSnapshot[]) {
+    const regionSubscriptions = (subscriptions as SubscriptionRules[]).filter((s) => s.region_id === snapshot.region_id)
+    // States of evaluations that need no notification, saved together after the region
+    const updates: AlertState[] = []
+
+    for (const subscription of regionSubscriptions) {
+      const subscribed = subscription.hazard_types ?? DEFAULT_SUBSCRIBED_HAZARDS
+
+      for (const hazard of HAZARD_TYPES.filter((h) => subscribed.includes(h))) {
+        const rule = HAZARD_RULES[hazard]
+        const previous = stateByKey.get(`${subscription.id}:${hazard}`)
+        const evaluation = evaluateHazard(hazard, snapshot)
+        // Already evaluated (e.g. a retried dispatch) or nothing measured this run
+        if (previous?.snapshot_id === snapshot.id || !evaluation) continue
+
+        const severity = evaluation.severity
+        const triggered = severity &&
+          SEVERITY_RANK[severity] >= SEVERITY_RANK[subscription.min_severity] &&
+          rule.meetsThreshold(snapshot, subscription)
+          ? severity
+          : null
+        const previousSeverity = previous?.severity ?? null
+
+        const state: AlertState = {
+          subscription_id: subscription.id,
+          hazard_type: hazard,
+          severity: triggered,
+          snapshot_id: snapshot.id,
+          changed_at: triggered !== previousSeverity || !previous ? now.toISOString() : previous.changed_at,
+        }
+
+        // Notify on a new alert, or an ongoing one that escalated from warning to danger
+        if (!triggered || (previousSeverity && SEVERITY_RANK[triggered] <= SEVERITY_RANK[previousSeverity])) {
+          updates.push(state)
+          continue
+        }
+
+        result.triggered++
+        const payload: AlertPayload = {
+          regionName: snapshot.region_name,
+          hazardLabel: HAZARD_LABELS[hazard],
+          level: evaluation.level,
+          severity: triggered,
+          analyzedAt: snapshot.analyzed_at,
+          metrics: rule.metrics(snapshot),
+        }
+        const notification = {
+          subscription_id: subscription.id,
+          region_id: snapshot.region_id,
+          hazard_type: hazard,
+          level: payload.level,
+          severity: triggered,
+          snapshot_id: snapshot.id,
+          payload,
+        }
+
+        const deliverAt = deliveryTime(now, subscription)
+        let row
+        if (deliverAt) {
+          row = { ...notification, status: 'queued', scheduled_for: deliverAt.toISOString() }
+          result.queued++
+        } else {
+          const message = alertMessage(subscription.email, subscription.unsubscribe_token, payload, options)
+          const error = await trySend(transport, message, [subscription.id])
+          row = {
+            ...notification,
+            transport: transport.name,
+            status: error ? 'failed' : 'sent',
+            error,
+            sent_at: error ? null : now.toISOString(),
+          }
+          if (error) result.failed++
+          else result.sent++
+        }
+
+        const { error: logError } = await supabase.from('alert_notifications').insert(row)
+        if (logError) {
+          console.error('[alerts] Failed to log notification:', logError)
+        }
+
+        // Saved with the notification: a failed delivery keeps the previous state, so the next
+        // dispatch notifies again instead of treating the alert as known
+        if (row.status !== 'failed') await saveAlertStates(supabase, [state], now)
+      }
+    }
+
+    // A failure here only repeats these evaluations next time; other regions still go out
+    await saveAlertStates(supabase, updates, now)
+  }
+
+  return result
+}
+
+interface QueuedNotification {
+  id: string
+  subscription_id: string
+  payload: AlertPayload
+  alert_subscriptions: {
+    email: string
+    unsubscribe_token: string
+    is_active: boolean | null
+    digest_frequency: DigestFrequency
+  }
+}
+
+// Delivers queued notifications that are due, one email per address: a single notification
+// goes out as a normal alert, several as one digest over all of the address's regions. The
+// address's regions share one digest frequency (update_subscription_preferences sets it for all)
+export async function sendQueuedNotifications(
+  supabase: SupabaseClient,
+  transport: MailTransport,
+  options: DispatchOptions
+): Promise<DispatchResult> {
+  const result: DispatchResult = { triggered: 0, sent: 0, queued: 0, failed: 0 }
+  const now = new Date()
+
+  const { data, error } = await supabase
+    .from('alert_notifications')
+    .select('id, subscription_id, payload, alert_subscriptions!inner(email, unsubscribe_token, is_active, digest_frequency)')
+    .eq('status', 'queued')
+    .lte('scheduled_for', now.toISOString())
+    .order('scheduled_for')
+    .limit(MAX_QUEUED_PER_RUN)
+
+  if (error) {
+    throw new Error(`Failed to load queued notifications: ${error.message}`)
+  }
+
+  const byEmail = new Map<string, QueuedNotification[]>()
+  const paused: string[] = []
+  for (const notification of (data || []) as unknown as QueuedNotification[]) {
+    // Paused in the meantime: drop rather than deliver a backlog on resume
+    if (notification.alert_subscriptions.is_active === false) {
+      paused.push(notification.id)
+      continue
+    }
+    const email = notification.alert_subscriptions.email.toLowerCase()
+    byEmail.set(email, [...(byEmail.get(email) ?? []), notification])
+  }
+
+  if (paused.length > 0) {
+    const { error: pauseError } = await supabase
+      .from('alert_notifications')
+      .update({ status: 'failed', error: 'Subscription paused before delivery' })
+      .in('id', paused)
+
+    if (pauseError) {
+      console.error('[alerts] Failed to drop paused notifications:', pauseError)
+    }
+  }
+
+  for (const notifications of byEmail.values()) {
+    const { email, unsubscribe_token: token, digest_frequency: frequency } = notifications[0].alert_subscriptions
+    // One unsubscribe link per region, in the order the regions first appear
+    const subscriptions = new Map(notifications.map((n) => [n.subscription_id, n]))
+    const subscriptionIds = [...subscriptions.keys()]
+    const message = notifications.length === 1
+      ? alertMessage(email, token, notifications[0].payload, options)
+      : renderDigestEmail({
+        to: email,
+        frequency,
+        items: notifications.map((n) => n.payload),
+        regionUrl: `${options.siteUrl}/public`,
+        manageUrl: subscriberLinks(token, options).manageUrl,
+        unsubscribeLinks: [...subscriptions.values()].map((n) => ({
+          regionName: n.payload.regionName,
+          url: subscriberLinks(n.alert_subscriptions.unsubscribe_token, options).unsubscribeUrl,
+        })),
+        oneClickUnsubscribeUrl: subscriptionIds.length === 1 ? subscriberLinks(token, options).oneClickUnsubscribeUrl : null,
+      })
+
+    const sendError = await trySend(transport, message, subscriptionIds)
+    const { error: updateError } = await supabase
+      .from('alert_notifications')
+      .update({
+        transport: transport.name,
+        status: sendError ? 'failed' : 'sent',
+        error: sendError,
+        sent_at: sendError ? null : now.toISOString(),
+      })
+      .in('id', notifications.map((n) => n.id))
+
+    if (updateError) {
+      console.error('[alerts] Failed to update queued notifications:', updateError)
+    }
+
+    if (sendError) result.failed += notifications.length
+    else result.sent += notifications.length
+  }
+
+  return result
+}
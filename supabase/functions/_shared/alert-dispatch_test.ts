@@ -0,0 +1,275 @@
+// dispatchRegionAlerts and sendQueuedNotifications against an in-memory database and a
+// transport that records messages. Run with npm run test:functions.
+
+import { assert, assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { dispatchRegionAlerts, sendQueuedNotifications } from './alert-dispatch.ts'
+import { type MailMessage, type MailTransport } from './mail.ts'
+import { FakeSupabase } from './testing/fake-supabase.ts'
+
+class RecordingTransport implements MailTransport {
+  readonly name = 'recording'
+  readonly sent: MailMessage[] = []
+
+  constructor(private readonly failWith?: string) {}
+
+  send(message: MailMessage): Promise<void> {
+    if (this.failWith) return Promise.reject(new Error(this.failWith))
+    this.sent.push(message)
+    return Promise.resolve()
+  }
+}
+
+const options = { siteUrl: 'https://safero.test', functionsUrl: 'https://project.test/functions/v1' }
+
+function snapshot(id: string, fire: { level: string; score: number } | null) {
+  return {
+    id,
+    region_id: 'area-brasov',
+    region_name: 'Brașov',
+    analyzed_at: '2026-08-14T09:00:00Z',
+    days_back: 30,
+    data_date: '2026-08-13',
+    ndvi_mean: 0.41,
+    ndvi_min: 0.02,
+    ndvi_max: 0.81,
+    flood_percentage: 0.4,
+    water_percentage: 2.1,
+    hotspot_count: 12,
+    high_confidence_count: 7,
+    total_frp: 184.5,
+    max_brightness: 342.7,
+    flood_risk: 'low',
+    vegetation_health: 'good',
+    fire_risk: fire?.level ?? 'low',
+    indicators: {
+      risk: {
+        version: 1,
+        level: fire?.level ?? 'low',
+        hazards: {
+          flood: { level: 'low', score: 5, measured: true },
+          vegetation: { level: 'low', score: 10, measured: true },
+          fire: fire ? { ...fire, measured: true } : null,
+        },
+      },
+    },
+    gee_analysis: null,
+    fire_daily: [],
+    fire_hotspots: [],
+  }
+}
+
+function subscription(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sub-1',
+    email: 'ana@example.test',
+    region_id: 'area-brasov',
+    hazard_types: ['fire'],
+    unsubscribe_token: 'token-1',
+    min_severity: 'warning',
+    digest_frequency: 'immediate',
+    flood_threshold: null,
+    hotspot_threshold: null,
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    timezone: 'Europe/Bucharest',
+    is_active: true,
+    confirmed_at: '2026-08-01T10:00:00Z',
+    ...overrides,
+  }
+}
+
+function database(snapshots: unknown[], subscriptions: unknown[], states: unknown[] = []) {
+  return new FakeSupabase({
+    tables: {
+      latest_analysis_snapshots: snapshots as Record<string, unknown>[],
+      alert_subscriptions: subscriptions as Record<string, unknown>[],
+      subscription_alert_states: states as Record<string, unknown>[],
+    },
+    keys: { subscription_alert_states: ['subscription_id', 'hazard_type'] },
+  })
+}
+
+Deno.test('emails a new alert with one-click unsubscribe headers and records it', async () => {
+  const db = database([snapshot('snap-1', { level: 'critical', score: 88 })], [subscription()])
+  const transport = new RecordingTransport()
+
+  const result = await dispatchRegionAlerts(db.client, transport, ['area-brasov'], options)
+
+  assertEquals(result, { triggered: 1, sent: 1, queued: 0, failed: 0 })
+  assertEquals(transport.sent.length, 1)
+  const [message] = transport.sent
+  assertEquals(message.to, 'ana@example.test')
+  assertEquals(message.subject, '[safeRo] Wildfire risk CRITICAL in Brașov')
+  assertEquals(message.headers, {
+    'List-Unsubscribe': '<https://project.test/functions/v1/manage-subscription?action=unsubscribe&token=token-1>',
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  })
+  assertStringIncludes(message.text, 'Unsubscribe: https://safero.test/subscriptions/unsubscribe?token=token-1')
+  assertStringIncludes(message.text, '- Active hotspots: 12')
+
+  assertEquals(db.tables.alert_notifications.length, 1)
+  assertEquals(db.tables.alert_notifications[0].status, 'sent')
+  assertEquals(db.tables.alert_notifications[0].transport, 'recording')
+  assertEquals(db.tables.subscription_alert_states.map((s) => [s.hazard_type, s.severity, s.snapshot_id]), [
+    ['fire', 'danger', 'snap-1'],
+  ])
+})
+
+Deno.test('does not repeat an ongoing alert but reports an escalation', async () => {
+  const previous = {
+    subscription_id: 'sub-1',
+    hazard_type: 'fire',
+    severity: 'warning',
+    snapshot_id: 'snap-0',
+    changed_at: '2026-08-13T09:00:00Z',
+  }
+
+  const ongoing = database([snapshot('snap-1', { level: 'high', score: 65 })], [subscription()], [previous])
+  const quiet = new RecordingTransport()
+  assertEquals((await dispatchRegionAlerts(ongoing.client, quiet, ['area-brasov'], options)).triggered, 0)
+  assertEquals(quiet.sent.length, 0)
+  assertEquals(ongoing.tables.subscription_alert_states[0].changed_at, '2026-08-13T09:00:00Z')
+  assertEquals(ongoing.tables.subscription_alert_states[0].snapshot_id, 'snap-1')
+
+  const escalated = database([snapshot('snap-1', { level: 'critical', score: 91 })], [subscription()], [previous])
+  const loud = new RecordingTransport()
+  assertEquals((await dispatchRegionAlerts(escalated.client, loud, ['area-brasov'], options)).sent, 1)
+  assertEquals(escalated.tables.subscription_alert_states[0].severity, 'danger')
+})
+
+Deno.test('applies min_severity, hotspot thresholds and hazard choice per subscriber', async () => {
+  const db = database([snapshot('snap-1', { level: 'high', score: 65 })], [
+    subscription({ id: 'sub-danger', min_severity: 'danger' }),
+    subscription({ id: 'sub-threshold', hotspot_threshold: 20 }),
+    subscription({ id: 'sub-flood', hazard_types: ['flood'] }),
+  ])
+  const transport = new RecordingTransport()
+
+  const result = await dispatchRegionAlerts(db.client, transport, ['area-brasov'], options)
+
+  assertEquals(result.triggered, 0)
+  assertEquals(transport.sent.length, 0)
+  // Evaluated without an alert, so the next run compares against "no alert"
+  assertEquals(db.tables.subscription_alert_states.map((s) => s.severity), [null, null, null])
+})
+
+Deno.test('queues digest subscribers instead of emailing them', async () => {
+  const db = database([snapshot('snap-1', { level: 'critical', score: 88 })], [subscription({ digest_frequency: 'daily' })])
+  const transport = new RecordingTransport()
+
+  const result = await dispatchRegionAlerts(db.client, transport, ['area-brasov'], options)
+
+  assertEquals(result, { triggered: 1, sent: 0, queued: 1, failed: 0 })
+  assertEquals(transport.sent.length, 0)
+  const [queued] = db.tables.alert_notifications
+  assertEquals(queued.status, 'queued')
+  assert(Date.parse(queued.scheduled_for as string) > Date.now())
+})
+
+Deno.test('records a failed delivery and tries it again on the next dispatch', async () => {
+  const db = database([snapshot('snap-1', { level: 'critical', score: 88 })], [subscription()])
+
+  const result = await dispatchRegionAlerts(db.client, new RecordingTransport('SMTP RCPT failed: 550'), ['area-brasov'], options)
+
+  assertEquals(result, { triggered: 1, sent: 0, queued: 0, failed: 1 })
+  assertEquals(db.tables.alert_notifications[0].status, 'failed')
+  assertEquals(db.tables.alert_notifications[0].error, 'SMTP RCPT failed: 550')
+  // The alert is not recorded as known, so the retry notifies
+  assertEquals(db.tables.subscription_alert_states ?? [], [])
+
+  const transport = new RecordingTransport()
+  assertEquals((await dispatchRegionAlerts(db.client, transport, ['area-brasov'], options)).sent, 1)
+  assertEquals(db.tables.subscription_alert_states.map((s) => s.severity), ['danger'])
+})
+
+Deno.test('keeps dispatching other regions when alert states cannot be saved', async () => {
+  const sibiu = { ...snapshot('snap-2', { level: 'critical', score: 90 }), region_id: 'area-sibiu', region_name: 'Sibiu' }
+  const db = new FakeSupabase({
+    tables: {
+      latest_analysis_snapshots: [snapshot('snap-1', { level: 'critical', score: 88 }), sibiu],
+      alert_subscriptions: [subscription(), subscription({ id: 'sub-2', region_id: 'area-sibiu' })],
+    },
+    failures: { 'subscription_alert_states:upsert': 'deadlock detected' },
+  })
+  const transport = new RecordingTransport()
+
+  const result = await dispatchRegionAlerts(db.client, transport, ['area-brasov', 'area-sibiu'], options)
+
+  assertEquals(result.sent, 2)
+  assertEquals(transport.sent.map((m) => m.subject), [
+    '[safeRo] Wildfire risk CRITICAL in Brașov',
+    '[safeRo] Wildfire risk CRITICAL in Sibiu',
+  ])
+})
+
+function queued(id: string, subscriptionId: string, regionName: string, rules: Record<string, unknown>) {
+  return {
+    id,
+    subscription_id: subscriptionId,
+    status: 'queued',
+    scheduled_for: '2026-08-14T05:00:00Z',
+    payload: {
+      regionName,
+      hazardLabel: 'Wildfire',
+      level: 'high',
+      severity: 'warning',
+      analyzedAt: '2026-08-13T21:00:00Z',
+      metrics: [{ label: 'Active hotspots', value: '9' }],
+    },
+    // Embedded by the alert_subscriptions!inner select
+    alert_subscriptions: { email: 'ana@example.test', is_active: true, ...rules },
+  }
+}
+
+Deno.test('sends one digest per address over all of its regions with an unsubscribe link per region', async () => {
+  const brasov = { unsubscribe_token: 'token-brasov', digest_frequency: 'daily' }
+  const sibiu = { unsubscribe_token: 'token-sibiu', digest_frequency: 'daily' }
+  const db = new FakeSupabase({
+    tables: {
+      alert_notifications: [
+        queued('n1', 'sub-brasov', 'Brașov', brasov),
+        queued('n2', 'sub-sibiu', 'Sibiu', sibiu),
+        queued('n3', 'sub-brasov', 'Brașov', brasov),
+        queued('n4', 'sub-vlad', 'Cluj', { email: 'Vlad@Example.test', unsubscribe_token: 'token-vlad', digest_frequency: 'weekly' }),
+        queued('n5', 'sub-vlad', 'Cluj', { email: 'vlad@example.test', unsubscribe_token: 'token-vlad', digest_frequency: 'weekly' }),
+        queued('n6', 'sub-cluj', 'Cluj', { unsubscribe_token: 'token-cluj', digest_frequency: 'daily', is_active: false }),
+      ],
+    },
+  })
+  const transport = new RecordingTransport()
+
+  const result = await sendQueuedNotifications(db.client, transport, options)
+
+  assertEquals(result, { triggered: 0, sent: 5, queued: 0, failed: 0 })
+  assertEquals(transport.sent.map((m) => [m.to.toLowerCase(), m.subject]), [
+    ['ana@example.test', '[safeRo] Your daily hazard digest (3 alerts)'],
+    ['vlad@example.test', '[safeRo] Your weekly hazard digest (2 alerts)'],
+  ])
+  const [ana, vlad] = transport.sent
+  assertStringIncludes(ana.text, 'Unsubscribe from Brașov: https://safero.test/subscriptions/unsubscribe?token=token-brasov')
+  assertStringIncludes(ana.text, 'Unsubscribe from Sibiu: https://safero.test/subscriptions/unsubscribe?token=token-sibiu')
+  assertStringIncludes(ana.html, 'https://safero.test/subscriptions/unsubscribe?token=token-sibiu')
+  // A one-click request could only drop one of the regions, so the header leads to the manage page
+  assertEquals(ana.headers, { 'List-Unsubscribe': '<https://safero.test/subscriptions/manage?token=token-brasov>' })
+  assertEquals(vlad.headers, {
+    'List-Unsubscribe': '<https://project.test/functions/v1/manage-subscription?action=unsubscribe&token=token-vlad>',
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  })
+
+  const statuses = Object.fromEntries(db.tables.alert_notifications.map((n) => [n.id, n.status]))
+  assertEquals(statuses, { n1: 'sent', n2: 'sent', n3: 'sent', n4: 'sent', n5: 'sent', n6: 'failed' })
+})
+
+Deno.test('sends a single queued notification as a normal alert', async () => {
+  const db = new FakeSupabase({
+    tables: {
+      alert_notifications: [queued('n1', 'sub-brasov', 'Brașov', { unsubscribe_token: 'token-1', digest_frequency: 'immediate' })],
+    },
+  })
+  const transport = new RecordingTransport()
+
+  await sendQueuedNotifications(db.client, transport, options)
+
+  assertEquals(transport.sent[0].subject, '[safeRo] Wildfire risk HIGH in Brașov')
+  assertStringIncludes(transport.sent[0].headers!['List-Unsubscribe'], 'token=token-1')
+})
@@ -0,0 +1,230 @@
+import { type MailMessage } from './mail.ts'
+
+export interface AlertEmailMetric {
+  label: string
+  value: string
+}
+
+export interface AlertEmailInput {
+  to: string
+  regionName: string
+  hazardLabel: string
+  level: string
+  analyzedAt: string
+  metrics: AlertEmailMetric[]
+  regionUrl: string
+  manageUrl: string // subscriber preferences page
+  unsubscribeUrl: string // page that unsubscribes on open
+  oneClickUnsubscribeUrl: string // RFC 8058 List-Unsubscribe-Post endpoint
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Public web app that email links point to (PUBLIC_SITE_URL, e.g. https://safero.ro)
+export function publicSiteUrl(): string {
+  return (Deno.env.get('PUBLIC_SITE_URL') || 'http://localhost:8080').replace(/\/$/, '')
+}
+
+// Shared frame of every email: heading, body and a muted footer
+function renderHtml(kicker: string, title: string, body: string, footer: string): string {
+  return `<!doctype html>
+<html>
+<body style="margin:0;padding:24px;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;color:#0f172a">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+    <p style="margin:0 0 4px;font-size:12px;color:#64748b">${escapeHtml(kicker)}</p>
+    <h1 style="margin:0 0 8px;font-size:20px">${escapeHtml(title)}</h1>
+    ${body}
+    <p style="margin:24px 0 0;font-size:12px;color:#94a3b8">${footer}</p>
+  </div>
+</body>
+</html>`
+}
+
+function renderButton(href: string, label: string): string {
+  return `<a href="${escapeHtml(href)}" style="display:inline-block;background:#0ea5e9;color:#ffffff;text-decoration:none;padding:10px 16px;border-radius:6px;font-size:14px">${escapeHtml(label)}</a>`
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-GB', {
+    timeZone: 'Europe/Bucharest',
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+}
+
+export function renderAlertEmail(input: AlertEmailInput): MailMessage {
+  const level = input.level.toUpperCase()
+  const subject = `[safeRo] ${input.hazardLabel} risk ${level} in ${input.regionName}`
+  const analyzed = formatDate(input.analyzedAt)
+
+  const text = [
+    `${input.hazardLabel} risk in ${input.regionName} is now ${level}.`,
+    `Analysis of ${analyzed} (Europe/Bucharest)`,
+    '',
+    ...input.metrics.map((m) => `- ${m.label}: ${m.value}`),
+    '',
+    `Live status: ${input.regionUrl}`,
+    '',
+    'You receive this email because you subscribed to safeRo hazard alerts for this region.',
+    `Manage preferences: ${input.manageUrl}`,
+    `Unsubscribe: ${input.unsubscribeUrl}`,
+  ].join('\n')
+
+  const metricRows = input.metrics
+    .map((m) => `<tr><td style="padding:4px 12px 4px 0;color:#64748b">${escapeHtml(m.label)}</td><td style="padding:4px 0;font-weight:600">${escapeHtml(m.value)}</td></tr>`)
+    .join('')
+
+  const html = renderHtml(
+    'safeRo hazard alert',
+    `${input.hazardLabel} risk ${level} in ${input.regionName}`,
+    `<p style="margin:0 0 16px;font-size:13px;color:#64748b">Analysis of ${escapeHtml(analyzed)} (Europe/Bucharest)</p>
+    <table style="border-collapse:collapse;font-size:14px;margin-bottom:20px">${metricRows}</table>
+    ${renderButton(input.regionUrl, 'View live status')}`,
+    `You receive this email because you subscribed to safeRo hazard alerts for this region.
+      <a href="${escapeHtml(input.manageUrl)}" style="color:#94a3b8">Manage preferences</a> ·
+      <a href="${escapeHtml(input.unsubscribeUrl)}" style="color:#94a3b8">Unsubscribe</a>`
+  )
+
+  return {
+    to: input.to,
+    subject,
+    text,
+    html,
+    headers: {
+      'List-Unsubscribe': `<${input.oneClickUnsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  }
+}
+
+export interface ConfirmationEmailInput {
+  to: string
+  regionName: string
+  hazardLabels: string[]
+  confirmUrl: string
+  expiresAt: string
+}
+
+// Double opt-in: nothing is sent to the address until this link is opened
+export function renderConfirmationEmail(input: ConfirmationEmailInput): MailMessage {
+  const expires = formatDate(input.expiresAt)
+  const hazards = input.hazardLabels.join(', ')
+
+  const text = [
+    `Please confirm that you want to receive safeRo hazard alerts for ${input.regionName} (${hazards}).`,
+    '',
+    `Confirm your subscription: ${input.confirmUrl}`,
+    '',
+    `The link expires on ${expires} (Europe/Bucharest).`,
+    'If you did not request these alerts, ignore this email and no alerts will be sent.',
+  ].join('\n')
+
+  const html = renderHtml(
+    'safeRo hazard alerts',
+    `Confirm your subscription for ${input.regionName}`,
+    `<p style="margin:0 0 20px;font-size:14px">Alerts for: ${escapeHtml(hazards)}</p>
+    ${renderButton(input.confirmUrl, 'Confirm subscription')}
+    <p style="margin:16px 0 0;font-size:13px;color:#64748b">The link expires on ${escapeHtml(expires)} (Europe/Bucharest).</p>`,
+    'If you did not request these alerts, ignore this email and no alerts will be sent.'
+  )
+
+  return {
+    to: input.to,
+    subject: `[safeRo] Confirm your alert subscription for ${input.regionName}`,
+    text,
+    html,
+  }
+}
+
+export interface AlertDigestItem {
+  regionName: string
+  hazardLabel: string
+  level: string
+  severity: string
+  analyzedAt: string
+  metrics: AlertEmailMetric[]
+}
+
+export interface DigestEmailInput {
+  to: string
+  frequency: string // 'daily' | 'weekly', or 'immediate' when quiet hours held several alerts back
+  items: AlertDigestItem[]
+  regionUrl: string
+  manageUrl: string
+  // One per subscribed region in the digest; unsubscribing is per region
+  unsubscribeLinks: { regionName: string; url: string }[]
+  // RFC 8058 List-Unsubscribe target when the digest covers one region; a one-click request
+  // cannot say which regions to drop, so digests of several regions list the manage page instead
+  oneClickUnsubscribeUrl: string | null
+}
+
+const DIGEST_TITLES: Record<string, string> = {
+  daily: 'Your daily hazard digest',
+  weekly: 'Your weekly hazard digest',
+}
+
+export function renderDigestEmail(input: DigestEmailInput): MailMessage {
+  const title = DIGEST_TITLES[input.frequency] ?? 'Hazard alerts from the last hours'
+  const count = input.items.length
+
+  const text = [
+    `${title}: ${count} alert${count === 1 ? '' : 's'}.`,
+    '',
+    ...input.items.flatMap((item) => [
+      `${item.hazardLabel} risk ${item.level.toUpperCase()} in ${item.regionName} (${item.severity}), ${formatDate(item.analyzedAt)}`,
+      ...item.metrics.map((m) => `  - ${m.label}: ${m.value}`),
+      '',
+    ]),
+    `Live status: ${input.regionUrl}`,
+    '',
+    'You receive this digest because you subscribed to safeRo hazard alerts.',
+    `Manage preferences: ${input.manageUrl}`,
+    ...input.unsubscribeLinks.map((link) => `Unsubscribe from ${link.regionName}: ${link.url}`),
+  ].join('\n')
+
+  const sections = input.items
+    .map((item) => {
+      const metrics = item.metrics
+        .map((m) => `<tr><td style="padding:2px 12px 2px 0;color:#64748b">${escapeHtml(m.label)}</td><td style="padding:2px 0">${escapeHtml(m.value)}</td></tr>`)
+        .join('')
+      const color = item.severity === 'danger' ? '#dc2626' : '#d97706'
+      return `<div style="border-left:3px solid ${color};padding:4px 0 4px 12px;margin-bottom:16px">
+      <p style="margin:0;font-weight:600;font-size:14px">${escapeHtml(item.hazardLabel)} risk ${escapeHtml(item.level.toUpperCase())} in ${escapeHtml(item.regionName)}</p>
+      <p style="margin:2px 0 6px;font-size:12px;color:#64748b">${escapeHtml(formatDate(item.analyzedAt))}</p>
+      <table style="border-collapse:collapse;font-size:13px">${metrics}</table>
+    </div>`
+    })
+    .join('\n    ')
+
+  const html = renderHtml(
+    'safeRo hazard alerts',
+    title,
+    `<p style="margin:0 0 16px;font-size:13px;color:#64748b">${count} alert${count === 1 ? '' : 's'} (times in Europe/Bucharest)</p>
+    ${sections}
+    ${renderButton(input.regionUrl, 'View live status')}`,
+    `You receive this digest because you subscribed to safeRo hazard alerts.
+      <a href="${escapeHtml(input.manageUrl)}" style="color:#94a3b8">Manage preferences</a> ·
+      Unsubscribe from ${input.unsubscribeLinks
+        .map((link) => `<a href="${escapeHtml(link.url)}" style="color:#94a3b8">${escapeHtml(link.regionName)}</a>`)
+        .join(', ')}`
+  )
+
+  return {
+    to: input.to,
+    subject: `[safeRo] ${title} (${count} alert${count === 1 ? '' : 's'})`,
+    text,
+    html,
+    headers: input.oneClickUnsubscribeUrl
+      ? {
+        'List-Unsubscribe': `<${input.oneClickUnsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      }
+      : { 'List-Unsubscribe': `<${input.manageUrl}>` },
+  }
+}
@@ -0,0 +1,124 @@
+// Sentinel product search against the Copernicus Data Space Ecosystem OData catalogue
+// (https://documentation.dataspace.copernicus.eu/APIs/OData.html). Anonymous read access;
+// COPERNICUS_CATALOG_URL points the client at a local stand-in of the catalogue for testing.
+
+const CATALOG_URL = Deno.env.get('COPERNICUS_CATALOG_URL') || 'https://catalogue.dataspace.copernicus.eu/odata/v1'
+
+export type SentinelMission = 'sentinel-1' | 'sentinel-2'
+export const SENTINEL_MISSIONS: SentinelMission[] = ['sentinel-1', 'sentinel-2']
+
+// The products the analysis pipeline uses: Sentinel-2 L2A surface reflectance and
+// Sentinel-1 IW GRD, as in the Earth Engine collections
+const MISSION_PRODUCTS: Record<SentinelMission, { collection: string; productType: string; level: string }> = {
+  'sentinel-2': { collection: 'SENTINEL-2', productType: 'S2MSI2A', level: 'Level-2A' },
+  'sentinel-1': { collection: 'SENTINEL-1', productType: 'IW_GRDH_1S', level: 'Level-1' },
+}
+
+export const MAX_CATALOG_RESULTS = 100
+
+export interface ProductSearch {
+  mission: SentinelMission
+  bbox: number[] // [minLon, minLat, maxLon, maxLat]
+  start: Date
+  end: Date
+  maxCloudCover?: number // Sentinel-2 only
+  limit?: number
+}
+
+// Shape returned to clients (ProductMetadata in the web app)
+export interface ProductMetadata {
+  id: string
+  name: string
+  acquisitionDate: string
+  cloudCover?: number
+  productType: string
+  satellite: string
+  processingLevel: string
+  footprint: { type: string; coordinates: unknown } | null
+}
+
+interface ODataAttribute {
+  Name: string
+  Value: unknown
+}
+
+interface ODataProduct {
+  Id: string
+  Name: string
+  ContentDate?: { Start?: string }
+  GeoFootprint?: { type: string; coordinates: unknown } | null
+  Attributes?: ODataAttribute[]
+}
+
+function bboxPolygon([minLon, minLat, maxLon, maxLat]: number[]): string {
+  const ring = [[minLon, minLat], [maxLon, minLat], [maxLon, maxLat], [minLon, maxLat], [minLon, minLat]]
+  return `POLYGON((${ring.map(([lon, lat]) => `${lon} ${lat}`).join(',')}))`
+}
+
+function buildFilter(search: ProductSearch): string {
+  const { collection, productType } = MISSION_PRODUCTS[search.mission]
+  const clauses = [
+    `Collection/Name eq '${collection}'`,
+    `OData.CSC.Intersects(area=geography'SRID=4326;${bboxPolygon(search.bbox)}')`,
+    `ContentDate/Start ge ${search.start.toISOString()}`,
+    `ContentDate/Start le ${search.end.toISOString()}`,
+    `Attributes/OData.CSC.StringAttribute/any(att:att/Name eq 'productType' and att/OData.CSC.StringAttribute/Value eq '${productType}')`,
+  ]
+
+  if (search.mission === 'sentinel-2' && search.maxCloudCover !== undefined) {
+    clauses.push(
+      `Attributes/OData.CSC.DoubleAttribute/any(att:att/Name eq 'cloudCover' and att/OData.CSC.DoubleAttribute/Value le ${search.maxCloudCover.toFixed(2)})`
+    )
+  }
+
+  return clauses.join(' and ')
+}
+
+function attribute(product: ODataProduct, name: string): unknown {
+  return product.Attributes?.find((a) => a.Name === name)?.Value
+}
+
+// "S2B_MSIL2A_..." -> "Sentinel-2B"
+function satelliteName(product: ODataProduct, mission: SentinelMission): string {
+  const platform = attribute(product, 'platformSerialIdentifier')
+  const unit = typeof platform === 'string' ? platform : /^S[12]([A-D])_/.exec(product.Name)?.[1]
+  const base = mission === 'sentinel-1' ? 'Sentinel-1' : 'Sentinel-2'
+  return unit ? `${base}${unit}` : base
+}
+
+function toProductMetadata(product: ODataProduct, mission: SentinelMission): ProductMetadata {
+  const cloudCover = attribute(product, 'cloudCover')
+  const productType = attribute(product, 'productType')
+
+  return {
+    id: product.Id,
+    name: product.Name,
+    acquisitionDate: product.ContentDate?.Start ?? '',
+    cloudCover: typeof cloudCover === 'number' ? Math.round(cloudCover * 10) / 10 : undefined,
+    productType: typeof productType === 'string' ? productType : MISSION_PRODUCTS[mission].productType,
+    satellite: satelliteName(product, mission),
+    processingLevel: MISSION_PRODUCTS[mission].level,
+    footprint: product.GeoFootprint ?? null,
+  }
+}
+
+// Products intersecting the bounding box, newest first. Throws when the catalogue is
+// unreachable or answers with an error.
+export async function searchProducts(search: ProductSearch): Promise<ProductMetadata[]> {
+  const limit = Math.min(search.limit ?? 50, MAX_CATALOG_RESULTS)
+  const params = new URLSearchParams({
+    '$filter': buildFilter(search),
+    '$orderby': 'ContentDate/Start desc',
+    '$top': String(limit),
+    '$expand': 'Attributes',
+  })
+
+  const response = await fetch(`${CATALOG_URL}/Products?${params}`)
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Copernicus catalogue error ${response.status}: ${errorText.slice(0, 300)}`)
+  }
+
+  const data = await response.json() as { value?: ODataProduct[] }
+  return (data.value ?? []).map((product) => toProductMetadata(product, search.mission))
+}
@@ -0,0 +1,115 @@
+// searchProducts against a local stand-in of the Copernicus OData catalogue that answers with
+// the recorded responses in testdata/copernicus. Run with npm run test:functions.
+
+import { assert, assertEquals, assertRejects, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+
+const fixture = (name: string) => Deno.readTextFile(new URL(`./testdata/copernicus/${name}.json`, import.meta.url))
+
+let response: { status: number; body: string } = { status: 200, body: '{"value":[]}' }
+let requests: URL[] = []
+
+const server = Deno.serve({ port: 0, onListen: () => {} }, (req) => {
+  const url = new URL(req.url)
+  requests.push(url)
+  if (url.pathname !== '/odata/v1/Products') return new Response('Not found', { status: 404 })
+  return new Response(response.body, { status: response.status, headers: { 'Content-Type': 'application/json' } })
+})
+
+Deno.env.set('COPERNICUS_CATALOG_URL', `http://localhost:${server.addr.port}/odata/v1`)
+const { searchProducts } = await import('./copernicus.ts')
+
+async function useResponse(name: string, status = 200) {
+  response = { status, body: await fixture(name) }
+  requests = []
+}
+
+const search = {
+  bbox: [26.0, 44.3, 26.3, 44.5],
+  start: new Date('2025-07-15T00:00:00Z'),
+  end: new Date('2025-08-14T00:00:00Z'),
+}
+
+Deno.test('filters Sentinel-2 L2A products by footprint, dates and cloud cover', async () => {
+  await useResponse('s2-products')
+  await searchProducts({ ...search, mission: 'sentinel-2', maxCloudCover: 30, limit: 20 })
+
+  const params = requests[0].searchParams
+  assertEquals(params.get('$filter'), [
+    "Collection/Name eq 'SENTINEL-2'",
+    "OData.CSC.Intersects(area=geography'SRID=4326;POLYGON((26 44.3,26.3 44.3,26.3 44.5,26 44.5,26 44.3))')",
+    'ContentDate/Start ge 2025-07-15T00:00:00.000Z',
+    'ContentDate/Start le 2025-08-14T00:00:00.000Z',
+    "Attributes/OData.CSC.StringAttribute/any(att:att/Name eq 'productType' and att/OData.CSC.StringAttribute/Value eq 'S2MSI2A')",
+    "Attributes/OData.CSC.DoubleAttribute/any(att:att/Name eq 'cloudCover' and att/OData.CSC.DoubleAttribute/Value le 30.00)",
+  ].join(' and '))
+  assertEquals(params.get('$orderby'), 'ContentDate/Start desc')
+  assertEquals(params.get('$top'), '20')
+  assertEquals(params.get('$expand'), 'Attributes')
+})
+
+Deno.test('maps Sentinel-2 products to scenes', async () => {
+  await useResponse('s2-products')
+  const products = await searchProducts({ ...search, mission: 'sentinel-2' })
+
+  assertEquals(products, [
+    {
+      id: '5c1d4b0e-8f3a-4d8e-9a51-0b6f2e7c4a19',
+      name: 'S2B_MSIL2A_20250813T092039_N0511_R093_T35TLK_20250813T113525.SAFE',
+      acquisitionDate: '2025-08-13T09:20:39.024000Z',
+      cloudCover: 8.4,
+      productType: 'S2MSI2A',
+      satellite: 'Sentinel-2B',
+      processingLevel: 'Level-2A',
+      footprint: {
+        type: 'Polygon',
+        coordinates: [[[25.7785, 45.1086], [27.1921, 45.0889], [27.1559, 44.1017], [25.763, 44.1204], [25.7785, 45.1086]]],
+      },
+    },
+    {
+      id: 'a7e30f62-1b9d-4c55-8d0e-3f2a91c6b874',
+      name: 'S2A_MSIL2A_20250808T092041_N0511_R093_T35TLK_20250808T121906.SAFE',
+      acquisitionDate: '2025-08-08T09:20:41.024000Z',
+      cloudCover: 21.1,
+      productType: 'S2MSI2A',
+      // No platformSerialIdentifier attribute: taken from the product name
+      satellite: 'Sentinel-2A',
+      processingLevel: 'Level-2A',
+      footprint: null,
+    },
+  ])
+  // Without maxCloudCover there is no cloud clause
+  assert(!requests[0].searchParams.get('$filter')!.includes('cloudCover'))
+})
+
+Deno.test('maps Sentinel-1 GRD products without a cloud filter or cover', async () => {
+  await useResponse('s1-products')
+  const products = await searchProducts({ ...search, mission: 'sentinel-1', maxCloudCover: 30, limit: 500 })
+
+  const filter = requests[0].searchParams.get('$filter')!
+  assert(filter.startsWith("Collection/Name eq 'SENTINEL-1' and "))
+  assertStringIncludes(filter, "att/OData.CSC.StringAttribute/Value eq 'IW_GRDH_1S'")
+  assert(!filter.includes('cloudCover'))
+  assertEquals(requests[0].searchParams.get('$top'), '100')
+
+  assertEquals(products.length, 1)
+  assertEquals(products[0].satellite, 'Sentinel-1A')
+  assertEquals(products[0].cloudCover, undefined)
+  assertEquals(products[0].productType, 'IW_GRDH_1S')
+  assertEquals(products[0].processingLevel, 'Level-1')
+  assertEquals(products[0].acquisitionDate, '2025-08-12T16:15:32.412000Z')
+})
+
+Deno.test('throws on a catalogue error', async () => {
+  response = { status: 400, body: '{"detail":"Invalid filter"}' }
+  await assertRejects(
+    () => searchProducts({ ...search, mission: 'sentinel-2' }),
+    Error,
+    'Copernicus catalogue error 400: {"detail":"Invalid filter"}'
+  )
+})
+
+Deno.test({
+  name: 'stop the catalogue stand-in',
+  fn: () => server.shutdown(),
+  sanitizeOps: false,
+})
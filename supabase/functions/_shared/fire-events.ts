@@ -0,0 +1,122 @@
+// FIRMS hotspots grouped into fire events: hotspots close in space and time are one fire. The
+// perimeter is an estimate, the convex hull of the detection pixels, so a single detection
+// covers one pixel (~0.14 km² for VIIRS, 1 km² for MODIS).
+
+import { acquisitionTime, distanceKm, pixelKm, type FireHotspot, type FirmsSource } from './firms.ts'
+
+// Hotspots at most this far apart in space and time belong to the same event; links chain,
+// so a spreading fire stays one event
+export const EVENT_LINK_KM = 2
+const EVENT_LINK_HOURS = 48
+
+// Degrees to km near a latitude, for the local planar projection the hull is built in
+const KM_PER_DEG_LAT = 110.574
+const KM_PER_DEG_LON_EQUATOR = 111.32
+
+export type FireEventStatus = 'growing' | 'stable' | 'extinguished'
+
+export interface FireEvent {
+  id: string
+  centroid: { latitude: number; longitude: number }
+  perimeter: { type: 'Polygon'; coordinates: number[][][] }
+  perimeterKm: number
+  areaKm2: number
+  hotspotCount: number
+  firstDetection: string // ISO timestamps of the FIRMS acquisitions
+  lastDetection: string
+  cumulativeFRP: number // MW, summed over the event's hotspots
+  maxFRP: number
+  sources: FirmsSource[]
+  // Set on events tracked across pulls (public.fire_events)
+  eventNumber?: number
+  status?: FireEventStatus
+}
+
+type Point = [number, number]
+
+// Andrew's monotone chain; counter-clockwise, without the closing point
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1])
+  if (sorted.length < 3) return sorted
+
+  const cross = (o: Point, a: Point, b: Point) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0])
+  const half = (input: Point[]) => {
+    const chain: Point[] = []
+    for (const p of input) {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], p) <= 0) chain.pop()
+      chain.push(p)
+    }
+    chain.pop()
+    return chain
+  }
+  return [...half(sorted), ...half([...sorted].reverse())]
+}
+
+function summarizeEvent(hotspots: FireHotspot[]): FireEvent {
+  const latitude = hotspots.reduce((sum, h) => sum + h.latitude, 0) / hotspots.length
+  const longitude = hotspots.reduce((sum, h) => sum + h.longitude, 0) / hotspots.length
+  const kmPerDegLon = KM_PER_DEG_LON_EQUATOR * Math.cos((latitude * Math.PI) / 180)
+
+  // Pixel corners in km around the centroid
+  const corners: Point[] = hotspots.flatMap((h) => {
+    const x = (h.longitude - longitude) * kmPerDegLon
+    const y = (h.latitude - latitude) * KM_PER_DEG_LAT
+    const r = pixelKm(h) / 2
+    return [[x - r, y - r], [x + r, y - r], [x + r, y + r], [x - r, y + r]] as Point[]
+  })
+  const hull = convexHull(corners)
+
+  let area = 0
+  let perimeterKm = 0
+  hull.forEach((p, i) => {
+    const q = hull[(i + 1) % hull.length]
+    area += p[0] * q[1] - q[0] * p[1]
+    perimeterKm += Math.hypot(q[0] - p[0], q[1] - p[1])
+  })
+
+  const ring = [...hull, hull[0]].map(([x, y]) => [
+    Math.round((longitude + x / kmPerDegLon) * 1e5) / 1e5,
+    Math.round((latitude + y / KM_PER_DEG_LAT) * 1e5) / 1e5,
+  ])
+  const times = hotspots.map(acquisitionTime).filter((t) => !Number.isNaN(t))
+  const firstDetection = times.length > 0 ? new Date(Math.min(...times)).toISOString() : ''
+  const lastDetection = times.length > 0 ? new Date(Math.max(...times)).toISOString() : ''
+
+  return {
+    id: `${firstDetection.slice(0, 16)}_${latitude.toFixed(4)}_${longitude.toFixed(4)}`,
+    centroid: { latitude: Math.round(latitude * 1e5) / 1e5, longitude: Math.round(longitude * 1e5) / 1e5 },
+    perimeter: { type: 'Polygon', coordinates: [ring] },
+    perimeterKm: Math.round(perimeterKm * 100) / 100,
+    areaKm2: Math.round((Math.abs(area) / 2) * 100) / 100,
+    hotspotCount: hotspots.length,
+    firstDetection,
+    lastDetection,
+    cumulativeFRP: Math.round(hotspots.reduce((sum, h) => sum + (h.frp || 0), 0) * 10) / 10,
+    maxFRP: Math.max(...hotspots.map((h) => h.frp || 0)),
+    sources: [...new Set(hotspots.flatMap((h) => h.sources))],
+  }
+}
+
+// Fire events of a set of hotspots, largest cumulative FRP first
+export function clusterFireEvents(hotspots: FireHotspot[]): FireEvent[] {
+  // Union-find over the hotspots linked in space and time
+  const parent = hotspots.map((_, i) => i)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+  const times = hotspots.map(acquisitionTime)
+
+  for (let i = 0; i < hotspots.length; i++) {
+    for (let j = i + 1; j < hotspots.length; j++) {
+      if (Math.abs(times[i] - times[j]) > EVENT_LINK_HOURS * 3600000) continue
+      if (distanceKm(hotspots[i], hotspots[j]) > EVENT_LINK_KM) continue
+      parent[find(i)] = find(j)
+    }
+  }
+
+  const groups = new Map<number, FireHotspot[]>()
+  hotspots.forEach((hotspot, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) ?? []), hotspot])
+  })
+
+  return [...groups.values()].map(summarizeEvent).sort((a, b) => b.cumulativeFRP - a.cumulativeFRP)
+}
@@ -0,0 +1,94 @@
+import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { EVENT_LINK_KM, type FireEvent, type FireEventStatus } from './fire-events.ts'
+import { type FirmsSource } from './firms.ts'
+
+// Keeps public.fire_events in step with a region's FIRMS pulls. Each pull's clusters are linked
+// to the region's events that are still burning, so an event keeps its number across pulls.
+// An event with new detections is growing when its perimeter grew, otherwise stable; one
+// without detections for FIRE_EVENT_EXTINGUISHED_DAYS is extinguished and no longer linked.
+// The linking runs in public.track_fire_events under a per-region lock, so concurrent analyses
+// of a region cannot duplicate events, and links each event to at most one cluster.
+
+export const FIRE_EVENT_EXTINGUISHED_DAYS = 3
+
+// Area, relative to the largest perimeter so far, above which an event counts as growing
+const GROWTH_RATIO = 1.1
+
+interface FireEventRow {
+  id: number
+  region_id: string
+  status: FireEventStatus
+  first_detected_at: string
+  last_detected_at: string
+  centroid_lat: number
+  centroid_lon: number
+  perimeter: FireEvent['perimeter']
+  perimeter_km: number
+  area_km2: number
+  hotspot_count: number
+  cumulative_frp: number
+  max_frp: number
+  sources: FirmsSource[]
+  created_at: string
+  updated_at: string
+}
+
+function toFireEvent(row: FireEventRow): FireEvent {
+  return {
+    id: String(row.id),
+    eventNumber: row.id,
+    status: row.status,
+    centroid: { latitude: row.centroid_lat, longitude: row.centroid_lon },
+    perimeter: row.perimeter,
+    perimeterKm: row.perimeter_km,
+    areaKm2: row.area_km2,
+    hotspotCount: row.hotspot_count,
+    firstDetection: new Date(row.first_detected_at).toISOString(),
+    lastDetection: new Date(row.last_detected_at).toISOString(),
+    cumulativeFRP: row.cumulative_frp,
+    maxFRP: row.max_frp,
+    sources: row.sources,
+  }
+}
+
+// Link a pull's clusters (from clusterFireEvents) to the region's events and store the result.
+// Returns the region's events touched by the pull: still burning, new, or just extinguished.
+export async function trackFireEvents(
+  supabase: SupabaseClient,
+  regionId: string,
+  clusters: FireEvent[],
+  now = new Date()
+): Promise<FireEvent[]> {
+  const cutoff = now.getTime() - FIRE_EVENT_EXTINGUISHED_DAYS * 86400000
+  // Fires that were out before tracking saw them are not worth an event
+  const recent = clusters.filter((cluster) => Date.parse(cluster.lastDetection) >= cutoff)
+
+  const { data, error } = await supabase.rpc('track_fire_events', {
+    _region_id: regionId,
+    _clusters: recent.map((cluster) => ({
+      first_detected_at: cluster.firstDetection,
+      last_detected_at: cluster.lastDetection,
+      centroid_lat: cluster.centroid.latitude,
+      centroid_lon: cluster.centroid.longitude,
+      perimeter: cluster.perimeter,
+      perimeter_km: cluster.perimeterKm,
+      area_km2: cluster.areaKm2,
+      hotspot_count: cluster.hotspotCount,
+      cumulative_frp: cluster.cumulativeFRP,
+      max_frp: cluster.maxFRP,
+      sources: cluster.sources,
+    })),
+    _now: now.toISOString(),
+    _link_km: EVENT_LINK_KM,
+    _growth_ratio: GROWTH_RATIO,
+    _extinguished_days: FIRE_EVENT_EXTINGUISHED_DAYS,
+  })
+
+  if (error) {
+    throw new Error(`Failed to track fire events for ${regionId}: ${error.message}`)
+  }
+
+  const events = (data as FireEventRow[]).map(toFireEvent)
+  console.log(`[fire-tracking] ${regionId}: ${recent.length} clusters, ${events.length} fire events`)
+  return events
+}
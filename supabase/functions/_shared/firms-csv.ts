@@ -0,0 +1,133 @@
+// FIRMS CSV responses: RFC 4180 parsing and row validation. VIIRS and MODIS products share
+// most columns but differ in brightness (bright_ti4 / brightness) and confidence (l/n/h /
+// 0-100); columns are looked up by name, so extra or reordered columns (e.g. version) are fine.
+
+import { z } from 'https://esm.sh/zod@3.25.76'
+
+// Malformed rows are reported one by one up to this many, then only counted
+export const MAX_ROW_WARNINGS = 5
+
+export interface FirmsDetection {
+  latitude: number
+  longitude: number
+  brightness: number
+  confidence: string | number // VIIRS l/n/h, MODIS percentage
+  acq_date: string
+  acq_time: string
+  satellite: string
+  frp: number
+}
+
+export interface FirmsCsvResult {
+  detections: FirmsDetection[]
+  rejectedRows: number
+  warnings: string[]
+}
+
+// Fields are split on commas outside double quotes; "" inside quotes is a literal quote.
+// Accepts LF and CRLF line endings and skips blank lines.
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  const endRecord = () => {
+    record.push(field)
+    if (record.length > 1 || record[0] !== '') records.push(record)
+    record = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(field)
+      field = ''
+    } else if (char === '\n') {
+      endRecord()
+    } else if (char !== '\r') {
+      field += char
+    }
+  }
+  if (field !== '' || record.length > 0) endRecord()
+
+  return records
+}
+
+const numeric = (min: number, max: number) =>
+  z.string().trim().min(1, 'is empty').pipe(z.coerce.number().finite().min(min).max(max))
+
+const rowSchema = z.object({
+  latitude: numeric(-90, 90),
+  longitude: numeric(-180, 180),
+  brightness: numeric(0, 1000),
+  confidence: z.union([
+    z.string().trim().toLowerCase().pipe(z.enum(['l', 'n', 'h', 'low', 'nominal', 'high'])),
+    z.string().trim().regex(/^\d{1,3}$/, 'must be l, n, h or a percentage').pipe(z.coerce.number().int().max(100)),
+  ]),
+  acq_date: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD'),
+  acq_time: z.string().trim().regex(/^\d{1,4}$/, 'must be HHMM'),
+  satellite: z.string().trim().default(''),
+  frp: numeric(0, 100000),
+})
+
+const REQUIRED_COLUMNS = ['latitude', 'longitude', 'confidence', 'acq_date', 'acq_time', 'frp']
+
+// Parse and validate a FIRMS CSV body. Rows that fail validation are dropped and counted; the
+// warnings say which rows and why.
+export function parseFirmsCsv(text: string): FirmsCsvResult {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) return { detections: [], rejectedRows: 0, warnings: [] }
+
+  const columns = header.map((name) => name.trim().toLowerCase())
+  const brightnessColumn = columns.includes('bright_ti4') ? 'bright_ti4' : 'brightness'
+  const missing = [...REQUIRED_COLUMNS, brightnessColumn].filter((name) => !columns.includes(name))
+  if (missing.length > 0) {
+    return {
+      detections: [],
+      rejectedRows: rows.length,
+      warnings: [`Missing column${missing.length > 1 ? 's' : ''} ${missing.join(', ')}; all ${rows.length} rows rejected`],
+    }
+  }
+
+  const detections: FirmsDetection[] = []
+  const warnings: string[] = []
+  let rejectedRows = 0
+
+  rows.forEach((values, index) => {
+    const row = Object.fromEntries(columns.map((name, i) => [name, values[i]]))
+    const parsed = rowSchema.safeParse({ ...row, brightness: row[brightnessColumn] })
+    const rowNumber = index + 1 // of the data rows, 1-based
+
+    if (values.length !== columns.length || !parsed.success) {
+      rejectedRows++
+      if (warnings.length < MAX_ROW_WARNINGS) {
+        warnings.push(
+          values.length !== columns.length
+            ? `Row ${rowNumber}: ${values.length} fields, expected ${columns.length}`
+            : `Row ${rowNumber}: ${parsed.error!.issues.map((i) => `${i.path.join('.')} ${i.message}`).join('; ')}`
+        )
+      }
+      return
+    }
+    detections.push(parsed.data)
+  })
+
+  if (rejectedRows > MAX_ROW_WARNINGS) {
+    warnings.push(`${rejectedRows - MAX_ROW_WARNINGS} more malformed rows`)
+  }
+
+  return { detections, rejectedRows, warnings }
+}
@@ -0,0 +1,84 @@
+// parseCsv and parseFirmsCsv on FIRMS area API responses recorded in testdata/firms.
+// Run with npm run test:functions.
+
+import { assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { MAX_ROW_WARNINGS, parseCsv, parseFirmsCsv } from './firms-csv.ts'
+
+const fixture = (name: string) => Deno.readTextFile(new URL(`./testdata/firms/${name}.csv`, import.meta.url))
+
+Deno.test('parseCsv keeps commas and doubled quotes inside quoted fields', () => {
+  assertEquals(parseCsv('a,"b, ""c""",d\r\n\r\n"",e,"f\ng"\n'), [
+    ['a', 'b, "c"', 'd'],
+    ['', 'e', 'f\ng'],
+  ])
+})
+
+Deno.test('parses VIIRS rows with l/n/h confidence and the version column', async () => {
+  const result = parseFirmsCsv(await fixture('viirs-snpp-nrt'))
+
+  assertEquals(result.rejectedRows, 0)
+  assertEquals(result.warnings, [])
+  assertEquals(result.detections.map((d) => d.confidence), ['n', 'h', 'l', 'nominal'])
+  assertEquals(result.detections[0], {
+    latitude: 45.71253,
+    longitude: 25.58794,
+    brightness: 341.57, // bright_ti4
+    confidence: 'n',
+    acq_date: '2025-08-13',
+    acq_time: '1042',
+    satellite: 'N',
+    frp: 6.42,
+  })
+  // The quoted instrument field holds a comma, so it must not shift frp and the other columns
+  assertEquals(result.detections[2].frp, 1.25)
+  assertEquals(result.detections[3].acq_time, '0012')
+})
+
+Deno.test('parses MODIS rows with percentage confidence', async () => {
+  const result = parseFirmsCsv(await fixture('modis-nrt'))
+
+  assertEquals(result.rejectedRows, 0)
+  assertEquals(result.detections.map((d) => d.confidence), [74, 100, 0])
+  assertEquals(result.detections.map((d) => d.brightness), [318.4, 325.9, 304.2])
+  assertEquals(result.detections.map((d) => d.satellite), ['Terra', 'Aqua', 'Aqua'])
+})
+
+Deno.test('finds reordered columns by name after a byte order mark', () => {
+  const result = parseFirmsCsv(
+    '\uFEFFacq_date,acq_time,frp,confidence,brightness,longitude,latitude\n2025-08-13,0936,14.6,74,318.4,24.1427,45.8124\n'
+  )
+
+  assertEquals(result.rejectedRows, 0)
+  assertEquals(result.detections, [{
+    latitude: 45.8124,
+    longitude: 24.1427,
+    brightness: 318.4,
+    confidence: 74,
+    acq_date: '2025-08-13',
+    acq_time: '0936',
+    satellite: '',
+    frp: 14.6,
+  }])
+})
+
+Deno.test('rejects malformed and short rows and caps the warnings', async () => {
+  const result = parseFirmsCsv(await fixture('viirs-malformed'))
+
+  assertEquals(result.detections.map((d) => d.confidence), ['n', 'l'])
+  assertEquals(result.rejectedRows, 7)
+  assertEquals(result.warnings.length, MAX_ROW_WARNINGS + 1)
+  assertEquals(result.warnings[0], 'Row 2: 11 fields, expected 14')
+  assertStringIncludes(result.warnings[1], 'Row 3: latitude')
+  assertStringIncludes(result.warnings[2], 'Row 4: acq_date must be YYYY-MM-DD')
+  assertStringIncludes(result.warnings[3], 'Row 5: confidence')
+  assertStringIncludes(result.warnings[4], 'Row 6: brightness is empty')
+  assertEquals(result.warnings[MAX_ROW_WARNINGS], '2 more malformed rows')
+})
+
+Deno.test('rejects every row when a required column is missing', () => {
+  const result = parseFirmsCsv('latitude,longitude,bright_ti4,acq_date,acq_time\n45.7,25.5,341.5,2025-08-13,1042\n')
+
+  assertEquals(result.detections, [])
+  assertEquals(result.rejectedRows, 1)
+  assertEquals(result.warnings, ['Missing columns confidence, frp; all 1 rows rejected'])
+})
@@ -0,0 +1,187 @@
+// NASA FIRMS active fire detections (https://firms.modaps.eosdis.nasa.gov/api/) from every
+// near-real-time sensor. The satellites pass over at different times of day, so together they
+// miss fewer fires; detections of one fire by several sensors are merged into one hotspot.
+
+import { pointInGeometry, type GeoJSONGeometry } from './geometry.ts'
+import { parseFirmsCsv } from './firms-csv.ts'
+
+const FIRMS_API_URL = 'https://firms.modaps.eosdis.nasa.gov/api'
+
+export type FirmsSource = 'VIIRS_SNPP_NRT' | 'VIIRS_NOAA20_NRT' | 'VIIRS_NOAA21_NRT' | 'MODIS_NRT'
+export const FIRMS_SOURCES: FirmsSource[] = ['VIIRS_SNPP_NRT', 'VIIRS_NOAA20_NRT', 'VIIRS_NOAA21_NRT', 'MODIS_NRT']
+
+// Sensor name shown for each source, and its nominal pixel size. Two detections closer than
+// the larger pixel of the pair can be the same fire.
+const SOURCE_SENSORS: Record<FirmsSource, { label: string; pixelKm: number }> = {
+  VIIRS_SNPP_NRT: { label: 'VIIRS S-NPP', pixelKm: 0.375 },
+  VIIRS_NOAA20_NRT: { label: 'VIIRS NOAA-20', pixelKm: 0.375 },
+  VIIRS_NOAA21_NRT: { label: 'VIIRS NOAA-21', pixelKm: 0.375 },
+  MODIS_NRT: { label: 'MODIS', pixelKm: 1 },
+}
+
+// Detections by different sensors at most this far apart in time are merged
+const MERGE_WINDOW_MINUTES = 120
+
+export interface FireHotspot {
+  latitude: number
+  longitude: number
+  brightness: number
+  confidence: string | number
+  acq_date: string
+  acq_time: string
+  satellite: string // every sensor that detected the fire, e.g. "VIIRS NOAA-20, MODIS Aqua"
+  frp: number
+  sources: FirmsSource[]
+  // Set on detections of a confirmed static thermal source (static-sources.ts)
+  category?: 'industrial'
+  staticSource?: string
+}
+
+export interface FirmsResult {
+  hotspots: FireHotspot[]
+  sources: FirmsSource[] // sources that answered
+  failedSources: FirmsSource[]
+  rejectedRows: number // malformed CSV rows dropped, over all sources
+  warnings: string[] // CSV problems, prefixed with the source
+}
+
+interface SourceResult {
+  hotspots: FireHotspot[]
+  rejectedRows: number
+  warnings: string[]
+}
+
+// MODIS rows name the platform: "Terra"/"Aqua" or "T"/"A"
+function sensorLabel(source: FirmsSource, satellite: string | undefined): string {
+  if (source !== 'MODIS_NRT') return SOURCE_SENSORS[source].label
+  if (satellite === 'A' || satellite === 'Aqua') return 'MODIS Aqua'
+  if (satellite === 'T' || satellite === 'Terra') return 'MODIS Terra'
+  return 'MODIS'
+}
+
+// FIRMS is queried by bounding box, or for the whole country without an API key; detections
+// are then clipped to the region polygon. Null when the source could not be queried.
+async function fetchSource(
+  source: FirmsSource,
+  region: { bbox: number[]; geometry: GeoJSONGeometry },
+  daysBack: number,
+  apiKey: string | undefined
+): Promise<SourceResult | null> {
+  const [minLon, minLat, maxLon, maxLat] = region.bbox
+  const url = apiKey
+    ? `${FIRMS_API_URL}/area/csv/${apiKey}/${source}/${minLon},${minLat},${maxLon},${maxLat}/${daysBack}`
+    : `${FIRMS_API_URL}/country/csv/OPEN_DATA/${source}/ROU/${daysBack}`
+
+  try {
+    const response = await fetch(url)
+    if (!response.ok) {
+      console.error(`[firms] ${source} API error: ${response.status}`)
+      return null
+    }
+
+    const { detections, rejectedRows, warnings } = parseFirmsCsv(await response.text())
+    if (rejectedRows > 0) console.warn(`[firms] ${source}: ${rejectedRows} malformed rows rejected`)
+
+    // Keep only detections inside the region footprint
+    const hotspots = detections
+      .filter((d) => pointInGeometry(d.longitude, d.latitude, region.geometry))
+      .map((d) => ({ ...d, satellite: sensorLabel(source, d.satellite), sources: [source] }))
+
+    return { hotspots, rejectedRows, warnings: warnings.map((warning) => `${source}: ${warning}`) }
+  } catch (error) {
+    console.error(`[firms] Error fetching ${source}:`, error)
+    return null
+  }
+}
+
+// Acquisition time in ms since the epoch; acq_time is HHMM UTC, not always zero-padded
+export function acquisitionTime(hotspot: FireHotspot): number {
+  const time = hotspot.acq_time.padStart(4, '0')
+  return Date.parse(`${hotspot.acq_date}T${time.slice(0, 2)}:${time.slice(2, 4)}:00Z`)
+}
+
+export function distanceKm(a: { latitude: number; longitude: number }, b: { latitude: number; longitude: number }): number {
+  const toRad = Math.PI / 180
+  const dLat = (b.latitude - a.latitude) * toRad
+  const dLon = (b.longitude - a.longitude) * toRad
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.latitude * toRad) * Math.cos(b.latitude * toRad) * Math.sin(dLon / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.sqrt(h))
+}
+
+// VIIRS reports low/nominal/high classes, MODIS a percentage (FIRMS: < 30 low, >= 80 high)
+function confidenceRank(confidence: string | number): number {
+  const value = String(confidence).toLowerCase()
+  if (value === 'h' || value === 'high') return 2
+  if (value === 'n' || value === 'nominal') return 1
+  const percent = parseFloat(value)
+  if (Number.isNaN(percent)) return 0
+  return percent >= 80 ? 2 : percent >= 30 ? 1 : 0
+}
+
+// Footprint of a detection: the largest pixel of the sensors that saw it
+export function pixelKm(hotspot: FireHotspot): number {
+  return Math.max(...hotspot.sources.map((s) => SOURCE_SENSORS[s].pixelKm))
+}
+
+// Merge detections of the same fire by different sensors: within the larger pixel of the pair
+// and MERGE_WINDOW_MINUTES of each other. Detections of one sensor are separate pixels and never
+// merge. A merged hotspot keeps the position and FRP of its strongest detection, so FRP is not
+// counted once per sensor, and the highest confidence of its detections.
+function mergeDetections(detections: FireHotspot[]): FireHotspot[] {
+  const merged: { hotspot: FireHotspot; minutes: number; labels: string[] }[] = []
+  const byStrength = [...detections].sort((a, b) => b.frp - a.frp)
+
+  for (const detection of byStrength) {
+    const minutes = acquisitionTime(detection) / 60000
+    const match = merged.find(({ hotspot, minutes: other }) =>
+      !hotspot.sources.some((s) => detection.sources.includes(s)) &&
+      Math.abs(minutes - other) <= MERGE_WINDOW_MINUTES &&
+      distanceKm(hotspot, detection) <= Math.max(pixelKm(hotspot), pixelKm(detection))
+    )
+
+    if (!match) {
+      merged.push({ hotspot: { ...detection }, minutes, labels: [detection.satellite] })
+      continue
+    }
+    match.hotspot.sources = [...match.hotspot.sources, ...detection.sources]
+    if (confidenceRank(detection.confidence) > confidenceRank(match.hotspot.confidence)) {
+      match.hotspot.confidence = detection.confidence
+    }
+    match.labels.push(detection.satellite)
+    match.hotspot.satellite = match.labels.join(', ')
+  }
+
+  return merged.map(({ hotspot }) => hotspot)
+}
+
+// Detections of the requested sources inside the region, merged across sensors. Null when no
+// source could be queried; a source that fails is left out and reported in failedSources.
+export async function getFireHotspots(
+  region: { bbox: number[]; geometry: GeoJSONGeometry },
+  daysBack: number = 3,
+  sources: FirmsSource[] = FIRMS_SOURCES
+): Promise<FirmsResult | null> {
+  const apiKey = Deno.env.get('NASA_FIRMS_API_KEY')
+  console.log(`[firms] Fetching ${sources.join(', ')}: ${apiKey ? 'authenticated' : 'open'}`)
+
+  const results = await Promise.all(sources.map((source) => fetchSource(source, region, daysBack, apiKey)))
+  const answered = sources.filter((_, i) => results[i] !== null)
+  if (answered.length === 0) return null
+
+  const detections = results.flatMap((result) => result?.hotspots ?? [])
+  const hotspots = mergeDetections(detections)
+  console.log(`[firms] ${detections.length} detections, ${hotspots.length} hotspots after merging sensors`)
+
+  return {
+    hotspots,
+    sources: answered,
+    failedSources: sources.filter((_, i) => results[i] === null),
+    rejectedRows: results.reduce((sum, result) => sum + (result?.rejectedRows ?? 0), 0),
+    warnings: results.flatMap((result) => result?.warnings ?? []),
+  }
+}
+
+export function sourceLabel(source: FirmsSource): string {
+  return SOURCE_SENSORS[source].label
+}
@@ -0,0 +1,94 @@
+// Minimal GeoJSON helpers for region footprints (Polygon / MultiPolygon, lon/lat order)
+
+export interface GeoJSONGeometry {
+  type: 'Polygon' | 'MultiPolygon'
+  coordinates: number[][][] | number[][][][]
+}
+
+// Romania with a generous margin - region footprints must fall inside it
+const ALLOWED_EXTENT = [19.0, 43.0, 31.0, 49.0]
+const MAX_VERTICES = 5000
+
+function polygonsOf(geometry: GeoJSONGeometry): number[][][][] {
+  return geometry.type === 'Polygon'
+    ? [geometry.coordinates as number[][][]]
+    : geometry.coordinates as number[][][][]
+}
+
+// Returns an error message, or null when the geometry is usable as a region footprint
+export function validateGeometry(geometry: unknown): string | null {
+  if (!geometry || typeof geometry !== 'object') return 'Geometry is required'
+  const { type, coordinates } = geometry as Record<string, unknown>
+  if (type !== 'Polygon' && type !== 'MultiPolygon') return 'Geometry must be a Polygon or MultiPolygon'
+  if (!Array.isArray(coordinates) || coordinates.length === 0) return 'Geometry has no coordinates'
+
+  const polygons = polygonsOf(geometry as GeoJSONGeometry)
+  let vertices = 0
+
+  for (const polygon of polygons) {
+    if (!Array.isArray(polygon) || polygon.length === 0) return 'Polygon has no rings'
+    for (const ring of polygon) {
+      if (!Array.isArray(ring) || ring.length < 4) return 'Each ring needs at least 4 positions'
+      const first = ring[0]
+      const last = ring[ring.length - 1]
+      if (first[0] !== last[0] || first[1] !== last[1]) return 'Rings must be closed'
+      for (const position of ring) {
+        if (!Array.isArray(position) || position.length < 2) return 'Invalid position'
+        const [lon, lat] = position
+        if (!Number.isFinite(lon) || !Number.isFinite(lat)) return 'Coordinates must be numbers'
+        if (lon < ALLOWED_EXTENT[0] || lon > ALLOWED_EXTENT[2] || lat < ALLOWED_EXTENT[1] || lat > ALLOWED_EXTENT[3]) {
+          return 'Geometry must lie within Romania'
+        }
+      }
+      vertices += ring.length
+    }
+  }
+
+  if (vertices > MAX_VERTICES) return `Geometry has more than ${MAX_VERTICES} vertices`
+  return null
+}
+
+// [min_lon, min_lat, max_lon, max_lat]
+export function geometryBBox(geometry: GeoJSONGeometry): number[] {
+  let minLon = Infinity, minLat = Infinity, maxLon = -Infinity, maxLat = -Infinity
+  for (const polygon of polygonsOf(geometry)) {
+    for (const [lon, lat] of polygon[0]) {
+      minLon = Math.min(minLon, lon)
+      minLat = Math.min(minLat, lat)
+      maxLon = Math.max(maxLon, lon)
+      maxLat = Math.max(maxLat, lat)
+    }
+  }
+  return [minLon, minLat, maxLon, maxLat]
+}
+
+// Ray casting on a single ring
+function pointInRing(lon: number, lat: number, ring: number[][]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Inside the outer ring and outside every hole of any polygon
+export function pointInGeometry(lon: number, lat: number, geometry: GeoJSONGeometry): boolean {
+  return polygonsOf(geometry).some(([outer, ...holes]) =>
+    pointInRing(lon, lat, outer) && !holes.some(hole => pointInRing(lon, lat, hole))
+  )
+}
+
+// Rough zoom level that fits the bbox in a dashboard-sized map
+export function zoomForBBox(bbox: number[]): number {
+  const span = Math.max(bbox[2] - bbox[0], bbox[3] - bbox[1])
+  if (span > 4) return 7
+  if (span > 2) return 8
+  if (span > 1) return 9
+  if (span > 0.4) return 10
+  if (span > 0.2) return 11
+  return 12
+}
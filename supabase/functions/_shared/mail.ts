@@ -0,0 +1,206 @@
+// Outgoing mail behind a small transport interface so the dispatcher does not care whether
+// messages go to an SMTP relay, a local mail catcher (Mailpit / MailHog) or the function log.
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+  headers?: Record<string, string>
+}
+
+export interface MailTransport {
+  readonly name: string
+  send(message: MailMessage): Promise<void>
+}
+
+// 'tls' = implicit TLS (port 465), 'starttls' = upgrade after EHLO (587), 'none' = plain (mail catchers)
+export type SmtpSecurity = 'tls' | 'starttls' | 'none'
+
+export interface SmtpConfig {
+  hostname: string
+  port: number
+  security: SmtpSecurity
+  username?: string
+  password?: string
+  from: string
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function base64(text: string): string {
+  const bytes = encoder.encode(text)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary)
+}
+
+// Base64 body wrapped at 76 characters per RFC 2045
+function base64Body(text: string): string {
+  return base64(text).replace(/.{1,76}/g, '$&\r\n').trimEnd()
+}
+
+// RFC 2047 encoded-words so diacritics survive in headers. Each word stays under 75
+// characters and never splits a multi-byte character.
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value
+
+  const words: string[] = []
+  let current = ''
+  for (const char of value) {
+    if (encoder.encode(current + char).length > 45) {
+      words.push(current)
+      current = ''
+    }
+    current += char
+  }
+  words.push(current)
+  return words.map((word) => `=?UTF-8?B?${base64(word)}?=`).join('\r\n ')
+}
+
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/)
+  return (match ? match[1] : mailbox).trim()
+}
+
+export function buildMimeMessage(from: string, message: MailMessage): string {
+  const boundary = `safero-${crypto.randomUUID()}`
+  const headers: Record<string, string> = {
+    'From': from,
+    'To': message.to,
+    'Subject': encodeHeader(message.subject),
+    'Date': new Date().toUTCString(),
+    'Message-ID': `<${crypto.randomUUID()}@${addressOf(from).split('@')[1] || 'safero'}>`,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  }
+
+  return [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n')
+}
+
+// Minimal SMTP client (RFC 5321): EHLO, optional STARTTLS and AUTH PLAIN, one message per connection
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp'
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { hostname, port, security } = this.config
+    let conn: Deno.Conn = security === 'tls'
+      ? await Deno.connectTls({ hostname, port })
+      : await Deno.connect({ hostname, port })
+
+    let buffer = ''
+    // A reply is complete once its last line has a space after the code ("250 OK");
+    // multi-line replies use a dash ("250-PIPELINING") on every line but the last
+    const readReply = async (): Promise<string> => {
+      const chunk = new Uint8Array(4096)
+      while (!/(^|\r\n)\d{3}( [^\r\n]*)?\r\n$/.test(buffer)) {
+        const n = await conn.read(chunk)
+        if (n === null) throw new Error('SMTP connection closed unexpectedly')
+        buffer += decoder.decode(chunk.subarray(0, n))
+      }
+      const reply = buffer
+      buffer = ''
+      return reply
+    }
+    const expect = async (allowed: number[], command?: string) => {
+      if (command !== undefined) {
+        await conn.write(encoder.encode(`${command}\r\n`))
+      }
+      const reply = await readReply()
+      const lastLine = reply.trimEnd().split('\r\n').pop()!
+      if (!allowed.includes(parseInt(lastLine.slice(0, 3), 10))) {
+        // Never echo credentials or the message body into errors
+        const shown = command === undefined ? 'greeting' : command.split(' ')[0].slice(0, 12)
+        throw new Error(`SMTP ${shown} failed: ${reply.trim()}`)
+      }
+      return reply
+    }
+
+    try {
+      await expect([220])
+      let capabilities = await expect([250], `EHLO ${addressOf(this.config.from).split('@')[1] || 'localhost'}`)
+
+      if (security === 'starttls') {
+        await expect([220], 'STARTTLS')
+        conn = await Deno.startTls(conn as Deno.TcpConn, { hostname })
+        capabilities = await expect([250], 'EHLO localhost')
+      }
+
+      if (this.config.username && this.config.password) {
+        if (!/AUTH[ =][^\r\n]*PLAIN/i.test(capabilities)) {
+          throw new Error('SMTP server does not offer AUTH PLAIN')
+        }
+        await expect([235], `AUTH PLAIN ${base64(`\0${this.config.username}\0${this.config.password}`)}`)
+      }
+
+      await expect([250], `MAIL FROM:<${addressOf(this.config.from)}>`)
+      await expect([250, 251], `RCPT TO:<${addressOf(message.to)}>`)
+      await expect([354], 'DATA')
+
+      // Dot-stuff lines starting with "." and terminate with <CRLF>.<CRLF>
+      const data = buildMimeMessage(this.config.from, message).replace(/\r\n\./g, '\r\n..')
+      await expect([250], `${data}\r\n.`)
+      await expect([221], 'QUIT').catch(() => {})
+    } finally {
+      try {
+        conn.close()
+      } catch {
+        // already closed by the server
+      }
+    }
+  }
+}
+
+// Development transport: logs what would have been sent
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console'
+
+  send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`)
+    return Promise.resolve()
+  }
+}
+
+// MAIL_TRANSPORT=smtp uses SMTP_HOST / SMTP_PORT / SMTP_SECURITY / SMTP_USER / SMTP_PASSWORD / MAIL_FROM;
+// anything else falls back to the console transport
+export function createMailTransport(): MailTransport {
+  if (Deno.env.get('MAIL_TRANSPORT') !== 'smtp') {
+    return new ConsoleTransport()
+  }
+
+  const hostname = Deno.env.get('SMTP_HOST')
+  if (!hostname) {
+    throw new Error('SMTP_HOST is required when MAIL_TRANSPORT=smtp')
+  }
+
+  const security = (Deno.env.get('SMTP_SECURITY') || 'starttls') as SmtpSecurity
+  const defaultPort = security === 'tls' ? 465 : security === 'starttls' ? 587 : 25
+
+  return new SmtpTransport({
+    hostname,
+    port: parseInt(Deno.env.get('SMTP_PORT') || String(defaultPort), 10),
+    security,
+    username: Deno.env.get('SMTP_USER') || undefined,
+    password: Deno.env.get('SMTP_PASSWORD') || undefined,
+    from: Deno.env.get('MAIL_FROM') || 'safeRo Alerts <alerts@safero.ro>',
+  })
+}
@@ -0,0 +1,155 @@
+// SmtpTransport against a scripted SMTP server on a local port. Run with npm run test:functions.
+
+import { assert, assertEquals, assertRejects, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { SmtpTransport, type MailMessage } from './mail.ts'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+interface Session {
+  commands: string[]
+  data: string | null
+}
+
+// Replies per command verb; unlisted verbs get "250 OK". A reply may be split into several
+// writes to check that the client keeps reading until the final line.
+type Script = Record<string, string | string[]>
+
+const EHLO_REPLY = ['250-smtp.test Hello\r\n250-PIPELINING\r\n', '250-AUTH LOGIN PLAIN\r\n', '250 8BITMIME\r\n']
+
+async function withServer(script: Script, run: (port: number) => Promise<void>): Promise<Session> {
+  const listener = Deno.listen({ hostname: '127.0.0.1', port: 0 })
+  const session: Session = { commands: [], data: null }
+
+  const serve = (async () => {
+    const conn = await listener.accept()
+    const reply = async (verb: string, fallback: string | string[]) => {
+      for (const part of [script[verb] ?? fallback].flat()) {
+        await conn.write(encoder.encode(part))
+        await new Promise((resolve) => setTimeout(resolve, 5))
+      }
+    }
+
+    try {
+      await reply('greeting', '220 smtp.test ESMTP\r\n')
+      let buffer = ''
+      let inData = false
+      const chunk = new Uint8Array(4096)
+      while (true) {
+        const n = await conn.read(chunk)
+        if (n === null) break
+        buffer += decoder.decode(chunk.subarray(0, n))
+
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n')
+          if (end === -1) continue
+          session.data = buffer.slice(0, end)
+          buffer = buffer.slice(end + 5)
+          inData = false
+          await reply('END', '250 Queued\r\n')
+          continue
+        }
+
+        let newline: number
+        while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+          const command = buffer.slice(0, newline)
+          buffer = buffer.slice(newline + 2)
+          session.commands.push(command)
+          const verb = command.split(' ')[0].toUpperCase()
+          if (verb === 'EHLO') await reply(verb, EHLO_REPLY)
+          else if (verb === 'DATA') {
+            await reply(verb, '354 End data with <CR><LF>.<CR><LF>\r\n')
+            inData = String(script.DATA ?? '354').startsWith('354')
+          } else if (verb === 'QUIT') {
+            await reply(verb, '221 Bye\r\n')
+            return
+          } else await reply(verb, verb === 'AUTH' ? '235 Authenticated\r\n' : '250 OK\r\n')
+        }
+      }
+    } finally {
+      conn.close()
+    }
+  })()
+
+  try {
+    await run((listener.addr as Deno.NetAddr).port)
+  } finally {
+    await serve.catch(() => {})
+    listener.close()
+  }
+  return session
+}
+
+function transport(port: number, options: { security?: 'none' | 'starttls'; password?: string } = {}) {
+  return new SmtpTransport({
+    hostname: '127.0.0.1',
+    port,
+    security: options.security ?? 'none',
+    username: options.password ? 'alerts' : undefined,
+    password: options.password,
+    from: 'safeRo Alerts <alerts@safero.test>',
+  })
+}
+
+const message: MailMessage = {
+  to: 'Ana <ana@example.test>',
+  subject: 'Fire risk high in Brașov',
+  text: 'Fire risk is high.',
+  html: '<p>Fire risk is high.</p>',
+  headers: {
+    'List-Unsubscribe': '<https://functions.safero.test/manage-subscription?action=unsubscribe&token=t1>',
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  },
+}
+
+Deno.test('sends a message after a multi-line EHLO reply split across writes', async () => {
+  const session = await withServer({}, (port) => transport(port, { password: 's3cret' }).send(message))
+
+  assertEquals(session.commands.map((c) => c.split(' ')[0].split(':')[0]), ['EHLO', 'AUTH', 'MAIL', 'RCPT', 'DATA', 'QUIT'])
+  assertEquals(session.commands[0], 'EHLO safero.test')
+  assertEquals(session.commands[1], `AUTH PLAIN ${btoa('\0alerts\0s3cret')}`)
+  assertEquals(session.commands[2], 'MAIL FROM:<alerts@safero.test>')
+  assertEquals(session.commands[3], 'RCPT TO:<ana@example.test>')
+
+  assert(session.data !== null)
+  assertStringIncludes(session.data, '\r\nTo: Ana <ana@example.test>\r\n')
+  assertStringIncludes(session.data, '\r\nSubject: =?UTF-8?B?')
+  assertStringIncludes(session.data, '\r\nList-Unsubscribe: <https://functions.safero.test/manage-subscription?action=unsubscribe&token=t1>\r\n')
+  assertStringIncludes(session.data, '\r\nList-Unsubscribe-Post: List-Unsubscribe=One-Click\r\n')
+})
+
+Deno.test('dot-stuffs lines that start with a dot', async () => {
+  const dotted = { ...message, headers: { 'X-Trace': 'relay\r\n.hidden' } }
+  const session = await withServer({}, (port) => transport(port).send(dotted))
+
+  assert(session.data !== null)
+  assertStringIncludes(session.data, '\r\nX-Trace: relay\r\n..hidden\r\n')
+  assert(!/\r\n\.[^.]/.test(session.data))
+})
+
+Deno.test('fails when the server refuses STARTTLS', async () => {
+  await withServer({ STARTTLS: '454 TLS not available\r\n' }, async (port) => {
+    await assertRejects(() => transport(port, { security: 'starttls' }).send(message), Error, 'SMTP STARTTLS failed: 454 TLS not available')
+  })
+})
+
+Deno.test('fails on rejected credentials without echoing them', async () => {
+  const session = await withServer({ AUTH: '535 5.7.8 Authentication credentials invalid\r\n' }, async (port) => {
+    const error = await assertRejects(() => transport(port, { password: 's3cret' }).send(message), Error, 'SMTP AUTH failed: 535')
+    assert(!error.message.includes(btoa('\0alerts\0s3cret')))
+  })
+  assert(!session.commands.some((c) => c.startsWith('MAIL')))
+})
+
+Deno.test('fails when the server does not offer AUTH PLAIN', async () => {
+  await withServer({ EHLO: '250-smtp.test\r\n250 AUTH LOGIN\r\n' }, async (port) => {
+    await assertRejects(() => transport(port, { password: 's3cret' }).send(message), Error, 'SMTP server does not offer AUTH PLAIN')
+  })
+})
+
+Deno.test('fails when the recipient is rejected', async () => {
+  const session = await withServer({ RCPT: '550 No such user\r\n' }, async (port) => {
+    await assertRejects(() => transport(port).send(message), Error, 'SMTP RCPT failed: 550 No such user')
+  })
+  assertEquals(session.data, null)
+})
@@ -0,0 +1,113 @@
+import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { evaluateHazard, HAZARD_TYPES, type AlertSeverity, type HazardType } from './alert-dispatch.ts'
+import { type SnapshotRecord } from './snapshots.ts'
+
+// Keeps public.alerts in step with a region's analyses. Each hazard has at most one live
+// (open or acknowledged) alert: a snapshot that still shows the hazard refreshes it, one that
+// no longer does resolves it, and only a hazard without a live alert opens a new one.
+// Hazards a snapshot has no measured data for leave their alert untouched.
+
+export interface AlertSyncResult {
+  opened: number
+  updated: number
+  resolved: number
+}
+
+interface LiveAlert {
+  id: string
+  hazard_type: HazardType
+  severity: AlertSeverity
+  status: 'open' | 'acknowledged'
+}
+
+const formatNumber = (value: number | null, digits: number) => (value === null ? 'n/a' : value.toFixed(digits))
+
+const ALERT_MESSAGES: Record<HazardType, (snapshot: SnapshotRecord, regionName: string) => string> = {
+  flood: (s, region) => `Elevated water levels detected in ${region} (${formatNumber(s.flood_percentage, 1)} % flooded)`,
+  vegetation: (s, region) => `Vegetation stress detected in ${region} (mean NDVI ${formatNumber(s.ndvi_mean, 2)})`,
+  fire: (s, region) => `Fire risk detected in ${region} (${s.hotspot_count} active hotspots)`,
+}
+
+export async function syncRegionAlerts(
+  supabase: SupabaseClient,
+  snapshot: SnapshotRecord,
+  regionName: string
+): Promise<AlertSyncResult> {
+  const result: AlertSyncResult = { opened: 0, updated: 0, resolved: 0 }
+
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('id, hazard_type, severity, status')
+    .eq('region_id', snapshot.region_id)
+    .neq('status', 'resolved')
+
+  if (error) {
+    throw new Error(`Failed to load alerts for ${snapshot.region_id}: ${error.message}`)
+  }
+
+  const live = new Map((data as LiveAlert[]).map((a) => [a.hazard_type, a]))
+
+  for (const hazard of HAZARD_TYPES) {
+    const evaluation = evaluateHazard(hazard, snapshot)
+    if (!evaluation) continue
+
+    const current = live.get(hazard)
+    const severity = evaluation.severity
+
+    if (!severity) {
+      if (!current) continue
+      const { error: resolveError } = await supabase
+        .from('alerts')
+        .update({ status: 'resolved', last_snapshot_id: snapshot.id })
+        .eq('id', current.id)
+
+      if (resolveError) {
+        throw new Error(`Failed to resolve alert ${current.id}: ${resolveError.message}`)
+      }
+      result.resolved++
+      continue
+    }
+
+    const message = ALERT_MESSAGES[hazard](snapshot, regionName)
+
+    if (current) {
+      // An escalation puts an acknowledged alert back in front of the analysts
+      const escalated = severity === 'danger' && current.severity === 'warning'
+      const { error: updateError } = await supabase
+        .from('alerts')
+        .update({
+          severity,
+          message,
+          last_snapshot_id: snapshot.id,
+          last_seen_at: snapshot.analyzed_at,
+          ...(escalated ? { status: 'open' } : {}),
+        })
+        .eq('id', current.id)
+
+      if (updateError) {
+        throw new Error(`Failed to update alert ${current.id}: ${updateError.message}`)
+      }
+      result.updated++
+      continue
+    }
+
+    const { error: insertError } = await supabase.from('alerts').insert({
+      region_id: snapshot.region_id,
+      hazard_type: hazard,
+      severity,
+      message,
+      first_snapshot_id: snapshot.id,
+      last_snapshot_id: snapshot.id,
+      opened_at: snapshot.analyzed_at,
+      last_seen_at: snapshot.analyzed_at,
+    })
+
+    // 23505: a concurrent analysis of the same region opened it first
+    if (insertError && insertError.code !== '23505') {
+      throw new Error(`Failed to open ${hazard} alert for ${snapshot.region_id}: ${insertError.message}`)
+    }
+    if (!insertError) result.opened++
+  }
+
+  return result
+}
@@ -0,0 +1,72 @@
+import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { type GeoJSONGeometry } from './geometry.ts'
+
+export type { GeoJSONGeometry }
+
+// Row of public.regions - the single region registry used by every function
+export interface RegionRecord {
+  id: string
+  name: string
+  display_name: string
+  bbox: number[] // [min_lon, min_lat, max_lon, max_lat]
+  center: number[] // [lat, lon]
+  zoom: number
+  geometry: GeoJSONGeometry
+  source: 'builtin' | 'custom'
+  kind: RegionKind
+  code: string | null // two-letter county code, counties only
+}
+
+// 'area' = monitoring areas (built-in and custom), 'county' = județe keyed by SIRUTA code
+export type RegionKind = 'area' | 'county'
+
+export const REGION_COLUMNS = 'id, name, display_name, bbox, center, zoom, geometry, source, kind, code'
+
+export async function listRegions(supabase: SupabaseClient, kind?: RegionKind): Promise<RegionRecord[]> {
+  let query = supabase
+    .from('regions')
+    .select(REGION_COLUMNS)
+    .order('display_name')
+
+  if (kind) {
+    query = query.eq('kind', kind)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load regions: ${error.message}`)
+  }
+
+  return (data || []) as RegionRecord[]
+}
+
+export async function getRegion(supabase: SupabaseClient, id: string): Promise<RegionRecord | null> {
+  const { data, error } = await supabase
+    .from('regions')
+    .select(REGION_COLUMNS)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load region ${id}: ${error.message}`)
+  }
+
+  return data as RegionRecord | null
+}
+
+// Shape returned to clients by the list-regions action
+export function toRegionResponse(region: RegionRecord) {
+  return {
+    id: region.id,
+    name: region.name,
+    displayName: region.display_name,
+    bbox: region.bbox,
+    center: region.center,
+    zoom: region.zoom,
+    geometry: region.geometry,
+    source: region.source,
+    kind: region.kind,
+    code: region.code,
+  }
+}
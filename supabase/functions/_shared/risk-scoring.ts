@@ -0,0 +1,203 @@
+// Hazard risk scoring shared by the edge functions and the web app (which imports this file
+// directly), so every view of a region classifies it the same way. Pure and dependency-free.
+// Thresholds live in public.risk_thresholds; bump RISK_MODEL_VERSION whenever the meaning of a
+// threshold or the way levels are combined changes, so stored assessments can be told apart.
+
+export const RISK_MODEL_VERSION = 1
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical'
+export const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'critical']
+
+export type RiskHazard = 'flood' | 'vegetation' | 'fire'
+export const RISK_HAZARDS: RiskHazard[] = ['flood', 'vegetation', 'fire']
+
+export interface FloodThresholds {
+  // Flooded share of the region (%); the level applies above the value
+  medium: number
+  high: number
+  critical: number
+}
+
+export interface VegetationThresholds {
+  // Mean NDVI; the level applies below the value
+  medium: number
+  high: number
+  critical: number
+  good: number // vegetation is reported healthy above this
+}
+
+export interface FireThresholds {
+  // Any one criterion is enough for the level
+  hotspots: { medium: number; high: number; critical: number } // detections, at least
+  highConfidence: { high: number; critical: number } // high-confidence detections, at least
+  frp: { high: number; critical: number } // total fire radiative power (MW), above
+}
+
+export interface RiskThresholds {
+  flood: FloodThresholds
+  vegetation: VegetationThresholds
+  fire: FireThresholds
+}
+
+// Also the seed rows of public.risk_thresholds
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = {
+  flood: { medium: 3, high: 7, critical: 12 },
+  vegetation: { medium: 0.4, high: 0.3, critical: 0.2, good: 0.5 },
+  fire: {
+    hotspots: { medium: 1, high: 5, critical: 10 },
+    highConfidence: { high: 2, critical: 5 },
+    frp: { high: 50, critical: 100 },
+  },
+}
+
+export interface FireInputs {
+  activeHotspots: number
+  highConfidenceCount: number
+  totalFRP: number
+}
+
+// null = no data. Estimated values (seasonal climatology) are scored for display but never
+// raise the region's level.
+export interface RiskInputs {
+  flood: { percentage: number; measured: boolean } | null
+  vegetation: { ndviMean: number; measured: boolean } | null
+  fire: FireInputs | null // FIRMS detections are always measurements
+}
+
+export interface HazardScore {
+  level: RiskLevel
+  score: number // 0-100; each level spans 25 points, so bars and levels always agree
+  measured: boolean
+}
+
+export interface RiskAssessment {
+  version: number
+  level: RiskLevel // worst measured hazard; 'low' when nothing was measured
+  hazards: Record<RiskHazard, HazardScore | null>
+}
+
+const LEVEL_RANK: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 }
+
+export function maxRiskLevel(levels: RiskLevel[]): RiskLevel {
+  return levels.reduce<RiskLevel>((worst, level) => (LEVEL_RANK[level] > LEVEL_RANK[worst] ? level : worst), 'low')
+}
+
+// Position of `value` on a worse-is-higher scale: 0 at `floor`, then 25 points per band
+// between consecutive limits, clamped into the band of `level`
+function bandScore(value: number, floor: number, limits: [number, number, number], level: RiskLevel): number {
+  const points = [floor, ...limits]
+  const band = points.findIndex((point, i) => i > 0 && value <= point)
+
+  let score: number
+  if (band === -1) {
+    // Beyond critical: extrapolate with the width of the high band
+    const width = limits[2] - limits[1]
+    score = 75 + (width > 0 ? (25 * (value - limits[2])) / width : 25)
+  } else {
+    const width = points[band] - points[band - 1]
+    score = 25 * (band - 1) + (width > 0 ? (25 * (value - points[band - 1])) / width : 25)
+  }
+
+  const base = LEVEL_RANK[level] * 25
+  return Math.round(Math.min(base + 25, Math.max(base, score)))
+}
+
+export function scoreFlood(percentage: number, t: FloodThresholds): Omit<HazardScore, 'measured'> {
+  const level: RiskLevel =
+    percentage > t.critical ? 'critical' : percentage > t.high ? 'high' : percentage > t.medium ? 'medium' : 'low'
+  return { level, score: bandScore(percentage, 0, [t.medium, t.high, t.critical], level) }
+}
+
+export function scoreVegetation(ndviMean: number, t: VegetationThresholds): Omit<HazardScore, 'measured'> {
+  const level: RiskLevel =
+    ndviMean < t.critical ? 'critical' : ndviMean < t.high ? 'high' : ndviMean < t.medium ? 'medium' : 'low'
+  // Lower NDVI is worse, so score the negated value; NDVI 1 is the best case
+  return { level, score: bandScore(-ndviMean, -1, [-t.medium, -t.high, -t.critical], level) }
+}
+
+export function scoreFire(fire: FireInputs, t: FireThresholds): Omit<HazardScore, 'measured'> {
+  const level: RiskLevel =
+    fire.activeHotspots >= t.hotspots.critical ||
+    fire.highConfidenceCount >= t.highConfidence.critical ||
+    fire.totalFRP > t.frp.critical
+      ? 'critical'
+      : fire.activeHotspots >= t.hotspots.high ||
+          fire.highConfidenceCount >= t.highConfidence.high ||
+          fire.totalFRP > t.frp.high
+        ? 'high'
+        : fire.activeHotspots >= t.hotspots.medium
+          ? 'medium'
+          : 'low'
+  const { medium, high, critical } = t.hotspots
+  return { level, score: bandScore(fire.activeHotspots, 0, [medium, high, critical], level) }
+}
+
+export function assessRisk(inputs: RiskInputs, thresholds: RiskThresholds = DEFAULT_RISK_THRESHOLDS): RiskAssessment {
+  const hazards: RiskAssessment['hazards'] = {
+    flood: inputs.flood
+      ? { ...scoreFlood(inputs.flood.percentage, thresholds.flood), measured: inputs.flood.measured }
+      : null,
+    vegetation: inputs.vegetation
+      ? { ...scoreVegetation(inputs.vegetation.ndviMean, thresholds.vegetation), measured: inputs.vegetation.measured }
+      : null,
+    fire: inputs.fire ? { ...scoreFire(inputs.fire, thresholds.fire), measured: true } : null,
+  }
+
+  return {
+    version: RISK_MODEL_VERSION,
+    level: maxRiskLevel(RISK_HAZARDS.map((h) => hazards[h]).filter((s) => s?.measured).map((s) => s!.level)),
+    hazards,
+  }
+}
+
+// Alert severity of a hazard level: high hazards warn, critical ones are dangerous
+export function alertSeverity(level: RiskLevel): 'warning' | 'danger' | null {
+  return level === 'critical' ? 'danger' : level === 'high' ? 'warning' : null
+}
+
+export function vegetationHealth(ndviMean: number, t: VegetationThresholds): 'poor' | 'moderate' | 'good' {
+  return ndviMean > t.good ? 'good' : ndviMean < t.high ? 'poor' : 'moderate'
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+// Error message for a thresholds object that would produce inconsistent levels, or null
+export function validateRiskThresholds(hazard: RiskHazard, value: unknown): string | null {
+  if (!value || typeof value !== 'object') return `${hazard} thresholds must be an object`
+
+  if (hazard === 'flood') {
+    const t = value as FloodThresholds
+    if (![t.medium, t.high, t.critical].every(isNumber)) return 'Flood thresholds must be numbers'
+    if (!(t.medium >= 0 && t.medium < t.high && t.high < t.critical && t.critical <= 100)) {
+      return 'Flood thresholds must increase from medium to critical, within 0-100 %'
+    }
+    return null
+  }
+
+  if (hazard === 'vegetation') {
+    const t = value as VegetationThresholds
+    if (![t.medium, t.high, t.critical, t.good].every(isNumber)) return 'Vegetation thresholds must be numbers'
+    if (!(t.critical >= -1 && t.critical < t.high && t.high < t.medium && t.medium <= t.good && t.good <= 1)) {
+      return 'Vegetation NDVI thresholds must decrease from good to critical, within -1 to 1'
+    }
+    return null
+  }
+
+  const t = value as FireThresholds
+  const values = [
+    t.hotspots?.medium, t.hotspots?.high, t.hotspots?.critical,
+    t.highConfidence?.high, t.highConfidence?.critical,
+    t.frp?.high, t.frp?.critical,
+  ]
+  if (!values.every(isNumber)) return 'Fire thresholds must be numbers'
+  if (!(t.hotspots.medium >= 1 && t.hotspots.medium < t.hotspots.high && t.hotspots.high < t.hotspots.critical)) {
+    return 'Hotspot thresholds must increase from medium to critical, starting at 1'
+  }
+  if (!(t.highConfidence.high >= 1 && t.highConfidence.high < t.highConfidence.critical)) {
+    return 'High-confidence thresholds must increase from high to critical, starting at 1'
+  }
+  if (!(t.frp.high >= 0 && t.frp.high < t.frp.critical)) {
+    return 'FRP thresholds must increase from high to critical'
+  }
+  return null
+}
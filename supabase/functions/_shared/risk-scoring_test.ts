@@ -0,0 +1,123 @@
+// Hazard levels and scores at the threshold boundaries, and validation of threshold configs.
+// Run with npm run test:functions.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import {
+  DEFAULT_RISK_THRESHOLDS,
+  RISK_MODEL_VERSION,
+  assessRisk,
+  scoreFire,
+  scoreFlood,
+  scoreVegetation,
+  validateRiskThresholds,
+} from './risk-scoring.ts'
+
+const { flood, vegetation, fire } = DEFAULT_RISK_THRESHOLDS
+
+Deno.test('scoreFlood applies each level above its threshold', () => {
+  // medium 3, high 7, critical 12 (% flooded)
+  const levels = [0, 3, 3.01, 7, 7.01, 12, 12.01, 100].map((p) => scoreFlood(p, flood).level)
+
+  assertEquals(levels, ['low', 'low', 'medium', 'medium', 'high', 'high', 'critical', 'critical'])
+})
+
+Deno.test('scoreFlood keeps the score inside the band of the level', () => {
+  const scores = [0, 3, 7, 7.5, 12, 12.5, 100].map((p) => scoreFlood(p, flood).score)
+
+  assertEquals(scores, [0, 25, 50, 53, 75, 78, 100])
+})
+
+Deno.test('scoreVegetation applies each level below its threshold', () => {
+  // medium 0.4, high 0.3, critical 0.2 (mean NDVI)
+  const levels = [1, 0.4, 0.39, 0.3, 0.29, 0.2, 0.19, -1].map((ndvi) => scoreVegetation(ndvi, vegetation).level)
+
+  assertEquals(levels, ['low', 'low', 'medium', 'medium', 'high', 'high', 'critical', 'critical'])
+  assertEquals(scoreVegetation(1, vegetation).score, 0)
+  assertEquals(scoreVegetation(0.4, vegetation).score, 25)
+  assertEquals(scoreVegetation(-1, vegetation).score, 100)
+})
+
+Deno.test('scoreFire raises the level on any one criterion', () => {
+  const level = (activeHotspots: number, highConfidenceCount = 0, totalFRP = 0) =>
+    scoreFire({ activeHotspots, highConfidenceCount, totalFRP }, fire).level
+
+  // Hotspots: at least 1, 5 and 10
+  assertEquals([0, 1, 4, 5, 9, 10].map((n) => level(n)), ['low', 'medium', 'medium', 'high', 'high', 'critical'])
+  // High-confidence detections: at least 2 and 5
+  assertEquals([1, 2, 4, 5].map((n) => level(1, n)), ['medium', 'high', 'high', 'critical'])
+  // Total FRP: above 50 and 100 MW
+  assertEquals([50, 50.1, 100, 100.1].map((frp) => level(1, 0, frp)), ['medium', 'high', 'high', 'critical'])
+})
+
+Deno.test('scoreFire lifts the hotspot score into the band of a level set by another criterion', () => {
+  assertEquals(scoreFire({ activeHotspots: 1, highConfidenceCount: 5, totalFRP: 0 }, fire), { level: 'critical', score: 75 })
+  assertEquals(scoreFire({ activeHotspots: 0, highConfidenceCount: 0, totalFRP: 0 }, fire), { level: 'low', score: 0 })
+})
+
+Deno.test('assessRisk takes the worst measured hazard and ignores estimates', () => {
+  const assessment = assessRisk({
+    flood: { percentage: 15, measured: false },
+    vegetation: { ndviMean: 0.35, measured: true },
+    fire: { activeHotspots: 5, highConfidenceCount: 0, totalFRP: 0 },
+  })
+
+  assertEquals(assessment.version, RISK_MODEL_VERSION)
+  assertEquals(assessment.level, 'high')
+  assertEquals(assessment.hazards.flood, { level: 'critical', score: 90, measured: false })
+  assertEquals(assessment.hazards.vegetation?.level, 'medium')
+  assertEquals(assessment.hazards.fire?.measured, true)
+})
+
+Deno.test('assessRisk is low without measurements and uses the given thresholds', () => {
+  const empty = assessRisk({ flood: null, vegetation: null, fire: null })
+  assertEquals(empty.level, 'low')
+  assertEquals(empty.hazards, { flood: null, vegetation: null, fire: null })
+
+  const estimated = assessRisk({ flood: { percentage: 50, measured: false }, vegetation: null, fire: null })
+  assertEquals(estimated.level, 'low')
+
+  const strict = { ...DEFAULT_RISK_THRESHOLDS, flood: { medium: 1, high: 2, critical: 3 } }
+  const inputs = { flood: { percentage: 5, measured: true }, vegetation: null, fire: null }
+  assertEquals([assessRisk(inputs).level, assessRisk(inputs, strict).level], ['medium', 'critical'])
+})
+
+Deno.test('validateRiskThresholds accepts the defaults', () => {
+  assertEquals(validateRiskThresholds('flood', flood), null)
+  assertEquals(validateRiskThresholds('vegetation', vegetation), null)
+  assertEquals(validateRiskThresholds('fire', fire), null)
+  // Moderate vegetation may start right at the healthy limit
+  assertEquals(validateRiskThresholds('vegetation', { ...vegetation, medium: 0.5 }), null)
+})
+
+Deno.test('validateRiskThresholds rejects missing, non-numeric and unordered values', () => {
+  assertEquals(validateRiskThresholds('flood', null), 'flood thresholds must be an object')
+  assertEquals(validateRiskThresholds('flood', { ...flood, high: '7' }), 'Flood thresholds must be numbers')
+  assertEquals(validateRiskThresholds('flood', { ...flood, high: NaN }), 'Flood thresholds must be numbers')
+  assertEquals(
+    validateRiskThresholds('flood', { ...flood, high: 3 }),
+    'Flood thresholds must increase from medium to critical, within 0-100 %'
+  )
+  assertEquals(
+    validateRiskThresholds('flood', { ...flood, critical: 101 }),
+    'Flood thresholds must increase from medium to critical, within 0-100 %'
+  )
+
+  const vegetationOrder = 'Vegetation NDVI thresholds must decrease from good to critical, within -1 to 1'
+  assertEquals(validateRiskThresholds('vegetation', { ...vegetation, medium: 0.6 }), vegetationOrder)
+  assertEquals(validateRiskThresholds('vegetation', { ...vegetation, critical: -1.1 }), vegetationOrder)
+  assertEquals(validateRiskThresholds('vegetation', { ...vegetation, good: undefined }), 'Vegetation thresholds must be numbers')
+
+  assertEquals(validateRiskThresholds('fire', { ...fire, frp: undefined }), 'Fire thresholds must be numbers')
+  assertEquals(
+    validateRiskThresholds('fire', { ...fire, hotspots: { medium: 0, high: 5, critical: 10 } }),
+    'Hotspot thresholds must increase from medium to critical, starting at 1'
+  )
+  assertEquals(
+    validateRiskThresholds('fire', { ...fire, highConfidence: { high: 5, critical: 5 } }),
+    'High-confidence thresholds must increase from high to critical, starting at 1'
+  )
+  assertEquals(
+    validateRiskThresholds('fire', { ...fire, frp: { high: 100, critical: 50 } }),
+    'FRP thresholds must increase from high to critical'
+  )
+})
@@ -0,0 +1,61 @@
+import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  DEFAULT_RISK_THRESHOLDS,
+  RISK_HAZARDS,
+  RISK_MODEL_VERSION,
+  validateRiskThresholds,
+  type RiskHazard,
+  type RiskThresholds,
+} from './risk-scoring.ts'
+
+interface ThresholdRow {
+  hazard_type: RiskHazard
+  thresholds: unknown
+  model_version: number
+}
+
+// Thresholds of a row, or null (logged) when it is invalid or written for another model version
+function usableThresholds(row: ThresholdRow, source: string) {
+  const problem = row.model_version !== RISK_MODEL_VERSION
+    ? `written for model version ${row.model_version}`
+    : validateRiskThresholds(row.hazard_type, row.thresholds)
+  if (problem) {
+    console.error(`[risk] Ignoring ${source} ${row.hazard_type} thresholds (${problem})`)
+    return null
+  }
+  return row.thresholds
+}
+
+// Current thresholds from public.risk_thresholds, with the overrides of `regionId` from
+// public.region_risk_thresholds on top. A row that is missing, invalid or written for another
+// model version falls back to the next level (override -> default row -> built-in default), so
+// scoring never stops because of a bad config.
+export async function loadRiskThresholds(supabase: SupabaseClient, regionId?: string): Promise<RiskThresholds> {
+  const [defaults, overrides] = await Promise.all([
+    supabase.from('risk_thresholds').select('hazard_type, thresholds, model_version'),
+    regionId
+      ? supabase
+        .from('region_risk_thresholds')
+        .select('hazard_type, thresholds, model_version')
+        .eq('region_id', regionId)
+      : Promise.resolve({ data: [], error: null }),
+  ])
+
+  if (defaults.error) {
+    console.error('[risk] Failed to load thresholds, using defaults:', defaults.error.message)
+  }
+  if (overrides.error) {
+    console.error(`[risk] Failed to load overrides for ${regionId}:`, overrides.error.message)
+  }
+
+  const thresholds = { ...DEFAULT_RISK_THRESHOLDS }
+  for (const hazard of RISK_HAZARDS) {
+    const row = ((defaults.data || []) as ThresholdRow[]).find((r) => r.hazard_type === hazard)
+    const override = ((overrides.data || []) as ThresholdRow[]).find((r) => r.hazard_type === hazard)
+
+    const value = (override && usableThresholds(override, `${regionId} override`)) ?? (row && usableThresholds(row, 'default'))
+    if (value) Object.assign(thresholds, { [hazard]: value })
+  }
+
+  return thresholds
+}
@@ -0,0 +1,97 @@
+// Local-time helpers for subscriber quiet hours and digest delivery. Times are 'HH:MM' or
+// 'HH:MM:SS' strings as stored in Postgres TIME columns; zones are IANA names.
+
+// Digests go out at this local time (weekly ones on Mondays)
+export const DIGEST_LOCAL_TIME = '08:00'
+const DIGEST_WEEKDAY = 1 // Monday
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function parseLocalTime(value: string): number | null {
+  const match = value.match(/^([01]\d|2[0-3]):([0-5]\d)(:[0-5]\d)?$/)
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null
+}
+
+// Wall-clock time in `timeZone` expressed as if it were UTC, so date arithmetic can use getUTC*
+function toZonedClock(date: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date)
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)!.value, 10)
+  return new Date(Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute')))
+}
+
+// Inverse of toZonedClock; the offset is taken at the target instant so DST changes are honoured
+function fromZonedClock(clock: Date, timeZone: string): Date {
+  const guess = new Date(clock.getTime() - (toZonedClock(clock, timeZone).getTime() - clock.getTime()))
+  const offset = toZonedClock(guess, timeZone).getTime() - guess.getTime()
+  return new Date(clock.getTime() - offset)
+}
+
+function minutesOfDay(clock: Date): number {
+  return clock.getUTCHours() * 60 + clock.getUTCMinutes()
+}
+
+// Quiet hours may wrap midnight (22:00-07:00); equal start and end means none
+export function isWithinQuietHours(now: Date, start: string | null, end: string | null, timeZone: string): boolean {
+  const from = start ? parseLocalTime(start) : null
+  const to = end ? parseLocalTime(end) : null
+  if (from === null || to === null || from === to) return false
+
+  const minutes = minutesOfDay(toZonedClock(now, timeZone))
+  return from < to ? minutes >= from && minutes < to : minutes >= from || minutes < to
+}
+
+// Next instant after `now` at which the local clock shows `time` (on `weekday`, 0 = Sunday, if given)
+export function nextLocalTime(now: Date, time: string, timeZone: string, weekday?: number): Date {
+  const minutes = parseLocalTime(time) ?? 0
+  const clock = toZonedClock(now, timeZone)
+  const target = new Date(clock.getTime() - minutesOfDay(clock) * MINUTE_MS + minutes * MINUTE_MS)
+
+  while (target <= clock || (weekday !== undefined && target.getUTCDay() !== weekday)) {
+    target.setTime(target.getTime() + DAY_MS)
+  }
+
+  return fromZonedClock(target, timeZone)
+}
+
+export interface DeliveryRules {
+  digest_frequency: 'immediate' | 'daily' | 'weekly'
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+  timezone: string
+}
+
+// When a notification created at `now` may be delivered: immediately (null), at the end of the
+// subscriber's quiet hours, or with the next daily / weekly digest
+export function deliveryTime(now: Date, rules: DeliveryRules): Date | null {
+  let at: Date | null = null
+  if (rules.digest_frequency === 'daily') {
+    at = nextLocalTime(now, DIGEST_LOCAL_TIME, rules.timezone)
+  } else if (rules.digest_frequency === 'weekly') {
+    at = nextLocalTime(now, DIGEST_LOCAL_TIME, rules.timezone, DIGEST_WEEKDAY)
+  }
+
+  const candidate = at ?? now
+  if (rules.quiet_hours_end && isWithinQuietHours(candidate, rules.quiet_hours_start, rules.quiet_hours_end, rules.timezone)) {
+    return nextLocalTime(candidate, rules.quiet_hours_end, rules.timezone)
+  }
+
+  return at
+}
@@ -0,0 +1,87 @@
+// Quiet hours and digest delivery times in subscriber time zones, including the Europe/Bucharest
+// DST changes (29 March and 25 October 2026). Run with npm run test:functions.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { deliveryTime, isWithinQuietHours, nextLocalTime, type DeliveryRules } from './schedule.ts'
+
+const zone = 'Europe/Bucharest'
+const at = (iso: string) => new Date(iso)
+
+function rules(overrides: Partial<DeliveryRules> = {}): DeliveryRules {
+  return {
+    digest_frequency: 'immediate',
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    timezone: zone,
+    ...overrides,
+  }
+}
+
+Deno.test('nextLocalTime finds the next local clock time, strictly after now', () => {
+  // Friday 14 August 2026, 15:00 in Bucharest (UTC+3)
+  const friday = at('2026-08-14T12:00:00Z')
+
+  assertEquals(nextLocalTime(friday, '08:00', zone), at('2026-08-15T05:00:00Z'))
+  assertEquals(nextLocalTime(friday, '18:30:00', zone), at('2026-08-14T15:30:00Z'))
+  assertEquals(nextLocalTime(at('2026-08-15T05:00:00Z'), '08:00', zone), at('2026-08-16T05:00:00Z'))
+  assertEquals(nextLocalTime(friday, '08:00', 'Europe/London'), at('2026-08-15T07:00:00Z'))
+})
+
+Deno.test('nextLocalTime moves to the requested weekday', () => {
+  const friday = at('2026-08-14T12:00:00Z')
+
+  assertEquals(nextLocalTime(friday, '08:00', zone, 1), at('2026-08-17T05:00:00Z'))
+  assertEquals(nextLocalTime(friday, '18:00', zone, 5), at('2026-08-14T15:00:00Z'))
+  assertEquals(nextLocalTime(friday, '08:00', zone, 5), at('2026-08-21T05:00:00Z'))
+})
+
+Deno.test('nextLocalTime uses the offset of the target day across DST changes', () => {
+  // Saturday afternoons before the change; Sunday 08:00 is in the other offset
+  assertEquals(nextLocalTime(at('2026-10-24T12:00:00Z'), '08:00', zone), at('2026-10-25T06:00:00Z'))
+  assertEquals(nextLocalTime(at('2026-03-28T12:00:00Z'), '08:00', zone), at('2026-03-29T05:00:00Z'))
+})
+
+Deno.test('isWithinQuietHours handles quiet hours that wrap midnight', () => {
+  const quiet = (iso: string) => isWithinQuietHours(at(iso), '22:00', '07:00', zone)
+
+  assertEquals(quiet('2026-08-14T19:00:00Z'), true) // 22:00 local
+  assertEquals(quiet('2026-08-14T23:30:00Z'), true) // 02:30 local
+  assertEquals(quiet('2026-08-15T03:59:00Z'), true) // 06:59 local
+  assertEquals(quiet('2026-08-15T04:00:00Z'), false) // 07:00 local
+  assertEquals(quiet('2026-08-14T18:59:00Z'), false) // 21:59 local
+})
+
+Deno.test('isWithinQuietHours is off without both ends or with equal ends', () => {
+  const night = at('2026-08-14T23:30:00Z')
+
+  assertEquals(isWithinQuietHours(night, null, '07:00', zone), false)
+  assertEquals(isWithinQuietHours(night, '22:00', null, zone), false)
+  assertEquals(isWithinQuietHours(night, '07:00', '07:00', zone), false)
+  assertEquals(isWithinQuietHours(at('2026-08-14T12:00:00Z'), '09:00', '17:00', zone), true)
+})
+
+Deno.test('deliveryTime sends immediately outside quiet hours and at their end inside them', () => {
+  const night = rules({ quiet_hours_start: '22:00', quiet_hours_end: '07:00' })
+
+  assertEquals(deliveryTime(at('2026-08-14T12:00:00Z'), night), null)
+  // Before and after midnight: both wait for 07:00 on the 15th
+  assertEquals(deliveryTime(at('2026-08-14T20:00:00Z'), night), at('2026-08-15T04:00:00Z'))
+  assertEquals(deliveryTime(at('2026-08-14T23:00:00Z'), night), at('2026-08-15T04:00:00Z'))
+  // Quiet hours over the October change end at 07:00 in winter time
+  assertEquals(deliveryTime(at('2026-10-24T21:00:00Z'), night), at('2026-10-25T05:00:00Z'))
+})
+
+Deno.test('deliveryTime schedules digests and holds them past quiet hours', () => {
+  const friday = at('2026-08-14T12:00:00Z')
+
+  assertEquals(deliveryTime(friday, rules({ digest_frequency: 'daily' })), at('2026-08-15T05:00:00Z'))
+  assertEquals(deliveryTime(friday, rules({ digest_frequency: 'weekly' })), at('2026-08-17T05:00:00Z'))
+  assertEquals(
+    deliveryTime(friday, rules({ digest_frequency: 'daily', quiet_hours_start: '06:00', quiet_hours_end: '09:00' })),
+    at('2026-08-15T06:00:00Z')
+  )
+  assertEquals(
+    deliveryTime(friday, rules({ digest_frequency: 'daily', quiet_hours_start: '22:00', quiet_hours_end: '07:00' })),
+    at('2026-08-15T05:00:00Z')
+  )
+})
@@ -0,0 +1,206 @@
+import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { assessRisk, type RiskAssessment } from './risk-scoring.ts'
+
+// The parts of HazardIndicators / GEEAnalysis that are stored as columns; the full
+// objects are kept as JSON alongside them
+interface SnapshotIndicators {
+  floodRisk: string
+  vegetationHealth: string
+  fireRisk: string
+  fireData: {
+    activeHotspots: number
+    highConfidenceCount: number
+    maxBrightness: number
+    totalFRP: number
+  }
+}
+
+interface SnapshotGEEMetrics {
+  ndviMean: number | null
+  ndviMin: number | null
+  ndviMax: number | null
+  floodPercentage: number | null
+  waterPercentage: number | null
+  dataDate: string | null
+}
+
+export interface SnapshotInput {
+  regionId: string
+  daysBack: number
+  indicators: SnapshotIndicators
+  geeAnalysis: SnapshotGEEMetrics | null
+  fireHotspots: { acq_date: string; frp: number }[] | null // null when FIRMS failed
+  fireDaysBack: number
+  responseHotspots: unknown[] // the hotspot list the analyze action returned
+}
+
+export interface FireDay {
+  date: string // YYYY-MM-DD (UTC, FIRMS acquisition date)
+  count: number
+  frp: number
+}
+
+// Row of public.analysis_snapshots
+export interface SnapshotRecord {
+  id: string
+  region_id: string
+  analyzed_at: string
+  days_back: number
+  data_date: string | null
+  ndvi_mean: number | null
+  ndvi_min: number | null
+  ndvi_max: number | null
+  flood_percentage: number | null
+  water_percentage: number | null
+  hotspot_count: number
+  high_confidence_count: number
+  total_frp: number
+  max_brightness: number
+  flood_risk: string
+  vegetation_health: string
+  fire_risk: string
+  indicators: unknown
+  gee_analysis: unknown
+  fire_daily: FireDay[] | null
+  fire_hotspots: unknown[]
+}
+
+// Upper bound on rows returned by one history query (~4 runs a day for a year)
+export const MAX_HISTORY_ROWS = 1500
+
+// One entry per day of the FIRMS window (today and the fireDaysBack - 1 days before it),
+// including days without detections
+export function summarizeFireDays(
+  hotspots: { acq_date: string; frp: number }[],
+  fireDaysBack: number,
+  now = new Date()
+): FireDay[] {
+  const days = new Map<string, FireDay>()
+  for (let i = fireDaysBack - 1; i >= 0; i--) {
+    const date = new Date(now.getTime() - i * 86400000).toISOString().slice(0, 10)
+    days.set(date, { date, count: 0, frp: 0 })
+  }
+
+  for (const hotspot of hotspots) {
+    const day = days.get(hotspot.acq_date)
+    if (!day) continue
+    day.count++
+    day.frp = Math.round((day.frp + (hotspot.frp || 0)) * 10) / 10
+  }
+
+  return [...days.values()]
+}
+
+export async function saveSnapshot(supabase: SupabaseClient, input: SnapshotInput): Promise<SnapshotRecord> {
+  const { indicators, geeAnalysis } = input
+  const { data, error } = await supabase
+    .from('analysis_snapshots')
+    .insert({
+      region_id: input.regionId,
+      days_back: input.daysBack,
+      data_date: geeAnalysis?.dataDate ?? null,
+      ndvi_mean: geeAnalysis?.ndviMean ?? null,
+      ndvi_min: geeAnalysis?.ndviMin ?? null,
+      ndvi_max: geeAnalysis?.ndviMax ?? null,
+      flood_percentage: geeAnalysis?.floodPercentage ?? null,
+      water_percentage: geeAnalysis?.waterPercentage ?? null,
+      hotspot_count: indicators.fireData.activeHotspots,
+      high_confidence_count: indicators.fireData.highConfidenceCount,
+      total_frp: indicators.fireData.totalFRP,
+      max_brightness: indicators.fireData.maxBrightness,
+      flood_risk: indicators.floodRisk,
+      vegetation_health: indicators.vegetationHealth,
+      fire_risk: indicators.fireRisk,
+      indicators,
+      gee_analysis: geeAnalysis,
+      fire_daily: input.fireHotspots ? summarizeFireDays(input.fireHotspots, input.fireDaysBack) : null,
+      fire_hotspots: input.responseHotspots,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save snapshot for ${input.regionId}: ${error.message}`)
+  }
+
+  return data as SnapshotRecord
+}
+
+function isMeasured(snapshot: SnapshotRecord, metric: 'ndvi' | 'flood'): boolean {
+  const analysis = snapshot.gee_analysis as { provenance?: Record<string, { status: string }> } | null
+  return analysis?.provenance?.[metric]?.status === 'measured'
+}
+
+// The risk assessment stored with the snapshot. Snapshots from before it was recorded are
+// scored from their columns with the default thresholds.
+export function snapshotRisk(snapshot: SnapshotRecord): RiskAssessment {
+  const stored = (snapshot.indicators as { risk?: RiskAssessment } | null)?.risk
+  if (stored) return stored
+
+  return assessRisk({
+    flood: snapshot.flood_percentage !== null
+      ? { percentage: snapshot.flood_percentage, measured: isMeasured(snapshot, 'flood') }
+      : null,
+    vegetation: snapshot.ndvi_mean !== null
+      ? { ndviMean: snapshot.ndvi_mean, measured: isMeasured(snapshot, 'ndvi') }
+      : null,
+    // fire_daily is null when the FIRMS request failed
+    fire: snapshot.fire_daily !== null
+      ? {
+        activeHotspots: snapshot.hotspot_count,
+        highConfidenceCount: snapshot.high_confidence_count,
+        totalFRP: snapshot.total_frp,
+      }
+      : null,
+  })
+}
+
+// Snapshots of one region analyzed within [from, to], oldest first
+export async function getSnapshotHistory(
+  supabase: SupabaseClient,
+  regionId: string,
+  from: Date,
+  to: Date
+): Promise<SnapshotRecord[]> {
+  const { data, error } = await supabase
+    .from('analysis_snapshots')
+    .select('*')
+    .eq('region_id', regionId)
+    .gte('analyzed_at', from.toISOString())
+    .lte('analyzed_at', to.toISOString())
+    .order('analyzed_at', { ascending: true })
+    .limit(MAX_HISTORY_ROWS)
+
+  if (error) {
+    throw new Error(`Failed to load history for ${regionId}: ${error.message}`)
+  }
+
+  return (data || []) as SnapshotRecord[]
+}
+
+// Shape returned to clients by the history action
+export function toSnapshotResponse(snapshot: SnapshotRecord) {
+  return {
+    id: snapshot.id,
+    regionId: snapshot.region_id,
+    analyzedAt: snapshot.analyzed_at,
+    daysBack: snapshot.days_back,
+    dataDate: snapshot.data_date,
+    ndviMean: snapshot.ndvi_mean,
+    ndviMin: snapshot.ndvi_min,
+    ndviMax: snapshot.ndvi_max,
+    floodPercentage: snapshot.flood_percentage,
+    waterPercentage: snapshot.water_percentage,
+    hotspotCount: snapshot.hotspot_count,
+    highConfidenceCount: snapshot.high_confidence_count,
+    totalFRP: snapshot.total_frp,
+    maxBrightness: snapshot.max_brightness,
+    floodRisk: snapshot.flood_risk,
+    vegetationHealth: snapshot.vegetation_health,
+    fireRisk: snapshot.fire_risk,
+    indicators: snapshot.indicators,
+    geeAnalysis: snapshot.gee_analysis,
+    fireDaily: snapshot.fire_daily,
+    fireHotspots: snapshot.fire_hotspots,
+  }
+}
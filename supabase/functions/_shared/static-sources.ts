@@ -0,0 +1,194 @@
+import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { distanceKm, pixelKm, type FireHotspot } from './firms.ts'
+import { pointInGeometry, type GeoJSONGeometry } from './geometry.ts'
+
+// Static thermal sources: steelworks, refinery flares and other sites that FIRMS detects day
+// after day. Their detections are industrial heat, not fires, so they are masked out of fire
+// risk scoring and fire events but still listed. Sources come from public.static_thermal_sources:
+// entries added by admins, and locations that fired on most days of a stored analysis's FIRMS
+// window, which are stored there as 'auto' candidates. A candidate masks nothing until an admin
+// confirms it on /admin/static-sources, and an auto source that is not seen again expires.
+
+// Windows shorter than this cannot tell a static source from a fire burning for a few days
+const STATIC_MIN_WINDOW_DAYS = 4
+// Share of the window's days a location must fire on to count as static
+const STATIC_DAY_FRACTION = 0.6
+// Detections of a static source stay this close to its centre, geolocation jitter included;
+// even a slow fire front moves further over the days needed
+const STATIC_MAX_SPREAD_KM = 0.75
+// Auto sources not seen static for this long stop masking until an analysis sees them again,
+// so a site that closed or was wrongly confirmed cannot hide fires for good
+export const STATIC_SOURCE_EXPIRY_DAYS = 60
+
+const SOURCE_COLUMNS = 'id, name, geometry, radius_km, origin, active, confirmed_at, last_seen_at'
+
+export interface StaticThermalSource {
+  id: string
+  name: string
+  // Point sources mask detections within radius_km, polygons the detections inside
+  geometry: { type: 'Point'; coordinates: number[] } | GeoJSONGeometry
+  radius_km: number
+  origin: 'manual' | 'auto'
+  active: boolean
+  confirmed_at: string | null // null for auto sources awaiting review
+  last_seen_at: string | null // last stored analysis that found an auto source static
+}
+
+export type DetectedStaticSource = Pick<StaticThermalSource, 'name' | 'geometry' | 'radius_km' | 'origin'>
+
+export interface StaticSourceMask {
+  fires: FireHotspot[]
+  industrial: FireHotspot[] // category 'industrial', with the name of the source
+}
+
+function sourceContains(source: StaticThermalSource, hotspot: { latitude: number; longitude: number }): boolean {
+  if (source.geometry.type === 'Point') {
+    const [longitude, latitude] = source.geometry.coordinates
+    return distanceKm({ latitude, longitude }, hotspot) <= source.radius_km
+  }
+  return pointInGeometry(hotspot.longitude, hotspot.latitude, source.geometry)
+}
+
+// Whether a source's detections are industrial: active, confirmed and, for auto sources, seen
+// within STATIC_SOURCE_EXPIRY_DAYS
+export function masksDetections(source: StaticThermalSource, now = new Date()): boolean {
+  if (!source.active || !source.confirmed_at) return false
+  if (source.origin === 'manual') return true
+  const expiry = now.getTime() - STATIC_SOURCE_EXPIRY_DAYS * 86400000
+  return !!source.last_seen_at && Date.parse(source.last_seen_at) >= expiry
+}
+
+// Locations in the hotspots that fired on most days of a daysBack-day window, as point sources
+// covering their detections
+export function detectStaticSources(
+  hotspots: FireHotspot[],
+  daysBack: number
+): DetectedStaticSource[] {
+  if (daysBack < STATIC_MIN_WINDOW_DAYS) return []
+  const minDays = Math.ceil(daysBack * STATIC_DAY_FRACTION)
+
+  // Union-find over detections within a pixel of each other, on any day
+  const parent = hotspots.map((_, i) => i)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+  for (let i = 0; i < hotspots.length; i++) {
+    for (let j = i + 1; j < hotspots.length; j++) {
+      if (distanceKm(hotspots[i], hotspots[j]) <= Math.max(pixelKm(hotspots[i]), pixelKm(hotspots[j]))) {
+        parent[find(i)] = find(j)
+      }
+    }
+  }
+
+  const groups = new Map<number, FireHotspot[]>()
+  hotspots.forEach((hotspot, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) ?? []), hotspot])
+  })
+
+  const detected: DetectedStaticSource[] = []
+  for (const group of groups.values()) {
+    if (new Set(group.map((h) => h.acq_date)).size < minDays) continue
+
+    const centre = {
+      latitude: group.reduce((sum, h) => sum + h.latitude, 0) / group.length,
+      longitude: group.reduce((sum, h) => sum + h.longitude, 0) / group.length,
+    }
+    const spread = Math.max(...group.map((h) => distanceKm(centre, h)))
+    if (spread > STATIC_MAX_SPREAD_KM) continue
+
+    const latitude = Math.round(centre.latitude * 1e4) / 1e4
+    const longitude = Math.round(centre.longitude * 1e4) / 1e4
+    detected.push({
+      name: `Static thermal anomaly ${latitude.toFixed(4)}, ${longitude.toFixed(4)}`,
+      geometry: { type: 'Point', coordinates: [longitude, latitude] },
+      radius_km: Math.max(1, Math.ceil((spread + Math.max(...group.map(pixelKm))) * 10) / 10),
+      origin: 'auto',
+    })
+  }
+  return detected
+}
+
+// Record what a FIRMS pull says about static sources: new static locations become candidates
+// for review and known auto sources found static again get a fresh last_seen_at. Locations inside
+// an inactive source are not stored again; an admin switched it off because it is not static.
+// Returns the sources with the refreshed last_seen_at.
+async function recordStaticSources(
+  supabase: SupabaseClient,
+  sources: StaticThermalSource[],
+  hotspots: FireHotspot[],
+  daysBack: number,
+  now: Date
+): Promise<StaticThermalSource[]> {
+  const seen = new Set<string>()
+  const candidates: DetectedStaticSource[] = []
+  for (const detected of detectStaticSources(hotspots, daysBack)) {
+    const [longitude, latitude] = detected.geometry.coordinates as number[]
+    const covering = sources.filter((source) => sourceContains(source, { latitude, longitude }))
+    if (covering.length === 0) candidates.push(detected)
+    covering.filter((source) => source.origin === 'auto').forEach((source) => seen.add(source.id))
+  }
+
+  if (seen.size > 0) {
+    const { error } = await supabase
+      .from('static_thermal_sources')
+      .update({ last_seen_at: now.toISOString() })
+      .in('id', [...seen])
+    if (error) {
+      console.error(`[static-sources] Failed to refresh static thermal sources: ${error.message}`)
+    } else {
+      sources = sources.map((source) => (seen.has(source.id) ? { ...source, last_seen_at: now.toISOString() } : source))
+    }
+  }
+
+  if (candidates.length > 0) {
+    const { error } = await supabase
+      .from('static_thermal_sources')
+      .insert(candidates.map((source) => ({ ...source, confirmed_at: null, last_seen_at: now.toISOString() })))
+    if (error) {
+      console.error(`[static-sources] Failed to store static thermal sources: ${error.message}`)
+    } else {
+      console.log(`[static-sources] ${candidates.length} new static thermal sources awaiting review`)
+    }
+  }
+  return sources
+}
+
+// Split a FIRMS pull into fires and industrial detections. Runs that are stored (record) also
+// record static locations for review; others only read the table, so anonymous callers cannot
+// add sources. A failure to load or store sources is logged and masks with what is known, so it
+// never fails the fire data.
+export async function maskStaticSources(
+  supabase: SupabaseClient,
+  hotspots: FireHotspot[],
+  daysBack: number,
+  record: boolean,
+  now = new Date()
+): Promise<StaticSourceMask> {
+  let sources: StaticThermalSource[] = []
+  const { data, error } = await supabase.from('static_thermal_sources').select(SOURCE_COLUMNS)
+
+  if (error) {
+    console.error(`[static-sources] Failed to load static thermal sources: ${error.message}`)
+  } else {
+    sources = data as StaticThermalSource[]
+  }
+
+  if (record && !error) {
+    sources = await recordStaticSources(supabase, sources, hotspots, daysBack, now)
+  }
+
+  const masking = sources.filter((source) => masksDetections(source, now))
+  const mask: StaticSourceMask = { fires: [], industrial: [] }
+  for (const hotspot of hotspots) {
+    const source = masking.find((s) => sourceContains(s, hotspot))
+    if (source) {
+      mask.industrial.push({ ...hotspot, category: 'industrial', staticSource: source.name })
+    } else {
+      mask.fires.push(hotspot)
+    }
+  }
+
+  if (mask.industrial.length > 0) {
+    console.log(`[static-sources] ${mask.industrial.length} of ${hotspots.length} hotspots masked as industrial`)
+  }
+  return mask
+}
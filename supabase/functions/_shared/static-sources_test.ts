@@ -0,0 +1,116 @@
+// maskStaticSources against an in-memory static_thermal_sources table: review of detected
+// sources, expiry and who may record them. Run with npm run test:functions.
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { type FireHotspot } from './firms.ts'
+import { maskStaticSources } from './static-sources.ts'
+import { FakeSupabase } from './testing/fake-supabase.ts'
+
+const now = new Date('2026-08-14T12:00:00Z')
+
+function hotspot(day: number, latitude = 45.6512, longitude = 25.6021): FireHotspot {
+  return {
+    latitude,
+    longitude,
+    brightness: 338.2,
+    confidence: 'h',
+    acq_date: `2026-08-${String(day).padStart(2, '0')}`,
+    acq_time: '1042',
+    satellite: 'VIIRS S-NPP',
+    frp: 12.4,
+    sources: ['VIIRS_SNPP_NRT'],
+  }
+}
+
+// The same spot on 8 of the 10 days before now, and a fire elsewhere on one day
+const site = [4, 5, 6, 7, 9, 10, 12, 13].map((day) => hotspot(day))
+const fire = hotspot(13, 45.9, 25.9)
+
+function source(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'source-1',
+    name: 'Static thermal anomaly 45.6512, 25.6021',
+    geometry: { type: 'Point', coordinates: [25.6021, 45.6512] },
+    radius_km: 1,
+    origin: 'auto',
+    active: true,
+    confirmed_at: '2026-07-01T08:00:00Z',
+    last_seen_at: '2026-08-01T12:00:00Z',
+    ...overrides,
+  }
+}
+
+const database = (sources: Record<string, unknown>[] = []) =>
+  new FakeSupabase({ tables: { static_thermal_sources: sources } })
+
+Deno.test('stores a detected site as a candidate that masks nothing', async () => {
+  const db = database()
+
+  const mask = await maskStaticSources(db.client, [...site, fire], 10, true, now)
+
+  assertEquals(mask.industrial, [])
+  assertEquals(mask.fires.length, 9)
+  assertEquals(db.tables.static_thermal_sources.length, 1)
+  const [candidate] = db.tables.static_thermal_sources
+  assertEquals(candidate.origin, 'auto')
+  assertEquals(candidate.confirmed_at, null)
+  assertEquals(candidate.last_seen_at, '2026-08-14T12:00:00.000Z')
+})
+
+Deno.test('records nothing for runs that are not stored or windows too short', async () => {
+  const db = database()
+
+  await maskStaticSources(db.client, site, 10, false, now)
+  await maskStaticSources(db.client, site.slice(-3), 3, true, now)
+
+  assertEquals(db.tables.static_thermal_sources, [])
+})
+
+Deno.test('masks the detections of confirmed sources only', async () => {
+  const confirmed = await maskStaticSources(database([source()]).client, [...site, fire], 3, false, now)
+  assertEquals(confirmed.industrial.length, 8)
+  assertEquals(confirmed.industrial[0].category, 'industrial')
+  assertEquals(confirmed.industrial[0].staticSource, 'Static thermal anomaly 45.6512, 25.6021')
+  assertEquals(confirmed.fires, [fire])
+
+  const candidate = await maskStaticSources(database([source({ confirmed_at: null })]).client, site, 3, false, now)
+  const off = await maskStaticSources(database([source({ active: false })]).client, site, 3, false, now)
+  assertEquals([candidate.industrial.length, off.industrial.length], [0, 0])
+})
+
+Deno.test('stops masking an auto source that was not seen for the expiry period', async () => {
+  const stale = { last_seen_at: '2026-05-01T12:00:00Z' }
+
+  const auto = await maskStaticSources(database([source(stale)]).client, site, 3, false, now)
+  const manual = await maskStaticSources(database([source({ ...stale, origin: 'manual' })]).client, site, 3, false, now)
+
+  assertEquals(auto.industrial.length, 0)
+  assertEquals(manual.industrial.length, 8)
+})
+
+Deno.test('refreshes a known source seen again instead of storing a new one', async () => {
+  const db = database([source({ last_seen_at: '2026-05-01T12:00:00Z' })])
+
+  const mask = await maskStaticSources(db.client, site, 10, true, now)
+
+  assertEquals(db.tables.static_thermal_sources.length, 1)
+  assertEquals(db.tables.static_thermal_sources[0].last_seen_at, '2026-08-14T12:00:00.000Z')
+  assertEquals(mask.industrial.length, 8)
+})
+
+Deno.test('does not propose a location inside a source an admin switched off', async () => {
+  const db = database([source({ origin: 'manual', active: false })])
+
+  await maskStaticSources(db.client, site, 10, true, now)
+
+  assertEquals(db.tables.static_thermal_sources.length, 1)
+})
+
+Deno.test('masks with what is known when the table cannot be read', async () => {
+  const db = new FakeSupabase({ failures: { 'static_thermal_sources:select': 'permission denied' } })
+
+  const mask = await maskStaticSources(db.client, site, 10, true, now)
+
+  assertEquals(mask.fires.length, 8)
+  assertEquals(db.calls.filter((call) => call.operation !== 'select'), [])
+})
@@ -0,0 +1,212 @@
+import { type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// In-memory stand-in for the parts of supabase-js the shared modules use, for Deno tests.
+// Filters on plain columns are applied; filters on embedded relations ("table.column") and
+// column lists are ignored, so seed rows with any embedded objects a query selects.
+
+type Row = Record<string, unknown>
+type Result = { data: unknown; error: { message: string } | null }
+
+export interface FakeSupabaseOptions {
+  tables?: Record<string, Row[]>
+  // Conflict columns of upsert per table; 'id' when not listed
+  keys?: Record<string, string[]>
+  // Make every call of an operation on a table fail, e.g. { 'fire_events:insert': 'boom' }
+  failures?: Record<string, string>
+  rpc?: Record<string, (args: Record<string, unknown>) => unknown>
+}
+
+export class FakeSupabase {
+  readonly tables: Record<string, Row[]>
+  readonly calls: { table: string; operation: string; payload?: unknown }[] = []
+  private nextId = 1
+
+  constructor(private readonly options: FakeSupabaseOptions = {}) {
+    this.tables = structuredClone(options.tables ?? {})
+  }
+
+  from(table: string): FakeQuery {
+    this.tables[table] ??= []
+    return new FakeQuery(this, table)
+  }
+
+  rpc(name: string, args: Record<string, unknown> = {}): Promise<Result> {
+    this.calls.push({ table: name, operation: 'rpc', payload: args })
+    const failure = this.options.failures?.[`${name}:rpc`]
+    if (failure) return Promise.resolve({ data: null, error: { message: failure } })
+    const handler = this.options.rpc?.[name]
+    if (!handler) return Promise.resolve({ data: null, error: { message: `Unknown function ${name}` } })
+    try {
+      return Promise.resolve({ data: handler(args), error: null })
+    } catch (error) {
+      return Promise.resolve({ data: null, error: { message: (error as Error).message } })
+    }
+  }
+
+  get client(): SupabaseClient {
+    return this as unknown as SupabaseClient
+  }
+
+  failure(table: string, operation: string): string | undefined {
+    return this.options.failures?.[`${table}:${operation}`]
+  }
+
+  keyOf(table: string): string[] {
+    return this.options.keys?.[table] ?? ['id']
+  }
+
+  newId(): number {
+    return this.nextId++
+  }
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private filters: ((row: Row) => boolean)[] = []
+  private operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select'
+  private payload: Row[] | Row | null = null
+  private returning = false
+  private one: 'single' | 'maybe' | null = null
+  private orderBy: { column: string; ascending: boolean } | null = null
+  private max: number | null = null
+
+  constructor(private readonly db: FakeSupabase, private readonly table: string) {}
+
+  select(_columns?: string) {
+    if (this.operation !== 'select') this.returning = true
+    return this
+  }
+
+  insert(rows: Row[] | Row) {
+    this.operation = 'insert'
+    this.payload = rows
+    return this
+  }
+
+  upsert(rows: Row[] | Row) {
+    this.operation = 'upsert'
+    this.payload = rows
+    return this
+  }
+
+  update(values: Row) {
+    this.operation = 'update'
+    this.payload = values
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  private where(column: string, test: (value: unknown) => boolean) {
+    if (!column.includes('.')) this.filters.push((row) => test(row[column]))
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(column, (v) => v === value)
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where(column, (v) => v !== value)
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where(column, (v) => values.includes(v))
+  }
+
+  is(column: string, value: unknown) {
+    return this.where(column, (v) => (v ?? null) === value)
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    if (operator !== 'is') throw new Error(`FakeSupabase: not(${operator}) is not supported`)
+    return this.where(column, (v) => (v ?? null) !== value)
+  }
+
+  lt(column: string, value: string | number) {
+    return this.where(column, (v) => (v as string | number) < value)
+  }
+
+  lte(column: string, value: string | number) {
+    return this.where(column, (v) => (v as string | number) <= value)
+  }
+
+  gte(column: string, value: string | number) {
+    return this.where(column, (v) => (v as string | number) >= value)
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderBy = { column, ascending: options.ascending ?? true }
+    return this
+  }
+
+  limit(count: number) {
+    this.max = count
+    return this
+  }
+
+  maybeSingle() {
+    this.one = 'maybe'
+    return this
+  }
+
+  single() {
+    this.one = 'single'
+    return this
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve(this.run()).then(onfulfilled, onrejected)
+  }
+
+  private run(): Result {
+    this.db.calls.push({ table: this.table, operation: this.operation, payload: this.payload ?? undefined })
+    const failure = this.db.failure(this.table, this.operation)
+    if (failure) return { data: null, error: { message: failure } }
+
+    const rows = this.db.tables[this.table]
+    const matches = (row: Row) => this.filters.every((filter) => filter(row))
+    let result: Row[]
+
+    if (this.operation === 'insert' || this.operation === 'upsert') {
+      const key = this.db.keyOf(this.table)
+      result = (Array.isArray(this.payload) ? this.payload : [this.payload as Row]).map((input) => {
+        const existing = this.operation === 'upsert'
+          ? rows.find((row) => key.every((column) => row[column] === input[column]))
+          : undefined
+        if (existing) return Object.assign(existing, structuredClone(input))
+        const row = { ...(key.length === 1 ? { [key[0]]: this.db.newId() } : {}), ...structuredClone(input) }
+        rows.push(row)
+        return row
+      })
+    } else if (this.operation === 'update') {
+      result = rows.filter(matches).map((row) => Object.assign(row, structuredClone(this.payload as Row)))
+    } else if (this.operation === 'delete') {
+      result = rows.filter(matches)
+      this.db.tables[this.table] = rows.filter((row) => !matches(row))
+    } else {
+      result = rows.filter(matches)
+    }
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy
+      result = [...result].sort((a, b) => {
+        const order = (a[column] as string) < (b[column] as string) ? -1 : (a[column] as string) > (b[column] as string) ? 1 : 0
+        return ascending ? order : -order
+      })
+    }
+    if (this.max !== null) result = result.slice(0, this.max)
+
+    const data = this.operation === 'select' || this.returning ? structuredClone(result) : null
+    if (this.one === 'single' && result.length !== 1) {
+      return { data: null, error: { message: `Expected one row, got ${result.length}` } }
+    }
+    if (this.one) return { data: (data as Row[] | null)?.[0] ?? null, error: null }
+    return { data, error: null }
+  }
+}
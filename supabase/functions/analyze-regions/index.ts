@@ -0,0 +1,143 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { listRegions, type RegionKind } from '../_shared/regions.ts'
+import { dispatchRegionAlerts, type DispatchResult } from '../_shared/alert-dispatch.ts'
+import { publicSiteUrl } from '../_shared/alert-email.ts'
+import { createMailTransport } from '../_shared/mail.ts'
+
+// Scheduled job: analyzes a batch of the regions of a set that are due, through the
+// satellite-data `analyze` action, which stores each result in analysis_snapshots, then emails
+// subscribers of those regions whose risk crossed an alert threshold. Triggered by pg_cron
+// every few minutes (see the invoke_analyze_regions migrations) with the shared
+// ANALYSIS_CRON_SECRET; each run stays well inside the edge function time limit, and the
+// regions rotate through the batches by the age of their latest snapshot.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+// Same parameters the Dashboard uses for its default view
+const ANALYSIS_MAX_CLOUD_COVER = 50
+const ANALYSIS_DAYS_BACK = 14
+// satellite-data calls in flight at once; each one fans out to GEE and FIRMS
+const ANALYSIS_CONCURRENCY = 4
+// Regions analyzed per invocation: one round of ANALYSIS_CONCURRENCY calls
+const ANALYSIS_BATCH_SIZE = 4
+// How often a region of each set is analyzed. A region is due a little early so one analyzed
+// just after a cron tick is not pushed back by a whole interval.
+const ANALYSIS_INTERVAL_HOURS: Record<RegionKind, number> = { area: 3, county: 6 }
+const ANALYSIS_DUE_MARGIN_MINUTES = 15
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const cronSecret = Deno.env.get('ANALYSIS_CRON_SECRET')
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      console.log('[analyze-regions] Rejected request without a valid cron secret')
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const body = await req.json().catch(() => ({}))
+    const kind: RegionKind | undefined = body.kind
+    if (kind && kind !== 'area' && kind !== 'county') {
+      return jsonResponse({ error: "kind must be 'area' or 'county'" }, 400)
+    }
+
+    const regions = await listRegions(supabase, kind)
+    const { data: latest, error: latestError } = await supabase
+      .from('latest_analysis_snapshots')
+      .select('region_id, analyzed_at')
+      .in('region_id', regions.map((r) => r.id))
+
+    if (latestError) {
+      throw new Error(`Failed to load latest snapshots: ${latestError.message}`)
+    }
+
+    // Never analyzed first, then the oldest snapshot first
+    const lastAnalyzed = new Map((latest ?? []).map((row) => [row.region_id as string, Date.parse(row.analyzed_at)]))
+    const startedAt = Date.now()
+    const due = regions
+      .filter((region) => {
+        const last = lastAnalyzed.get(region.id)
+        const interval = ANALYSIS_INTERVAL_HOURS[region.kind] * 3600000 - ANALYSIS_DUE_MARGIN_MINUTES * 60000
+        return last === undefined || startedAt - last >= interval
+      })
+      .sort((a, b) => (lastAnalyzed.get(a.id) ?? 0) - (lastAnalyzed.get(b.id) ?? 0))
+    const batch = due.slice(0, ANALYSIS_BATCH_SIZE)
+    const failed: string[] = []
+
+    console.log(`[analyze-regions] ${due.length} of ${regions.length} ${kind ?? 'all'} regions due, analyzing ${batch.length}`)
+
+    let next = 0
+    const worker = async () => {
+      while (next < batch.length) {
+        const region = batch[next++]
+        const { error } = await supabase.functions.invoke('satellite-data', {
+          // The cron secret lets satellite-data store the run
+          headers: { 'x-cron-secret': cronSecret },
+          body: {
+            action: 'analyze',
+            regionId: region.id,
+            maxCloudCover: ANALYSIS_MAX_CLOUD_COVER,
+            daysBack: ANALYSIS_DAYS_BACK,
+          },
+        })
+
+        if (error) {
+          console.error(`[analyze-regions] Failed to analyze ${region.id}:`, error)
+          failed.push(region.id)
+        }
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(ANALYSIS_CONCURRENCY, batch.length) }, worker))
+
+    // A failed dispatch must not fail the run - the snapshots are already stored and the
+    // crossing is picked up again on the next run
+    let alerts: DispatchResult | null = null
+    try {
+      alerts = await dispatchRegionAlerts(
+        supabase,
+        createMailTransport(),
+        batch.map((r) => r.id).filter((id) => !failed.includes(id)),
+        {
+          siteUrl: publicSiteUrl(),
+          functionsUrl: `${supabaseUrl}/functions/v1`,
+        }
+      )
+    } catch (dispatchError) {
+      console.error('[analyze-regions] Alert dispatch error:', dispatchError)
+    }
+
+    const durationMs = Date.now() - startedAt
+    console.log(`[analyze-regions] Done in ${durationMs} ms, ${failed.length} failed`)
+
+    return jsonResponse({
+      kind: kind ?? 'all',
+      analyzed: batch.length - failed.length,
+      failed,
+      remaining: due.length - batch.length, // due regions left for the next runs
+      alerts,
+      durationMs,
+    })
+
+  } catch (error) {
+    console.error('[analyze-regions] Error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
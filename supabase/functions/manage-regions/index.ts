@@ -0,0 +1,122 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { geometryBBox, validateGeometry, zoomForBBox, type GeoJSONGeometry } from '../_shared/geometry.ts'
+import { REGION_COLUMNS, toRegionResponse, type RegionRecord } from '../_shared/regions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const REGION_ID_PATTERN = /^[a-z0-9_]{2,48}$/
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Only admins may change the region registry
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user } } = jwt ? await supabase.auth.getUser(jwt) : { data: { user: null } }
+    if (!user) {
+      return jsonResponse({ error: 'Authentication required' }, 401)
+    }
+
+    const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' })
+    if (!isAdmin) {
+      console.log(`[manage-regions] User ${user.id} is not an admin`)
+      return jsonResponse({ error: 'Admin role required' }, 403)
+    }
+
+    const { action, id, name, display_name, geometry } = await req.json()
+
+    console.log(`[manage-regions] Action: ${action}, Region: ${id}`)
+
+    if (action === 'create') {
+      if (!id || !REGION_ID_PATTERN.test(id)) {
+        return jsonResponse({ error: 'Region ID must be 2-48 lowercase letters, digits or underscores' }, 400)
+      }
+
+      if (!name?.trim() || !display_name?.trim()) {
+        return jsonResponse({ error: 'Name and display name are required' }, 400)
+      }
+
+      const geometryError = validateGeometry(geometry)
+      if (geometryError) {
+        return jsonResponse({ error: geometryError }, 400)
+      }
+
+      const bbox = geometryBBox(geometry as GeoJSONGeometry)
+      const { data: region, error: insertError } = await supabase
+        .from('regions')
+        .insert({
+          id,
+          name: name.trim(),
+          display_name: display_name.trim(),
+          bbox,
+          center: [(bbox[1] + bbox[3]) / 2, (bbox[0] + bbox[2]) / 2],
+          zoom: zoomForBBox(bbox),
+          geometry,
+          source: 'custom',
+          created_by: user.id,
+        })
+        .select(REGION_COLUMNS)
+        .single()
+
+      if (insertError) {
+        console.error('[manage-regions] Insert error:', insertError)
+        if (insertError.code === '23505') {
+          return jsonResponse({ error: 'A region with this ID already exists' }, 409)
+        }
+        return jsonResponse({ error: 'Failed to create region' }, 500)
+      }
+
+      console.log('[manage-regions] Region created successfully')
+      return jsonResponse({ region: toRegionResponse(region as RegionRecord) }, 201)
+    }
+
+    if (action === 'delete') {
+      if (!id) {
+        return jsonResponse({ error: 'Region ID is required' }, 400)
+      }
+
+      const { data: deleted, error: deleteError } = await supabase
+        .from('regions')
+        .delete()
+        .eq('id', id)
+        .eq('source', 'custom')
+        .select('id')
+
+      if (deleteError) {
+        console.error('[manage-regions] Delete error:', deleteError)
+        return jsonResponse({ error: 'Failed to delete region' }, 500)
+      }
+
+      if (!deleted || deleted.length === 0) {
+        return jsonResponse({ error: 'Custom region not found' }, 404)
+      }
+
+      console.log('[manage-regions] Region deleted successfully')
+      return jsonResponse({ message: 'Region deleted' })
+    }
+
+    return jsonResponse({ error: 'Invalid action' }, 400)
+
+  } catch (error) {
+    console.error('[manage-regions] Error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
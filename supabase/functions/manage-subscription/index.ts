@@ -1,10 +1,192 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getRegion } from '../_shared/regions.ts'
+import {
+  ALERT_SEVERITIES,
+  DEFAULT_SUBSCRIBED_HAZARDS,
+  DIGEST_FREQUENCIES,
+  HAZARD_LABELS,
+  HAZARD_TYPES,
+  type AlertSeverity,
+  type DigestFrequency,
+  type HazardType,
+} from '../_shared/alert-dispatch.ts'
+import { publicSiteUrl, renderConfirmationEmail } from '../_shared/alert-email.ts'
+import { isValidTimeZone, parseLocalTime } from '../_shared/schedule.ts'
+import { createMailTransport } from '../_shared/mail.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// New subscriptions stay pending until confirmed; unconfirmed rows are purged by pg_cron
+// once this many hours have passed (SUBSCRIPTION_CONFIRMATION_TTL_HOURS, default 48)
+function confirmationTtlHours(): number {
+  const hours = parseFloat(Deno.env.get('SUBSCRIPTION_CONFIRMATION_TTL_HOURS') || '')
+  return Number.isFinite(hours) && hours > 0 ? hours : 48
+}
+
+// Minimum gap between two confirmation emails to the same address, whatever the region
+const CONFIRMATION_RESEND_INTERVAL_MS = 10 * 60 * 1000
+
+// Upper bound on regions one address can follow
+const MAX_REGIONS_PER_SUBSCRIBER = 50
+
+// Used when a subscriber has never picked a timezone; matches the column default
+const DEFAULT_TIMEZONE = 'Europe/Bucharest'
+
+const SUBSCRIPTION_COLUMNS = 'id, region_id, hazard_types, is_active, min_severity, digest_frequency, flood_threshold, hotspot_threshold, quiet_hours_start, quiet_hours_end, timezone, created_at, confirmed_at, unsubscribe_token'
+
+interface SubscriptionRow {
+  id: string
+  region_id: string
+  hazard_types: string[] | null
+  is_active: boolean | null
+  min_severity: AlertSeverity
+  digest_frequency: DigestFrequency
+  flood_threshold: number | null
+  hotspot_threshold: number | null
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+  timezone: string
+  created_at: string
+  confirmed_at: string | null
+  unsubscribe_token: string
+}
+
+function validatePreferences(
+  regionIds: unknown,
+  hazardTypes: unknown,
+  minSeverity: unknown,
+  digestFrequency: unknown
+): string | null {
+  if (!Array.isArray(regionIds) || regionIds.length === 0 || regionIds.some((id) => typeof id !== 'string')) {
+    return 'Select at least one region'
+  }
+  if (regionIds.length > MAX_REGIONS_PER_SUBSCRIBER) {
+    return `At most ${MAX_REGIONS_PER_SUBSCRIBER} regions can be followed`
+  }
+  if (!Array.isArray(hazardTypes) || hazardTypes.length === 0 || hazardTypes.some((h) => !HAZARD_TYPES.includes(h))) {
+    return `hazard_types must be a non-empty list of: ${HAZARD_TYPES.join(', ')}`
+  }
+  if (!ALERT_SEVERITIES.includes(minSeverity as AlertSeverity)) {
+    return `min_severity must be one of: ${ALERT_SEVERITIES.join(', ')}`
+  }
+  if (!DIGEST_FREQUENCIES.includes(digestFrequency as DigestFrequency)) {
+    return `digest_frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`
+  }
+  return null
+}
+
+// Optional rules on top of min_severity; null (or omitted) disables each of them
+function validateAlertRules(
+  floodThreshold: unknown,
+  hotspotThreshold: unknown,
+  quietHoursStart: unknown,
+  quietHoursEnd: unknown,
+  timezone: unknown
+): string | null {
+  if (floodThreshold != null && (typeof floodThreshold !== 'number' || !(floodThreshold >= 0 && floodThreshold <= 100))) {
+    return 'flood_threshold must be a percentage between 0 and 100'
+  }
+  if (hotspotThreshold != null && (!Number.isInteger(hotspotThreshold) || (hotspotThreshold as number) < 1)) {
+    return 'hotspot_threshold must be a whole number of at least 1'
+  }
+  if ((quietHoursStart == null) !== (quietHoursEnd == null)) {
+    return 'quiet_hours_start and quiet_hours_end must be set together'
+  }
+  if (
+    quietHoursStart != null &&
+    (typeof quietHoursStart !== 'string' || parseLocalTime(quietHoursStart) === null ||
+      typeof quietHoursEnd !== 'string' || parseLocalTime(quietHoursEnd) === null)
+  ) {
+    return 'Quiet hours must be times in HH:MM format'
+  }
+  if (timezone != null && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+    return 'timezone must be an IANA time zone such as Europe/Bucharest'
+  }
+  return null
+}
+
+// The unsubscribe token of any confirmed subscription identifies its address on the manage page
+async function findSubscriberEmail(supabase: SupabaseClient, token: unknown): Promise<string | null> {
+  if (typeof token !== 'string' || !UUID_PATTERN.test(token)) return null
+
+  const { data, error } = await supabase
+    .from('alert_subscriptions')
+    .select('email')
+    .eq('unsubscribe_token', token)
+    .not('confirmed_at', 'is', null)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up subscriber: ${error.message}`)
+  }
+
+  return data?.email ?? null
+}
+
+async function listSubscriptionRows(supabase: SupabaseClient, email: string): Promise<SubscriptionRow[]> {
+  const { data, error } = await supabase
+    .from('alert_subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('email', email)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load subscriptions: ${error.message}`)
+  }
+
+  return (data || []) as SubscriptionRow[]
+}
+
+// Everything the manage page shows. `token` is returned because the one in the link may
+// belong to a subscription the subscriber has just removed.
+async function subscriberResponse(supabase: SupabaseClient, email: string) {
+  const rows = (await listSubscriptionRows(supabase, email)).filter((r) => r.confirmed_at)
+
+  const { data: regions, error } = await supabase
+    .from('regions')
+    .select('id, display_name')
+    .in('id', rows.map((r) => r.region_id))
+
+  if (error) {
+    throw new Error(`Failed to load regions: ${error.message}`)
+  }
+
+  const regionNames = new Map((regions || []).map((r: { id: string; display_name: string }) => [r.id, r.display_name]))
+  const latest = rows[0]
+
+  return {
+    email,
+    token: latest?.unsubscribe_token ?? null,
+    paused: rows.length > 0 && rows.every((r) => r.is_active === false),
+    // Preferences are edited for all subscriptions at once; the newest row is the reference
+    preferences: {
+      hazard_types: latest?.hazard_types ?? DEFAULT_SUBSCRIBED_HAZARDS,
+      min_severity: latest?.min_severity ?? 'warning',
+      digest_frequency: latest?.digest_frequency ?? 'immediate',
+      flood_threshold: latest?.flood_threshold ?? null,
+      hotspot_threshold: latest?.hotspot_threshold ?? null,
+      // TIME columns come back as HH:MM:SS
+      quiet_hours_start: latest?.quiet_hours_start?.slice(0, 5) ?? null,
+      quiet_hours_end: latest?.quiet_hours_end?.slice(0, 5) ?? null,
+      timezone: latest?.timezone ?? DEFAULT_TIMEZONE,
+    },
+    subscriptions: rows.map((r) => ({
+      region_id: r.region_id,
+      region_name: regionNames.get(r.region_id) ?? r.region_id,
+      hazard_types: r.hazard_types ?? DEFAULT_SUBSCRIBED_HAZARDS,
+      min_severity: r.min_severity,
+      digest_frequency: r.digest_frequency,
+      is_active: r.is_active !== false,
+      created_at: r.created_at,
+    })),
+  }
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -17,14 +199,63 @@ Deno.serve(async (req) => {
     
     const supabase = createClient(supabaseUrl, supabaseServiceKey)
 
-    const { action, email, region_id, hazard_types, unsubscribe_token } = await req.json()
+    // One-click unsubscribe (RFC 8058): mail clients POST "List-Unsubscribe=One-Click" as a form
+    // to the List-Unsubscribe URL of an alert email, so action and token arrive in the query string.
+    // Link scanners and people opening the URL send a GET, which only leads to the confirmation page.
+    const url = new URL(req.url)
+    if (url.searchParams.get('action') === 'unsubscribe') {
+      const token = url.searchParams.get('token') || ''
+      const textHeaders = { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' }
+      if (!UUID_PATTERN.test(token)) {
+        return new Response('Invalid unsubscribe link', { status: 400, headers: textHeaders })
+      }
+
+      if (req.method === 'GET') {
+        return Response.redirect(`${publicSiteUrl()}/subscriptions/unsubscribe?token=${encodeURIComponent(token)}`, 303)
+      }
+
+      if (req.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405, headers: { ...textHeaders, 'Allow': 'GET, POST' } })
+      }
+
+      const { error: deleteError } = await supabase
+        .from('alert_subscriptions')
+        .delete()
+        .eq('unsubscribe_token', token)
+
+      if (deleteError) {
+        console.error('[manage-subscription] One-click unsubscribe error:', deleteError)
+        return new Response('Failed to unsubscribe', { status: 500, headers: textHeaders })
+      }
+
+      console.log('[manage-subscription] Unsubscribed via one-click link')
+      return new Response('You have been unsubscribed from safeRo alerts.', { status: 200, headers: textHeaders })
+    }
+
+    const {
+      action,
+      email,
+      region_id,
+      region_ids,
+      hazard_types,
+      min_severity,
+      digest_frequency,
+      flood_threshold,
+      hotspot_threshold,
+      quiet_hours_start,
+      quiet_hours_end,
+      timezone,
+      paused,
+      unsubscribe_token,
+      confirmation_token,
+    } = await req.json()
 
     console.log(`[manage-subscription] Action: ${action}, Region: ${region_id}`)
 
     if (action === 'subscribe') {
       // Validate email format
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-      if (!email || !emailRegex.test(email)) {
+      if (typeof email !== 'string' || !emailRegex.test(email.trim())) {
         console.log('[manage-subscription] Invalid email format')
         return new Response(
           JSON.stringify({ error: 'Invalid email format' }),
@@ -39,15 +270,48 @@ Deno.serve(async (req) => {
         )
       }
 
+      // region_id may be a monitoring area or a county SIRUTA code - both live in public.regions
+      const region = await getRegion(supabase, region_id)
+      if (!region) {
+        console.log(`[manage-subscription] Unknown region: ${region_id}`)
+        return new Response(
+          JSON.stringify({ error: 'Unknown region' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const requestedHazards: string[] = hazard_types || DEFAULT_SUBSCRIBED_HAZARDS
+      if (
+        !Array.isArray(requestedHazards) ||
+        requestedHazards.length === 0 ||
+        requestedHazards.some((h) => !HAZARD_TYPES.includes(h as HazardType))
+      ) {
+        return new Response(
+          JSON.stringify({ error: `hazard_types must be a non-empty list of: ${HAZARD_TYPES.join(', ')}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      // Addresses are stored lower-case, one row per address and region
+      const address = email.trim().toLowerCase()
+
       // Check for existing subscription
-      const { data: existing } = await supabase
+      const { data: existing, error: lookupError } = await supabase
         .from('alert_subscriptions')
-        .select('id')
-        .eq('email', email)
+        .select('id, confirmed_at, confirmation_sent_at')
+        .eq('email', address)
         .eq('region_id', region_id)
-        .single()
+        .maybeSingle()
 
-      if (existing) {
+      if (lookupError) {
+        console.error('[manage-subscription] Subscription lookup error:', lookupError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to create subscription' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (existing?.confirmed_at) {
         console.log('[manage-subscription] Subscription already exists')
         return new Response(
           JSON.stringify({ message: 'Already subscribed to this region' }),
@@ -55,31 +319,260 @@ Deno.serve(async (req) => {
         )
       }
 
-      // Create subscription
-      const { error: insertError } = await supabase
+      // Throttle confirmation emails per address so the form cannot be used to flood someone's
+      // inbox, whether by repeating one region or by going through all of them
+      const { data: recent, error: recentError } = await supabase
         .from('alert_subscriptions')
-        .insert({
-          email,
-          region_id,
-          hazard_types: hazard_types || ['flood', 'vegetation'],
-          is_active: true
-        })
+        .select('id')
+        .eq('email', address)
+        .gt('confirmation_sent_at', new Date(Date.now() - CONFIRMATION_RESEND_INTERVAL_MS).toISOString())
+        .limit(1)
 
-      if (insertError) {
-        console.error('[manage-subscription] Insert error:', insertError)
+      if (recentError) {
+        console.error('[manage-subscription] Confirmation throttle lookup error:', recentError)
         return new Response(
           JSON.stringify({ error: 'Failed to create subscription' }),
           { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         )
       }
 
-      console.log('[manage-subscription] Subscription created successfully')
+      const recentId = recent?.[0]?.id
+      if (recentId) {
+        const message = recentId === existing?.id
+          ? 'A confirmation email was already sent. Please check your inbox.'
+          : 'A confirmation email was sent to this address a few minutes ago. Please confirm it, then try again in a few minutes.'
+        return new Response(
+          JSON.stringify({ message, pending: true }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const confirmationToken = crypto.randomUUID()
+      const sentAt = new Date()
+      const expiresAt = new Date(sentAt.getTime() + confirmationTtlHours() * 3600000)
+      const pending = {
+        hazard_types: requestedHazards,
+        confirmation_token: confirmationToken,
+        confirmation_sent_at: sentAt.toISOString(),
+        confirmation_expires_at: expiresAt.toISOString(),
+      }
+
+      // Create a pending subscription, or issue a new link for one that was never confirmed
+      const { data: saved, error: saveError } = existing
+        ? await supabase.from('alert_subscriptions').update(pending).eq('id', existing.id).select('id').single()
+        : await supabase
+          .from('alert_subscriptions')
+          .insert({ email: address, region_id, is_active: true, ...pending })
+          .select('id')
+          .single()
+
+      // A concurrent request for the same address and region created the row first
+      if (saveError?.code === '23505') {
+        return new Response(
+          JSON.stringify({ message: 'A confirmation email was already sent. Please check your inbox.', pending: true }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (saveError) {
+        console.error('[manage-subscription] Insert error:', saveError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to create subscription' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      try {
+        await createMailTransport().send(renderConfirmationEmail({
+          to: address,
+          regionName: region.display_name,
+          hazardLabels: requestedHazards.map((h) => HAZARD_LABELS[h as HazardType]),
+          confirmUrl: `${publicSiteUrl()}/subscriptions/confirm?token=${confirmationToken}`,
+          expiresAt: expiresAt.toISOString(),
+        }))
+      } catch (mailError) {
+        console.error('[manage-subscription] Confirmation email error:', mailError)
+        // Nothing was delivered, so neither keep the new row nor throttle the next attempt
+        if (existing) {
+          await supabase.from('alert_subscriptions').update({ confirmation_sent_at: null }).eq('id', saved.id)
+        } else {
+          await supabase.from('alert_subscriptions').delete().eq('id', saved.id)
+        }
+        return new Response(
+          JSON.stringify({ error: 'Failed to send confirmation email' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      console.log('[manage-subscription] Pending subscription created, confirmation sent')
       return new Response(
-        JSON.stringify({ message: 'Subscribed successfully' }),
+        JSON.stringify({ message: 'Check your inbox to confirm your subscription', pending: true }),
         { status: 201, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
+    if (action === 'confirm') {
+      if (!confirmation_token || !UUID_PATTERN.test(confirmation_token)) {
+        return new Response(
+          JSON.stringify({ error: 'Confirmation token is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { data: subscription, error: lookupError } = await supabase
+        .from('alert_subscriptions')
+        .select('id, region_id, confirmation_expires_at')
+        .eq('confirmation_token', confirmation_token)
+        .maybeSingle()
+
+      if (lookupError) {
+        console.error('[manage-subscription] Confirm lookup error:', lookupError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to confirm subscription' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (!subscription || new Date(subscription.confirmation_expires_at) < new Date()) {
+        console.log('[manage-subscription] Unknown or expired confirmation token')
+        return new Response(
+          JSON.stringify({ error: 'This confirmation link is invalid or has expired' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const { error: updateError } = await supabase
+        .from('alert_subscriptions')
+        .update({
+          confirmed_at: new Date().toISOString(),
+          confirmation_token: null,
+          confirmation_expires_at: null,
+        })
+        .eq('id', subscription.id)
+
+      if (updateError) {
+        console.error('[manage-subscription] Confirm error:', updateError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to confirm subscription' }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const region = await getRegion(supabase, subscription.region_id)
+
+      console.log('[manage-subscription] Subscription confirmed')
+      return new Response(
+        JSON.stringify({
+          message: 'Subscription confirmed',
+          region_id: subscription.region_id,
+          region_name: region?.display_name ?? subscription.region_id,
+        }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Self-service preferences, authenticated by the token from an alert email
+    if (action === 'list' || action === 'update' || action === 'pause') {
+      const subscriberEmail = await findSubscriberEmail(supabase, unsubscribe_token)
+      if (!subscriberEmail) {
+        console.log('[manage-subscription] Unknown manage token')
+        return new Response(
+          JSON.stringify({ error: 'This link is invalid or the subscription no longer exists' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      if (action === 'pause') {
+        if (typeof paused !== 'boolean') {
+          return new Response(
+            JSON.stringify({ error: 'paused must be true or false' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+
+        const { error: pauseError } = await supabase
+          .from('alert_subscriptions')
+          .update({ is_active: !paused })
+          .eq('email', subscriberEmail)
+          .not('confirmed_at', 'is', null)
+
+        if (pauseError) {
+          console.error('[manage-subscription] Pause error:', pauseError)
+          return new Response(
+            JSON.stringify({ error: 'Failed to update subscriptions' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+
+        console.log(`[manage-subscription] Subscriptions ${paused ? 'paused' : 'resumed'}`)
+      }
+
+      if (action === 'update') {
+        const validationError =
+          validatePreferences(region_ids, hazard_types, min_severity, digest_frequency) ??
+          validateAlertRules(flood_threshold, hotspot_threshold, quiet_hours_start, quiet_hours_end, timezone)
+
+        if (validationError) {
+          return new Response(
+            JSON.stringify({ error: validationError }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+
+        const wanted = [...new Set(region_ids as string[])]
+        const { data: knownRegions, error: regionError } = await supabase
+          .from('regions')
+          .select('id')
+          .in('id', wanted)
+
+        if (regionError) {
+          throw new Error(`Failed to load regions: ${regionError.message}`)
+        }
+
+        if ((knownRegions || []).length !== wanted.length) {
+          return new Response(
+            JSON.stringify({ error: 'Unknown region' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+
+        const rows = await listSubscriptionRows(supabase, subscriberEmail)
+        const removed = rows.filter((r) => r.confirmed_at && !wanted.includes(r.region_id)).length
+        const added = wanted.filter((id) => !rows.some((r) => r.region_id === id)).length
+
+        // Removals, preference changes, confirmations and new regions are applied together
+        const { error: updateError } = await supabase.rpc('update_subscription_preferences', {
+          _email: subscriberEmail,
+          _region_ids: wanted,
+          _preferences: {
+            hazard_types,
+            min_severity,
+            digest_frequency,
+            flood_threshold: flood_threshold ?? null,
+            hotspot_threshold: hotspot_threshold ?? null,
+            quiet_hours_start: quiet_hours_start ?? null,
+            quiet_hours_end: quiet_hours_end ?? null,
+            timezone: timezone ?? DEFAULT_TIMEZONE,
+          },
+        })
+
+        if (updateError) {
+          console.error('[manage-subscription] Update error:', updateError)
+          return new Response(
+            JSON.stringify({ error: 'Failed to update subscriptions' }),
+            { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+
+        console.log(`[manage-subscription] Preferences updated: +${added} -${removed} regions`)
+      }
+
+      return new Response(
+        JSON.stringify(await subscriberResponse(supabase, subscriberEmail)),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     if (action === 'unsubscribe') {
       if (!unsubscribe_token) {
         return new Response(
@@ -88,7 +581,7 @@ Deno.serve(async (req) => {
         )
       }
 
-      const { error: deleteError, count } = await supabase
+      const { error: deleteError } = await supabase
         .from('alert_subscriptions')
         .delete()
         .eq('unsubscribe_token', unsubscribe_token)
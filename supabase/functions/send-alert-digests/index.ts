@@ -0,0 +1,52 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { sendQueuedNotifications } from '../_shared/alert-dispatch.ts'
+import { publicSiteUrl } from '../_shared/alert-email.ts'
+import { createMailTransport } from '../_shared/mail.ts'
+
+// Hourly job: delivers alert notifications that were queued for a daily / weekly digest or
+// held back by a subscriber's quiet hours. Triggered by pg_cron (see the
+// invoke_send_alert_digests migration) with the shared ANALYSIS_CRON_SECRET.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const cronSecret = Deno.env.get('ANALYSIS_CRON_SECRET')
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      console.log('[send-alert-digests] Rejected request without a valid cron secret')
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const result = await sendQueuedNotifications(supabase, createMailTransport(), {
+      siteUrl: publicSiteUrl(),
+      functionsUrl: `${supabaseUrl}/functions/v1`,
+    })
+
+    console.log(`[send-alert-digests] Sent ${result.sent}, failed ${result.failed}`)
+    return jsonResponse({ sent: result.sent, failed: result.failed })
+
+  } catch (error) {
+    console.error('[send-alert-digests] Error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,40 @@
+-- Single region registry shared by the edge functions and the frontend
+CREATE TABLE public.regions (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  display_name TEXT NOT NULL,
+  bbox DOUBLE PRECISION[] NOT NULL CHECK (array_length(bbox, 1) = 4), -- [min_lon, min_lat, max_lon, max_lat]
+  center DOUBLE PRECISION[] NOT NULL CHECK (array_length(center, 1) = 2), -- [lat, lon]
+  zoom INTEGER NOT NULL DEFAULT 10,
+  geometry JSONB NOT NULL, -- GeoJSON Polygon or MultiPolygon footprint
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.regions ENABLE ROW LEVEL SECURITY;
+
+-- Region footprints are public information
+CREATE POLICY "Anyone can view regions"
+ON public.regions
+FOR SELECT
+USING (true);
+
+-- Only admins can change the registry
+CREATE POLICY "Admins can manage regions"
+ON public.regions
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Seed the monitored regions (previously duplicated in the edge function and the frontend)
+INSERT INTO public.regions (id, name, display_name, bbox, center, zoom, geometry) VALUES
+  ('fagaras', 'Făgăraș', 'Făgăraș Mountains', ARRAY[24.5, 45.5, 25.5, 45.8], ARRAY[45.65, 25.0], 10, '{"type": "Polygon", "coordinates": [[[24.5, 45.5], [25.5, 45.5], [25.5, 45.8], [24.5, 45.8], [24.5, 45.5]]]}'),
+  ('iasi', 'Iași', 'Iași County', ARRAY[26.8, 46.8, 28.0, 47.5], ARRAY[47.15, 27.4], 9, '{"type": "Polygon", "coordinates": [[[26.8, 46.8], [28.0, 46.8], [28.0, 47.5], [26.8, 47.5], [26.8, 46.8]]]}'),
+  ('timisoara', 'Timișoara', 'Timișoara Region', ARRAY[20.8, 45.5, 21.5, 46.0], ARRAY[45.75, 21.15], 10, '{"type": "Polygon", "coordinates": [[[20.8, 45.5], [21.5, 45.5], [21.5, 46.0], [20.8, 46.0], [20.8, 45.5]]]}'),
+  ('craiova', 'Craiova', 'Craiova Area', ARRAY[23.5, 44.0, 24.2, 44.5], ARRAY[44.25, 23.85], 10, '{"type": "Polygon", "coordinates": [[[23.5, 44.0], [24.2, 44.0], [24.2, 44.5], [23.5, 44.5], [23.5, 44.0]]]}'),
+  ('constanta', 'Constanța', 'Constanța Coast', ARRAY[28.3, 43.8, 29.0, 44.5], ARRAY[44.15, 28.65], 10, '{"type": "Polygon", "coordinates": [[[28.3, 43.8], [29.0, 43.8], [29.0, 44.5], [28.3, 44.5], [28.3, 43.8]]]}'),
+  ('baia_mare', 'Baia Mare', 'Baia Mare Region', ARRAY[23.2, 47.4, 24.0, 47.8], ARRAY[47.6, 23.6], 10, '{"type": "Polygon", "coordinates": [[[23.2, 47.4], [24.0, 47.4], [24.0, 47.8], [23.2, 47.8], [23.2, 47.4]]]}'),
+  ('bucuresti', 'București', 'București Metropolitan', ARRAY[25.8, 44.3, 26.4, 44.6], ARRAY[44.45, 26.1], 11, '{"type": "Polygon", "coordinates": [[[25.8, 44.3], [26.4, 44.3], [26.4, 44.6], [25.8, 44.6], [25.8, 44.3]]]}'),
+  ('cluj', 'Cluj', 'Cluj-Napoca Area', ARRAY[23.3, 46.6, 24.0, 47.0], ARRAY[46.8, 23.65], 10, '{"type": "Polygon", "coordinates": [[[23.3, 46.6], [24.0, 46.6], [24.0, 47.0], [23.3, 47.0], [23.3, 46.6]]]}');
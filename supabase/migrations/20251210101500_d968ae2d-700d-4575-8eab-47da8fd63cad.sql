@@ -0,0 +1,28 @@
+-- Custom monitoring regions drawn or uploaded by admins
+ALTER TABLE public.regions
+ADD COLUMN source TEXT NOT NULL DEFAULT 'builtin' CHECK (source IN ('builtin', 'custom')),
+ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Every row seeded so far is part of the built-in set; new rows default to custom
+ALTER TABLE public.regions ALTER COLUMN source SET DEFAULT 'custom';
+
+-- Built-in regions are referenced by subscriptions and announcements; only custom ones can be removed
+DROP POLICY IF EXISTS "Admins can manage regions" ON public.regions;
+
+CREATE POLICY "Admins can create regions"
+ON public.regions
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update regions"
+ON public.regions
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete custom regions"
+ON public.regions
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') AND source = 'custom');
@@ -0,0 +1,61 @@
+-- Romanian counties (județe) plus Municipiul București as a second region set.
+-- Ids are the county SIRUTA codes; `code` is the two-letter vehicle registration code.
+-- Boundaries: Natural Earth admin-1 (public domain), simplified to ~0.001° and rounded to 4 decimals.
+ALTER TABLE public.regions
+ADD COLUMN kind TEXT NOT NULL DEFAULT 'area' CHECK (kind IN ('area', 'county')),
+ADD COLUMN code TEXT;
+
+CREATE INDEX idx_regions_kind ON public.regions(kind);
+
+INSERT INTO public.regions (id, name, display_name, code, bbox, center, zoom, geometry, kind, source)
+SELECT id, name, display_name, code, bbox, center, zoom, geometry::jsonb, 'county', 'builtin'
+FROM (VALUES
+  ('10', 'Alba', 'Județul Alba', 'AB', ARRAY[22.6867, 45.4474, 24.1971, 46.5672], ARRAY[46.0073, 23.4419], 9, '{"type":"Polygon","coordinates":[[[22.803,46.557],[22.8333,46.5381],[22.9742,46.5357],[22.9969,46.5311],[23.0111,46.5251],[23.0196,46.5112],[23.0253,46.5048],[23.0338,46.4987],[23.0461,46.4927],[23.0546,46.4872],[23.0593,46.4816],[23.0612,46.4701],[23.0631,46.4631],[23.0707,46.4562],[23.0773,46.4553],[23.0849,46.4585],[23.0953,46.4691],[23.1028,46.4747],[23.1444,46.4918],[23.1539,46.4946],[23.1728,46.4946],[23.2182,46.4844],[23.2352,46.483],[23.2475,46.4839],[23.257,46.4881],[23.2674,46.4946],[23.3033,46.514],[23.4036,46.527],[23.4206,46.5242],[23.4348,46.5191],[23.4906,46.4904],[23.5398,46.4765],[23.5615,46.4738],[23.5804,46.4733],[23.6126,46.4751],[23.6239,46.4724],[23.6296,46.4668],[23.6306,46.459],[23.623,46.4492],[23.6145,46.4409],[23.6088,46.4331],[23.6107,46.4243],[23.6183,46.4141],[23.6391,46.4044],[23.6552,46.4007],[23.6693,46.4002],[23.676,46.4035],[23.6779,46.409],[23.676,46.4159],[23.6731,46.4224],[23.6741,46.4289],[23.6797,46.4335],[23.6911,46.4354],[23.7384,46.4358],[23.7497,46.4377],[23.7696,46.4437],[23.7791,46.4455],[23.8235,46.4446],[23.8396,46.446],[23.8755,46.452],[23.8963,46.4506],[23.9578,46.4368],[23.971,46.4368],[23.9881,46.4423],[23.9956,46.4497],[24.0268,46.4483],[24.042,46.4409],[24.0533,46.4326],[24.0571,46.427],[24.059,46.4201],[24.0552,46.4113],[24.0476,46.4035],[24.0344,46.3951],[24.0268,46.3882],[24.0212,46.3766],[24.0268,46.3692],[24.0571,46.3456],[24.0675,46.3406],[24.1224,46.3248],[24.1432,46.3128],[24.1536,46.2975],[24.1611,46.2661],[24.1687,46.2573],[24.1763,46.2518],[24.1914,46.2443],[24.1971,46.1782],[24.1961,46.168],[24.1914,46.1597],[24.181,46.1518],[24.1611,46.1435],[24.146,46.1315],[24.1243,46.1181],[24.0401,46.0556],[24.0287,46.0432],[24.0221,46.0288],[24.0174,46.0103],[24.0136,46.0048],[24.006,46.002],[23.9975,46.0034],[23.9881,46.008],[23.9701,46.0205],[23.9616,46.0256],[23.9521,46.0284],[23.9408,46.0288],[23.8717,46.0182],[23.8604,46.0117],[23.8528,46.0029],[23.8519,45.9867],[23.8566,45.9765],[23.8642,45.9673],[23.867,45.958],[23.8642,45.946],[23.85,45.9335],[23.8358,45.9252],[23.8207,45.9187],[23.8093,45.9169],[23.7989,45.9173],[23.7913,45.9183],[23.7847,45.9178],[23.7686,45.9146],[23.7592,45.916],[23.7507,45.9187],[23.7422,45.9238],[23.7318,45.9271],[23.7233,45.9284],[23.7128,45.928],[23.7053,45.9257],[23.7006,45.9201],[23.7053,45.8873],[23.7119,45.8808],[23.7214,45.8776],[23.7469,45.8729],[23.7582,45.8688],[23.7649,45.8632],[23.763,45.8549],[23.7289,45.8179],[23.7157,45.8003],[23.7091,45.7939],[23.7024,45.7906],[23.693,45.7897],[23.6779,45.792],[23.6703,45.792],[23.6637,45.7897],[23.6561,45.786],[23.6476,45.7791],[23.6419,45.7726],[23.6353,45.7619],[23.6126,45.7111],[23.6098,45.6935],[23.6164,45.6676],[23.6239,45.6532],[23.6306,45.6366],[23.6315,45.6181],[23.6239,45.588],[23.6164,45.5709],[23.6135,45.5547],[23.6239,45.533],[23.6476,45.5034],[23.6523,45.49],[23.6533,45.4807],[23.6258,45.452],[23.5842,45.4474],[23.5852,45.4807],[23.5842,45.4881],[23.5804,45.4978],[23.5738,45.5043],[23.5237,45.5376],[23.5029,45.5552],[23.4849,45.564],[23.4461,45.5765],[23.4234,45.5899],[23.4111,45.6024],[23.4007,45.6199],[23.396,45.6301],[23.3951,45.6384],[23.3989,45.6463],[23.4026,45.6537],[23.4045,45.6606],[23.4007,45.6699],[23.3799,45.6875],[23.3743,45.6949],[23.3733,45.7032],[23.3752,45.7222],[23.3714,45.737],[23.3639,45.7582],[23.3412,45.7999],[23.3156,45.8766],[23.3071,45.8882],[23.2816,45.9109],[23.2646,45.9294],[23.2258,45.9997],[23.2144,46.0061],[23.1946,46.0085],[23.1709,46.0159],[23.0745,46.1047],[23.0678,46.1135],[23.065,46.1199],[23.0659,46.1246],[23.0707,46.1273],[23.0773,46.1283],[23.0839,46.1273],[23.0915,46.125],[23.0953,46.1287],[23.0953,46.1389],[23.0782,46.1685],[23.0669,46.1842],[23.0536,46.1967],[23.0423,46.2023],[23.0309,46.2055],[22.9856,46.2106],[22.9733,46.2138],[22.9666,46.2194],[22.9496,46.2638],[22.9345,46.292],[22.9241,46.3068],[22.9146,46.3151],[22.9042,46.3174],[22.8134,46.3105],[22.804,46.3123],[22.7557,46.3336],[22.7066,46.3688],[22.6886,46.422],[22.6867,46.483],[22.6924,46.5066],[22.7028,46.532],[22.716,46.5505],[22.7283,46.5607],[22.7397,46.5653],[22.7529,46.5672],[22.7652,46.5672],[22.7784,46.5658],[22.7879,46.5635],[22.803,46.557]]]}'),
+  ('29', 'Arad', 'Județul Arad', 'AR', ARRAY[20.7044, 45.8928, 22.7557, 46.6583], ARRAY[46.2755, 21.73], 8, '{"type":"Polygon","coordinates":[[[22.7066,46.3688],[22.7557,46.3336],[22.6895,46.3003],[22.6716,46.2735],[22.663,46.2578],[22.6403,46.2314],[22.6195,46.2184],[22.6006,46.211],[22.577,46.2087],[22.5581,46.2097],[22.5023,46.2189],[22.4843,46.2175],[22.4701,46.212],[22.4474,46.1972],[22.438,46.187],[22.4332,46.1764],[22.437,46.1431],[22.4342,46.1292],[22.4294,46.1144],[22.4153,46.0936],[22.4096,46.0811],[22.4077,46.0714],[22.4181,46.0478],[22.42,46.0376],[22.42,46.0251],[22.4124,46.0089],[22.4011,45.9918],[22.3547,45.9497],[22.3368,45.9432],[22.333,45.9405],[22.3282,45.9368],[22.3226,45.922],[22.3178,45.9183],[22.3122,45.916],[22.2942,45.915],[22.2573,45.909],[22.2488,45.9062],[22.2422,45.9012],[22.2356,45.8965],[22.2289,45.8928],[22.2204,45.8933],[22.1958,45.9025],[22.1816,45.9044],[22.1618,45.9025],[22.1457,45.9025],[22.1315,45.9053],[22.1211,45.9118],[22.1136,45.9183],[22.106,45.9224],[22.089,45.928],[22.0814,45.9317],[22.0776,45.9368],[22.0748,45.9437],[22.0691,45.9493],[22.0587,45.9525],[22.019,45.9553],[22.001,45.9585],[21.9887,45.9664],[21.9802,45.9738],[21.9698,45.9789],[21.9556,45.9821],[21.931,45.9821],[21.9197,45.9807],[21.9121,45.9775],[21.9074,45.9724],[21.9045,45.9664],[21.8979,45.9442],[21.8941,45.9386],[21.8885,45.9354],[21.8809,45.9345],[21.8582,45.9345],[21.8487,45.9368],[21.8393,45.9428],[21.8327,45.946],[21.827,45.9465],[21.8223,45.9405],[21.8213,45.9335],[21.8204,45.9252],[21.8223,45.9113],[21.8204,45.9062],[21.8156,45.9049],[21.81,45.9067],[21.8015,45.9141],[21.7892,45.928],[21.7806,45.934],[21.7693,45.9391],[21.7371,45.9497],[21.723,45.9493],[21.7144,45.946],[21.7069,45.9395],[21.6936,45.9229],[21.6832,45.9072],[21.6776,45.9025],[21.67,45.9016],[21.6624,45.9081],[21.6577,45.9141],[21.6511,45.9192],[21.6388,45.9257],[21.634,45.9289],[21.6331,45.9335],[21.635,45.9382],[21.6378,45.9437],[21.6397,45.9493],[21.6359,45.9557],[21.6265,45.9641],[21.6066,45.9756],[21.5839,45.9918],[21.5735,45.9964],[21.5631,45.9978],[21.5357,45.995],[21.5253,45.9974],[21.5187,46.0048],[21.5168,46.0126],[21.5168,46.0205],[21.5158,46.027],[21.5073,46.033],[21.4912,46.0367],[21.4581,46.039],[21.4421,46.0381],[21.4307,46.0339],[21.4288,46.0284],[21.4288,46.0214],[21.4279,46.0149],[21.4241,46.0085],[21.4175,46.0034],[21.391,45.9886],[21.3683,45.9728],[21.3617,45.9705],[21.355,45.9719],[21.3409,45.9835],[21.3305,45.9876],[21.3134,45.9876],[21.2992,45.9863],[21.2879,45.9826],[21.2652,45.9687],[21.251,45.9691],[21.234,45.9752],[21.2075,45.9937],[21.1999,46.0057],[21.1981,46.0149],[21.1962,46.0186],[21.1886,46.0205],[21.1735,46.0191],[21.1631,46.0154],[21.1545,46.0098],[21.1508,46.0043],[21.1489,45.9983],[21.1479,45.9867],[21.146,45.9812],[21.1423,45.977],[21.1347,45.9738],[21.1243,45.9728],[21.1101,45.9752],[21.0969,45.9802],[21.0836,45.9923],[21.0817,45.9987],[21.0836,46.0103],[21.0798,46.0154],[21.0694,46.02],[21.0477,46.0237],[21.0354,46.0233],[21.0165,46.02],[21.008,46.02],[20.9465,46.0279],[20.9313,46.0316],[20.92,46.0371],[20.9058,46.051],[20.8964,46.0709],[20.8604,46.0959],[20.7185,46.1648],[20.7044,46.1685],[20.7053,46.1805],[20.71,46.1879],[20.7176,46.1898],[20.7271,46.1879],[20.7365,46.1865],[20.745,46.1921],[20.745,46.2004],[20.7356,46.2226],[20.7346,46.2319],[20.7394,46.2374],[20.7781,46.2601],[20.7876,46.2633],[20.7989,46.2675],[20.8197,46.2716],[20.8396,46.2712],[20.8491,46.2679],[20.867,46.2573],[20.8755,46.2545],[20.885,46.255],[20.9001,46.2605],[20.9068,46.2624],[20.9247,46.2596],[20.9616,46.2485],[20.9815,46.249],[20.9909,46.2518],[20.9994,46.2518],[21.007,46.249],[21.0136,46.243],[21.0335,46.2314],[21.0515,46.236],[21.0987,46.2763],[21.1054,46.2786],[21.1347,46.2786],[21.1441,46.2837],[21.1555,46.2989],[21.1649,46.3184],[21.1687,46.3628],[21.1791,46.3845],[21.1952,46.3979],[21.2151,46.403],[21.2576,46.4044],[21.2803,46.4164],[21.2747,46.4381],[21.2453,46.477],[21.2472,46.4974],[21.2614,46.5135],[21.2794,46.5283],[21.2917,46.5468],[21.2955,46.5852],[21.3011,46.6037],[21.3163,46.6167],[21.338,46.6204],[21.3749,46.6185],[21.3957,46.6264],[21.4165,46.6454],[21.4231,46.6583],[21.4449,46.6532],[21.4922,46.6454],[21.826,46.6583],[21.8516,46.6546],[21.8582,46.6486],[21.8658,46.643],[21.8799,46.6384],[21.8932,46.637],[21.9121,46.6375],[21.9244,46.6352],[21.9405,46.6287],[21.9537,46.6195],[21.9783,46.613],[22.0672,46.6107],[22.0937,46.607],[22.1126,46.601],[22.123,46.594],[22.1457,46.5829],[22.1533,46.576],[22.1608,46.5644],[22.1826,46.5242],[22.1939,46.5075],[22.2091,46.495],[22.2289,46.4853],[22.2545,46.4798],[22.2706,46.4747],[22.3178,46.4465],[22.3926,46.427],[22.4011,46.4206],[22.4049,46.4118],[22.4096,46.4016],[22.42,46.39],[22.4351,46.3845],[22.4502,46.3817],[22.541,46.3808],[22.6176,46.3692],[22.6649,46.3665],[22.7066,46.3688]]]}'),
+  ('38', 'Argeș', 'Județul Argeș', 'AG', ARRAY[24.4383, 44.3878, 25.3339, 45.6028], ARRAY[44.9953, 24.8861], 9, '{"type":"Polygon","coordinates":[[[25.3093,45.3887],[25.3254,45.3688],[25.3301,45.3595],[25.3339,45.3494],[25.3339,45.3378],[25.3292,45.3212],[25.3225,45.3105],[25.3074,45.2925],[25.2998,45.2814],[25.2942,45.2684],[25.2894,45.2522],[25.2875,45.2291],[25.28,45.2083],[25.2705,45.1921],[25.263,45.1819],[25.2535,45.1745],[25.245,45.1699],[25.2355,45.1685],[25.227,45.1704],[25.2195,45.175],[25.2081,45.1884],[25.2015,45.193],[25.1949,45.194],[25.1892,45.1912],[25.1845,45.1866],[25.1741,45.1685],[25.1693,45.1625],[25.1637,45.1491],[25.1627,45.1297],[25.1741,45.0904],[25.1873,45.0732],[25.2195,45.0478],[25.2308,45.0284],[25.2355,45.0159],[25.2355,45.0066],[25.2308,44.9978],[25.2024,44.9747],[25.1968,44.9655],[25.1949,44.9493],[25.1968,44.9294],[25.2128,44.8753],[25.2157,44.8596],[25.2072,44.7777],[25.2053,44.767],[25.2005,44.7583],[25.1854,44.7388],[25.1826,44.7273],[25.1845,44.7157],[25.1986,44.7037],[25.21,44.6972],[25.2185,44.6903],[25.2147,44.6856],[25.192,44.6755],[25.1873,44.6671],[25.1911,44.6547],[25.2166,44.619],[25.227,44.6093],[25.2544,44.5899],[25.263,44.5857],[25.2734,44.583],[25.2961,44.5802],[25.3055,44.5774],[25.3131,44.5732],[25.3169,44.5658],[25.3159,44.5566],[25.298,44.5321],[25.2923,44.5224],[25.2942,44.509],[25.297,44.4997],[25.3008,44.4914],[25.3036,44.484],[25.2998,44.465],[25.2781,44.4373],[25.2459,44.4484],[25.2299,44.4516],[25.2128,44.4535],[25.1901,44.4535],[25.1447,44.4474],[25.1239,44.4387],[25.1012,44.4229],[25.088,44.4188],[25.0634,44.4141],[25.0322,44.4174],[25.0218,44.4165],[25.0123,44.4109],[24.9991,44.3993],[24.9915,44.3952],[24.9811,44.391],[24.966,44.3882],[24.949,44.3878],[24.8941,44.3975],[24.8516,44.3901],[24.8298,44.4007],[24.7816,44.403],[24.7721,44.4077],[24.7655,44.4165],[24.7598,44.4313],[24.756,44.4757],[24.7437,44.509],[24.7437,44.5177],[24.7456,44.5261],[24.7504,44.539],[24.7513,44.546],[24.7418,44.5908],[24.7343,44.607],[24.7314,44.6167],[24.7295,44.6288],[24.7248,44.651],[24.7173,44.6662],[24.6927,44.6958],[24.6898,44.7051],[24.6927,44.7111],[24.6983,44.7162],[24.7068,44.7203],[24.7248,44.7259],[24.7295,44.7282],[24.7305,44.7324],[24.7258,44.7374],[24.7182,44.7416],[24.7002,44.7425],[24.6851,44.7402],[24.669,44.7398],[24.6529,44.7435],[24.6331,44.7573],[24.6217,44.7684],[24.5773,44.8346],[24.5697,44.848],[24.5688,44.8596],[24.5707,44.8693],[24.5707,44.8781],[24.5688,44.8859],[24.564,44.8915],[24.5546,44.8924],[24.5461,44.8882],[24.5347,44.8771],[24.5253,44.8591],[24.5215,44.8531],[24.5139,44.8471],[24.4732,44.8225],[24.4647,44.8198],[24.4562,44.8221],[24.4496,44.8262],[24.4383,44.8498],[24.4628,44.8637],[24.5026,44.897],[24.5082,44.9058],[24.512,44.9141],[24.5111,44.9229],[24.5045,44.9349],[24.4959,44.9433],[24.4893,44.9521],[24.4884,44.9604],[24.4959,44.9812],[24.5063,45.0418],[24.5376,45.1361],[24.5357,45.1593],[24.529,45.1745],[24.5215,45.1861],[24.5149,45.1935],[24.4997,45.2055],[24.495,45.2157],[24.4931,45.2286],[24.4978,45.249],[24.5007,45.2735],[24.4912,45.2976],[24.4903,45.3087],[24.4922,45.3179],[24.4978,45.3253],[24.5063,45.3323],[24.5139,45.3401],[24.5167,45.3494],[24.5139,45.3614],[24.4941,45.4243],[24.4941,45.4354],[24.4959,45.446],[24.5253,45.4858],[24.5394,45.5297],[24.5272,45.5617],[24.7087,45.5987],[24.7721,45.6028],[24.7872,45.6001],[24.8005,45.595],[24.8166,45.5825],[24.8241,45.5732],[24.8307,45.5663],[24.8383,45.5631],[24.8506,45.5654],[24.8686,45.5737],[24.8799,45.5769],[24.8922,45.5774],[24.9225,45.576],[24.984,45.5802],[25.0956,45.5695],[25.1192,45.5598],[25.157,45.5362],[25.1741,45.5284],[25.1901,45.5242],[25.2062,45.5163],[25.2204,45.5034],[25.2762,45.4164],[25.3093,45.3887]]]}'),
+  ('47', 'Bacău', 'Județul Bacău', 'BC', ARRAY[26.0092, 46.0094, 27.5196, 46.8137], ARRAY[46.4115, 26.7644], 9, '{"type":"Polygon","coordinates":[[[27.2254,46.743],[27.2396,46.7305],[27.2462,46.7235],[27.2595,46.7133],[27.3049,46.687],[27.3238,46.6726],[27.3361,46.6546],[27.3361,46.6301],[27.3332,46.6074],[27.338,46.5848],[27.442,46.459],[27.4789,46.3974],[27.5016,46.3355],[27.5129,46.2892],[27.5196,46.1625],[27.4893,46.1653],[27.4543,46.1727],[27.4448,46.1713],[27.4373,46.1657],[27.4326,46.1592],[27.425,46.1542],[27.4136,46.1518],[27.3947,46.1537],[27.3522,46.1717],[27.3323,46.1745],[27.3068,46.174],[27.233,46.1629],[27.2084,46.1537],[27.1971,46.1449],[27.18,46.1283],[27.1696,46.1213],[27.1422,46.1088],[27.1327,46.1005],[27.1204,46.0857],[27.1119,46.0811],[27.0996,46.0792],[27.0476,46.0922],[27.0344,46.094],[27.0183,46.0931],[27.0022,46.0871],[26.9928,46.0802],[26.988,46.0723],[26.9861,46.0658],[26.9814,46.0621],[26.9729,46.0607],[26.9341,46.0718],[26.919,46.0732],[26.901,46.0728],[26.8821,46.07],[26.8651,46.0709],[26.8405,46.076],[26.797,46.0769],[26.7667,46.0811],[26.6703,46.0769],[26.6542,46.0737],[26.6428,46.0658],[26.6362,46.0575],[26.6334,46.0482],[26.6324,46.0293],[26.6305,46.0196],[26.6003,46.0094],[26.4849,46.0214],[26.4679,46.0274],[26.4612,46.0353],[26.4556,46.0445],[26.4461,46.0658],[26.4404,46.0746],[26.4319,46.0815],[26.4215,46.0876],[26.4026,46.0945],[26.396,46.1033],[26.3988,46.1102],[26.413,46.1213],[26.4149,46.1278],[26.4102,46.1361],[26.3998,46.1444],[26.3629,46.1606],[26.3553,46.1657],[26.3421,46.1777],[26.3336,46.1805],[26.3251,46.1791],[26.2929,46.1602],[26.2513,46.1505],[26.2589,46.1879],[26.2636,46.1986],[26.2759,46.2166],[26.2797,46.2263],[26.2844,46.267],[26.2872,46.2763],[26.3005,46.3022],[26.2986,46.311],[26.2929,46.3197],[26.2759,46.3267],[26.2617,46.3281],[26.2475,46.3267],[26.2078,46.3114],[26.1822,46.3059],[26.1681,46.3063],[26.1595,46.3123],[26.1605,46.3262],[26.1681,46.3503],[26.1671,46.3618],[26.1624,46.3729],[26.1473,46.3845],[26.1331,46.3905],[26.0801,46.3951],[26.0385,46.4035],[26.0252,46.4127],[26.0186,46.427],[26.0243,46.4548],[26.0328,46.4682],[26.0461,46.4765],[26.0602,46.4802],[26.0697,46.4872],[26.0688,46.4987],[26.0565,46.5172],[26.0413,46.532],[26.029,46.5487],[26.012,46.5936],[26.0092,46.668],[26.0451,46.675],[26.0593,46.6754],[26.082,46.6713],[26.1104,46.6602],[26.1236,46.6578],[26.1435,46.6602],[26.169,46.6676],[26.2305,46.699],[26.2418,46.7027],[26.2541,46.7046],[26.2683,46.7004],[26.2749,46.6953],[26.2863,46.6796],[26.2929,46.6726],[26.2986,46.6652],[26.3014,46.6583],[26.3005,46.6509],[26.2986,46.6444],[26.2976,46.6389],[26.2995,46.6352],[26.3109,46.6329],[26.3903,46.6333],[26.4073,46.6352],[26.4177,46.6407],[26.4272,46.6486],[26.4348,46.6574],[26.4433,46.6634],[26.4546,46.6662],[26.4925,46.6657],[26.5284,46.6717],[26.5691,46.6662],[26.5814,46.6671],[26.5908,46.6726],[26.6097,46.6893],[26.6239,46.6958],[26.6854,46.7138],[26.6939,46.7212],[26.7024,46.7351],[26.7147,46.7402],[26.7336,46.7411],[26.7601,46.7346],[26.7904,46.7194],[26.8027,46.7147],[26.8187,46.7147],[26.8348,46.7198],[26.8462,46.7263],[26.8518,46.7342],[26.8528,46.742],[26.85,46.7504],[26.8509,46.7582],[26.8556,46.7647],[26.8831,46.78],[26.8887,46.7869],[26.8916,46.7952],[26.8906,46.8031],[26.8897,46.8105],[26.8944,46.8137],[26.9058,46.8133],[26.9256,46.8026],[26.9313,46.7948],[26.9322,46.7874],[26.9303,46.7809],[26.9313,46.7739],[26.9379,46.7642],[26.9512,46.7536],[26.971,46.7439],[27.0419,46.7513],[27.0656,46.7513],[27.1469,46.7388],[27.1573,46.7346],[27.1857,46.7291],[27.2254,46.743]]]}'),
+  ('56', 'Bihor', 'Județul Bihor', 'BH', ARRAY[21.4231, 46.3665, 22.8077, 47.5949], ARRAY[46.9807, 22.1154], 9, '{"type":"Polygon","coordinates":[[[22.5808,47.3216],[22.5704,47.2938],[22.5647,47.2855],[22.5533,47.2725],[22.5486,47.2647],[22.5467,47.2559],[22.5458,47.2476],[22.5429,47.2402],[22.5373,47.2323],[22.5117,47.2069],[22.5023,47.1999],[22.4947,47.1944],[22.4947,47.1805],[22.507,47.1597],[22.5505,47.1134],[22.5798,47.0746],[22.5836,47.0663],[22.5902,47.0584],[22.6016,47.0501],[22.664,47.0256],[22.7028,46.9987],[22.7198,46.9793],[22.7122,46.9654],[22.6895,46.9363],[22.6867,46.927],[22.6886,46.9201],[22.6971,46.9155],[22.7482,46.9021],[22.7605,46.8947],[22.7661,46.8845],[22.7614,46.866],[22.7567,46.8544],[22.751,46.8433],[22.7463,46.835],[22.7387,46.8285],[22.7302,46.8234],[22.6933,46.8123],[22.682,46.8068],[22.6734,46.7998],[22.6678,46.7924],[22.6659,46.7846],[22.6687,46.7753],[22.681,46.7638],[22.7207,46.7388],[22.734,46.7245],[22.7472,46.7036],[22.7642,46.6569],[22.7737,46.6444],[22.7832,46.6389],[22.7936,46.6338],[22.803,46.6273],[22.8077,46.6195],[22.804,46.5945],[22.803,46.557],[22.7879,46.5635],[22.7784,46.5658],[22.7652,46.5672],[22.7529,46.5672],[22.7397,46.5653],[22.7283,46.5607],[22.716,46.5505],[22.7028,46.532],[22.6924,46.5066],[22.6867,46.483],[22.6886,46.422],[22.7066,46.3688],[22.6649,46.3665],[22.6176,46.3692],[22.541,46.3808],[22.4502,46.3817],[22.4351,46.3845],[22.42,46.39],[22.4096,46.4016],[22.4049,46.4118],[22.4011,46.4206],[22.3926,46.427],[22.3178,46.4465],[22.2706,46.4747],[22.2545,46.4798],[22.2289,46.4853],[22.2091,46.495],[22.1939,46.5075],[22.1826,46.5242],[22.1608,46.5644],[22.1533,46.576],[22.1457,46.5829],[22.123,46.594],[22.1126,46.601],[22.0937,46.607],[22.0672,46.6107],[21.9783,46.613],[21.9537,46.6195],[21.9405,46.6287],[21.9244,46.6352],[21.9121,46.6375],[21.8932,46.637],[21.8799,46.6384],[21.8658,46.643],[21.8582,46.6486],[21.8516,46.6546],[21.826,46.6583],[21.4922,46.6454],[21.4449,46.6532],[21.4231,46.6583],[21.425,46.662],[21.4364,46.6736],[21.4638,46.6773],[21.4837,46.6847],[21.5016,46.7036],[21.5054,46.7231],[21.478,46.736],[21.4752,46.7379],[21.4723,46.7402],[21.4704,46.743],[21.4714,46.749],[21.4733,46.755],[21.4771,46.7601],[21.4818,46.7652],[21.5026,46.8054],[21.5158,46.8216],[21.5366,46.835],[21.5735,46.8419],[21.583,46.8479],[21.5915,46.8609],[21.5915,46.8715],[21.5877,46.8822],[21.5868,46.8942],[21.5887,46.9062],[21.5896,46.909],[21.5943,46.9099],[21.6397,46.9358],[21.6482,46.9428],[21.6672,46.9923],[21.6709,46.9932],[21.6709,46.9946],[21.6615,47.0061],[21.6549,47.0098],[21.6454,47.0112],[21.6369,47.014],[21.634,47.0195],[21.6331,47.0228],[21.6719,47.0547],[21.6946,47.069],[21.7438,47.0917],[21.7636,47.1051],[21.7702,47.1139],[21.7759,47.1315],[21.7797,47.1407],[21.7892,47.1504],[21.8119,47.1648],[21.8194,47.1726],[21.826,47.1851],[21.826,47.1944],[21.8232,47.2032],[21.8232,47.2147],[21.8279,47.2258],[21.8393,47.2406],[21.845,47.2499],[21.8563,47.286],[21.862,47.2975],[21.9008,47.3359],[21.9187,47.3498],[21.9367,47.3572],[21.9811,47.366],[22.002,47.3937],[22.0001,47.427],[21.9916,47.4617],[21.9887,47.4932],[22.0076,47.5172],[22.0379,47.5394],[22.0994,47.5709],[22.1485,47.5792],[22.1542,47.5824],[22.1618,47.5861],[22.1675,47.594],[22.1675,47.5949],[22.1722,47.5898],[22.193,47.5681],[22.2053,47.5482],[22.2138,47.539],[22.2252,47.5311],[22.2658,47.5103],[22.281,47.4964],[22.297,47.4761],[22.3254,47.446],[22.3339,47.4344],[22.3453,47.4136],[22.3519,47.4057],[22.3604,47.4011],[22.3774,47.3988],[22.3878,47.3997],[22.3954,47.4016],[22.4049,47.4025],[22.4143,47.402],[22.4285,47.3997],[22.438,47.4011],[22.4625,47.4104],[22.472,47.4122],[22.4824,47.4104],[22.4966,47.4039],[22.5127,47.3946],[22.5429,47.3831],[22.5552,47.3757],[22.5637,47.3637],[22.5713,47.3391],[22.5808,47.3216]]]}'),
+  ('65', 'Bistrița-Năsăud', 'Județul Bistrița-Năsăud', 'BN', ARRAY[23.936, 46.7443, 25.0908, 47.5829], ARRAY[47.1636, 24.5134], 9, '{"type":"Polygon","coordinates":[[[24.9565,47.5824],[24.9669,47.5736],[25.0464,47.5297],[25.0719,47.5084],[25.0842,47.4936],[25.0889,47.483],[25.0908,47.4714],[25.0842,47.4576],[25.0729,47.4497],[25.0587,47.4437],[25.0473,47.4395],[25.0398,47.4354],[25.0369,47.4303],[25.0407,47.4256],[25.0464,47.421],[25.0502,47.415],[25.0521,47.4085],[25.0492,47.3997],[25.0445,47.3965],[25.0379,47.3956],[25.0303,47.397],[25.0227,47.397],[25.0142,47.396],[25.0067,47.3923],[25.0029,47.3868],[25.0038,47.3794],[25.0133,47.3687],[25.0331,47.3512],[25.0407,47.3428],[25.0521,47.3248],[25.0568,47.3151],[25.0577,47.304],[25.0492,47.286],[25.0369,47.2707],[25.0294,47.2577],[25.0275,47.2471],[25.0388,47.2374],[25.0511,47.2346],[25.0615,47.2351],[25.07,47.2365],[25.0748,47.2342],[25.0766,47.2281],[25.0729,47.2133],[25.0681,47.2027],[25.0634,47.1726],[25.0681,47.1028],[24.9915,47.082],[24.9253,47.0732],[24.8988,47.0667],[24.8667,47.0519],[24.8156,47.0219],[24.808,47.0145],[24.7948,46.9899],[24.7891,46.9825],[24.7645,46.9566],[24.756,46.9441],[24.7504,46.9303],[24.7428,46.9021],[24.7362,46.8942],[24.7239,46.89],[24.7059,46.8919],[24.6898,46.897],[24.6605,46.9099],[24.6482,46.9132],[24.6369,46.915],[24.6246,46.9136],[24.6066,46.9081],[24.582,46.8947],[24.5612,46.8757],[24.5517,46.8637],[24.5423,46.8452],[24.5357,46.8378],[24.5167,46.8216],[24.5111,46.8133],[24.5082,46.8022],[24.5063,46.792],[24.5035,46.7813],[24.4978,46.7735],[24.4836,46.7675],[24.4647,46.7628],[24.4288,46.7596],[24.3834,46.7467],[24.3673,46.7443],[24.3456,46.7453],[24.2794,46.7568],[24.1971,46.7846],[24.2188,46.8156],[24.2245,46.8281],[24.2311,46.8692],[24.2368,46.8836],[24.2387,46.8993],[24.234,46.9127],[24.215,46.927],[24.1801,46.94],[24.1678,46.9465],[24.1611,46.9548],[24.1592,46.9664],[24.1611,46.9742],[24.163,46.9816],[24.1611,46.9876],[24.1432,46.9964],[24.1356,47.0029],[24.1366,47.0177],[24.1394,47.0306],[24.1441,47.0431],[24.1451,47.0556],[24.1413,47.0681],[24.1271,47.0824],[24.112,47.0898],[24.0893,47.0968],[24.0789,47.1019],[24.0581,47.1153],[24.0429,47.1218],[23.9862,47.1324],[23.9729,47.1375],[23.9625,47.1458],[23.955,47.1555],[23.9512,47.1675],[23.9398,47.2231],[23.936,47.2337],[23.936,47.2457],[23.9417,47.2559],[23.9748,47.2739],[23.9881,47.2846],[23.9985,47.2961],[24.0079,47.3248],[24.0458,47.3502],[24.1072,47.4108],[24.1139,47.4205],[24.1176,47.4298],[24.1195,47.4455],[24.1205,47.4515],[24.1261,47.4566],[24.1403,47.4613],[24.2245,47.4733],[24.2453,47.4816],[24.2548,47.4899],[24.2746,47.5209],[24.2822,47.5297],[24.2964,47.5376],[24.3654,47.5593],[24.3834,47.5621],[24.5707,47.532],[24.7589,47.5366],[24.7797,47.5408],[24.7958,47.5487],[24.8374,47.5746],[24.8705,47.5829],[24.9565,47.5824]]]}'),
+  ('74', 'Botoșani', 'Județul Botoșani', 'BT', ARRAY[26.1028, 47.4266, 27.4316, 48.2748], ARRAY[47.8507, 26.7672], 9, '{"type":"Polygon","coordinates":[[[27.4316,47.5727],[27.3758,47.5551],[27.3361,47.5556],[27.3191,47.5579],[27.3068,47.5575],[27.2964,47.5528],[27.2793,47.5394],[27.2689,47.5334],[27.2614,47.5269],[27.2557,47.5195],[27.2519,47.5024],[27.2434,47.4955],[27.232,47.4913],[27.2046,47.4909],[27.1904,47.4932],[27.1744,47.5001],[27.1564,47.5047],[27.128,47.5094],[27.1119,47.5177],[27.1044,47.5195],[27.0921,47.5181],[27.0817,47.5126],[27.0751,47.5061],[27.0713,47.4983],[27.0732,47.4899],[27.0911,47.4626],[27.0921,47.4543],[27.0873,47.4474],[27.0769,47.4414],[27.0561,47.4363],[27.041,47.4344],[27.0211,47.4386],[27.0098,47.4446],[26.9984,47.4525],[26.9843,47.4654],[26.9757,47.4705],[26.9672,47.4742],[26.9568,47.4765],[26.7894,47.477],[26.7743,47.4798],[26.7629,47.4839],[26.744,47.4927],[26.7336,47.4936],[26.7251,47.4904],[26.7185,47.4844],[26.7128,47.4737],[26.6986,47.4534],[26.6589,47.4266],[26.6173,47.4307],[26.6069,47.4358],[26.5918,47.4446],[26.5672,47.4682],[26.5624,47.4779],[26.5596,47.4895],[26.5606,47.501],[26.5624,47.5158],[26.5624,47.5283],[26.5464,47.5806],[26.5369,47.6023],[26.5265,47.6139],[26.4943,47.6365],[26.4821,47.6509],[26.4159,47.7064],[26.3969,47.7286],[26.2834,47.8262],[26.2598,47.8424],[26.2087,47.8618],[26.1681,47.8849],[26.1416,47.8965],[26.1264,47.9062],[26.1198,47.9173],[26.1028,47.9784],[26.1255,47.9784],[26.1728,47.9932],[26.1822,48.0033],[26.2049,48.0376],[26.2172,48.0482],[26.2428,48.063],[26.2551,48.0722],[26.2711,48.0935],[26.2872,48.1245],[26.2976,48.1564],[26.2957,48.1791],[26.3033,48.2119],[26.3118,48.2096],[26.3307,48.2087],[26.3478,48.2119],[26.3809,48.223],[26.3979,48.2263],[26.4442,48.2277],[26.4612,48.2304],[26.587,48.2494],[26.6182,48.2591],[26.6655,48.2744],[26.6882,48.2748],[26.7119,48.2614],[26.7223,48.2596],[26.7327,48.2707],[26.744,48.2554],[26.7639,48.2526],[26.8046,48.2582],[26.8216,48.2526],[26.8443,48.2332],[26.8556,48.2378],[26.8972,48.2092],[26.9039,48.2013],[26.9076,48.1846],[26.9181,48.1879],[26.9294,48.199],[26.9379,48.205],[26.9502,48.1976],[26.9559,48.186],[26.9634,48.1754],[26.9975,48.1666],[26.9975,48.1578],[26.9861,48.1504],[26.9663,48.1495],[26.9663,48.1435],[26.9937,48.1324],[27.0126,48.1282],[27.0249,48.1351],[27.0334,48.1324],[27.0429,48.1273],[27.0476,48.1222],[27.0476,48.1213],[27.0476,48.1166],[27.0372,48.1074],[27.0344,48.1018],[27.0419,48.0773],[27.059,48.0579],[27.0836,48.0436],[27.1091,48.0334],[27.1091,48.026],[27.0892,48.02],[27.0902,48.0158],[27.0911,48.0117],[27.093,48.0084],[27.0959,48.0056],[27.1214,48.013],[27.1346,48.0006],[27.1441,47.9867],[27.1573,47.9918],[27.1687,47.983],[27.1696,47.9737],[27.163,47.9649],[27.1507,47.958],[27.1715,47.9464],[27.1781,47.9441],[27.1781,47.9423],[27.1781,47.9381],[27.1611,47.9219],[27.1715,47.9127],[27.1942,47.9039],[27.2122,47.8895],[27.2112,47.8849],[27.2131,47.8539],[27.2122,47.8479],[27.2226,47.8428],[27.2349,47.8401],[27.2462,47.8368],[27.2538,47.828],[27.2188,47.8137],[27.2311,47.8072],[27.2453,47.7924],[27.2566,47.7776],[27.2604,47.7693],[27.2642,47.7647],[27.2822,47.7559],[27.2878,47.7522],[27.2878,47.7508],[27.2907,47.7425],[27.2897,47.7318],[27.2954,47.7244],[27.2954,47.718],[27.2718,47.7152],[27.2812,47.693],[27.3039,47.6666],[27.3692,47.6083],[27.3966,47.5889],[27.4288,47.581],[27.4297,47.5783],[27.4316,47.5727]]]}'),
+  ('83', 'Brașov', 'Județul Brașov', 'BV', ARRAY[24.6492, 45.3887, 26.1009, 46.1676], ARRAY[45.7781, 25.3751], 9, '{"type":"Polygon","coordinates":[[[25.455,46.1061],[25.4483,46.0922],[25.4512,46.0834],[25.4597,46.0728],[25.4928,46.0552],[25.506,46.0427],[25.5145,46.0492],[25.5344,46.0496],[25.5552,46.0455],[25.5675,46.039],[25.5713,46.0214],[25.558,45.9881],[25.5609,45.9784],[25.5609,45.9705],[25.5543,45.9571],[25.5524,45.9349],[25.5543,45.8697],[25.558,45.8544],[25.5675,45.841],[25.6375,45.8082],[25.6687,45.7851],[25.6706,45.7518],[25.6895,45.7518],[25.6971,45.7541],[25.7046,45.7592],[25.7188,45.7518],[25.733,45.7527],[25.7472,45.7568],[25.7633,45.7592],[25.7689,45.7652],[25.7841,45.749],[25.802,45.7425],[25.8947,45.718],[25.9193,45.7055],[25.9496,45.6842],[25.9647,45.6667],[25.9808,45.6449],[25.9903,45.6389],[26.0101,45.6334],[26.029,45.6255],[26.0479,45.6139],[26.0792,45.5802],[26.1009,45.5644],[26.0461,45.4821],[25.9988,45.4886],[25.9458,45.5103],[25.9241,45.5126],[25.9108,45.5089],[25.9032,45.5006],[25.8985,45.489],[25.8966,45.4784],[25.8909,45.4655],[25.8824,45.4534],[25.8626,45.4414],[25.8456,45.4382],[25.8314,45.44],[25.8229,45.4456],[25.8096,45.4613],[25.803,45.4678],[25.7907,45.4733],[25.7784,45.4729],[25.75,45.4659],[25.7358,45.4678],[25.6933,45.4793],[25.6507,45.4853],[25.628,45.4849],[25.4587,45.4636],[25.4464,45.4599],[25.4294,45.4525],[25.4096,45.4456],[25.4029,45.4391],[25.3944,45.4266],[25.3887,45.416],[25.3698,45.3993],[25.3093,45.3887],[25.2762,45.4164],[25.2204,45.5034],[25.2062,45.5163],[25.1901,45.5242],[25.1741,45.5284],[25.157,45.5362],[25.1192,45.5598],[25.0956,45.5695],[24.984,45.5802],[24.9225,45.576],[24.8922,45.5774],[24.8799,45.5769],[24.8686,45.5737],[24.8506,45.5654],[24.8383,45.5631],[24.8307,45.5663],[24.8241,45.5732],[24.8166,45.5825],[24.8005,45.595],[24.7872,45.6001],[24.7721,45.6028],[24.7087,45.5987],[24.7068,45.6195],[24.704,45.6343],[24.7002,45.6634],[24.6917,45.6963],[24.687,45.7083],[24.6813,45.7203],[24.6501,45.7666],[24.6492,45.7767],[24.6539,45.7855],[24.669,45.7934],[24.705,45.8045],[24.7239,45.8077],[24.7409,45.8128],[24.7541,45.8202],[24.7598,45.8309],[24.757,45.8373],[24.7504,45.8415],[24.7428,45.8438],[24.7371,45.8484],[24.7343,45.8549],[24.7352,45.8637],[24.7362,45.8743],[24.7324,45.8822],[24.7182,45.8938],[24.7144,45.8993],[24.7154,45.9072],[24.722,45.9136],[24.7664,45.9298],[24.7816,45.9409],[24.7986,45.9474],[24.8099,45.9493],[24.8184,45.9474],[24.826,45.9442],[24.8326,45.9437],[24.8411,45.9469],[24.844,45.9567],[24.843,45.9641],[24.8374,45.9775],[24.8393,45.9835],[24.8459,45.9881],[24.9007,46.0094],[24.9603,46.0436],[24.9821,46.0635],[24.9754,46.0843],[24.9792,46.0926],[24.9858,46.1033],[24.9953,46.1116],[25.018,46.1241],[25.0312,46.1296],[25.0464,46.1329],[25.1381,46.1357],[25.1882,46.1435],[25.2412,46.1495],[25.2961,46.1671],[25.3131,46.1676],[25.3301,46.1648],[25.3509,46.1569],[25.3679,46.1463],[25.3831,46.1384],[25.4275,46.1273],[25.455,46.1061]]]}'),
+  ('92', 'Brăila', 'Județul Brăila', 'BR', ARRAY[27.0628, 44.7578, 28.1778, 45.4932], ARRAY[45.1255, 27.6203], 9, '{"type":"Polygon","coordinates":[[[28.0303,45.3956],[28.0265,45.3864],[28.0237,45.3776],[28.0218,45.348],[28.0208,45.3443],[28.0189,45.341],[28.0104,45.3304],[28.0095,45.3281],[28.0047,45.3128],[28.0,45.3068],[27.9868,45.2925],[28.0416,45.2582],[28.0757,45.2481],[28.1107,45.2582],[28.1173,45.2541],[28.122,45.2499],[28.1267,45.2444],[28.1305,45.2379],[28.1182,45.2245],[28.1031,45.2037],[28.0974,45.1842],[28.1135,45.1755],[28.1324,45.1718],[28.1523,45.1611],[28.1693,45.1477],[28.1778,45.1348],[28.174,45.1218],[28.1627,45.1084],[28.1476,45.0978],[28.1343,45.0936],[28.1315,45.089],[28.1371,45.0566],[28.139,45.0538],[28.1409,45.052],[28.1438,45.0487],[28.1447,45.0427],[28.1428,45.0362],[28.1334,45.0256],[28.1305,45.0187],[28.1409,44.9826],[28.1409,44.9599],[28.1277,44.9497],[28.1239,44.9447],[28.1249,44.9007],[28.1267,44.8956],[28.1249,44.8915],[28.1173,44.8813],[28.0899,44.8559],[28.0804,44.8406],[28.0766,44.817],[28.07,44.7957],[28.0549,44.7772],[28.035,44.7633],[28.0142,44.7578],[27.9953,44.761],[27.965,44.7754],[27.9461,44.7786],[27.9262,44.7777],[27.9111,44.7754],[27.8799,44.7957],[27.8723,44.8036],[27.8553,44.8114],[27.8336,44.8142],[27.7872,44.8105],[27.7655,44.805],[27.7475,44.7985],[27.7248,44.7929],[27.686,44.7869],[27.4127,44.7929],[27.3853,44.8003],[27.373,44.805],[27.3588,44.8068],[27.3418,44.8027],[27.3191,44.7943],[27.2992,44.7939],[27.2831,44.7953],[27.2008,44.8193],[27.1971,44.8262],[27.2037,44.873],[27.1971,44.885],[27.1867,44.8938],[27.1772,44.9003],[27.1744,44.909],[27.1781,44.9183],[27.1904,44.9275],[27.2018,44.9317],[27.2377,44.9382],[27.2462,44.9474],[27.2538,44.9645],[27.2642,45.0015],[27.2689,45.0228],[27.2699,45.039],[27.268,45.0483],[27.2633,45.0547],[27.2547,45.057],[27.2302,45.0566],[27.2179,45.058],[27.2093,45.0617],[27.2056,45.0686],[27.2056,45.0774],[27.2065,45.0973],[27.2056,45.107],[27.1989,45.1144],[27.1914,45.1195],[27.1791,45.1218],[27.1696,45.1255],[27.164,45.1324],[27.163,45.1431],[27.164,45.1634],[27.163,45.1713],[27.1592,45.1787],[27.1526,45.1842],[27.1431,45.1879],[27.1346,45.1879],[27.1252,45.1856],[27.1195,45.1815],[27.1195,45.1745],[27.1186,45.1681],[27.1148,45.162],[27.1063,45.1551],[27.0949,45.1537],[27.0845,45.1551],[27.0788,45.1597],[27.0637,45.187],[27.0628,45.1944],[27.0637,45.2014],[27.0722,45.2097],[27.0873,45.218],[27.1668,45.2379],[27.2141,45.2328],[27.2264,45.2328],[27.2661,45.2416],[27.2793,45.2421],[27.2897,45.2393],[27.2973,45.2356],[27.3049,45.2347],[27.3105,45.2384],[27.3143,45.2532],[27.3096,45.2758],[27.3096,45.286],[27.3162,45.2943],[27.3351,45.2999],[27.3503,45.3003],[27.3654,45.2985],[27.3777,45.3003],[27.3872,45.3087],[27.3947,45.3309],[27.4013,45.3447],[27.4203,45.3674],[27.4231,45.3864],[27.4326,45.4067],[27.4581,45.434],[27.4836,45.4571],[27.5006,45.4687],[27.5205,45.4775],[27.5801,45.4932],[27.6378,45.4756],[27.6728,45.477],[27.6907,45.4793],[27.703,45.477],[27.7116,45.4715],[27.7314,45.4544],[27.7655,45.4331],[27.8203,45.4123],[27.8553,45.4076],[27.9215,45.4095],[27.9452,45.4067],[27.9697,45.4012],[28.0303,45.3956]]]}'),
+  ('109', 'Buzău', 'Județul Buzău', 'BZ', ARRAY[26.0461, 44.7596, 27.4231, 45.8031], ARRAY[45.2814, 26.7346], 9, '{"type":"Polygon","coordinates":[[[27.4231,45.3864],[27.4203,45.3674],[27.4013,45.3447],[27.3947,45.3309],[27.3872,45.3087],[27.3777,45.3003],[27.3654,45.2985],[27.3503,45.3003],[27.3351,45.2999],[27.3162,45.2943],[27.3096,45.286],[27.3096,45.2758],[27.3143,45.2532],[27.3105,45.2384],[27.3049,45.2347],[27.2973,45.2356],[27.2897,45.2393],[27.2793,45.2421],[27.2661,45.2416],[27.2264,45.2328],[27.2141,45.2328],[27.1668,45.2379],[27.0873,45.218],[27.0722,45.2097],[27.0637,45.2014],[27.0628,45.1944],[27.0637,45.187],[27.0788,45.1597],[27.0845,45.1551],[27.0949,45.1537],[27.1063,45.1551],[27.1148,45.162],[27.1186,45.1681],[27.1195,45.1745],[27.1195,45.1815],[27.1252,45.1856],[27.1346,45.1879],[27.1431,45.1879],[27.1526,45.1842],[27.1592,45.1787],[27.163,45.1713],[27.164,45.1634],[27.163,45.1431],[27.164,45.1324],[27.1696,45.1255],[27.1791,45.1218],[27.1914,45.1195],[27.1989,45.1144],[27.2056,45.107],[27.2065,45.0973],[27.2056,45.0774],[27.2056,45.0686],[27.2093,45.0617],[27.2179,45.058],[27.2302,45.0566],[27.2547,45.057],[27.2633,45.0547],[27.268,45.0483],[27.2699,45.039],[27.2689,45.0228],[27.2642,45.0015],[27.2538,44.9645],[27.2462,44.9474],[27.2377,44.9382],[27.2018,44.9317],[27.1904,44.9275],[27.1781,44.9183],[27.1744,44.909],[27.1772,44.9003],[27.1867,44.8938],[27.1971,44.885],[27.2037,44.873],[27.1971,44.8262],[27.2008,44.8193],[27.1791,44.8114],[27.1753,44.8073],[27.1744,44.8013],[27.181,44.7962],[27.1923,44.7911],[27.1989,44.7865],[27.2037,44.7809],[27.1989,44.7768],[27.1895,44.7731],[27.1668,44.7689],[27.1384,44.7606],[27.1318,44.7596],[27.1242,44.7601],[27.1204,44.7629],[27.1186,44.7675],[27.1195,44.7731],[27.1204,44.7791],[27.1214,44.786],[27.1204,44.7929],[27.1148,44.7999],[27.1053,44.8064],[27.0911,44.8128],[27.076,44.8184],[27.0524,44.8235],[27.0363,44.8221],[27.024,44.8165],[27.0145,44.8087],[27.0003,44.8027],[26.9861,44.8027],[26.972,44.8068],[26.9426,44.8202],[26.919,44.8262],[26.9001,44.8267],[26.8651,44.8221],[26.85,44.8221],[26.8386,44.8244],[26.8273,44.8272],[26.7677,44.835],[26.7015,44.8313],[26.6778,44.8323],[26.6599,44.836],[26.6268,44.8572],[26.6041,44.8651],[26.5851,44.8892],[26.5473,44.9164],[26.5426,44.9262],[26.5435,44.9349],[26.5501,44.9428],[26.5681,44.9558],[26.5757,44.9641],[26.5776,44.9775],[26.5728,44.9863],[26.5653,44.9937],[26.5426,45.0094],[26.5341,45.0122],[26.5057,45.0177],[26.4896,45.0247],[26.483,45.0353],[26.4783,45.0501],[26.4764,45.088],[26.4735,45.1019],[26.4688,45.1176],[26.4631,45.1278],[26.4537,45.1371],[26.43,45.1505],[26.4159,45.1616],[26.413,45.1731],[26.4149,45.1829],[26.4168,45.1912],[26.4159,45.1986],[26.4111,45.2004],[26.4026,45.1981],[26.3865,45.1875],[26.379,45.1838],[26.3705,45.1852],[26.36,45.1921],[26.3553,45.2046],[26.3449,45.2101],[26.3336,45.2129],[26.2901,45.2106],[26.2759,45.2125],[26.2617,45.218],[26.2551,45.2254],[26.2513,45.2328],[26.2503,45.2411],[26.2475,45.2522],[26.2371,45.2624],[26.2087,45.2832],[26.204,45.2939],[26.2059,45.3022],[26.2125,45.3091],[26.2135,45.3184],[26.2087,45.3341],[26.1737,45.3864],[26.1605,45.4007],[26.1473,45.4104],[26.1056,45.4317],[26.0461,45.4821],[26.1009,45.5644],[26.1397,45.5728],[26.1889,45.5746],[26.2012,45.5774],[26.2078,45.5834],[26.2116,45.6019],[26.2153,45.6121],[26.2248,45.6227],[26.2343,45.6255],[26.2447,45.6236],[26.2551,45.619],[26.274,45.607],[26.2844,45.6028],[26.3014,45.6019],[26.3194,45.6088],[26.3288,45.6181],[26.3364,45.6412],[26.343,45.6551],[26.3582,45.6727],[26.3667,45.6852],[26.3714,45.6986],[26.3723,45.7097],[26.3771,45.7217],[26.395,45.7499],[26.3969,45.7615],[26.395,45.7726],[26.3894,45.7818],[26.3809,45.8031],[26.4244,45.773],[26.466,45.7309],[26.5322,45.6505],[26.5511,45.6343],[26.5691,45.6246],[26.5974,45.6223],[26.6116,45.6223],[26.623,45.6246],[26.6334,45.6278],[26.6466,45.6278],[26.6693,45.6213],[26.7327,45.5829],[26.7544,45.5635],[26.7894,45.5455],[26.831,45.5284],[26.8433,45.5251],[26.8632,45.5228],[26.8783,45.5191],[26.8878,45.5182],[26.8944,45.5186],[26.8991,45.5219],[26.901,45.526],[26.901,45.5293],[26.901,45.5321],[26.8991,45.5344],[26.8982,45.5381],[26.9001,45.5418],[26.9067,45.545],[26.9228,45.5459],[26.9464,45.5427],[26.9757,45.5334],[26.9928,45.5242],[26.9994,45.5149],[26.9984,45.5066],[26.9994,45.4946],[27.006,45.4816],[27.0325,45.4627],[27.0505,45.4544],[27.0637,45.4507],[27.0769,45.4516],[27.0883,45.4553],[27.1119,45.4645],[27.1242,45.4673],[27.1375,45.4678],[27.1441,45.4641],[27.146,45.4571],[27.1431,45.4391],[27.1469,45.4303],[27.1554,45.4285],[27.1649,45.4312],[27.1734,45.4372],[27.181,45.4437],[27.1914,45.4493],[27.2008,45.4516],[27.2169,45.4493],[27.2283,45.4446],[27.2377,45.4382],[27.2462,45.4363],[27.2642,45.4368],[27.2765,45.4349],[27.2831,45.4298],[27.2869,45.4234],[27.2888,45.4155],[27.2907,45.4076],[27.2983,45.3998],[27.3077,45.3965],[27.3559,45.3868],[27.3777,45.385],[27.4231,45.3864]]]}'),
+  ('118', 'Caraș-Severin', 'Județul Caraș-Severin', 'CS', ARRAY[21.3428, 44.5964, 22.7066, 45.663], ARRAY[45.1297, 22.0247], 9, '{"type":"Polygon","coordinates":[[[22.6687,45.2407],[22.6006,45.1977],[22.5723,45.1708],[22.5647,45.157],[22.5628,45.1468],[22.5656,45.1389],[22.5741,45.1343],[22.5874,45.1311],[22.6252,45.1297],[22.6347,45.1274],[22.6413,45.1218],[22.647,45.1135],[22.6413,45.0922],[22.5987,45.0603],[22.5666,45.0237],[22.559,45.0094],[22.5552,44.9974],[22.5533,44.9867],[22.5505,44.9733],[22.5448,44.9576],[22.5335,44.934],[22.4919,44.8845],[22.4673,44.8392],[22.4512,44.7916],[22.4417,44.7694],[22.4313,44.7583],[22.4209,44.7522],[22.4067,44.7504],[22.3954,44.7509],[22.3878,44.7536],[22.3831,44.7583],[22.3765,44.7689],[22.3699,44.7731],[22.3632,44.7763],[22.3538,44.7777],[22.3216,44.7772],[22.3112,44.7777],[22.3037,44.78],[22.297,44.7837],[22.263,44.8082],[22.2535,44.8119],[22.2431,44.8133],[22.228,44.8114],[22.2223,44.8064],[22.2185,44.799],[22.2185,44.7906],[22.2138,44.7777],[22.2053,44.7615],[22.1826,44.7337],[22.1722,44.7171],[22.1656,44.7023],[22.1618,44.6907],[22.1599,44.6773],[22.1608,44.6644],[22.1684,44.6473],[22.1731,44.6338],[22.1741,44.6214],[22.1694,44.6089],[22.1608,44.6019],[22.1495,44.5978],[22.1391,44.5964],[22.1268,44.5968],[22.1022,44.6019],[22.089,44.6033],[22.0587,44.5992],[22.0341,44.5964],[22.0322,44.6033],[22.0038,44.6514],[21.9944,44.6584],[21.9622,44.6625],[21.8724,44.6958],[21.8554,44.6986],[21.8383,44.6954],[21.8015,44.6838],[21.757,44.6773],[21.705,44.6769],[21.6567,44.6875],[21.6199,44.7139],[21.6104,44.7319],[21.6047,44.7499],[21.5953,44.7661],[21.5782,44.7777],[21.5584,44.7818],[21.4969,44.7781],[21.4118,44.7846],[21.3957,44.7902],[21.3787,44.8165],[21.3607,44.8262],[21.3598,44.8267],[21.3428,44.8318],[21.3465,44.8457],[21.356,44.8568],[21.3683,44.8646],[21.3957,44.8716],[21.4534,44.8697],[21.4818,44.8725],[21.5224,44.8808],[21.5366,44.8892],[21.5395,44.9086],[21.531,44.9248],[21.5168,44.934],[21.4818,44.9437],[21.4562,44.9525],[21.408,44.9585],[21.3853,44.9696],[21.3844,44.9747],[21.3872,44.9817],[21.3844,44.9867],[21.3673,44.9872],[21.3532,44.99],[21.3513,44.9983],[21.356,45.0085],[21.3636,45.0163],[21.373,45.02],[21.3986,45.0214],[21.409,45.0237],[21.4222,45.0316],[21.425,45.0362],[21.426,45.0432],[21.4298,45.0575],[21.4326,45.0617],[21.4411,45.0686],[21.444,45.0728],[21.444,45.0779],[21.444,45.0853],[21.444,45.0913],[21.4421,45.0931],[21.4496,45.101],[21.4581,45.1075],[21.4685,45.1112],[21.4818,45.1116],[21.4941,45.1195],[21.4979,45.132],[21.4931,45.1449],[21.4846,45.1528],[21.5035,45.1602],[21.5215,45.1773],[21.5272,45.1852],[21.5319,45.1953],[21.5319,45.2051],[21.5272,45.2328],[21.5272,45.243],[21.53,45.2508],[21.5499,45.2684],[21.5537,45.2744],[21.5537,45.28],[21.5508,45.2902],[21.5499,45.2957],[21.5508,45.3017],[21.5499,45.3087],[21.547,45.3165],[21.5414,45.3235],[21.5338,45.3299],[21.5139,45.3406],[21.4799,45.366],[21.4742,45.3739],[21.4714,45.3827],[21.4704,45.391],[21.4733,45.3993],[21.4827,45.4132],[21.4875,45.422],[21.4875,45.4308],[21.4856,45.4414],[21.4856,45.4497],[21.495,45.4585],[21.513,45.4696],[21.5546,45.4863],[21.5688,45.4964],[21.5764,45.5066],[21.5764,45.5159],[21.5782,45.5274],[21.582,45.5385],[21.5915,45.5487],[21.6095,45.557],[21.6378,45.564],[21.669,45.564],[21.6851,45.5612],[21.704,45.5529],[21.7267,45.5483],[21.7381,45.5446],[21.7485,45.5399],[21.7608,45.5284],[21.7683,45.5237],[21.7863,45.5237],[21.8109,45.5279],[21.8573,45.5427],[21.8922,45.5589],[21.9026,45.5603],[21.9168,45.557],[21.9263,45.5515],[21.9339,45.5436],[21.9433,45.527],[21.949,45.5196],[21.9556,45.5126],[21.9641,45.5075],[21.9755,45.5038],[21.9887,45.5025],[22.0076,45.5043],[22.0275,45.5099],[22.053,45.5223],[22.0596,45.5284],[22.0587,45.5321],[22.0445,45.533],[22.0398,45.5339],[22.036,45.5362],[22.0332,45.5413],[22.0322,45.5529],[22.0294,45.5594],[22.0303,45.5649],[22.0369,45.5686],[22.0719,45.5681],[22.0946,45.5709],[22.1154,45.576],[22.141,45.5876],[22.1665,45.6038],[22.1769,45.6065],[22.1902,45.6047],[22.1977,45.6005],[22.21,45.5908],[22.2166,45.588],[22.2252,45.5871],[22.2393,45.588],[22.2488,45.5871],[22.2573,45.5857],[22.2639,45.5862],[22.2706,45.5894],[22.298,45.6297],[22.3349,45.6482],[22.4455,45.663],[22.454,45.6398],[22.4833,45.6116],[22.4966,45.6051],[22.5108,45.6014],[22.5231,45.6005],[22.5373,45.5973],[22.542,45.5927],[22.5429,45.5857],[22.541,45.5779],[22.542,45.57],[22.5477,45.5672],[22.5562,45.5672],[22.5656,45.5686],[22.576,45.5672],[22.5827,45.5621],[22.5883,45.5543],[22.6006,45.5469],[22.6205,45.5385],[22.6536,45.52],[22.6687,45.5066],[22.6782,45.4927],[22.6905,45.4631],[22.6933,45.4516],[22.6943,45.4405],[22.6943,45.4298],[22.698,45.4132],[22.6961,45.4035],[22.6914,45.3938],[22.6791,45.3804],[22.6753,45.3739],[22.6772,45.3651],[22.6848,45.3554],[22.698,45.342],[22.7037,45.3318],[22.7066,45.3225],[22.7066,45.3142],[22.7047,45.3068],[22.699,45.2985],[22.6772,45.2754],[22.6725,45.267],[22.6697,45.2596],[22.6687,45.2407]]]}'),
+  ('127', 'Cluj', 'Județul Cluj', 'CJ', ARRAY[22.6659, 46.4002, 24.2387, 47.3331], ARRAY[46.8666, 23.4523], 9, '{"type":"Polygon","coordinates":[[[24.0079,47.3248],[23.9985,47.2961],[23.9881,47.2846],[23.9748,47.2739],[23.9417,47.2559],[23.936,47.2457],[23.936,47.2337],[23.9398,47.2231],[23.9512,47.1675],[23.955,47.1555],[23.9625,47.1458],[23.9729,47.1375],[23.9862,47.1324],[24.0429,47.1218],[24.0581,47.1153],[24.0789,47.1019],[24.0893,47.0968],[24.112,47.0898],[24.1271,47.0824],[24.1413,47.0681],[24.1451,47.0556],[24.1441,47.0431],[24.1394,47.0306],[24.1366,47.0177],[24.1356,47.0029],[24.1432,46.9964],[24.1611,46.9876],[24.163,46.9816],[24.1611,46.9742],[24.1592,46.9664],[24.1611,46.9548],[24.1678,46.9465],[24.1801,46.94],[24.215,46.927],[24.234,46.9127],[24.2387,46.8993],[24.2368,46.8836],[24.2311,46.8692],[24.2245,46.8281],[24.2188,46.8156],[24.1971,46.7846],[24.1668,46.7823],[24.1574,46.7758],[24.146,46.7661],[24.1091,46.7166],[24.1044,46.7055],[24.1044,46.6967],[24.111,46.6898],[24.1195,46.6819],[24.1261,46.6717],[24.1271,46.6546],[24.1205,46.644],[24.111,46.6375],[24.0751,46.6329],[24.0618,46.6292],[24.0458,46.6176],[24.0363,46.6037],[24.025,46.5825],[24.0231,46.5714],[24.0259,46.5621],[24.0306,46.5538],[24.0344,46.5455],[24.0325,46.5344],[24.0259,46.5288],[24.0051,46.5191],[23.9918,46.5098],[23.972,46.4886],[23.9673,46.4765],[23.9729,46.4654],[23.9956,46.4497],[23.9881,46.4423],[23.971,46.4368],[23.9578,46.4368],[23.8963,46.4506],[23.8755,46.452],[23.8396,46.446],[23.8235,46.4446],[23.7791,46.4455],[23.7696,46.4437],[23.7497,46.4377],[23.7384,46.4358],[23.6911,46.4354],[23.6797,46.4335],[23.6741,46.4289],[23.6731,46.4224],[23.676,46.4159],[23.6779,46.409],[23.676,46.4035],[23.6693,46.4002],[23.6552,46.4007],[23.6391,46.4044],[23.6183,46.4141],[23.6107,46.4243],[23.6088,46.4331],[23.6145,46.4409],[23.623,46.4492],[23.6306,46.459],[23.6296,46.4668],[23.6239,46.4724],[23.6126,46.4751],[23.5804,46.4733],[23.5615,46.4738],[23.5398,46.4765],[23.4906,46.4904],[23.4348,46.5191],[23.4206,46.5242],[23.4036,46.527],[23.3033,46.514],[23.2674,46.4946],[23.257,46.4881],[23.2475,46.4839],[23.2352,46.483],[23.2182,46.4844],[23.1728,46.4946],[23.1539,46.4946],[23.1444,46.4918],[23.1028,46.4747],[23.0953,46.4691],[23.0849,46.4585],[23.0773,46.4553],[23.0707,46.4562],[23.0631,46.4631],[23.0612,46.4701],[23.0593,46.4816],[23.0546,46.4872],[23.0461,46.4927],[23.0338,46.4987],[23.0253,46.5048],[23.0196,46.5112],[23.0111,46.5251],[22.9969,46.5311],[22.9742,46.5357],[22.8333,46.5381],[22.803,46.557],[22.804,46.5945],[22.8077,46.6195],[22.803,46.6273],[22.7936,46.6338],[22.7832,46.6389],[22.7737,46.6444],[22.7642,46.6569],[22.7472,46.7036],[22.734,46.7245],[22.7207,46.7388],[22.681,46.7638],[22.6687,46.7753],[22.6659,46.7846],[22.6678,46.7924],[22.6734,46.7998],[22.682,46.8068],[22.6933,46.8123],[22.7302,46.8234],[22.7387,46.8285],[22.7463,46.835],[22.751,46.8433],[22.7567,46.8544],[22.7614,46.866],[22.7661,46.8845],[22.7605,46.8947],[22.7482,46.9021],[22.6971,46.9155],[22.6886,46.9201],[22.6867,46.927],[22.6895,46.9363],[22.7122,46.9654],[22.7198,46.9793],[22.7311,46.9761],[22.8503,46.9747],[22.8683,46.9724],[22.8796,46.9687],[22.8891,46.9627],[22.8966,46.9534],[22.9137,46.9233],[22.9241,46.9104],[22.9345,46.9021],[22.9468,46.8984],[22.9846,46.896],[22.9941,46.8937],[23.0007,46.8896],[23.0054,46.884],[23.0111,46.8789],[23.0187,46.8757],[23.0281,46.8752],[23.0499,46.8785],[23.0622,46.8785],[23.0735,46.8771],[23.0839,46.8743],[23.099,46.872],[23.1161,46.8738],[23.1359,46.8785],[23.1501,46.8803],[23.1615,46.8799],[23.1842,46.8738],[23.1965,46.8743],[23.2059,46.878],[23.2088,46.8863],[23.2069,46.8947],[23.2069,46.9025],[23.2097,46.9099],[23.2239,46.9284],[23.2305,46.9354],[23.2428,46.9367],[23.2504,46.9326],[23.257,46.9252],[23.2636,46.9099],[23.2693,46.9053],[23.2778,46.9034],[23.2986,46.9081],[23.309,46.9085],[23.3175,46.9067],[23.3241,46.9016],[23.3308,46.896],[23.3374,46.8914],[23.3468,46.8919],[23.3563,46.896],[23.3648,46.9104],[23.3648,46.9192],[23.361,46.9284],[23.3506,46.9358],[23.3412,46.9437],[23.3374,46.9525],[23.3421,46.959],[23.3563,46.9636],[23.3667,46.9636],[23.3837,46.9594],[23.3894,46.9608],[23.3932,46.9738],[23.3979,46.9798],[23.4093,46.9844],[23.4216,46.9858],[23.4442,46.9849],[23.4575,46.9858],[23.4717,46.9886],[23.4821,46.995],[23.4859,47.0043],[23.484,47.0121],[23.4755,47.0343],[23.4707,47.0408],[23.4565,47.0528],[23.4537,47.0593],[23.4547,47.0658],[23.4603,47.0709],[23.4802,47.075],[23.4868,47.0778],[23.4887,47.0829],[23.4953,47.0945],[23.5029,47.1037],[23.5038,47.1125],[23.5057,47.1204],[23.5095,47.1268],[23.5549,47.1393],[23.5776,47.15],[23.5908,47.1523],[23.6022,47.1518],[23.6126,47.149],[23.6221,47.149],[23.6306,47.1532],[23.6372,47.1657],[23.6466,47.1777],[23.6618,47.1897],[23.6968,47.2027],[23.7299,47.2096],[23.7885,47.2143],[23.8036,47.2184],[23.8122,47.2272],[23.8112,47.2466],[23.8159,47.2656],[23.8207,47.2776],[23.8273,47.2864],[23.8292,47.2943],[23.8282,47.3008],[23.8131,47.3165],[23.8415,47.3331],[24.0079,47.3248]]]}'),
+  ('136', 'Constanța', 'Județul Constanța', 'CT', ARRAY[27.2529, 43.7352, 28.9874, 44.7828], ARRAY[44.259, 28.1202], 9, '{"type":"Polygon","coordinates":[[[28.785,44.6796],[28.7812,44.6653],[28.7841,44.6491],[28.7926,44.6449],[28.8455,44.6514],[28.8692,44.6616],[28.8909,44.6773],[28.9117,44.6963],[28.8975,44.7166],[28.9675,44.7009],[28.9836,44.6926],[28.9874,44.6755],[28.9789,44.6551],[28.9619,44.6394],[28.9392,44.6343],[28.9562,44.651],[28.9723,44.6704],[28.9751,44.687],[28.9524,44.6963],[28.9524,44.6889],[28.96,44.6819],[28.9581,44.6787],[28.9392,44.6755],[28.924,44.6819],[28.9184,44.6829],[28.9136,44.6801],[28.9098,44.675],[28.9042,44.6685],[28.8852,44.6579],[28.854,44.6343],[28.8361,44.6274],[28.7878,44.6098],[28.7746,44.601],[28.7916,44.6237],[28.7945,44.6343],[28.7803,44.6357],[28.767,44.6338],[28.7576,44.6269],[28.7538,44.614],[28.767,44.614],[28.7604,44.6038],[28.7642,44.5959],[28.7746,44.5904],[28.7878,44.5867],[28.7481,44.5779],[28.733,44.5677],[28.733,44.5524],[28.7368,44.5571],[28.7443,44.5621],[28.7472,44.5658],[28.7614,44.5603],[28.7746,44.5524],[28.7661,44.539],[28.7538,44.5136],[28.7453,44.4863],[28.75,44.4669],[28.7585,44.4655],[28.7661,44.4724],[28.7718,44.4835],[28.7784,44.5076],[28.7878,44.5154],[28.8086,44.5251],[28.838,44.5538],[28.8559,44.5677],[28.8739,44.5732],[28.8928,44.5769],[28.9061,44.5876],[28.9146,44.6015],[28.925,44.6204],[28.9184,44.601],[28.9098,44.5843],[28.8436,44.4937],[28.7963,44.4678],[28.7065,44.3808],[28.6961,44.3582],[28.6933,44.3461],[28.68,44.3535],[28.6639,44.3485],[28.6516,44.3401],[28.6412,44.3286],[28.6356,44.3165],[28.6327,44.3022],[28.6308,44.2643],[28.6356,44.2518],[28.6516,44.231],[28.6649,44.1991],[28.6677,44.1843],[28.6649,44.1755],[28.6715,44.1685],[28.6583,44.1746],[28.646,44.1722],[28.6365,44.1644],[28.6308,44.1547],[28.6375,44.1357],[28.6545,44.0548],[28.6715,44.0034],[28.6715,43.9974],[28.6687,43.9891],[28.6602,43.9798],[28.6554,43.9613],[28.6412,43.9322],[28.6375,43.9188],[28.6138,43.8841],[28.6091,43.8744],[28.594,43.8193],[28.5873,43.8101],[28.5845,43.8008],[28.5892,43.7911],[28.5845,43.7823],[28.5826,43.7722],[28.5817,43.7615],[28.5826,43.7509],[28.5788,43.7412],[28.4341,43.7352],[28.2213,43.762],[28.0151,43.83],[27.9811,43.8494],[27.9357,43.9646],[27.9121,43.9932],[27.8563,43.9886],[27.7872,43.9604],[27.722,43.9488],[27.6822,43.9872],[27.6766,43.9937],[27.6567,44.0238],[27.6331,44.0298],[27.5744,44.0164],[27.3834,44.015],[27.373,44.0205],[27.3531,44.045],[27.3418,44.0529],[27.285,44.0723],[27.2642,44.0899],[27.2689,44.1126],[27.2529,44.1214],[27.2529,44.1218],[27.2651,44.1348],[27.2774,44.1426],[27.2926,44.1514],[27.4448,44.1343],[27.4609,44.1376],[27.4817,44.1459],[27.4997,44.1561],[27.5073,44.1653],[27.5158,44.1727],[27.5687,44.1954],[27.6075,44.2055],[27.6917,44.2046],[27.7333,44.2097],[27.7532,44.219],[27.7891,44.2398],[27.9338,44.2661],[27.9679,44.2805],[27.9934,44.3045],[28.0227,44.3549],[28.0482,44.3984],[28.0577,44.4058],[28.0984,44.4303],[28.1107,44.4428],[28.1088,44.4576],[28.1022,44.4784],[28.0936,44.4969],[28.0861,44.5048],[28.0672,44.5071],[28.0426,44.5136],[28.0199,44.5224],[28.0076,44.5321],[28.0038,44.5399],[28.0151,44.5432],[28.0218,44.5524],[28.0218,44.588],[28.0284,44.5982],[28.0341,44.6218],[28.035,44.6311],[28.0312,44.6371],[27.9783,44.6792],[27.9603,44.6866],[27.9357,44.6889],[27.9168,44.6944],[27.8988,44.7083],[27.8846,44.7259],[27.8771,44.7444],[27.8837,44.7578],[27.895,44.7689],[27.9111,44.7754],[27.9262,44.7777],[27.9461,44.7786],[27.965,44.7754],[27.9953,44.761],[28.0142,44.7578],[28.035,44.7633],[28.0549,44.7772],[28.1457,44.7828],[28.1958,44.768],[28.2393,44.7393],[28.2818,44.7106],[28.3254,44.7176],[28.3471,44.761],[28.4048,44.761],[28.4549,44.7176],[28.5268,44.6963],[28.6062,44.6963],[28.6706,44.7106],[28.7283,44.6889],[28.785,44.6796]]]}'),
+  ('145', 'Covasna', 'Județul Covasna', 'CV', ARRAY[25.4483, 45.5644, 26.4849, 46.2929], ARRAY[45.9287, 25.9666], 9, '{"type":"Polygon","coordinates":[[[26.2513,46.1505],[26.2929,46.1602],[26.3251,46.1791],[26.3336,46.1805],[26.3421,46.1777],[26.3553,46.1657],[26.3629,46.1606],[26.3998,46.1444],[26.4102,46.1361],[26.4149,46.1278],[26.413,46.1213],[26.3988,46.1102],[26.396,46.1033],[26.4026,46.0945],[26.4215,46.0876],[26.4319,46.0815],[26.4404,46.0746],[26.4461,46.0658],[26.4556,46.0445],[26.4612,46.0353],[26.4679,46.0274],[26.4849,46.0214],[26.4206,45.9506],[26.4045,45.9173],[26.4036,45.9025],[26.3894,45.8521],[26.3809,45.8031],[26.3894,45.7818],[26.395,45.7726],[26.3969,45.7615],[26.395,45.7499],[26.3771,45.7217],[26.3723,45.7097],[26.3714,45.6986],[26.3667,45.6852],[26.3582,45.6727],[26.343,45.6551],[26.3364,45.6412],[26.3288,45.6181],[26.3194,45.6088],[26.3014,45.6019],[26.2844,45.6028],[26.274,45.607],[26.2551,45.619],[26.2447,45.6236],[26.2343,45.6255],[26.2248,45.6227],[26.2153,45.6121],[26.2116,45.6019],[26.2078,45.5834],[26.2012,45.5774],[26.1889,45.5746],[26.1397,45.5728],[26.1009,45.5644],[26.0792,45.5802],[26.0479,45.6139],[26.029,45.6255],[26.0101,45.6334],[25.9903,45.6389],[25.9808,45.6449],[25.9647,45.6667],[25.9496,45.6842],[25.9193,45.7055],[25.8947,45.718],[25.802,45.7425],[25.7841,45.749],[25.7689,45.7652],[25.7633,45.7592],[25.7472,45.7568],[25.733,45.7527],[25.7188,45.7518],[25.7046,45.7592],[25.6971,45.7541],[25.6895,45.7518],[25.6706,45.7518],[25.6687,45.7851],[25.6375,45.8082],[25.5675,45.841],[25.558,45.8544],[25.5543,45.8697],[25.5524,45.9349],[25.5543,45.9571],[25.5609,45.9705],[25.5609,45.9784],[25.558,45.9881],[25.5713,46.0214],[25.5675,46.039],[25.5552,46.0455],[25.5344,46.0496],[25.5145,46.0492],[25.506,46.0427],[25.4928,46.0552],[25.4597,46.0728],[25.4512,46.0834],[25.4483,46.0922],[25.455,46.1061],[25.4795,46.1403],[25.4843,46.1444],[25.4937,46.1505],[25.4928,46.1592],[25.4975,46.1653],[25.5334,46.1925],[25.5543,46.2032],[25.5694,46.2147],[25.6053,46.2513],[25.6214,46.2615],[25.6545,46.2763],[25.6668,46.2851],[25.6782,46.2911],[25.6914,46.2929],[25.7065,46.2869],[25.733,46.2707],[25.7444,46.2629],[25.751,46.2541],[25.7538,46.2448],[25.7557,46.2356],[25.7585,46.2258],[25.7831,46.1916],[25.7888,46.1828],[25.7954,46.1754],[25.8361,46.1532],[25.8446,46.1454],[25.8531,46.1357],[25.8711,46.1255],[25.8985,46.1158],[25.9921,46.1107],[26.2513,46.1505]]]}'),
+  ('154', 'Dâmbovița', 'Județul Dâmbovița', 'DB', ARRAY[25.1627, 44.4308, 26.029, 45.4525], ARRAY[44.9416, 25.5958], 9, '{"type":"Polygon","coordinates":[[[26.029,44.7384],[26.0035,44.7171],[25.9912,44.7102],[25.9846,44.7004],[25.9817,44.6898],[25.9751,44.6833],[25.9543,44.6722],[25.9496,44.6658],[25.9496,44.6597],[25.9543,44.6542],[25.9884,44.6454],[25.9921,44.6375],[25.9874,44.6288],[25.978,44.619],[25.9297,44.5793],[25.907,44.5658],[25.5987,44.5529],[25.5713,44.5469],[25.5514,44.5395],[25.5401,44.5312],[25.5136,44.5057],[25.4881,44.5076],[25.4323,44.5265],[25.4096,44.5293],[25.3963,44.5279],[25.3906,44.5242],[25.3906,44.5182],[25.3982,44.508],[25.3982,44.502],[25.3935,44.4965],[25.3802,44.4854],[25.3746,44.4794],[25.3594,44.4604],[25.3481,44.4493],[25.3282,44.4359],[25.3112,44.4317],[25.2998,44.4308],[25.2781,44.4373],[25.2998,44.465],[25.3036,44.484],[25.3008,44.4914],[25.297,44.4997],[25.2942,44.509],[25.2923,44.5224],[25.298,44.5321],[25.3159,44.5566],[25.3169,44.5658],[25.3131,44.5732],[25.3055,44.5774],[25.2961,44.5802],[25.2734,44.583],[25.263,44.5857],[25.2544,44.5899],[25.227,44.6093],[25.2166,44.619],[25.1911,44.6547],[25.1873,44.6671],[25.192,44.6755],[25.2147,44.6856],[25.2185,44.6903],[25.21,44.6972],[25.1986,44.7037],[25.1845,44.7157],[25.1826,44.7273],[25.1854,44.7388],[25.2005,44.7583],[25.2053,44.767],[25.2072,44.7777],[25.2157,44.8596],[25.2128,44.8753],[25.1968,44.9294],[25.1949,44.9493],[25.1968,44.9655],[25.2024,44.9747],[25.2308,44.9978],[25.2355,45.0066],[25.2355,45.0159],[25.2308,45.0284],[25.2195,45.0478],[25.1873,45.0732],[25.1741,45.0904],[25.1627,45.1297],[25.1637,45.1491],[25.1693,45.1625],[25.1741,45.1685],[25.1845,45.1866],[25.1892,45.1912],[25.1949,45.194],[25.2015,45.193],[25.2081,45.1884],[25.2195,45.175],[25.227,45.1704],[25.2355,45.1685],[25.245,45.1699],[25.2535,45.1745],[25.263,45.1819],[25.2705,45.1921],[25.28,45.2083],[25.2875,45.2291],[25.2894,45.2522],[25.2942,45.2684],[25.2998,45.2814],[25.3074,45.2925],[25.3225,45.3105],[25.3292,45.3212],[25.3339,45.3378],[25.3339,45.3494],[25.3301,45.3595],[25.3254,45.3688],[25.3093,45.3887],[25.3698,45.3993],[25.3887,45.416],[25.3944,45.4266],[25.4029,45.4391],[25.4096,45.4456],[25.4294,45.4525],[25.4483,45.3896],[25.455,45.3452],[25.4597,45.3332],[25.4663,45.3244],[25.4758,45.3188],[25.4862,45.3142],[25.4956,45.3087],[25.506,45.3003],[25.5183,45.2869],[25.524,45.2749],[25.5268,45.2652],[25.5268,45.2569],[25.5249,45.2374],[25.5259,45.2236],[25.541,45.2051],[25.5495,45.1972],[25.5609,45.1893],[25.5722,45.1778],[25.6271,45.1024],[25.6687,45.0695],[25.6772,45.0589],[25.681,45.0478],[25.6867,45.0052],[25.6952,44.9807],[25.7027,44.9673],[25.7113,44.9567],[25.7217,44.9502],[25.7311,44.9465],[25.7434,44.9437],[25.7548,44.9433],[25.7661,44.9451],[25.7746,44.9479],[25.7822,44.9488],[25.7907,44.9465],[25.8002,44.9382],[25.8134,44.922],[25.8181,44.9081],[25.8191,44.8938],[25.8153,44.8799],[25.8134,44.8651],[25.8172,44.8471],[25.8257,44.8374],[25.8361,44.8318],[25.8834,44.8267],[25.8995,44.823],[25.9155,44.8156],[25.9846,44.7555],[25.9969,44.7481],[26.0167,44.7402],[26.029,44.7384]]]}'),
+  ('163', 'Dolj', 'Județul Dolj', 'DJ', ARRAY[22.8503, 43.7546, 24.2935, 44.7347], ARRAY[44.2447, 23.5719], 9, '{"type":"Polygon","coordinates":[[[23.7753,44.7226],[23.7828,44.6991],[23.7838,44.6912],[23.7885,44.6819],[23.7961,44.675],[23.814,44.6676],[23.8292,44.6625],[23.8623,44.6477],[23.8727,44.6417],[23.8812,44.6329],[23.902,44.5834],[23.9133,44.5682],[23.9294,44.5506],[23.9578,44.5298],[23.92,44.4979],[23.9067,44.4803],[23.9048,44.4729],[23.9058,44.4655],[23.9105,44.4581],[23.919,44.4511],[23.9587,44.4345],[23.9691,44.4266],[23.9956,44.3989],[24.0041,44.3929],[24.0136,44.3896],[24.0259,44.3882],[24.0382,44.3836],[24.0524,44.373],[24.0656,44.3531],[24.077,44.3406],[24.0893,44.3309],[24.111,44.3179],[24.1214,44.3096],[24.1299,44.2985],[24.1384,44.2837],[24.1488,44.2726],[24.1592,44.2638],[24.1952,44.2472],[24.2207,44.2398],[24.2321,44.2338],[24.251,44.2194],[24.2567,44.2102],[24.2567,44.2023],[24.2529,44.1954],[24.2482,44.1875],[24.2463,44.1746],[24.2482,44.1598],[24.2557,44.1352],[24.2765,44.1084],[24.2765,44.1024],[24.2699,44.0996],[24.2586,44.101],[24.2463,44.1033],[24.2359,44.1047],[24.2264,44.1038],[24.2207,44.101],[24.216,44.0968],[24.215,44.0918],[24.215,44.0793],[24.2113,44.0645],[24.2075,44.0566],[24.2046,44.046],[24.2065,44.0395],[24.2122,44.0335],[24.2207,44.0298],[24.2292,44.0284],[24.2604,44.0275],[24.2737,44.0247],[24.2869,44.0168],[24.2917,44.0076],[24.2935,43.9974],[24.2917,43.9886],[24.2888,43.9821],[24.269,43.9743],[24.2604,43.9692],[24.2548,43.9604],[24.2567,43.9525],[24.2708,43.9354],[24.2737,43.9271],[24.2718,43.9197],[24.2595,43.8924],[24.2538,43.8859],[24.2396,43.8785],[24.2368,43.8739],[24.234,43.8623],[24.2292,43.8568],[24.2113,43.8462],[24.2046,43.8392],[24.1498,43.755],[24.1498,43.7546],[23.7999,43.8184],[23.7431,43.8429],[23.7204,43.8457],[23.6362,43.8323],[23.6211,43.8341],[23.5927,43.8374],[23.4849,43.8804],[23.3251,43.8864],[23.2343,43.8771],[23.1974,43.8628],[23.1615,43.8573],[23.1321,43.848],[23.0527,43.8429],[22.9193,43.8341],[22.8891,43.8397],[22.8635,43.8554],[22.8513,43.8744],[22.8503,43.897],[22.8749,43.972],[22.8862,43.9946],[22.9061,44.0039],[22.9269,44.0062],[22.9666,44.0154],[22.9884,44.0178],[23.0234,44.0316],[23.0404,44.0622],[23.0309,44.0931],[23.0083,44.1005],[23.0905,44.1621],[23.1217,44.1685],[23.1321,44.1676],[23.1397,44.1709],[23.1435,44.1829],[23.1435,44.1944],[23.1397,44.2069],[23.1331,44.2231],[23.1312,44.2361],[23.134,44.2472],[23.1558,44.2795],[23.1586,44.2879],[23.1634,44.3133],[23.1681,44.3309],[23.1738,44.3434],[23.1823,44.3522],[23.2352,44.3744],[23.2485,44.3753],[23.2683,44.3725],[23.274,44.3744],[23.2759,44.3808],[23.2731,44.3864],[23.2674,44.3906],[23.2598,44.3938],[23.2494,44.3952],[23.2286,44.397],[23.2173,44.3984],[23.2097,44.403],[23.2059,44.4091],[23.2059,44.4165],[23.2135,44.4377],[23.2144,44.4461],[23.2192,44.4516],[23.2267,44.4567],[23.2466,44.4613],[23.2617,44.4669],[23.275,44.4775],[23.2816,44.4854],[23.2882,44.4923],[23.3099,44.5057],[23.3099,44.5099],[23.3043,44.5117],[23.2948,44.5131],[23.2873,44.5154],[23.291,44.5187],[23.3043,44.5233],[23.3667,44.5265],[23.379,44.5321],[23.3951,44.5367],[23.4206,44.5409],[23.4755,44.539],[23.4896,44.5501],[23.5814,44.5968],[23.676,44.6181],[23.7233,44.62],[23.7318,44.6237],[23.7365,44.6292],[23.7374,44.6371],[23.7365,44.644],[23.7346,44.6505],[23.7327,44.6565],[23.7327,44.6625],[23.7365,44.6778],[23.7374,44.6889],[23.7365,44.6981],[23.7337,44.7069],[23.7327,44.7143],[23.7327,44.7208],[23.7355,44.7291],[23.7403,44.7333],[23.7459,44.7347],[23.7526,44.7337],[23.7658,44.73],[23.7753,44.7226]]]}'),
+  ('172', 'Galați', 'Județul Galați', 'GL', ARRAY[27.25, 45.3956, 28.2147, 46.1273], ARRAY[45.7614, 27.7324], 10, '{"type":"Polygon","coordinates":[[[28.1078,46.0959],[28.1012,46.082],[28.0927,46.0783],[28.0899,46.0732],[28.0908,46.0681],[28.0965,46.0649],[28.0965,46.0598],[28.0842,46.0247],[28.0823,46.0149],[28.0861,46.0006],[28.1107,45.9506],[28.1126,45.9391],[28.1144,45.9331],[28.1211,45.9261],[28.1249,45.9183],[28.123,45.9109],[28.1192,45.903],[28.1173,45.8951],[28.1201,45.8877],[28.1296,45.8753],[28.1315,45.8716],[28.1286,45.8665],[28.1154,45.8595],[28.1107,45.8544],[28.1135,45.8253],[28.1286,45.7952],[28.1466,45.7712],[28.1551,45.7619],[28.1636,45.6616],[28.1617,45.6454],[28.1684,45.6324],[28.1542,45.6273],[28.1211,45.6278],[28.1078,45.6246],[28.0908,45.6158],[28.0747,45.6047],[28.0624,45.5936],[28.1182,45.5728],[28.1409,45.5603],[28.158,45.539],[28.1617,45.5325],[28.1636,45.5307],[28.1655,45.5284],[28.1655,45.4946],[28.1731,45.4844],[28.1996,45.4618],[28.2128,45.4502],[28.2147,45.4502],[28.2138,45.4488],[28.1996,45.4368],[28.1958,45.4289],[28.1948,45.4234],[28.1911,45.4169],[28.1873,45.4146],[28.1816,45.4132],[28.1712,45.4146],[28.1419,45.4243],[28.1249,45.428],[28.1154,45.428],[28.105,45.4266],[28.0615,45.416],[28.0511,45.415],[28.0435,45.4113],[28.0303,45.3956],[27.9697,45.4012],[27.9452,45.4067],[27.9215,45.4095],[27.8553,45.4076],[27.8203,45.4123],[27.7655,45.4331],[27.7314,45.4544],[27.7116,45.4715],[27.703,45.477],[27.6907,45.4793],[27.6728,45.477],[27.6378,45.4756],[27.5801,45.4932],[27.5536,45.5136],[27.5432,45.5251],[27.5252,45.5603],[27.5224,45.5677],[27.5233,45.5774],[27.5224,45.5885],[27.5139,45.6107],[27.5063,45.6246],[27.4959,45.6361],[27.4742,45.6514],[27.4675,45.6588],[27.4628,45.6653],[27.4571,45.6713],[27.4467,45.6764],[27.4203,45.6861],[27.4108,45.6926],[27.3853,45.7185],[27.3786,45.7282],[27.372,45.7402],[27.3663,45.755],[27.2595,45.9428],[27.25,45.9691],[27.251,45.9909],[27.2538,46.0024],[27.2614,46.0122],[27.2699,46.02],[27.2841,46.0302],[27.3087,46.0519],[27.3304,46.0654],[27.3493,46.0728],[27.3777,46.0769],[27.4117,46.0783],[27.4288,46.082],[27.4448,46.0926],[27.4543,46.1019],[27.4666,46.1093],[27.4761,46.1139],[27.5328,46.1167],[27.5678,46.0839],[27.5801,46.0663],[27.5895,46.0376],[27.6018,46.0126],[27.6104,46.0015],[27.6208,45.9964],[27.6274,45.9974],[27.6331,46.0006],[27.6368,46.0048],[27.6387,46.0108],[27.6387,46.026],[27.6444,46.0529],[27.6444,46.0621],[27.6416,46.0714],[27.6359,46.0806],[27.6151,46.1074],[27.6141,46.1153],[27.6179,46.1218],[27.6312,46.1273],[27.8033,46.113],[27.8184,46.1088],[27.8269,46.1028],[27.8269,46.095],[27.8288,46.0876],[27.8354,46.082],[27.8459,46.082],[27.8544,46.0857],[27.861,46.0922],[27.8704,46.1061],[27.878,46.1144],[27.8884,46.1199],[27.9035,46.125],[27.9177,46.125],[27.9934,46.1079],[28.0303,46.094],[28.0558,46.0899],[28.0709,46.0894],[28.104,46.0945],[28.1069,46.0959],[28.1078,46.0959]]]}'),
+  ('181', 'Gorj', 'Județul Gorj', 'GJ', ARRAY[22.5628, 44.5501, 23.8434, 45.3526], ARRAY[44.9514, 23.2031], 9, '{"type":"Polygon","coordinates":[[[23.7753,44.7226],[23.7658,44.73],[23.7526,44.7337],[23.7459,44.7347],[23.7403,44.7333],[23.7355,44.7291],[23.7327,44.7208],[23.7327,44.7143],[23.7337,44.7069],[23.7365,44.6981],[23.7374,44.6889],[23.7365,44.6778],[23.7327,44.6625],[23.7327,44.6565],[23.7346,44.6505],[23.7365,44.644],[23.7374,44.6371],[23.7365,44.6292],[23.7318,44.6237],[23.7233,44.62],[23.676,44.6181],[23.5814,44.5968],[23.4896,44.5501],[23.4726,44.5746],[23.4632,44.5853],[23.4064,44.6246],[23.3421,44.6565],[23.3185,44.6644],[23.1454,44.6995],[23.1265,44.7065],[23.1038,44.7176],[23.0272,44.7694],[22.9373,44.8415],[22.9316,44.8526],[22.9279,44.8637],[22.9241,44.8855],[22.9222,44.8947],[22.9156,44.9118],[22.9127,44.9211],[22.9127,44.9299],[22.9175,44.947],[22.9222,44.9553],[22.9222,44.9641],[22.9175,44.9729],[22.9061,44.9817],[22.8806,44.9928],[22.8635,45.0039],[22.8522,45.0136],[22.8456,45.0219],[22.8352,45.0284],[22.8238,45.0325],[22.804,45.0344],[22.7567,45.0307],[22.7415,45.033],[22.7236,45.0399],[22.6801,45.0793],[22.6413,45.0922],[22.647,45.1135],[22.6413,45.1218],[22.6347,45.1274],[22.6252,45.1297],[22.5874,45.1311],[22.5741,45.1343],[22.5656,45.1389],[22.5628,45.1468],[22.5647,45.157],[22.5723,45.1708],[22.6006,45.1977],[22.6687,45.2407],[22.8815,45.2948],[22.8929,45.2966],[22.9052,45.2915],[22.9127,45.2851],[22.9212,45.28],[22.9335,45.2767],[22.9761,45.2749],[22.9856,45.2721],[22.9941,45.267],[23.0016,45.2619],[23.012,45.2592],[23.0272,45.2596],[23.0905,45.2795],[23.1161,45.2804],[23.1303,45.2791],[23.1615,45.2693],[23.1738,45.2689],[23.1898,45.2717],[23.2437,45.2952],[23.2598,45.2994],[23.3043,45.3054],[23.3383,45.3175],[23.3572,45.3216],[23.3828,45.3212],[23.3989,45.3184],[23.4121,45.3128],[23.4301,45.3036],[23.4395,45.3031],[23.449,45.3054],[23.4669,45.3156],[23.5237,45.3378],[23.5861,45.3526],[23.6164,45.3457],[23.6646,45.3452],[23.676,45.3434],[23.6949,45.3355],[23.71,45.3336],[23.728,45.3332],[23.7895,45.3378],[23.798,45.3378],[23.8065,45.335],[23.8244,45.3253],[23.832,45.3175],[23.8358,45.3068],[23.8226,45.268],[23.8207,45.2485],[23.8292,45.2212],[23.8396,45.2027],[23.8434,45.1893],[23.8424,45.1768],[23.8263,45.1431],[23.8216,45.1287],[23.8254,45.095],[23.8244,45.0816],[23.797,45.0029],[23.7857,44.9807],[23.7809,44.9673],[23.7791,44.9484],[23.7932,44.8332],[23.7895,44.78],[23.7753,44.7226]]]}'),
+  ('190', 'Harghita', 'Județul Harghita', 'HR', ARRAY[24.8705, 46.1061, 26.3005, 47.1403], ARRAY[46.6232, 25.5855], 9, '{"type":"Polygon","coordinates":[[[25.6715,47.0579],[25.6942,47.0542],[25.7217,47.0454],[25.7368,47.039],[25.751,47.0279],[25.7623,47.0126],[25.7793,46.983],[25.7916,46.9659],[25.8096,46.9497],[25.8427,46.9321],[25.8569,46.9229],[25.8654,46.9127],[25.8711,46.8965],[25.8701,46.8882],[25.8664,46.8836],[25.8607,46.8831],[25.8418,46.8859],[25.8323,46.8854],[25.8247,46.8826],[25.8191,46.878],[25.8172,46.8697],[25.8162,46.859],[25.8285,46.6935],[25.8333,46.681],[25.8408,46.6703],[25.856,46.6578],[25.8891,46.6347],[25.9014,46.6301],[25.9108,46.6292],[25.9146,46.6356],[25.9136,46.6444],[25.907,46.6657],[25.907,46.675],[25.9174,46.6796],[25.9269,46.6819],[26.0092,46.668],[26.012,46.5936],[26.029,46.5487],[26.0413,46.532],[26.0565,46.5172],[26.0688,46.4987],[26.0697,46.4872],[26.0602,46.4802],[26.0461,46.4765],[26.0328,46.4682],[26.0243,46.4548],[26.0186,46.427],[26.0252,46.4127],[26.0385,46.4035],[26.0801,46.3951],[26.1331,46.3905],[26.1473,46.3845],[26.1624,46.3729],[26.1671,46.3618],[26.1681,46.3503],[26.1605,46.3262],[26.1595,46.3123],[26.1681,46.3063],[26.1822,46.3059],[26.2078,46.3114],[26.2475,46.3267],[26.2617,46.3281],[26.2759,46.3267],[26.2929,46.3197],[26.2986,46.311],[26.3005,46.3022],[26.2872,46.2763],[26.2844,46.267],[26.2797,46.2263],[26.2759,46.2166],[26.2636,46.1986],[26.2589,46.1879],[26.2513,46.1505],[25.9921,46.1107],[25.8985,46.1158],[25.8711,46.1255],[25.8531,46.1357],[25.8446,46.1454],[25.8361,46.1532],[25.7954,46.1754],[25.7888,46.1828],[25.7831,46.1916],[25.7585,46.2258],[25.7557,46.2356],[25.7538,46.2448],[25.751,46.2541],[25.7444,46.2629],[25.733,46.2707],[25.7065,46.2869],[25.6914,46.2929],[25.6782,46.2911],[25.6668,46.2851],[25.6545,46.2763],[25.6214,46.2615],[25.6053,46.2513],[25.5694,46.2147],[25.5543,46.2032],[25.5334,46.1925],[25.4975,46.1653],[25.4928,46.1592],[25.4937,46.1505],[25.4843,46.1444],[25.4795,46.1403],[25.455,46.1061],[25.4275,46.1273],[25.3831,46.1384],[25.3679,46.1463],[25.3509,46.1569],[25.3301,46.1648],[25.3131,46.1676],[25.2961,46.1671],[25.2412,46.1495],[25.1882,46.1435],[25.1097,46.2018],[25.0568,46.2305],[25.0398,46.2346],[24.9934,46.2337],[24.9736,46.2379],[24.9556,46.2494],[24.8771,46.3165],[24.8705,46.3253],[24.8714,46.3313],[24.879,46.3369],[24.9007,46.3433],[24.9102,46.348],[24.9178,46.3521],[24.9263,46.3563],[24.9499,46.36],[24.9613,46.3641],[24.9669,46.3711],[24.9679,46.3817],[24.9603,46.3882],[24.9329,46.4016],[24.9329,46.4085],[24.9395,46.4155],[25.0019,46.4331],[25.0133,46.4395],[25.018,46.4479],[25.0227,46.4853],[25.0265,46.4964],[25.035,46.5061],[25.0937,46.5482],[25.1069,46.5542],[25.1495,46.5663],[25.1665,46.5741],[25.1788,46.5838],[25.2147,46.6218],[25.2289,46.6329],[25.2724,46.6574],[25.2809,46.6676],[25.2828,46.6768],[25.28,46.7041],[25.2828,46.7226],[25.2885,46.7443],[25.2894,46.7587],[25.2866,46.7679],[25.2819,46.7749],[25.2601,46.816],[25.2544,46.8382],[25.2705,46.9062],[25.2677,46.9668],[25.2639,46.9825],[25.2573,46.9946],[25.2478,47.0034],[25.2251,47.0191],[25.2166,47.0302],[25.2109,47.0385],[25.2043,47.0764],[25.2422,47.0663],[25.2544,47.0658],[25.2696,47.0663],[25.2828,47.0704],[25.2923,47.0769],[25.297,47.0848],[25.2989,47.0931],[25.2989,47.1023],[25.3017,47.1116],[25.3121,47.1231],[25.3282,47.1305],[25.3481,47.1366],[25.3727,47.1403],[25.3897,47.1398],[25.4067,47.1347],[25.5193,47.0824],[25.5297,47.0746],[25.5401,47.0653],[25.5524,47.0561],[25.5675,47.0487],[25.5836,47.0473],[25.6044,47.0491],[25.6186,47.0524],[25.6715,47.0579]]]}'),
+  ('207', 'Hunedoara', 'Județul Hunedoara', 'HD', ARRAY[22.3547, 45.2407, 23.6003, 46.3336], ARRAY[45.7871, 22.9775], 9, '{"type":"Polygon","coordinates":[[[23.5842,45.4474],[23.5804,45.4322],[23.5833,45.4229],[23.5975,45.3928],[23.6003,45.3817],[23.5861,45.3526],[23.5237,45.3378],[23.4669,45.3156],[23.449,45.3054],[23.4395,45.3031],[23.4301,45.3036],[23.4121,45.3128],[23.3989,45.3184],[23.3828,45.3212],[23.3572,45.3216],[23.3383,45.3175],[23.3043,45.3054],[23.2598,45.2994],[23.2437,45.2952],[23.1898,45.2717],[23.1738,45.2689],[23.1615,45.2693],[23.1303,45.2791],[23.1161,45.2804],[23.0905,45.2795],[23.0272,45.2596],[23.012,45.2592],[23.0016,45.2619],[22.9941,45.267],[22.9856,45.2721],[22.9761,45.2749],[22.9335,45.2767],[22.9212,45.28],[22.9127,45.2851],[22.9052,45.2915],[22.8929,45.2966],[22.8815,45.2948],[22.6687,45.2407],[22.6697,45.2596],[22.6725,45.267],[22.6772,45.2754],[22.699,45.2985],[22.7047,45.3068],[22.7066,45.3142],[22.7066,45.3225],[22.7037,45.3318],[22.698,45.342],[22.6848,45.3554],[22.6772,45.3651],[22.6753,45.3739],[22.6791,45.3804],[22.6914,45.3938],[22.6961,45.4035],[22.698,45.4132],[22.6943,45.4298],[22.6943,45.4405],[22.6933,45.4516],[22.6905,45.4631],[22.6782,45.4927],[22.6687,45.5066],[22.6536,45.52],[22.6205,45.5385],[22.6006,45.5469],[22.5883,45.5543],[22.5827,45.5621],[22.576,45.5672],[22.5656,45.5686],[22.5562,45.5672],[22.5477,45.5672],[22.542,45.57],[22.541,45.5779],[22.5429,45.5857],[22.542,45.5927],[22.5373,45.5973],[22.5231,45.6005],[22.5108,45.6014],[22.4966,45.6051],[22.4833,45.6116],[22.454,45.6398],[22.4455,45.663],[22.454,45.6657],[22.4578,45.6685],[22.4616,45.6741],[22.4635,45.6805],[22.4682,45.6995],[22.4729,45.7087],[22.4815,45.7189],[22.4928,45.7282],[22.5325,45.7536],[22.541,45.7615],[22.5439,45.7689],[22.541,45.7753],[22.5297,45.78],[22.5221,45.7804],[22.5146,45.7791],[22.5023,45.774],[22.4938,45.7772],[22.4862,45.786],[22.4673,45.8184],[22.4578,45.8309],[22.4493,45.8373],[22.4219,45.8526],[22.4124,45.8628],[22.4058,45.8776],[22.402,45.8896],[22.3992,45.9081],[22.3888,45.9247],[22.3547,45.9497],[22.4011,45.9918],[22.4124,46.0089],[22.42,46.0251],[22.42,46.0376],[22.4181,46.0478],[22.4077,46.0714],[22.4096,46.0811],[22.4153,46.0936],[22.4294,46.1144],[22.4342,46.1292],[22.437,46.1431],[22.4332,46.1764],[22.438,46.187],[22.4474,46.1972],[22.4701,46.212],[22.4843,46.2175],[22.5023,46.2189],[22.5581,46.2097],[22.577,46.2087],[22.6006,46.211],[22.6195,46.2184],[22.6403,46.2314],[22.663,46.2578],[22.6716,46.2735],[22.6895,46.3003],[22.7557,46.3336],[22.804,46.3123],[22.8134,46.3105],[22.9042,46.3174],[22.9146,46.3151],[22.9241,46.3068],[22.9345,46.292],[22.9496,46.2638],[22.9666,46.2194],[22.9733,46.2138],[22.9856,46.2106],[23.0309,46.2055],[23.0423,46.2023],[23.0536,46.1967],[23.0669,46.1842],[23.0782,46.1685],[23.0953,46.1389],[23.0953,46.1287],[23.0915,46.125],[23.0839,46.1273],[23.0773,46.1283],[23.0707,46.1273],[23.0659,46.1246],[23.065,46.1199],[23.0678,46.1135],[23.0745,46.1047],[23.1709,46.0159],[23.1946,46.0085],[23.2144,46.0061],[23.2258,45.9997],[23.2646,45.9294],[23.2816,45.9109],[23.3071,45.8882],[23.3156,45.8766],[23.3412,45.7999],[23.3639,45.7582],[23.3714,45.737],[23.3752,45.7222],[23.3733,45.7032],[23.3743,45.6949],[23.3799,45.6875],[23.4007,45.6699],[23.4045,45.6606],[23.4026,45.6537],[23.3989,45.6463],[23.3951,45.6384],[23.396,45.6301],[23.4007,45.6199],[23.4111,45.6024],[23.4234,45.5899],[23.4461,45.5765],[23.4849,45.564],[23.5029,45.5552],[23.5237,45.5376],[23.5738,45.5043],[23.5804,45.4978],[23.5842,45.4881],[23.5852,45.4807],[23.5842,45.4474]]]}'),
+  ('216', 'Ialomița', 'Județul Ialomița', 'IL', ARRAY[26.2693, 44.3549, 28.1107, 44.8651], ARRAY[44.61, 27.19], 9, '{"type":"Polygon","coordinates":[[[27.2008,44.8193],[27.2831,44.7953],[27.2992,44.7939],[27.3191,44.7943],[27.3418,44.8027],[27.3588,44.8068],[27.373,44.805],[27.3853,44.8003],[27.4127,44.7929],[27.686,44.7869],[27.7248,44.7929],[27.7475,44.7985],[27.7655,44.805],[27.7872,44.8105],[27.8336,44.8142],[27.8553,44.8114],[27.8723,44.8036],[27.8799,44.7957],[27.9111,44.7754],[27.895,44.7689],[27.8837,44.7578],[27.8771,44.7444],[27.8846,44.7259],[27.8988,44.7083],[27.9168,44.6944],[27.9357,44.6889],[27.9603,44.6866],[27.9783,44.6792],[28.0312,44.6371],[28.035,44.6311],[28.0341,44.6218],[28.0284,44.5982],[28.0218,44.588],[28.0218,44.5524],[28.0151,44.5432],[28.0038,44.5399],[28.0076,44.5321],[28.0199,44.5224],[28.0426,44.5136],[28.0672,44.5071],[28.0861,44.5048],[28.0936,44.4969],[28.1022,44.4784],[28.1088,44.4576],[28.1107,44.4428],[28.0984,44.4303],[28.0577,44.4058],[28.0482,44.3984],[28.0227,44.3549],[27.8714,44.3901],[27.7806,44.4178],[27.739,44.4377],[27.7182,44.4548],[27.7021,44.4646],[27.6898,44.4687],[27.634,44.4775],[27.6056,44.4877],[27.4657,44.5066],[27.4354,44.5076],[27.4099,44.5048],[27.3815,44.4969],[27.3635,44.4937],[27.1857,44.496],[27.128,44.4886],[27.0977,44.4881],[27.0732,44.4923],[27.0003,44.514],[26.9767,44.5177],[26.9568,44.5187],[26.8991,44.5113],[26.8812,44.514],[26.8509,44.5265],[26.8396,44.5288],[26.8244,44.5284],[26.8093,44.5265],[26.7838,44.5261],[26.7648,44.5302],[26.7478,44.5376],[26.7157,44.5608],[26.7071,44.5631],[26.6977,44.5617],[26.6911,44.5571],[26.6759,44.5432],[26.6674,44.5376],[26.657,44.5335],[26.6334,44.5275],[26.6164,44.5261],[26.6022,44.527],[26.5899,44.5302],[26.5577,44.5473],[26.5435,44.5529],[26.5293,44.5552],[26.5133,44.5534],[26.4338,44.5233],[26.4102,44.5362],[26.379,44.5478],[26.3705,44.5566],[26.3676,44.5645],[26.3695,44.5732],[26.3723,44.5816],[26.378,44.5899],[26.3837,44.5973],[26.3922,44.6038],[26.4319,44.6232],[26.4385,44.6288],[26.4423,44.6371],[26.4395,44.644],[26.431,44.651],[26.3695,44.675],[26.36,44.6847],[26.3572,44.693],[26.3572,44.7014],[26.3544,44.7088],[26.3468,44.7194],[26.3449,44.7273],[26.344,44.7439],[26.3383,44.7485],[26.3288,44.7513],[26.2882,44.7555],[26.2693,44.7596],[26.3052,44.7837],[26.3392,44.7948],[26.3534,44.7957],[26.3648,44.7934],[26.3884,44.7842],[26.4111,44.7832],[26.4215,44.7865],[26.431,44.7929],[26.4395,44.8003],[26.4527,44.8082],[26.466,44.8105],[26.5199,44.8073],[26.535,44.8101],[26.5483,44.8151],[26.5587,44.8212],[26.5653,44.8262],[26.5785,44.8424],[26.6041,44.8651],[26.6268,44.8572],[26.6599,44.836],[26.6778,44.8323],[26.7015,44.8313],[26.7677,44.835],[26.8273,44.8272],[26.8386,44.8244],[26.85,44.8221],[26.8651,44.8221],[26.9001,44.8267],[26.919,44.8262],[26.9426,44.8202],[26.972,44.8068],[26.9861,44.8027],[27.0003,44.8027],[27.0145,44.8087],[27.024,44.8165],[27.0363,44.8221],[27.0524,44.8235],[27.076,44.8184],[27.0911,44.8128],[27.1053,44.8064],[27.1148,44.7999],[27.1204,44.7929],[27.1214,44.786],[27.1204,44.7791],[27.1195,44.7731],[27.1186,44.7675],[27.1204,44.7629],[27.1242,44.7601],[27.1318,44.7596],[27.1384,44.7606],[27.1668,44.7689],[27.1895,44.7731],[27.1989,44.7768],[27.2037,44.7809],[27.1989,44.7865],[27.1923,44.7911],[27.181,44.7962],[27.1744,44.8013],[27.1753,44.8073],[27.1791,44.8114],[27.2008,44.8193]]]}'),
+  ('225', 'Iași', 'Județul Iași', 'IS', ARRAY[26.4821, 46.817, 28.1239, 47.5727], ARRAY[47.1949, 27.303], 9, '{"type":"Polygon","coordinates":[[[28.123,46.8424],[28.122,46.8419],[28.1144,46.8396],[28.0643,46.835],[28.0473,46.8276],[28.0407,46.823],[28.0312,46.8193],[28.0199,46.8188],[28.0076,46.823],[27.9981,46.8285],[27.9887,46.8327],[27.9801,46.8336],[27.9679,46.8281],[27.965,46.822],[27.9556,46.817],[27.9414,46.8174],[27.9045,46.8257],[27.8733,46.8396],[27.8619,46.8419],[27.8459,46.8405],[27.8326,46.8415],[27.8232,46.847],[27.8213,46.854],[27.8241,46.8614],[27.8288,46.8701],[27.8383,46.8905],[27.8383,46.9016],[27.8354,46.9113],[27.826,46.9169],[27.8137,46.9182],[27.8005,46.9118],[27.7957,46.9025],[27.7957,46.8928],[27.7957,46.8836],[27.7929,46.8785],[27.7863,46.878],[27.7749,46.8836],[27.7371,46.9173],[27.7097,46.9372],[27.6501,46.9691],[27.6368,46.9738],[27.6255,46.9738],[27.617,46.9673],[27.616,46.9599],[27.6189,46.9525],[27.6236,46.9455],[27.6245,46.9377],[27.6245,46.9289],[27.6189,46.9145],[27.6208,46.9095],[27.6283,46.9067],[27.6387,46.9058],[27.6576,46.9076],[27.6643,46.9067],[27.6671,46.9034],[27.6671,46.8974],[27.6652,46.8914],[27.6605,46.8849],[27.6482,46.8803],[27.6283,46.8785],[27.5905,46.8831],[27.5725,46.8882],[27.5593,46.8882],[27.5527,46.8822],[27.5479,46.8743],[27.5413,46.8669],[27.53,46.8604],[27.4931,46.8516],[27.4761,46.8507],[27.4515,46.8549],[27.4335,46.8595],[27.4146,46.8632],[27.3957,46.8632],[27.32,46.854],[27.2046,46.8595],[27.1999,46.8729],[27.1942,46.8817],[27.1762,46.9025],[27.1554,46.9224],[27.1441,46.934],[27.1431,46.9446],[27.1498,46.9548],[27.163,46.9636],[27.18,46.9701],[27.198,46.9751],[27.2273,46.9802],[27.2358,46.9849],[27.2396,46.9918],[27.2339,47.0006],[27.2207,47.0112],[27.198,47.0246],[27.1857,47.0343],[27.1762,47.0445],[27.1725,47.0538],[27.1677,47.0626],[27.1602,47.0704],[27.1479,47.075],[27.1252,47.0769],[27.1091,47.0737],[27.0959,47.0686],[27.0618,47.0413],[27.0505,47.0348],[27.0391,47.0316],[27.0211,47.0325],[26.9739,47.0399],[26.9597,47.0376],[26.9502,47.032],[26.9426,47.0154],[26.937,47.0089],[26.9275,47.0057],[26.9133,47.0052],[26.8727,47.0112],[26.8462,47.0209],[26.7875,47.0519],[26.7488,47.0667],[26.7204,47.0723],[26.6977,47.0727],[26.6788,47.0709],[26.6608,47.0713],[26.6485,47.0764],[26.64,47.0898],[26.6324,47.106],[26.6031,47.1564],[26.552,47.2073],[26.4821,47.2536],[26.5587,47.2656],[26.5691,47.2712],[26.5776,47.2786],[26.5728,47.286],[26.5114,47.3243],[26.501,47.341],[26.5048,47.3502],[26.5208,47.3535],[26.6258,47.3447],[26.6476,47.3475],[26.6561,47.353],[26.6599,47.3623],[26.6617,47.3748],[26.6722,47.3928],[26.6759,47.4039],[26.6731,47.4127],[26.6589,47.4266],[26.6986,47.4534],[26.7128,47.4737],[26.7185,47.4844],[26.7251,47.4904],[26.7336,47.4936],[26.744,47.4927],[26.7629,47.4839],[26.7743,47.4798],[26.7894,47.477],[26.9568,47.4765],[26.9672,47.4742],[26.9757,47.4705],[26.9843,47.4654],[26.9984,47.4525],[27.0098,47.4446],[27.0211,47.4386],[27.041,47.4344],[27.0561,47.4363],[27.0769,47.4414],[27.0873,47.4474],[27.0921,47.4543],[27.0911,47.4626],[27.0732,47.4899],[27.0713,47.4983],[27.0751,47.5061],[27.0817,47.5126],[27.0921,47.5181],[27.1044,47.5195],[27.1119,47.5177],[27.128,47.5094],[27.1564,47.5047],[27.1744,47.5001],[27.1904,47.4932],[27.2046,47.4909],[27.232,47.4913],[27.2434,47.4955],[27.2519,47.5024],[27.2557,47.5195],[27.2614,47.5269],[27.2689,47.5334],[27.2793,47.5394],[27.2964,47.5528],[27.3068,47.5575],[27.3191,47.5579],[27.3361,47.5556],[27.3758,47.5551],[27.4316,47.5727],[27.4354,47.5598],[27.4392,47.5538],[27.4401,47.5501],[27.4401,47.5408],[27.442,47.5366],[27.4458,47.5348],[27.4571,47.5339],[27.459,47.5334],[27.4666,47.5066],[27.4732,47.4918],[27.4836,47.4853],[27.4921,47.4844],[27.4978,47.4825],[27.5016,47.4798],[27.5073,47.4779],[27.5328,47.4774],[27.5347,47.4779],[27.5479,47.4742],[27.5631,47.4682],[27.5763,47.4603],[27.5829,47.4506],[27.5744,47.4465],[27.5697,47.4386],[27.5659,47.4284],[27.5621,47.4164],[27.5801,47.4062],[27.5725,47.3752],[27.5867,47.3687],[27.5886,47.3674],[27.6,47.3609],[27.6236,47.3216],[27.6368,47.3068],[27.6444,47.304],[27.6718,47.2998],[27.6822,47.2952],[27.6898,47.291],[27.6974,47.2873],[27.7229,47.2832],[27.7333,47.2758],[27.7541,47.2513],[27.7522,47.2388],[27.7626,47.2263],[27.7882,47.2041],[27.8005,47.1768],[27.8023,47.1763],[27.8052,47.1685],[27.808,47.1625],[27.8061,47.1583],[27.7948,47.156],[27.8061,47.1444],[27.8496,47.1287],[27.8496,47.1218],[27.844,47.1144],[27.8477,47.1116],[27.8581,47.1093],[27.8667,47.1046],[27.8979,47.0815],[27.9262,47.0686],[27.9385,47.0612],[27.9385,47.0468],[27.9631,47.0436],[27.9868,47.0334],[28.0085,47.0265],[28.0284,47.033],[28.0369,47.0163],[28.0378,47.0154],[28.0691,46.9886],[28.0823,46.9714],[28.1022,46.9349],[28.105,46.9201],[28.105,46.9178],[28.0965,46.9025],[28.1135,46.8947],[28.1144,46.8836],[28.1135,46.8715],[28.1239,46.8618],[28.1239,46.8544],[28.123,46.8424]]]}'),
+  ('234', 'Ilfov', 'Județul Ilfov', 'IF', ARRAY[25.8891, 44.2583, 26.4603, 44.768], ARRAY[44.5131, 26.1747], 10, '{"type":"Polygon","coordinates":[[[26.2693,44.7596],[26.2882,44.7555],[26.3288,44.7513],[26.3383,44.7485],[26.344,44.7439],[26.3449,44.7273],[26.3468,44.7194],[26.3544,44.7088],[26.3572,44.7014],[26.3572,44.693],[26.36,44.6847],[26.3695,44.675],[26.431,44.651],[26.4395,44.644],[26.4423,44.6371],[26.4385,44.6288],[26.4319,44.6232],[26.3922,44.6038],[26.3837,44.5973],[26.378,44.5899],[26.3723,44.5816],[26.3695,44.5732],[26.3676,44.5645],[26.3705,44.5566],[26.379,44.5478],[26.4102,44.5362],[26.4338,44.5233],[26.4168,44.5145],[26.413,44.5085],[26.4121,44.496],[26.4215,44.4881],[26.4357,44.4821],[26.4537,44.4775],[26.4594,44.4738],[26.4603,44.4683],[26.4565,44.4604],[26.4499,44.4516],[26.4385,44.4428],[26.378,44.4229],[26.36,44.4137],[26.3421,44.4017],[26.3165,44.3771],[26.291,44.348],[26.2797,44.3216],[26.2258,44.2809],[26.2012,44.2661],[26.1889,44.261],[26.1756,44.2587],[26.1624,44.2583],[26.1473,44.2601],[26.1312,44.2634],[26.116,44.2684],[26.099,44.2758],[26.0234,44.3249],[26.0111,44.329],[26.0007,44.3295],[25.9893,44.329],[25.9799,44.3309],[25.9723,44.3364],[25.9647,44.3485],[25.9505,44.3554],[25.9316,44.36],[25.9051,44.3693],[25.8947,44.3818],[25.8891,44.4007],[25.8976,44.4461],[25.908,44.4655],[25.9231,44.4881],[25.9288,44.4988],[25.9307,44.515],[25.9316,44.5275],[25.907,44.5658],[25.9297,44.5793],[25.978,44.619],[25.9874,44.6288],[25.9921,44.6375],[25.9884,44.6454],[25.9543,44.6542],[25.9496,44.6597],[25.9496,44.6658],[25.9543,44.6722],[25.9751,44.6833],[25.9817,44.6898],[25.9846,44.7004],[25.9912,44.7102],[26.0035,44.7171],[26.029,44.7384],[26.0347,44.7421],[26.0423,44.7532],[26.1037,44.7536],[26.1643,44.768],[26.187,44.768],[26.2135,44.7601],[26.2276,44.7615],[26.2693,44.7596]],[[26.1955,44.4026],[26.2106,44.434],[26.1671,44.4609],[26.1908,44.5117],[26.1132,44.5251],[26.1047,44.5927],[26.0375,44.5746],[25.9893,44.515],[26.0413,44.4983],[26.0413,44.4669],[25.9761,44.4627],[25.9761,44.4313],[26.0413,44.3804],[26.0971,44.3711],[26.1444,44.3263],[26.1718,44.3429],[26.1406,44.3984],[26.1482,44.4132],[26.1955,44.4026]]]}'),
+  ('243', 'Maramureș', 'Județul Maramureș', 'MM', ARRAY[22.9657, 47.3049, 25.0322, 48.0056], ARRAY[47.6553, 23.999], 8, '{"type":"Polygon","coordinates":[[[24.9423,47.7156],[24.9546,47.6884],[24.9792,47.6624],[25.0218,47.6324],[25.0303,47.6231],[25.0322,47.6125],[25.0246,47.6028],[25.0161,47.5963],[24.9565,47.5824],[24.8705,47.5829],[24.8374,47.5746],[24.7958,47.5487],[24.7797,47.5408],[24.7589,47.5366],[24.5707,47.532],[24.3834,47.5621],[24.3654,47.5593],[24.2964,47.5376],[24.2822,47.5297],[24.2746,47.5209],[24.2548,47.4899],[24.2453,47.4816],[24.2245,47.4733],[24.1403,47.4613],[24.1261,47.4566],[24.1205,47.4515],[24.1195,47.4455],[24.1176,47.4298],[24.1139,47.4205],[24.1072,47.4108],[24.0458,47.3502],[24.0079,47.3248],[23.8415,47.3331],[23.8131,47.3165],[23.7876,47.3077],[23.7762,47.3054],[23.762,47.3049],[23.7497,47.3068],[23.7365,47.3128],[23.728,47.3188],[23.7195,47.3243],[23.7072,47.3294],[23.6873,47.3354],[23.6779,47.3438],[23.6722,47.3516],[23.6703,47.359],[23.657,47.3646],[23.6334,47.3674],[23.4802,47.3627],[23.4575,47.365],[23.3326,47.3942],[23.292,47.4085],[23.2721,47.4131],[23.2456,47.4164],[23.1407,47.4168],[23.0905,47.4044],[22.9988,47.4164],[22.9818,47.4229],[22.9676,47.4303],[22.9657,47.4381],[22.9685,47.4446],[22.977,47.4502],[23.013,47.4668],[23.0234,47.4728],[23.0309,47.4798],[23.0357,47.4867],[23.0404,47.495],[23.0442,47.5057],[23.0499,47.5163],[23.0574,47.526],[23.117,47.5764],[23.1265,47.5806],[23.135,47.5806],[23.1435,47.5769],[23.1605,47.563],[23.1719,47.5556],[23.2173,47.5353],[23.2324,47.5306],[23.2494,47.5306],[23.2683,47.538],[23.2835,47.5501],[23.3014,47.5676],[23.3241,47.5852],[23.3402,47.6106],[23.3468,47.6231],[23.3591,47.6426],[23.3629,47.6546],[23.361,47.668],[23.3535,47.6759],[23.3431,47.6833],[23.327,47.6893],[23.2589,47.7018],[23.2475,47.7069],[23.2409,47.7138],[23.24,47.7221],[23.2437,47.736],[23.2551,47.7443],[23.2721,47.7494],[23.3431,47.7489],[23.3818,47.7411],[23.3979,47.7355],[23.4149,47.7328],[23.432,47.7318],[23.4547,47.7351],[23.4792,47.7429],[23.6211,47.816],[23.6296,47.8271],[23.6296,47.8382],[23.6202,47.8507],[23.6069,47.8595],[23.5738,47.8738],[23.5596,47.8812],[23.5492,47.8891],[23.5019,47.9344],[23.4859,47.9742],[23.4887,47.976],[23.4944,47.9807],[23.4991,47.9862],[23.5038,47.9927],[23.5142,47.9992],[23.5256,48.001],[23.5634,48.0056],[23.5814,48.0015],[23.6457,47.9964],[23.6873,47.9871],[23.711,47.9853],[23.78,47.9876],[23.7961,47.9821],[23.8481,47.9497],[23.8557,47.9344],[23.8765,47.9344],[23.9777,47.9622],[24.0089,47.9612],[24.025,47.9534],[24.0751,47.9441],[24.0949,47.9381],[24.1309,47.9145],[24.1488,47.9122],[24.1498,47.9131],[24.2094,47.8974],[24.2311,47.8969],[24.2983,47.9196],[24.3475,47.921],[24.3862,47.9437],[24.4089,47.952],[24.4288,47.9525],[24.4855,47.9432],[24.5423,47.9437],[24.5612,47.9404],[24.5697,47.9372],[24.6085,47.9219],[24.634,47.9085],[24.6492,47.8951],[24.6558,47.8794],[24.6567,47.8664],[24.6615,47.8539],[24.6794,47.8401],[24.7125,47.8257],[24.7939,47.8044],[24.808,47.7957],[24.8203,47.7841],[24.8544,47.7429],[24.878,47.7189],[24.8969,47.7101],[24.9291,47.7138],[24.9423,47.7156]]]}'),
+  ('252', 'Mehedinți', 'Județul Mehedinți', 'MH', ARRAY[22.0341, 44.1005, 23.4896, 45.0922], ARRAY[44.5964, 22.7618], 9, '{"type":"Polygon","coordinates":[[[23.4896,44.5501],[23.4755,44.539],[23.4206,44.5409],[23.3951,44.5367],[23.379,44.5321],[23.3667,44.5265],[23.3043,44.5233],[23.291,44.5187],[23.2873,44.5154],[23.2948,44.5131],[23.3043,44.5117],[23.3099,44.5099],[23.3099,44.5057],[23.2882,44.4923],[23.2816,44.4854],[23.275,44.4775],[23.2617,44.4669],[23.2466,44.4613],[23.2267,44.4567],[23.2192,44.4516],[23.2144,44.4461],[23.2135,44.4377],[23.2059,44.4165],[23.2059,44.4091],[23.2097,44.403],[23.2173,44.3984],[23.2286,44.397],[23.2494,44.3952],[23.2598,44.3938],[23.2674,44.3906],[23.2731,44.3864],[23.2759,44.3808],[23.274,44.3744],[23.2683,44.3725],[23.2485,44.3753],[23.2352,44.3744],[23.1823,44.3522],[23.1738,44.3434],[23.1681,44.3309],[23.1634,44.3133],[23.1586,44.2879],[23.1558,44.2795],[23.134,44.2472],[23.1312,44.2361],[23.1331,44.2231],[23.1397,44.2069],[23.1435,44.1944],[23.1435,44.1829],[23.1397,44.1709],[23.1321,44.1676],[23.1217,44.1685],[23.0905,44.1621],[23.0083,44.1005],[22.9884,44.107],[22.943,44.1116],[22.9061,44.1227],[22.6914,44.2287],[22.6905,44.2287],[22.6857,44.2435],[22.6895,44.2916],[22.682,44.3054],[22.6621,44.3115],[22.6214,44.3161],[22.5827,44.3286],[22.5496,44.3489],[22.5231,44.3753],[22.5051,44.404],[22.5042,44.4118],[22.506,44.4276],[22.5051,44.435],[22.5013,44.4419],[22.4796,44.4558],[22.4767,44.4641],[22.4777,44.477],[22.4796,44.4905],[22.4843,44.4997],[22.4909,44.5043],[22.5004,44.5062],[22.5354,44.5076],[22.5486,44.5117],[22.5571,44.5214],[22.56,44.5386],[22.5656,44.5552],[22.5808,44.5654],[22.6006,44.57],[22.6214,44.5691],[22.6422,44.5631],[22.6782,44.5455],[22.6999,44.5418],[22.7198,44.5446],[22.7415,44.552],[22.7595,44.5645],[22.7652,44.583],[22.7151,44.6232],[22.6999,44.6306],[22.6214,44.6375],[22.5874,44.6496],[22.5533,44.669],[22.4833,44.724],[22.4692,44.73],[22.4502,44.7328],[22.4257,44.7337],[22.4153,44.7277],[22.3803,44.7004],[22.3613,44.6921],[22.3197,44.6852],[22.3046,44.6773],[22.2989,44.6616],[22.1854,44.515],[22.1722,44.5053],[22.1485,44.5011],[22.1268,44.5025],[22.1041,44.5094],[22.0871,44.5219],[22.0767,44.5506],[22.0672,44.5571],[22.0559,44.5621],[22.0455,44.5691],[22.0398,44.5769],[22.036,44.5894],[22.0341,44.5964],[22.0587,44.5992],[22.089,44.6033],[22.1022,44.6019],[22.1268,44.5968],[22.1391,44.5964],[22.1495,44.5978],[22.1608,44.6019],[22.1694,44.6089],[22.1741,44.6214],[22.1731,44.6338],[22.1684,44.6473],[22.1608,44.6644],[22.1599,44.6773],[22.1618,44.6907],[22.1656,44.7023],[22.1722,44.7171],[22.1826,44.7337],[22.2053,44.7615],[22.2138,44.7777],[22.2185,44.7906],[22.2185,44.799],[22.2223,44.8064],[22.228,44.8114],[22.2431,44.8133],[22.2535,44.8119],[22.263,44.8082],[22.297,44.7837],[22.3037,44.78],[22.3112,44.7777],[22.3216,44.7772],[22.3538,44.7777],[22.3632,44.7763],[22.3699,44.7731],[22.3765,44.7689],[22.3831,44.7583],[22.3878,44.7536],[22.3954,44.7509],[22.4067,44.7504],[22.4209,44.7522],[22.4313,44.7583],[22.4417,44.7694],[22.4512,44.7916],[22.4673,44.8392],[22.4919,44.8845],[22.5335,44.934],[22.5448,44.9576],[22.5505,44.9733],[22.5533,44.9867],[22.5552,44.9974],[22.559,45.0094],[22.5666,45.0237],[22.5987,45.0603],[22.6413,45.0922],[22.6801,45.0793],[22.7236,45.0399],[22.7415,45.033],[22.7567,45.0307],[22.804,45.0344],[22.8238,45.0325],[22.8352,45.0284],[22.8456,45.0219],[22.8522,45.0136],[22.8635,45.0039],[22.8806,44.9928],[22.9061,44.9817],[22.9175,44.9729],[22.9222,44.9641],[22.9222,44.9553],[22.9175,44.947],[22.9127,44.9299],[22.9127,44.9211],[22.9156,44.9118],[22.9222,44.8947],[22.9241,44.8855],[22.9279,44.8637],[22.9316,44.8526],[22.9373,44.8415],[23.0272,44.7694],[23.1038,44.7176],[23.1265,44.7065],[23.1454,44.6995],[23.3185,44.6644],[23.3421,44.6565],[23.4064,44.6246],[23.4632,44.5853],[23.4726,44.5746],[23.4896,44.5501]]]}'),
+  ('261', 'Mureș', 'Județul Mureș', 'MS', ARRAY[23.9673, 46.0635, 25.2894, 47.1028], ARRAY[46.5832, 24.6284], 9, '{"type":"Polygon","coordinates":[[[25.2043,47.0764],[25.2109,47.0385],[25.2166,47.0302],[25.2251,47.0191],[25.2478,47.0034],[25.2573,46.9946],[25.2639,46.9825],[25.2677,46.9668],[25.2705,46.9062],[25.2544,46.8382],[25.2601,46.816],[25.2819,46.7749],[25.2866,46.7679],[25.2894,46.7587],[25.2885,46.7443],[25.2828,46.7226],[25.28,46.7041],[25.2828,46.6768],[25.2809,46.6676],[25.2724,46.6574],[25.2289,46.6329],[25.2147,46.6218],[25.1788,46.5838],[25.1665,46.5741],[25.1495,46.5663],[25.1069,46.5542],[25.0937,46.5482],[25.035,46.5061],[25.0265,46.4964],[25.0227,46.4853],[25.018,46.4479],[25.0133,46.4395],[25.0019,46.4331],[24.9395,46.4155],[24.9329,46.4085],[24.9329,46.4016],[24.9603,46.3882],[24.9679,46.3817],[24.9669,46.3711],[24.9613,46.3641],[24.9499,46.36],[24.9263,46.3563],[24.9178,46.3521],[24.9102,46.348],[24.9007,46.3433],[24.879,46.3369],[24.8714,46.3313],[24.8705,46.3253],[24.8771,46.3165],[24.9556,46.2494],[24.9736,46.2379],[24.9934,46.2337],[25.0398,46.2346],[25.0568,46.2305],[25.1097,46.2018],[25.1882,46.1435],[25.1381,46.1357],[25.0464,46.1329],[25.0312,46.1296],[25.018,46.1241],[24.9953,46.1116],[24.9858,46.1033],[24.9792,46.0926],[24.9754,46.0843],[24.9821,46.0635],[24.9338,46.0825],[24.9234,46.0894],[24.9074,46.0963],[24.8941,46.101],[24.8724,46.1028],[24.8591,46.1019],[24.8459,46.0996],[24.8374,46.0973],[24.826,46.0954],[24.7948,46.094],[24.7872,46.0922],[24.7768,46.0857],[24.7683,46.0834],[24.7456,46.0829],[24.7343,46.0806],[24.721,46.0806],[24.7078,46.0848],[24.6898,46.1],[24.6794,46.1227],[24.6737,46.1481],[24.669,46.2055],[24.6624,46.2323],[24.6633,46.242],[24.6681,46.2499],[24.6747,46.2568],[24.6775,46.2629],[24.6737,46.2656],[24.6643,46.2666],[24.6454,46.2596],[24.6312,46.2573],[24.6123,46.2582],[24.5858,46.2642],[24.5725,46.2638],[24.5603,46.2582],[24.5527,46.2527],[24.5461,46.2462],[24.5338,46.242],[24.5139,46.2411],[24.4439,46.2443],[24.4127,46.2397],[24.3957,46.2351],[24.3758,46.2323],[24.3579,46.2337],[24.303,46.2499],[24.2661,46.2448],[24.1914,46.2443],[24.1763,46.2518],[24.1687,46.2573],[24.1611,46.2661],[24.1536,46.2975],[24.1432,46.3128],[24.1224,46.3248],[24.0675,46.3406],[24.0571,46.3456],[24.0268,46.3692],[24.0212,46.3766],[24.0268,46.3882],[24.0344,46.3951],[24.0476,46.4035],[24.0552,46.4113],[24.059,46.4201],[24.0571,46.427],[24.0533,46.4326],[24.042,46.4409],[24.0268,46.4483],[23.9956,46.4497],[23.9729,46.4654],[23.9673,46.4765],[23.972,46.4886],[23.9918,46.5098],[24.0051,46.5191],[24.0259,46.5288],[24.0325,46.5344],[24.0344,46.5455],[24.0306,46.5538],[24.0259,46.5621],[24.0231,46.5714],[24.025,46.5825],[24.0363,46.6037],[24.0458,46.6176],[24.0618,46.6292],[24.0751,46.6329],[24.111,46.6375],[24.1205,46.644],[24.1271,46.6546],[24.1261,46.6717],[24.1195,46.6819],[24.111,46.6898],[24.1044,46.6967],[24.1044,46.7055],[24.1091,46.7166],[24.146,46.7661],[24.1574,46.7758],[24.1668,46.7823],[24.1971,46.7846],[24.2794,46.7568],[24.3456,46.7453],[24.3673,46.7443],[24.3834,46.7467],[24.4288,46.7596],[24.4647,46.7628],[24.4836,46.7675],[24.4978,46.7735],[24.5035,46.7813],[24.5063,46.792],[24.5082,46.8022],[24.5111,46.8133],[24.5167,46.8216],[24.5357,46.8378],[24.5423,46.8452],[24.5517,46.8637],[24.5612,46.8757],[24.582,46.8947],[24.6066,46.9081],[24.6246,46.9136],[24.6369,46.915],[24.6482,46.9132],[24.6605,46.9099],[24.6898,46.897],[24.7059,46.8919],[24.7239,46.89],[24.7362,46.8942],[24.7428,46.9021],[24.7504,46.9303],[24.756,46.9441],[24.7645,46.9566],[24.7891,46.9825],[24.7948,46.9899],[24.808,47.0145],[24.8156,47.0219],[24.8667,47.0519],[24.8988,47.0667],[24.9253,47.0732],[24.9915,47.082],[25.0681,47.1028],[25.1589,47.0912],[25.2043,47.0764]]]}'),
+  ('270', 'Neamț', 'Județul Neamț', 'NT', ARRAY[25.6715, 46.6292, 27.2396, 47.2971], ARRAY[46.9631, 26.4556], 9, '{"type":"Polygon","coordinates":[[[26.4821,47.2536],[26.552,47.2073],[26.6031,47.1564],[26.6324,47.106],[26.64,47.0898],[26.6485,47.0764],[26.6608,47.0713],[26.6788,47.0709],[26.6977,47.0727],[26.7204,47.0723],[26.7488,47.0667],[26.7875,47.0519],[26.8462,47.0209],[26.8727,47.0112],[26.9133,47.0052],[26.9275,47.0057],[26.937,47.0089],[26.9426,47.0154],[26.9502,47.032],[26.9597,47.0376],[26.9739,47.0399],[27.0211,47.0325],[27.0391,47.0316],[27.0505,47.0348],[27.0618,47.0413],[27.0959,47.0686],[27.1091,47.0737],[27.1252,47.0769],[27.1479,47.075],[27.1602,47.0704],[27.1677,47.0626],[27.1725,47.0538],[27.1762,47.0445],[27.1857,47.0343],[27.198,47.0246],[27.2207,47.0112],[27.2339,47.0006],[27.2396,46.9918],[27.2358,46.9849],[27.2273,46.9802],[27.198,46.9751],[27.18,46.9701],[27.163,46.9636],[27.1498,46.9548],[27.1431,46.9446],[27.1441,46.934],[27.1554,46.9224],[27.1762,46.9025],[27.1942,46.8817],[27.1999,46.8729],[27.2046,46.8595],[27.2103,46.8281],[27.233,46.786],[27.2368,46.7702],[27.2368,46.7587],[27.2254,46.743],[27.1857,46.7291],[27.1573,46.7346],[27.1469,46.7388],[27.0656,46.7513],[27.0419,46.7513],[26.971,46.7439],[26.9512,46.7536],[26.9379,46.7642],[26.9313,46.7739],[26.9303,46.7809],[26.9322,46.7874],[26.9313,46.7948],[26.9256,46.8026],[26.9058,46.8133],[26.8944,46.8137],[26.8897,46.8105],[26.8906,46.8031],[26.8916,46.7952],[26.8887,46.7869],[26.8831,46.78],[26.8556,46.7647],[26.8509,46.7582],[26.85,46.7504],[26.8528,46.742],[26.8518,46.7342],[26.8462,46.7263],[26.8348,46.7198],[26.8187,46.7147],[26.8027,46.7147],[26.7904,46.7194],[26.7601,46.7346],[26.7336,46.7411],[26.7147,46.7402],[26.7024,46.7351],[26.6939,46.7212],[26.6854,46.7138],[26.6239,46.6958],[26.6097,46.6893],[26.5908,46.6726],[26.5814,46.6671],[26.5691,46.6662],[26.5284,46.6717],[26.4925,46.6657],[26.4546,46.6662],[26.4433,46.6634],[26.4348,46.6574],[26.4272,46.6486],[26.4177,46.6407],[26.4073,46.6352],[26.3903,46.6333],[26.3109,46.6329],[26.2995,46.6352],[26.2976,46.6389],[26.2986,46.6444],[26.3005,46.6509],[26.3014,46.6583],[26.2986,46.6652],[26.2929,46.6726],[26.2863,46.6796],[26.2749,46.6953],[26.2683,46.7004],[26.2541,46.7046],[26.2418,46.7027],[26.2305,46.699],[26.169,46.6676],[26.1435,46.6602],[26.1236,46.6578],[26.1104,46.6602],[26.082,46.6713],[26.0593,46.6754],[26.0451,46.675],[26.0092,46.668],[25.9269,46.6819],[25.9174,46.6796],[25.907,46.675],[25.907,46.6657],[25.9136,46.6444],[25.9146,46.6356],[25.9108,46.6292],[25.9014,46.6301],[25.8891,46.6347],[25.856,46.6578],[25.8408,46.6703],[25.8333,46.681],[25.8285,46.6935],[25.8162,46.859],[25.8172,46.8697],[25.8191,46.878],[25.8247,46.8826],[25.8323,46.8854],[25.8418,46.8859],[25.8607,46.8831],[25.8664,46.8836],[25.8701,46.8882],[25.8711,46.8965],[25.8654,46.9127],[25.8569,46.9229],[25.8427,46.9321],[25.8096,46.9497],[25.7916,46.9659],[25.7793,46.983],[25.7623,47.0126],[25.751,47.0279],[25.7368,47.039],[25.7217,47.0454],[25.6942,47.0542],[25.6715,47.0579],[25.6725,47.0801],[25.6838,47.106],[25.6961,47.1231],[25.7406,47.1597],[25.7557,47.1694],[25.7954,47.1865],[25.8125,47.1972],[25.82,47.2069],[25.8219,47.2161],[25.8191,47.2244],[25.8125,47.2318],[25.7916,47.2448],[25.7746,47.2614],[25.7718,47.2684],[25.7756,47.2744],[25.7831,47.2776],[25.7945,47.2781],[25.8068,47.2744],[25.82,47.2684],[25.8654,47.2397],[25.8787,47.2332],[25.8909,47.2318],[25.9089,47.2342],[25.9817,47.2573],[25.9969,47.2582],[26.0111,47.255],[26.0234,47.2494],[26.0394,47.2453],[26.0584,47.2448],[26.1104,47.254],[26.2229,47.2536],[26.2598,47.2601],[26.3534,47.2934],[26.3761,47.2971],[26.396,47.2966],[26.4159,47.2938],[26.4329,47.2887],[26.4471,47.2809],[26.4821,47.2536]]]}'),
+  ('289', 'Olt', 'Județul Olt', 'OT', ARRAY[23.9048, 43.7527, 24.8516, 44.9141], ARRAY[44.3334, 24.3782], 9, '{"type":"Polygon","coordinates":[[[24.4383,44.8498],[24.4496,44.8262],[24.4562,44.8221],[24.4647,44.8198],[24.4732,44.8225],[24.5139,44.8471],[24.5215,44.8531],[24.5253,44.8591],[24.5347,44.8771],[24.5461,44.8882],[24.5546,44.8924],[24.564,44.8915],[24.5688,44.8859],[24.5707,44.8781],[24.5707,44.8693],[24.5688,44.8596],[24.5697,44.848],[24.5773,44.8346],[24.6217,44.7684],[24.6331,44.7573],[24.6529,44.7435],[24.669,44.7398],[24.6851,44.7402],[24.7002,44.7425],[24.7182,44.7416],[24.7258,44.7374],[24.7305,44.7324],[24.7295,44.7282],[24.7248,44.7259],[24.7068,44.7203],[24.6983,44.7162],[24.6927,44.7111],[24.6898,44.7051],[24.6927,44.6958],[24.7173,44.6662],[24.7248,44.651],[24.7295,44.6288],[24.7314,44.6167],[24.7343,44.607],[24.7418,44.5908],[24.7513,44.546],[24.7504,44.539],[24.7456,44.5261],[24.7437,44.5177],[24.7437,44.509],[24.756,44.4757],[24.7598,44.4313],[24.7655,44.4165],[24.7721,44.4077],[24.7816,44.403],[24.8298,44.4007],[24.8516,44.3901],[24.8383,44.367],[24.8374,44.3568],[24.8374,44.3406],[24.8449,44.2967],[24.8487,44.2495],[24.8459,44.2273],[24.8345,44.1935],[24.8326,44.1662],[24.8345,44.15],[24.8393,44.1343],[24.8411,44.1158],[24.8355,44.1066],[24.8222,44.1005],[24.7882,44.0959],[24.7759,44.0927],[24.7636,44.0867],[24.7343,44.0635],[24.7239,44.0594],[24.7097,44.0566],[24.6927,44.0557],[24.6756,44.0515],[24.6577,44.0446],[24.6369,44.0247],[24.6302,44.0099],[24.6312,43.9909],[24.6624,43.9336],[24.6974,43.8818],[24.7409,43.8304],[24.7466,43.8147],[24.7456,43.8073],[24.7362,43.8018],[24.7078,43.792],[24.6946,43.7846],[24.6832,43.7768],[24.6633,43.7574],[24.6624,43.756],[24.6615,43.7555],[24.4997,43.7994],[24.4666,43.8022],[24.4316,43.7944],[24.3758,43.7638],[24.3579,43.7601],[24.3371,43.7592],[24.1592,43.7527],[24.1498,43.7546],[24.1498,43.755],[24.2046,43.8392],[24.2113,43.8462],[24.2292,43.8568],[24.234,43.8623],[24.2368,43.8739],[24.2396,43.8785],[24.2538,43.8859],[24.2595,43.8924],[24.2718,43.9197],[24.2737,43.9271],[24.2708,43.9354],[24.2567,43.9525],[24.2548,43.9604],[24.2604,43.9692],[24.269,43.9743],[24.2888,43.9821],[24.2917,43.9886],[24.2935,43.9974],[24.2917,44.0076],[24.2869,44.0168],[24.2737,44.0247],[24.2604,44.0275],[24.2292,44.0284],[24.2207,44.0298],[24.2122,44.0335],[24.2065,44.0395],[24.2046,44.046],[24.2075,44.0566],[24.2113,44.0645],[24.215,44.0793],[24.215,44.0918],[24.216,44.0968],[24.2207,44.101],[24.2264,44.1038],[24.2359,44.1047],[24.2463,44.1033],[24.2586,44.101],[24.2699,44.0996],[24.2765,44.1024],[24.2765,44.1084],[24.2557,44.1352],[24.2482,44.1598],[24.2463,44.1746],[24.2482,44.1875],[24.2529,44.1954],[24.2567,44.2023],[24.2567,44.2102],[24.251,44.2194],[24.2321,44.2338],[24.2207,44.2398],[24.1952,44.2472],[24.1592,44.2638],[24.1488,44.2726],[24.1384,44.2837],[24.1299,44.2985],[24.1214,44.3096],[24.111,44.3179],[24.0893,44.3309],[24.077,44.3406],[24.0656,44.3531],[24.0524,44.373],[24.0382,44.3836],[24.0259,44.3882],[24.0136,44.3896],[24.0041,44.3929],[23.9956,44.3989],[23.9691,44.4266],[23.9587,44.4345],[23.919,44.4511],[23.9105,44.4581],[23.9058,44.4655],[23.9048,44.4729],[23.9067,44.4803],[23.92,44.4979],[23.9578,44.5298],[23.9966,44.5469],[24.007,44.5492],[24.0202,44.551],[24.0306,44.5497],[24.042,44.546],[24.0505,44.5409],[24.059,44.5339],[24.0685,44.5219],[24.076,44.5173],[24.0836,44.5168],[24.0959,44.5205],[24.1271,44.5534],[24.1375,44.5612],[24.1498,44.5663],[24.1602,44.5677],[24.1734,44.5672],[24.1971,44.5626],[24.2065,44.5626],[24.2169,44.5645],[24.2463,44.5765],[24.2538,44.5839],[24.2604,44.6047],[24.2652,44.613],[24.2784,44.62],[24.2879,44.62],[24.2935,44.6181],[24.2954,44.614],[24.2935,44.6038],[24.2935,44.5973],[24.2964,44.5908],[24.3011,44.5839],[24.3087,44.5774],[24.3181,44.5737],[24.3248,44.5783],[24.3333,44.583],[24.3304,44.6015],[24.3229,44.6246],[24.3115,44.6431],[24.3002,44.6556],[24.3049,44.6727],[24.2907,44.7157],[24.286,44.7374],[24.286,44.7458],[24.3049,44.7601],[24.321,44.7777],[24.3304,44.7902],[24.3361,44.8013],[24.3427,44.8235],[24.3446,44.8369],[24.3484,44.8489],[24.3531,44.8605],[24.3815,44.8956],[24.3891,44.903],[24.3966,44.9095],[24.408,44.9137],[24.4165,44.9141],[24.4269,44.9123],[24.4345,44.904],[24.4401,44.8966],[24.4383,44.8498]]]}'),
+  ('298', 'Prahova', 'Județul Prahova', 'PH', ARRAY[25.4294, 44.7384, 26.6041, 45.5126], ARRAY[45.1255, 26.0168], 9, '{"type":"Polygon","coordinates":[[[26.0461,45.4821],[26.1056,45.4317],[26.1473,45.4104],[26.1605,45.4007],[26.1737,45.3864],[26.2087,45.3341],[26.2135,45.3184],[26.2125,45.3091],[26.2059,45.3022],[26.204,45.2939],[26.2087,45.2832],[26.2371,45.2624],[26.2475,45.2522],[26.2503,45.2411],[26.2513,45.2328],[26.2551,45.2254],[26.2617,45.218],[26.2759,45.2125],[26.2901,45.2106],[26.3336,45.2129],[26.3449,45.2101],[26.3553,45.2046],[26.36,45.1921],[26.3705,45.1852],[26.379,45.1838],[26.3865,45.1875],[26.4026,45.1981],[26.4111,45.2004],[26.4159,45.1986],[26.4168,45.1912],[26.4149,45.1829],[26.413,45.1731],[26.4159,45.1616],[26.43,45.1505],[26.4537,45.1371],[26.4631,45.1278],[26.4688,45.1176],[26.4735,45.1019],[26.4764,45.088],[26.4783,45.0501],[26.483,45.0353],[26.4896,45.0247],[26.5057,45.0177],[26.5341,45.0122],[26.5426,45.0094],[26.5653,44.9937],[26.5728,44.9863],[26.5776,44.9775],[26.5757,44.9641],[26.5681,44.9558],[26.5501,44.9428],[26.5435,44.9349],[26.5426,44.9262],[26.5473,44.9164],[26.5851,44.8892],[26.6041,44.8651],[26.5785,44.8424],[26.5653,44.8262],[26.5587,44.8212],[26.5483,44.8151],[26.535,44.8101],[26.5199,44.8073],[26.466,44.8105],[26.4527,44.8082],[26.4395,44.8003],[26.431,44.7929],[26.4215,44.7865],[26.4111,44.7832],[26.3884,44.7842],[26.3648,44.7934],[26.3534,44.7957],[26.3392,44.7948],[26.3052,44.7837],[26.2693,44.7596],[26.2276,44.7615],[26.2135,44.7601],[26.187,44.768],[26.1643,44.768],[26.1037,44.7536],[26.0423,44.7532],[26.0347,44.7421],[26.029,44.7384],[26.0167,44.7402],[25.9969,44.7481],[25.9846,44.7555],[25.9155,44.8156],[25.8995,44.823],[25.8834,44.8267],[25.8361,44.8318],[25.8257,44.8374],[25.8172,44.8471],[25.8134,44.8651],[25.8153,44.8799],[25.8191,44.8938],[25.8181,44.9081],[25.8134,44.922],[25.8002,44.9382],[25.7907,44.9465],[25.7822,44.9488],[25.7746,44.9479],[25.7661,44.9451],[25.7548,44.9433],[25.7434,44.9437],[25.7311,44.9465],[25.7217,44.9502],[25.7113,44.9567],[25.7027,44.9673],[25.6952,44.9807],[25.6867,45.0052],[25.681,45.0478],[25.6772,45.0589],[25.6687,45.0695],[25.6271,45.1024],[25.5722,45.1778],[25.5609,45.1893],[25.5495,45.1972],[25.541,45.2051],[25.5259,45.2236],[25.5249,45.2374],[25.5268,45.2569],[25.5268,45.2652],[25.524,45.2749],[25.5183,45.2869],[25.506,45.3003],[25.4956,45.3087],[25.4862,45.3142],[25.4758,45.3188],[25.4663,45.3244],[25.4597,45.3332],[25.455,45.3452],[25.4483,45.3896],[25.4294,45.4525],[25.4464,45.4599],[25.4587,45.4636],[25.628,45.4849],[25.6507,45.4853],[25.6933,45.4793],[25.7358,45.4678],[25.75,45.4659],[25.7784,45.4729],[25.7907,45.4733],[25.803,45.4678],[25.8096,45.4613],[25.8229,45.4456],[25.8314,45.44],[25.8456,45.4382],[25.8626,45.4414],[25.8824,45.4534],[25.8909,45.4655],[25.8966,45.4784],[25.8985,45.489],[25.9032,45.5006],[25.9108,45.5089],[25.9241,45.5126],[25.9458,45.5103],[25.9988,45.4886],[26.0461,45.4821]]]}'),
+  ('305', 'Satu Mare', 'Județul Satu Mare', 'SM', ARRAY[22.1675, 47.3142, 23.6296, 48.0981], ARRAY[47.7062, 22.8986], 9, '{"type":"Polygon","coordinates":[[[23.4859,47.9742],[23.5019,47.9344],[23.5492,47.8891],[23.5596,47.8812],[23.5738,47.8738],[23.6069,47.8595],[23.6202,47.8507],[23.6296,47.8382],[23.6296,47.8271],[23.6211,47.816],[23.4792,47.7429],[23.4547,47.7351],[23.432,47.7318],[23.4149,47.7328],[23.3979,47.7355],[23.3818,47.7411],[23.3431,47.7489],[23.2721,47.7494],[23.2551,47.7443],[23.2437,47.736],[23.24,47.7221],[23.2409,47.7138],[23.2475,47.7069],[23.2589,47.7018],[23.327,47.6893],[23.3431,47.6833],[23.3535,47.6759],[23.361,47.668],[23.3629,47.6546],[23.3591,47.6426],[23.3468,47.6231],[23.3402,47.6106],[23.3241,47.5852],[23.3014,47.5676],[23.2835,47.5501],[23.2683,47.538],[23.2494,47.5306],[23.2324,47.5306],[23.2173,47.5353],[23.1719,47.5556],[23.1605,47.563],[23.1435,47.5769],[23.135,47.5806],[23.1265,47.5806],[23.117,47.5764],[23.0574,47.526],[23.0499,47.5163],[23.0442,47.5057],[23.0404,47.495],[23.0357,47.4867],[23.0309,47.4798],[23.0234,47.4728],[23.013,47.4668],[22.977,47.4502],[22.9685,47.4446],[22.9657,47.4381],[22.9676,47.4303],[22.9818,47.4229],[22.9988,47.4164],[23.0905,47.4044],[23.1019,47.39],[23.1104,47.3771],[23.1123,47.3692],[23.1104,47.3618],[23.1047,47.3553],[23.0659,47.3331],[23.0603,47.3271],[23.0555,47.3206],[23.0508,47.316],[23.0451,47.3142],[23.0338,47.3197],[23.0158,47.3331],[23.0054,47.3368],[22.9647,47.3442],[22.9496,47.3502],[22.926,47.366],[22.9118,47.372],[22.8021,47.3928],[22.7822,47.3928],[22.7548,47.3877],[22.6233,47.3447],[22.5808,47.3216],[22.5713,47.3391],[22.5637,47.3637],[22.5552,47.3757],[22.5429,47.3831],[22.5127,47.3946],[22.4966,47.4039],[22.4824,47.4104],[22.472,47.4122],[22.4625,47.4104],[22.438,47.4011],[22.4285,47.3997],[22.4143,47.402],[22.4049,47.4025],[22.3954,47.4016],[22.3878,47.3997],[22.3774,47.3988],[22.3604,47.4011],[22.3519,47.4057],[22.3453,47.4136],[22.3339,47.4344],[22.3254,47.446],[22.297,47.4761],[22.281,47.4964],[22.2658,47.5103],[22.2252,47.5311],[22.2138,47.539],[22.2053,47.5482],[22.193,47.5681],[22.1722,47.5898],[22.1675,47.5949],[22.1694,47.6014],[22.1703,47.6088],[22.1731,47.6153],[22.1977,47.6393],[22.2006,47.6481],[22.2043,47.6662],[22.2081,47.6736],[22.2148,47.68],[22.2318,47.6884],[22.2403,47.6934],[22.262,47.7156],[22.2734,47.724],[22.2914,47.7309],[22.3093,47.7351],[22.3216,47.736],[22.368,47.7314],[22.3831,47.7318],[22.3963,47.7355],[22.4077,47.7429],[22.4238,47.7827],[22.454,47.7873],[22.5287,47.761],[22.5628,47.7573],[22.6016,47.761],[22.6375,47.7716],[22.6668,47.7887],[22.6914,47.8109],[22.7037,47.8174],[22.7245,47.8234],[22.7463,47.8248],[22.7519,47.8276],[22.7605,47.8391],[22.7586,47.8461],[22.7529,47.8525],[22.7529,47.8613],[22.7633,47.8747],[22.7794,47.8821],[22.82,47.8923],[22.8361,47.9025],[22.8607,47.934],[22.8777,47.9469],[22.8976,47.9511],[22.9156,47.9594],[22.9241,47.9728],[22.9156,47.9932],[22.9241,48.0047],[22.9392,48.0056],[22.9572,48.0001],[22.9723,47.9927],[22.9884,47.9862],[23.0045,47.983],[23.0205,47.9848],[23.0631,48.0075],[23.0763,48.0246],[23.099,48.0713],[23.1189,48.0917],[23.1388,48.0981],[23.1615,48.0958],[23.2315,48.0796],[23.2485,48.0713],[23.2901,48.038],[23.3374,48.0107],[23.3601,47.9932],[23.3676,47.9913],[23.3743,47.9904],[23.3818,47.9913],[23.3903,47.9932],[23.3913,47.9936],[23.3932,47.9936],[23.3941,47.9936],[23.396,47.9932],[23.4613,47.9714],[23.4811,47.9723],[23.4859,47.9742]]]}'),
+  ('314', 'Sălaj', 'Județul Sălaj', 'SJ', ARRAY[22.4947, 46.872, 23.8292, 47.4168], ARRAY[47.1444, 23.162], 9, '{"type":"Polygon","coordinates":[[[23.8131,47.3165],[23.8282,47.3008],[23.8292,47.2943],[23.8273,47.2864],[23.8207,47.2776],[23.8159,47.2656],[23.8112,47.2466],[23.8122,47.2272],[23.8036,47.2184],[23.7885,47.2143],[23.7299,47.2096],[23.6968,47.2027],[23.6618,47.1897],[23.6466,47.1777],[23.6372,47.1657],[23.6306,47.1532],[23.6221,47.149],[23.6126,47.149],[23.6022,47.1518],[23.5908,47.1523],[23.5776,47.15],[23.5549,47.1393],[23.5095,47.1268],[23.5057,47.1204],[23.5038,47.1125],[23.5029,47.1037],[23.4953,47.0945],[23.4887,47.0829],[23.4868,47.0778],[23.4802,47.075],[23.4603,47.0709],[23.4547,47.0658],[23.4537,47.0593],[23.4565,47.0528],[23.4707,47.0408],[23.4755,47.0343],[23.484,47.0121],[23.4859,47.0043],[23.4821,46.995],[23.4717,46.9886],[23.4575,46.9858],[23.4442,46.9849],[23.4216,46.9858],[23.4093,46.9844],[23.3979,46.9798],[23.3932,46.9738],[23.3894,46.9608],[23.3837,46.9594],[23.3667,46.9636],[23.3563,46.9636],[23.3421,46.959],[23.3374,46.9525],[23.3412,46.9437],[23.3506,46.9358],[23.361,46.9284],[23.3648,46.9192],[23.3648,46.9104],[23.3563,46.896],[23.3468,46.8919],[23.3374,46.8914],[23.3308,46.896],[23.3241,46.9016],[23.3175,46.9067],[23.309,46.9085],[23.2986,46.9081],[23.2778,46.9034],[23.2693,46.9053],[23.2636,46.9099],[23.257,46.9252],[23.2504,46.9326],[23.2428,46.9367],[23.2305,46.9354],[23.2239,46.9284],[23.2097,46.9099],[23.2069,46.9025],[23.2069,46.8947],[23.2088,46.8863],[23.2059,46.878],[23.1965,46.8743],[23.1842,46.8738],[23.1615,46.8799],[23.1501,46.8803],[23.1359,46.8785],[23.1161,46.8738],[23.099,46.872],[23.0839,46.8743],[23.0735,46.8771],[23.0622,46.8785],[23.0499,46.8785],[23.0281,46.8752],[23.0187,46.8757],[23.0111,46.8789],[23.0054,46.884],[23.0007,46.8896],[22.9941,46.8937],[22.9846,46.896],[22.9468,46.8984],[22.9345,46.9021],[22.9241,46.9104],[22.9137,46.9233],[22.8966,46.9534],[22.8891,46.9627],[22.8796,46.9687],[22.8683,46.9724],[22.8503,46.9747],[22.7311,46.9761],[22.7198,46.9793],[22.7028,46.9987],[22.664,47.0256],[22.6016,47.0501],[22.5902,47.0584],[22.5836,47.0663],[22.5798,47.0746],[22.5505,47.1134],[22.507,47.1597],[22.4947,47.1805],[22.4947,47.1944],[22.5023,47.1999],[22.5117,47.2069],[22.5373,47.2323],[22.5429,47.2402],[22.5458,47.2476],[22.5467,47.2559],[22.5486,47.2647],[22.5533,47.2725],[22.5647,47.2855],[22.5704,47.2938],[22.5808,47.3216],[22.6233,47.3447],[22.7548,47.3877],[22.7822,47.3928],[22.8021,47.3928],[22.9118,47.372],[22.926,47.366],[22.9496,47.3502],[22.9647,47.3442],[23.0054,47.3368],[23.0158,47.3331],[23.0338,47.3197],[23.0451,47.3142],[23.0508,47.316],[23.0555,47.3206],[23.0603,47.3271],[23.0659,47.3331],[23.1047,47.3553],[23.1104,47.3618],[23.1123,47.3692],[23.1104,47.3771],[23.1019,47.39],[23.0905,47.4044],[23.1407,47.4168],[23.2456,47.4164],[23.2721,47.4131],[23.292,47.4085],[23.3326,47.3942],[23.4575,47.365],[23.4802,47.3627],[23.6334,47.3674],[23.657,47.3646],[23.6703,47.359],[23.6722,47.3516],[23.6779,47.3438],[23.6873,47.3354],[23.7072,47.3294],[23.7195,47.3243],[23.728,47.3188],[23.7365,47.3128],[23.7497,47.3068],[23.762,47.3049],[23.7762,47.3054],[23.7876,47.3077],[23.8131,47.3165]]]}'),
+  ('323', 'Sibiu', 'Județul Sibiu', 'SB', ARRAY[23.6098, 45.4507, 24.9821, 46.2666], ARRAY[45.8586, 24.2959], 9, '{"type":"Polygon","coordinates":[[[24.9821,46.0635],[24.9603,46.0436],[24.9007,46.0094],[24.8459,45.9881],[24.8393,45.9835],[24.8374,45.9775],[24.843,45.9641],[24.844,45.9567],[24.8411,45.9469],[24.8326,45.9437],[24.826,45.9442],[24.8184,45.9474],[24.8099,45.9493],[24.7986,45.9474],[24.7816,45.9409],[24.7664,45.9298],[24.722,45.9136],[24.7154,45.9072],[24.7144,45.8993],[24.7182,45.8938],[24.7324,45.8822],[24.7362,45.8743],[24.7352,45.8637],[24.7343,45.8549],[24.7371,45.8484],[24.7428,45.8438],[24.7504,45.8415],[24.757,45.8373],[24.7598,45.8309],[24.7541,45.8202],[24.7409,45.8128],[24.7239,45.8077],[24.705,45.8045],[24.669,45.7934],[24.6539,45.7855],[24.6492,45.7767],[24.6501,45.7666],[24.6813,45.7203],[24.687,45.7083],[24.6917,45.6963],[24.7002,45.6634],[24.704,45.6343],[24.7068,45.6195],[24.7087,45.5987],[24.5272,45.5617],[24.3219,45.5631],[24.1829,45.5404],[24.1687,45.5371],[24.0685,45.4964],[24.0495,45.496],[24.0344,45.4983],[23.9985,45.5089],[23.9606,45.5122],[23.7942,45.508],[23.7791,45.5043],[23.7705,45.4983],[23.762,45.4914],[23.7526,45.4863],[23.7403,45.484],[23.7233,45.4835],[23.71,45.4798],[23.6788,45.4627],[23.6589,45.4539],[23.6466,45.4507],[23.6258,45.452],[23.6533,45.4807],[23.6523,45.49],[23.6476,45.5034],[23.6239,45.533],[23.6135,45.5547],[23.6164,45.5709],[23.6239,45.588],[23.6315,45.6181],[23.6306,45.6366],[23.6239,45.6532],[23.6164,45.6676],[23.6098,45.6935],[23.6126,45.7111],[23.6353,45.7619],[23.6419,45.7726],[23.6476,45.7791],[23.6561,45.786],[23.6637,45.7897],[23.6703,45.792],[23.6779,45.792],[23.693,45.7897],[23.7024,45.7906],[23.7091,45.7939],[23.7157,45.8003],[23.7289,45.8179],[23.763,45.8549],[23.7649,45.8632],[23.7582,45.8688],[23.7469,45.8729],[23.7214,45.8776],[23.7119,45.8808],[23.7053,45.8873],[23.7006,45.9201],[23.7053,45.9257],[23.7128,45.928],[23.7233,45.9284],[23.7318,45.9271],[23.7422,45.9238],[23.7507,45.9187],[23.7592,45.916],[23.7686,45.9146],[23.7847,45.9178],[23.7913,45.9183],[23.7989,45.9173],[23.8093,45.9169],[23.8207,45.9187],[23.8358,45.9252],[23.85,45.9335],[23.8642,45.946],[23.867,45.958],[23.8642,45.9673],[23.8566,45.9765],[23.8519,45.9867],[23.8528,46.0029],[23.8604,46.0117],[23.8717,46.0182],[23.9408,46.0288],[23.9521,46.0284],[23.9616,46.0256],[23.9701,46.0205],[23.9881,46.008],[23.9975,46.0034],[24.006,46.002],[24.0136,46.0048],[24.0174,46.0103],[24.0221,46.0288],[24.0287,46.0432],[24.0401,46.0556],[24.1243,46.1181],[24.146,46.1315],[24.1611,46.1435],[24.181,46.1518],[24.1914,46.1597],[24.1961,46.168],[24.1971,46.1782],[24.1914,46.2443],[24.2661,46.2448],[24.303,46.2499],[24.3579,46.2337],[24.3758,46.2323],[24.3957,46.2351],[24.4127,46.2397],[24.4439,46.2443],[24.5139,46.2411],[24.5338,46.242],[24.5461,46.2462],[24.5527,46.2527],[24.5603,46.2582],[24.5725,46.2638],[24.5858,46.2642],[24.6123,46.2582],[24.6312,46.2573],[24.6454,46.2596],[24.6643,46.2666],[24.6737,46.2656],[24.6775,46.2629],[24.6747,46.2568],[24.6681,46.2499],[24.6633,46.242],[24.6624,46.2323],[24.669,46.2055],[24.6737,46.1481],[24.6794,46.1227],[24.6898,46.1],[24.7078,46.0848],[24.721,46.0806],[24.7343,46.0806],[24.7456,46.0829],[24.7683,46.0834],[24.7768,46.0857],[24.7872,46.0922],[24.7948,46.094],[24.826,46.0954],[24.8374,46.0973],[24.8459,46.0996],[24.8591,46.1019],[24.8724,46.1028],[24.8941,46.101],[24.9074,46.0963],[24.9234,46.0894],[24.9338,46.0825],[24.9821,46.0635]]]}'),
+  ('332', 'Suceava', 'Județul Suceava', 'SV', ARRAY[24.9423, 47.0473, 26.6759, 47.9784], ARRAY[47.5129, 25.8091], 9, '{"type":"Polygon","coordinates":[[[26.6589,47.4266],[26.6731,47.4127],[26.6759,47.4039],[26.6722,47.3928],[26.6617,47.3748],[26.6599,47.3623],[26.6561,47.353],[26.6476,47.3475],[26.6258,47.3447],[26.5208,47.3535],[26.5048,47.3502],[26.501,47.341],[26.5114,47.3243],[26.5728,47.286],[26.5776,47.2786],[26.5691,47.2712],[26.5587,47.2656],[26.4821,47.2536],[26.4471,47.2809],[26.4329,47.2887],[26.4159,47.2938],[26.396,47.2966],[26.3761,47.2971],[26.3534,47.2934],[26.2598,47.2601],[26.2229,47.2536],[26.1104,47.254],[26.0584,47.2448],[26.0394,47.2453],[26.0234,47.2494],[26.0111,47.255],[25.9969,47.2582],[25.9817,47.2573],[25.9089,47.2342],[25.8909,47.2318],[25.8787,47.2332],[25.8654,47.2397],[25.82,47.2684],[25.8068,47.2744],[25.7945,47.2781],[25.7831,47.2776],[25.7756,47.2744],[25.7718,47.2684],[25.7746,47.2614],[25.7916,47.2448],[25.8125,47.2318],[25.8191,47.2244],[25.8219,47.2161],[25.82,47.2069],[25.8125,47.1972],[25.7954,47.1865],[25.7557,47.1694],[25.7406,47.1597],[25.6961,47.1231],[25.6838,47.106],[25.6725,47.0801],[25.6715,47.0579],[25.6186,47.0524],[25.6044,47.0491],[25.5836,47.0473],[25.5675,47.0487],[25.5524,47.0561],[25.5401,47.0653],[25.5297,47.0746],[25.5193,47.0824],[25.4067,47.1347],[25.3897,47.1398],[25.3727,47.1403],[25.3481,47.1366],[25.3282,47.1305],[25.3121,47.1231],[25.3017,47.1116],[25.2989,47.1023],[25.2989,47.0931],[25.297,47.0848],[25.2923,47.0769],[25.2828,47.0704],[25.2696,47.0663],[25.2544,47.0658],[25.2422,47.0663],[25.2043,47.0764],[25.1589,47.0912],[25.0681,47.1028],[25.0634,47.1726],[25.0681,47.2027],[25.0729,47.2133],[25.0766,47.2281],[25.0748,47.2342],[25.07,47.2365],[25.0615,47.2351],[25.0511,47.2346],[25.0388,47.2374],[25.0275,47.2471],[25.0294,47.2577],[25.0369,47.2707],[25.0492,47.286],[25.0577,47.304],[25.0568,47.3151],[25.0521,47.3248],[25.0407,47.3428],[25.0331,47.3512],[25.0133,47.3687],[25.0038,47.3794],[25.0029,47.3868],[25.0067,47.3923],[25.0142,47.396],[25.0227,47.397],[25.0303,47.397],[25.0379,47.3956],[25.0445,47.3965],[25.0492,47.3997],[25.0521,47.4085],[25.0502,47.415],[25.0464,47.421],[25.0407,47.4256],[25.0369,47.4303],[25.0398,47.4354],[25.0473,47.4395],[25.0587,47.4437],[25.0729,47.4497],[25.0842,47.4576],[25.0908,47.4714],[25.0889,47.483],[25.0842,47.4936],[25.0719,47.5084],[25.0464,47.5297],[24.9669,47.5736],[24.9565,47.5824],[25.0161,47.5963],[25.0246,47.6028],[25.0322,47.6125],[25.0303,47.6231],[25.0218,47.6324],[24.9792,47.6624],[24.9546,47.6884],[24.9423,47.7156],[25.0171,47.7244],[25.0795,47.7429],[25.0804,47.7429],[25.122,47.7702],[25.2185,47.8784],[25.262,47.8988],[25.7529,47.9344],[25.8181,47.9525],[25.8711,47.9571],[25.9014,47.9659],[25.9184,47.9682],[25.9657,47.9649],[26.029,47.9779],[26.1028,47.9784],[26.1198,47.9173],[26.1264,47.9062],[26.1416,47.8965],[26.1681,47.8849],[26.2087,47.8618],[26.2598,47.8424],[26.2834,47.8262],[26.3969,47.7286],[26.4159,47.7064],[26.4821,47.6509],[26.4943,47.6365],[26.5265,47.6139],[26.5369,47.6023],[26.5464,47.5806],[26.5624,47.5283],[26.5624,47.5158],[26.5606,47.501],[26.5596,47.4895],[26.5624,47.4779],[26.5672,47.4682],[26.5918,47.4446],[26.6069,47.4358],[26.6173,47.4307],[26.6589,47.4266]]]}'),
+  ('341', 'Teleorman', 'Județul Teleorman', 'TR', ARRAY[24.6302, 43.65, 25.733, 44.5293], ARRAY[44.0896, 25.1816], 9, '{"type":"Polygon","coordinates":[[[25.5136,44.5057],[25.5344,44.4937],[25.5372,44.4872],[25.5363,44.4789],[25.5193,44.4572],[25.4985,44.4197],[25.4937,44.4067],[25.4966,44.3984],[25.5041,44.3878],[25.5145,44.3753],[25.5278,44.3489],[25.5372,44.3364],[25.5505,44.3295],[25.6375,44.3216],[25.6526,44.3179],[25.681,44.299],[25.7009,44.2888],[25.7094,44.2823],[25.715,44.2708],[25.7188,44.2555],[25.7198,44.2296],[25.7169,44.2148],[25.7217,44.1861],[25.7217,44.1709],[25.7198,44.1598],[25.7113,44.1551],[25.7018,44.1528],[25.6904,44.1514],[25.6819,44.1491],[25.6725,44.144],[25.6687,44.1362],[25.664,44.1149],[25.6592,44.1047],[25.6479,44.0862],[25.6422,44.0737],[25.6403,44.0603],[25.6403,44.045],[25.6488,43.9877],[25.6744,43.8836],[25.6857,43.8586],[25.7103,43.8341],[25.716,43.8212],[25.733,43.719],[25.6715,43.7176],[25.6536,43.7083],[25.6375,43.6972],[25.6167,43.688],[25.594,43.6806],[25.5751,43.6773],[25.5561,43.6704],[25.5334,43.6686],[25.489,43.6704],[25.4824,43.6699],[25.4672,43.6676],[25.4256,43.6542],[25.4029,43.65],[25.3594,43.6542],[25.3235,43.6699],[25.2885,43.6889],[25.2857,43.6903],[25.2526,43.7046],[25.2109,43.712],[25.0814,43.719],[24.9641,43.7495],[24.7522,43.7389],[24.7059,43.7439],[24.6615,43.7555],[24.6624,43.756],[24.6633,43.7574],[24.6832,43.7768],[24.6946,43.7846],[24.7078,43.792],[24.7362,43.8018],[24.7456,43.8073],[24.7466,43.8147],[24.7409,43.8304],[24.6974,43.8818],[24.6624,43.9336],[24.6312,43.9909],[24.6302,44.0099],[24.6369,44.0247],[24.6577,44.0446],[24.6756,44.0515],[24.6927,44.0557],[24.7097,44.0566],[24.7239,44.0594],[24.7343,44.0635],[24.7636,44.0867],[24.7759,44.0927],[24.7882,44.0959],[24.8222,44.1005],[24.8355,44.1066],[24.8411,44.1158],[24.8393,44.1343],[24.8345,44.15],[24.8326,44.1662],[24.8345,44.1935],[24.8459,44.2273],[24.8487,44.2495],[24.8449,44.2967],[24.8374,44.3406],[24.8374,44.3568],[24.8383,44.367],[24.8516,44.3901],[24.8941,44.3975],[24.949,44.3878],[24.966,44.3882],[24.9811,44.391],[24.9915,44.3952],[24.9991,44.3993],[25.0123,44.4109],[25.0218,44.4165],[25.0322,44.4174],[25.0634,44.4141],[25.088,44.4188],[25.1012,44.4229],[25.1239,44.4387],[25.1447,44.4474],[25.1901,44.4535],[25.2128,44.4535],[25.2299,44.4516],[25.2459,44.4484],[25.2781,44.4373],[25.2998,44.4308],[25.3112,44.4317],[25.3282,44.4359],[25.3481,44.4493],[25.3594,44.4604],[25.3746,44.4794],[25.3802,44.4854],[25.3935,44.4965],[25.3982,44.502],[25.3982,44.508],[25.3906,44.5182],[25.3906,44.5242],[25.3963,44.5279],[25.4096,44.5293],[25.4323,44.5265],[25.4881,44.5076],[25.5136,44.5057]]]}'),
+  ('350', 'Timiș', 'Județul Timiș', 'TM', ARRAY[20.2428, 45.1528, 22.5439, 46.174], ARRAY[45.6634, 21.3933], 8, '{"type":"Polygon","coordinates":[[[20.7044,46.1685],[20.7185,46.1648],[20.8604,46.0959],[20.8964,46.0709],[20.9058,46.051],[20.92,46.0371],[20.9313,46.0316],[20.9465,46.0279],[21.008,46.02],[21.0165,46.02],[21.0354,46.0233],[21.0477,46.0237],[21.0694,46.02],[21.0798,46.0154],[21.0836,46.0103],[21.0817,45.9987],[21.0836,45.9923],[21.0969,45.9802],[21.1101,45.9752],[21.1243,45.9728],[21.1347,45.9738],[21.1423,45.977],[21.146,45.9812],[21.1479,45.9867],[21.1489,45.9983],[21.1508,46.0043],[21.1545,46.0098],[21.1631,46.0154],[21.1735,46.0191],[21.1886,46.0205],[21.1962,46.0186],[21.1981,46.0149],[21.1999,46.0057],[21.2075,45.9937],[21.234,45.9752],[21.251,45.9691],[21.2652,45.9687],[21.2879,45.9826],[21.2992,45.9863],[21.3134,45.9876],[21.3305,45.9876],[21.3409,45.9835],[21.355,45.9719],[21.3617,45.9705],[21.3683,45.9728],[21.391,45.9886],[21.4175,46.0034],[21.4241,46.0085],[21.4279,46.0149],[21.4288,46.0214],[21.4288,46.0284],[21.4307,46.0339],[21.4421,46.0381],[21.4581,46.039],[21.4912,46.0367],[21.5073,46.033],[21.5158,46.027],[21.5168,46.0205],[21.5168,46.0126],[21.5187,46.0048],[21.5253,45.9974],[21.5357,45.995],[21.5631,45.9978],[21.5735,45.9964],[21.5839,45.9918],[21.6066,45.9756],[21.6265,45.9641],[21.6359,45.9557],[21.6397,45.9493],[21.6378,45.9437],[21.635,45.9382],[21.6331,45.9335],[21.634,45.9289],[21.6388,45.9257],[21.6511,45.9192],[21.6577,45.9141],[21.6624,45.9081],[21.67,45.9016],[21.6776,45.9025],[21.6832,45.9072],[21.6936,45.9229],[21.7069,45.9395],[21.7144,45.946],[21.723,45.9493],[21.7371,45.9497],[21.7693,45.9391],[21.7806,45.934],[21.7892,45.928],[21.8015,45.9141],[21.81,45.9067],[21.8156,45.9049],[21.8204,45.9062],[21.8223,45.9113],[21.8204,45.9252],[21.8213,45.9335],[21.8223,45.9405],[21.827,45.9465],[21.8327,45.946],[21.8393,45.9428],[21.8487,45.9368],[21.8582,45.9345],[21.8809,45.9345],[21.8885,45.9354],[21.8941,45.9386],[21.8979,45.9442],[21.9045,45.9664],[21.9074,45.9724],[21.9121,45.9775],[21.9197,45.9807],[21.931,45.9821],[21.9556,45.9821],[21.9698,45.9789],[21.9802,45.9738],[21.9887,45.9664],[22.001,45.9585],[22.019,45.9553],[22.0587,45.9525],[22.0691,45.9493],[22.0748,45.9437],[22.0776,45.9368],[22.0814,45.9317],[22.089,45.928],[22.106,45.9224],[22.1136,45.9183],[22.1211,45.9118],[22.1315,45.9053],[22.1457,45.9025],[22.1618,45.9025],[22.1816,45.9044],[22.1958,45.9025],[22.2204,45.8933],[22.2289,45.8928],[22.2356,45.8965],[22.2422,45.9012],[22.2488,45.9062],[22.2573,45.909],[22.2942,45.915],[22.3122,45.916],[22.3178,45.9183],[22.3226,45.922],[22.3282,45.9368],[22.333,45.9405],[22.3368,45.9432],[22.3547,45.9497],[22.3888,45.9247],[22.3992,45.9081],[22.402,45.8896],[22.4058,45.8776],[22.4124,45.8628],[22.4219,45.8526],[22.4493,45.8373],[22.4578,45.8309],[22.4673,45.8184],[22.4862,45.786],[22.4938,45.7772],[22.5023,45.774],[22.5146,45.7791],[22.5221,45.7804],[22.5297,45.78],[22.541,45.7753],[22.5439,45.7689],[22.541,45.7615],[22.5325,45.7536],[22.4928,45.7282],[22.4815,45.7189],[22.4729,45.7087],[22.4682,45.6995],[22.4635,45.6805],[22.4616,45.6741],[22.4578,45.6685],[22.454,45.6657],[22.4455,45.663],[22.3349,45.6482],[22.298,45.6297],[22.2706,45.5894],[22.2639,45.5862],[22.2573,45.5857],[22.2488,45.5871],[22.2393,45.588],[22.2252,45.5871],[22.2166,45.588],[22.21,45.5908],[22.1977,45.6005],[22.1902,45.6047],[22.1769,45.6065],[22.1665,45.6038],[22.141,45.5876],[22.1154,45.576],[22.0946,45.5709],[22.0719,45.5681],[22.0369,45.5686],[22.0303,45.5649],[22.0294,45.5594],[22.0322,45.5529],[22.0332,45.5413],[22.036,45.5362],[22.0398,45.5339],[22.0445,45.533],[22.0587,45.5321],[22.0596,45.5284],[22.053,45.5223],[22.0275,45.5099],[22.0076,45.5043],[21.9887,45.5025],[21.9755,45.5038],[21.9641,45.5075],[21.9556,45.5126],[21.949,45.5196],[21.9433,45.527],[21.9339,45.5436],[21.9263,45.5515],[21.9168,45.557],[21.9026,45.5603],[21.8922,45.5589],[21.8573,45.5427],[21.8109,45.5279],[21.7863,45.5237],[21.7683,45.5237],[21.7608,45.5284],[21.7485,45.5399],[21.7381,45.5446],[21.7267,45.5483],[21.704,45.5529],[21.6851,45.5612],[21.669,45.564],[21.6378,45.564],[21.6095,45.557],[21.5915,45.5487],[21.582,45.5385],[21.5782,45.5274],[21.5764,45.5159],[21.5764,45.5066],[21.5688,45.4964],[21.5546,45.4863],[21.513,45.4696],[21.495,45.4585],[21.4856,45.4497],[21.4856,45.4414],[21.4875,45.4308],[21.4875,45.422],[21.4827,45.4132],[21.4733,45.3993],[21.4704,45.391],[21.4714,45.3827],[21.4742,45.3739],[21.4799,45.366],[21.5139,45.3406],[21.5338,45.3299],[21.5414,45.3235],[21.547,45.3165],[21.5499,45.3087],[21.5508,45.3017],[21.5499,45.2957],[21.5508,45.2902],[21.5537,45.28],[21.5537,45.2744],[21.5499,45.2684],[21.53,45.2508],[21.5272,45.243],[21.5272,45.2328],[21.5319,45.2051],[21.5319,45.1953],[21.5272,45.1852],[21.5215,45.1773],[21.5035,45.1602],[21.4846,45.1528],[21.4591,45.1741],[21.4335,45.1889],[21.4052,45.1995],[21.2992,45.2231],[21.2567,45.224],[21.2397,45.2296],[21.2056,45.2458],[21.1895,45.2596],[21.1555,45.2952],[21.1394,45.3036],[21.129,45.3017],[21.1129,45.2892],[21.1035,45.286],[21.0912,45.2883],[21.0827,45.2939],[21.0742,45.3003],[21.0638,45.3064],[21.0165,45.3216],[20.9815,45.3327],[20.9663,45.3415],[20.9276,45.3776],[20.8632,45.4187],[20.8301,45.4525],[20.816,45.4627],[20.7999,45.4687],[20.7819,45.4724],[20.7668,45.4793],[20.7611,45.4932],[20.7829,45.5062],[20.798,45.5163],[20.7999,45.5307],[20.7876,45.5538],[20.7583,45.5894],[20.7545,45.6056],[20.7621,45.6306],[20.7734,45.6491],[20.7772,45.6574],[20.78,45.6717],[20.7791,45.7235],[20.7819,45.7342],[20.7857,45.7434],[20.7857,45.7527],[20.7772,45.7624],[20.7649,45.7666],[20.7545,45.7638],[20.745,45.755],[20.7394,45.7434],[20.7271,45.736],[20.7138,45.7333],[20.6996,45.7356],[20.6883,45.743],[20.6788,45.7568],[20.6552,45.7772],[20.6457,45.7888],[20.6438,45.7952],[20.6419,45.7985],[20.64,45.8188],[20.6363,45.8272],[20.6296,45.8332],[20.6126,45.8415],[20.6051,45.8461],[20.572,45.8877],[20.5568,45.8984],[20.5379,45.9039],[20.5001,45.9067],[20.4821,45.9127],[20.4291,45.9465],[20.4102,45.9557],[20.3715,45.9678],[20.3535,45.9765],[20.3383,45.9927],[20.3175,46.0385],[20.3052,46.0538],[20.2428,46.1079],[20.2835,46.144],[20.4443,46.1468],[20.4689,46.174],[20.5095,46.1676],[20.5493,46.156],[20.5786,46.1375],[20.588,46.1329],[20.6003,46.1296],[20.6079,46.1296],[20.6637,46.138],[20.6836,46.1449],[20.6987,46.1565],[20.7044,46.1662],[20.7044,46.1685]]]}'),
+  ('369', 'Tulcea', 'Județul Tulcea', 'TL', ARRAY[27.9868, 44.6796, 29.6996, 45.452], ARRAY[45.0658, 28.8432], 9, '{"type":"Polygon","coordinates":[[[28.785,44.6796],[28.7283,44.6889],[28.6706,44.7106],[28.6062,44.6963],[28.5268,44.6963],[28.4549,44.7176],[28.4048,44.761],[28.3471,44.761],[28.3254,44.7176],[28.2818,44.7106],[28.2393,44.7393],[28.1958,44.768],[28.1457,44.7828],[28.0549,44.7772],[28.07,44.7957],[28.0766,44.817],[28.0804,44.8406],[28.0899,44.8559],[28.1173,44.8813],[28.1249,44.8915],[28.1267,44.8956],[28.1249,44.9007],[28.1239,44.9447],[28.1277,44.9497],[28.1409,44.9599],[28.1409,44.9826],[28.1305,45.0187],[28.1334,45.0256],[28.1428,45.0362],[28.1447,45.0427],[28.1438,45.0487],[28.1409,45.052],[28.139,45.0538],[28.1371,45.0566],[28.1315,45.089],[28.1343,45.0936],[28.1476,45.0978],[28.1627,45.1084],[28.174,45.1218],[28.1778,45.1348],[28.1693,45.1477],[28.1523,45.1611],[28.1324,45.1718],[28.1135,45.1755],[28.0974,45.1842],[28.1031,45.2037],[28.1182,45.2245],[28.1305,45.2379],[28.1267,45.2444],[28.122,45.2499],[28.1173,45.2541],[28.1107,45.2582],[28.0757,45.2481],[28.0416,45.2582],[27.9868,45.2925],[28.0,45.3068],[28.0047,45.3128],[28.0095,45.3281],[28.0104,45.3304],[28.0189,45.341],[28.0208,45.3443],[28.0218,45.348],[28.0237,45.3776],[28.0265,45.3864],[28.0303,45.3956],[28.0435,45.4113],[28.0511,45.415],[28.0615,45.416],[28.105,45.4266],[28.1154,45.428],[28.1249,45.428],[28.1419,45.4243],[28.1712,45.4146],[28.1816,45.4132],[28.1873,45.4146],[28.1911,45.4169],[28.1948,45.4234],[28.1958,45.4289],[28.1996,45.4368],[28.2138,45.4488],[28.2147,45.4502],[28.2374,45.452],[28.2667,45.4405],[28.2866,45.4215],[28.2809,45.4016],[28.3112,45.348],[28.3301,45.323],[28.3537,45.3124],[28.3698,45.3091],[28.4048,45.2952],[28.4937,45.2791],[28.5769,45.2481],[28.7103,45.2268],[28.7472,45.2305],[28.7784,45.231],[28.7916,45.2351],[28.803,45.2444],[28.7746,45.2532],[28.767,45.2578],[28.7623,45.2652],[28.7595,45.274],[28.7614,45.2818],[28.7897,45.292],[28.7888,45.3073],[28.7897,45.3216],[28.8162,45.3262],[28.8323,45.3221],[28.8578,45.3091],[28.8805,45.3064],[28.8938,45.2999],[28.9098,45.2874],[28.9297,45.2791],[28.9524,45.2851],[28.9571,45.292],[28.9609,45.3114],[28.9666,45.3198],[28.9732,45.3239],[28.9827,45.3253],[29.0044,45.3262],[29.0186,45.3309],[29.0697,45.3609],[29.1103,45.3693],[29.1274,45.3743],[29.1416,45.385],[29.1501,45.3878],[29.1747,45.3891],[29.1794,45.3919],[29.1832,45.3989],[29.1917,45.4063],[29.2068,45.4155],[29.2286,45.4238],[29.2446,45.4243],[29.2607,45.422],[29.2815,45.4224],[29.29,45.4248],[29.2995,45.4289],[29.3071,45.434],[29.3127,45.4396],[29.3222,45.4437],[29.3326,45.4423],[29.3439,45.4382],[29.3534,45.4359],[29.431,45.4303],[29.57,45.3952],[29.6163,45.3656],[29.6277,45.3609],[29.6504,45.3461],[29.6674,45.3119],[29.6721,45.273],[29.6589,45.2444],[29.6646,45.2379],[29.6665,45.2305],[29.6646,45.2231],[29.6589,45.2157],[29.6504,45.2171],[29.6239,45.2166],[29.6239,45.2101],[29.639,45.1958],[29.6494,45.1778],[29.6674,45.1644],[29.6996,45.162],[29.6769,45.1445],[29.6646,45.1167],[29.656,45.0288],[29.6504,45.0122],[29.6371,44.9835],[29.6352,44.9696],[29.6334,44.9534],[29.6305,44.9386],[29.6239,44.9289],[29.6305,44.9077],[29.605,44.8799],[29.6182,44.8614],[29.6116,44.8494],[29.6031,44.8452],[29.5936,44.8443],[29.5832,44.8401],[29.569,44.8249],[29.5615,44.8202],[29.5416,44.8276],[29.5312,44.8262],[29.5208,44.8225],[29.5113,44.8207],[29.3156,44.799],[29.1917,44.7929],[29.1557,44.7846],[29.0555,44.7351],[29.0262,44.7148],[29.0006,44.6889],[28.994,44.6963],[28.995,44.7111],[28.9817,44.7296],[28.9751,44.7448],[28.9978,44.7518],[29.0214,44.7546],[29.0583,44.7684],[29.098,44.7754],[29.1207,44.7865],[29.1387,44.804],[29.1444,44.8267],[29.1387,44.8392],[29.1264,44.8526],[29.0962,44.8753],[29.1018,44.8591],[29.1037,44.8512],[29.1037,44.8401],[29.0876,44.8429],[29.0735,44.8355],[29.0602,44.8323],[29.0489,44.8471],[29.0441,44.8656],[29.0413,44.9257],[29.0517,44.9447],[29.099,44.9571],[29.1103,44.9701],[29.1018,44.9803],[29.0583,45.0011],[29.0451,45.0048],[29.0148,45.0048],[28.9836,45.0122],[28.9732,45.0108],[28.9694,45.0057],[28.9656,44.9965],[28.96,44.9877],[28.9496,44.9835],[28.9269,44.9826],[28.9165,44.9798],[28.8805,44.9548],[28.8692,44.9433],[28.8635,44.9225],[28.8654,44.9164],[28.8739,44.9114],[28.8767,44.9049],[28.8748,44.8993],[28.8701,44.8966],[28.8654,44.8947],[28.8635,44.8915],[28.8663,44.8827],[28.8739,44.8748],[28.8815,44.8697],[28.9042,44.8628],[28.9524,44.8267],[28.9401,44.817],[28.9344,44.8142],[28.925,44.8128],[28.9344,44.8077],[28.9392,44.8064],[28.9392,44.799],[28.9259,44.7929],[28.9259,44.7837],[28.9325,44.7735],[28.9458,44.7652],[28.9363,44.7601],[28.924,44.7578],[28.8796,44.7564],[28.8692,44.7536],[28.8086,44.7268],[28.7982,44.7203],[28.7888,44.7065],[28.7869,44.6935],[28.7935,44.688],[28.8086,44.6963],[28.8039,44.6843],[28.785,44.6796]]]}'),
+  ('378', 'Vaslui', 'Județul Vaslui', 'VS', ARRAY[27.2046, 45.9964, 28.2478, 46.9738], ARRAY[46.4851, 27.7262], 9, '{"type":"Polygon","coordinates":[[[28.123,46.8424],[28.1211,46.8345],[28.1381,46.8063],[28.1778,46.7587],[28.1778,46.7397],[28.2346,46.6625],[28.244,46.6352],[28.245,46.6315],[28.2478,46.6208],[28.2469,46.607],[28.2402,46.5963],[28.2308,46.5838],[28.2251,46.5695],[28.2346,46.5533],[28.2251,46.5487],[28.2213,46.5413],[28.2194,46.5038],[28.2213,46.496],[28.2346,46.4779],[28.2383,46.4756],[28.2421,46.4765],[28.2459,46.4756],[28.2469,46.4673],[28.2469,46.4363],[28.2459,46.428],[28.2402,46.4201],[28.226,46.4155],[28.2336,46.4016],[28.2289,46.3961],[28.227,46.3956],[28.2194,46.3933],[28.2128,46.3887],[28.2071,46.3581],[28.2024,46.354],[28.1901,46.3512],[28.1882,46.3438],[28.192,46.3234],[28.1929,46.3114],[28.1911,46.3077],[28.1778,46.2869],[28.1655,46.279],[28.1561,46.2753],[28.1447,46.273],[28.1353,46.2693],[28.1315,46.2624],[28.1343,46.2453],[28.1324,46.2397],[28.1211,46.2379],[28.1088,46.2342],[28.1107,46.2254],[28.1296,46.2046],[28.1353,46.199],[28.1419,46.1921],[28.1447,46.1833],[28.1334,46.1602],[28.1277,46.1352],[28.1107,46.1014],[28.1078,46.0959],[28.1069,46.0959],[28.104,46.0945],[28.0709,46.0894],[28.0558,46.0899],[28.0303,46.094],[27.9934,46.1079],[27.9177,46.125],[27.9035,46.125],[27.8884,46.1199],[27.878,46.1144],[27.8704,46.1061],[27.861,46.0922],[27.8544,46.0857],[27.8459,46.082],[27.8354,46.082],[27.8288,46.0876],[27.8269,46.095],[27.8269,46.1028],[27.8184,46.1088],[27.8033,46.113],[27.6312,46.1273],[27.6179,46.1218],[27.6141,46.1153],[27.6151,46.1074],[27.6359,46.0806],[27.6416,46.0714],[27.6444,46.0621],[27.6444,46.0529],[27.6387,46.026],[27.6387,46.0108],[27.6368,46.0048],[27.6331,46.0006],[27.6274,45.9974],[27.6208,45.9964],[27.6104,46.0015],[27.6018,46.0126],[27.5895,46.0376],[27.5801,46.0663],[27.5678,46.0839],[27.5328,46.1167],[27.5196,46.1625],[27.5129,46.2892],[27.5016,46.3355],[27.4789,46.3974],[27.442,46.459],[27.338,46.5848],[27.3332,46.6074],[27.3361,46.6301],[27.3361,46.6546],[27.3238,46.6726],[27.3049,46.687],[27.2595,46.7133],[27.2462,46.7235],[27.2396,46.7305],[27.2254,46.743],[27.2368,46.7587],[27.2368,46.7702],[27.233,46.786],[27.2103,46.8281],[27.2046,46.8595],[27.32,46.854],[27.3957,46.8632],[27.4146,46.8632],[27.4335,46.8595],[27.4515,46.8549],[27.4761,46.8507],[27.4931,46.8516],[27.53,46.8604],[27.5413,46.8669],[27.5479,46.8743],[27.5527,46.8822],[27.5593,46.8882],[27.5725,46.8882],[27.5905,46.8831],[27.6283,46.8785],[27.6482,46.8803],[27.6605,46.8849],[27.6652,46.8914],[27.6671,46.8974],[27.6671,46.9034],[27.6643,46.9067],[27.6576,46.9076],[27.6387,46.9058],[27.6283,46.9067],[27.6208,46.9095],[27.6189,46.9145],[27.6245,46.9289],[27.6245,46.9377],[27.6236,46.9455],[27.6189,46.9525],[27.616,46.9599],[27.617,46.9673],[27.6255,46.9738],[27.6368,46.9738],[27.6501,46.9691],[27.7097,46.9372],[27.7371,46.9173],[27.7749,46.8836],[27.7863,46.878],[27.7929,46.8785],[27.7957,46.8836],[27.7957,46.8928],[27.7957,46.9025],[27.8005,46.9118],[27.8137,46.9182],[27.826,46.9169],[27.8354,46.9113],[27.8383,46.9016],[27.8383,46.8905],[27.8288,46.8701],[27.8241,46.8614],[27.8213,46.854],[27.8232,46.847],[27.8326,46.8415],[27.8459,46.8405],[27.8619,46.8419],[27.8733,46.8396],[27.9045,46.8257],[27.9414,46.8174],[27.9556,46.817],[27.965,46.822],[27.9679,46.8281],[27.9801,46.8336],[27.9887,46.8327],[27.9981,46.8285],[28.0076,46.823],[28.0199,46.8188],[28.0312,46.8193],[28.0407,46.823],[28.0473,46.8276],[28.0643,46.835],[28.1144,46.8396],[28.122,46.8419],[28.123,46.8424]]]}'),
+  ('387', 'Vâlcea', 'Județul Vâlcea', 'VL', ARRAY[23.5804, 44.5168, 24.5394, 45.5631], ARRAY[45.04, 24.0599], 9, '{"type":"Polygon","coordinates":[[[24.5272,45.5617],[24.5394,45.5297],[24.5253,45.4858],[24.4959,45.446],[24.4941,45.4354],[24.4941,45.4243],[24.5139,45.3614],[24.5167,45.3494],[24.5139,45.3401],[24.5063,45.3323],[24.4978,45.3253],[24.4922,45.3179],[24.4903,45.3087],[24.4912,45.2976],[24.5007,45.2735],[24.4978,45.249],[24.4931,45.2286],[24.495,45.2157],[24.4997,45.2055],[24.5149,45.1935],[24.5215,45.1861],[24.529,45.1745],[24.5357,45.1593],[24.5376,45.1361],[24.5063,45.0418],[24.4959,44.9812],[24.4884,44.9604],[24.4893,44.9521],[24.4959,44.9433],[24.5045,44.9349],[24.5111,44.9229],[24.512,44.9141],[24.5082,44.9058],[24.5026,44.897],[24.4628,44.8637],[24.4383,44.8498],[24.4401,44.8966],[24.4345,44.904],[24.4269,44.9123],[24.4165,44.9141],[24.408,44.9137],[24.3966,44.9095],[24.3891,44.903],[24.3815,44.8956],[24.3531,44.8605],[24.3484,44.8489],[24.3446,44.8369],[24.3427,44.8235],[24.3361,44.8013],[24.3304,44.7902],[24.321,44.7777],[24.3049,44.7601],[24.286,44.7458],[24.286,44.7374],[24.2907,44.7157],[24.3049,44.6727],[24.3002,44.6556],[24.3115,44.6431],[24.3229,44.6246],[24.3304,44.6015],[24.3333,44.583],[24.3248,44.5783],[24.3181,44.5737],[24.3087,44.5774],[24.3011,44.5839],[24.2964,44.5908],[24.2935,44.5973],[24.2935,44.6038],[24.2954,44.614],[24.2935,44.6181],[24.2879,44.62],[24.2784,44.62],[24.2652,44.613],[24.2604,44.6047],[24.2538,44.5839],[24.2463,44.5765],[24.2169,44.5645],[24.2065,44.5626],[24.1971,44.5626],[24.1734,44.5672],[24.1602,44.5677],[24.1498,44.5663],[24.1375,44.5612],[24.1271,44.5534],[24.0959,44.5205],[24.0836,44.5168],[24.076,44.5173],[24.0685,44.5219],[24.059,44.5339],[24.0505,44.5409],[24.042,44.546],[24.0306,44.5497],[24.0202,44.551],[24.007,44.5492],[23.9966,44.5469],[23.9578,44.5298],[23.9294,44.5506],[23.9133,44.5682],[23.902,44.5834],[23.8812,44.6329],[23.8727,44.6417],[23.8623,44.6477],[23.8292,44.6625],[23.814,44.6676],[23.7961,44.675],[23.7885,44.6819],[23.7838,44.6912],[23.7828,44.6991],[23.7753,44.7226],[23.7895,44.78],[23.7932,44.8332],[23.7791,44.9484],[23.7809,44.9673],[23.7857,44.9807],[23.797,45.0029],[23.8244,45.0816],[23.8254,45.095],[23.8216,45.1287],[23.8263,45.1431],[23.8424,45.1768],[23.8434,45.1893],[23.8396,45.2027],[23.8292,45.2212],[23.8207,45.2485],[23.8226,45.268],[23.8358,45.3068],[23.832,45.3175],[23.8244,45.3253],[23.8065,45.335],[23.798,45.3378],[23.7895,45.3378],[23.728,45.3332],[23.71,45.3336],[23.6949,45.3355],[23.676,45.3434],[23.6646,45.3452],[23.6164,45.3457],[23.5861,45.3526],[23.6003,45.3817],[23.5975,45.3928],[23.5833,45.4229],[23.5804,45.4322],[23.5842,45.4474],[23.6258,45.452],[23.6466,45.4507],[23.6589,45.4539],[23.6788,45.4627],[23.71,45.4798],[23.7233,45.4835],[23.7403,45.484],[23.7526,45.4863],[23.762,45.4914],[23.7705,45.4983],[23.7791,45.5043],[23.7942,45.508],[23.9606,45.5122],[23.9985,45.5089],[24.0344,45.4983],[24.0495,45.496],[24.0685,45.4964],[24.1687,45.5371],[24.1829,45.5404],[24.3219,45.5631],[24.5272,45.5617]]]}'),
+  ('396', 'Vrancea', 'Județul Vrancea', 'VN', ARRAY[26.3809, 45.385, 27.5801, 46.1745], ARRAY[45.7797, 26.9805], 9, '{"type":"Polygon","coordinates":[[[27.5196,46.1625],[27.5328,46.1167],[27.4761,46.1139],[27.4666,46.1093],[27.4543,46.1019],[27.4448,46.0926],[27.4288,46.082],[27.4117,46.0783],[27.3777,46.0769],[27.3493,46.0728],[27.3304,46.0654],[27.3087,46.0519],[27.2841,46.0302],[27.2699,46.02],[27.2614,46.0122],[27.2538,46.0024],[27.251,45.9909],[27.25,45.9691],[27.2595,45.9428],[27.3663,45.755],[27.372,45.7402],[27.3786,45.7282],[27.3853,45.7185],[27.4108,45.6926],[27.4203,45.6861],[27.4467,45.6764],[27.4571,45.6713],[27.4628,45.6653],[27.4675,45.6588],[27.4742,45.6514],[27.4959,45.6361],[27.5063,45.6246],[27.5139,45.6107],[27.5224,45.5885],[27.5233,45.5774],[27.5224,45.5677],[27.5252,45.5603],[27.5432,45.5251],[27.5536,45.5136],[27.5801,45.4932],[27.5205,45.4775],[27.5006,45.4687],[27.4836,45.4571],[27.4581,45.434],[27.4326,45.4067],[27.4231,45.3864],[27.3777,45.385],[27.3559,45.3868],[27.3077,45.3965],[27.2983,45.3998],[27.2907,45.4076],[27.2888,45.4155],[27.2869,45.4234],[27.2831,45.4298],[27.2765,45.4349],[27.2642,45.4368],[27.2462,45.4363],[27.2377,45.4382],[27.2283,45.4446],[27.2169,45.4493],[27.2008,45.4516],[27.1914,45.4493],[27.181,45.4437],[27.1734,45.4372],[27.1649,45.4312],[27.1554,45.4285],[27.1469,45.4303],[27.1431,45.4391],[27.146,45.4571],[27.1441,45.4641],[27.1375,45.4678],[27.1242,45.4673],[27.1119,45.4645],[27.0883,45.4553],[27.0769,45.4516],[27.0637,45.4507],[27.0505,45.4544],[27.0325,45.4627],[27.006,45.4816],[26.9994,45.4946],[26.9984,45.5066],[26.9994,45.5149],[26.9928,45.5242],[26.9757,45.5334],[26.9464,45.5427],[26.9228,45.5459],[26.9067,45.545],[26.9001,45.5418],[26.8982,45.5381],[26.8991,45.5344],[26.901,45.5321],[26.901,45.5293],[26.901,45.526],[26.8991,45.5219],[26.8944,45.5186],[26.8878,45.5182],[26.8783,45.5191],[26.8632,45.5228],[26.8433,45.5251],[26.831,45.5284],[26.7894,45.5455],[26.7544,45.5635],[26.7327,45.5829],[26.6693,45.6213],[26.6466,45.6278],[26.6334,45.6278],[26.623,45.6246],[26.6116,45.6223],[26.5974,45.6223],[26.5691,45.6246],[26.5511,45.6343],[26.5322,45.6505],[26.466,45.7309],[26.4244,45.773],[26.3809,45.8031],[26.3894,45.8521],[26.4036,45.9025],[26.4045,45.9173],[26.4206,45.9506],[26.4849,46.0214],[26.6003,46.0094],[26.6305,46.0196],[26.6324,46.0293],[26.6334,46.0482],[26.6362,46.0575],[26.6428,46.0658],[26.6542,46.0737],[26.6703,46.0769],[26.7667,46.0811],[26.797,46.0769],[26.8405,46.076],[26.8651,46.0709],[26.8821,46.07],[26.901,46.0728],[26.919,46.0732],[26.9341,46.0718],[26.9729,46.0607],[26.9814,46.0621],[26.9861,46.0658],[26.988,46.0723],[26.9928,46.0802],[27.0022,46.0871],[27.0183,46.0931],[27.0344,46.094],[27.0476,46.0922],[27.0996,46.0792],[27.1119,46.0811],[27.1204,46.0857],[27.1327,46.1005],[27.1422,46.1088],[27.1696,46.1213],[27.18,46.1283],[27.1971,46.1449],[27.2084,46.1537],[27.233,46.1629],[27.3068,46.174],[27.3323,46.1745],[27.3522,46.1717],[27.3947,46.1537],[27.4136,46.1518],[27.425,46.1542],[27.4326,46.1592],[27.4373,46.1657],[27.4448,46.1713],[27.4543,46.1727],[27.4893,46.1653],[27.5196,46.1625]]]}'),
+  ('403', 'București', 'Municipiul București', 'BI', ARRAY[25.9761, 44.3263, 26.2106, 44.5927], ARRAY[44.4595, 26.0934], 11, '{"type":"Polygon","coordinates":[[[26.1955,44.4026],[26.1482,44.4132],[26.1406,44.3984],[26.1718,44.3429],[26.1444,44.3263],[26.0971,44.3711],[26.0413,44.3804],[25.9761,44.4313],[25.9761,44.4627],[26.0413,44.4669],[26.0413,44.4983],[25.9893,44.515],[26.0375,44.5746],[26.1047,44.5927],[26.1132,44.5251],[26.1908,44.5117],[26.1671,44.4609],[26.2106,44.434],[26.1955,44.4026]]]}'),
+  ('519', 'Călărași', 'Județul Călărași', 'CL', ARRAY[26.2797, 44.064, 28.0227, 44.5631], ARRAY[44.3135, 27.1512], 9, '{"type":"Polygon","coordinates":[[[28.0227,44.3549],[27.9934,44.3045],[27.9679,44.2805],[27.9338,44.2661],[27.7891,44.2398],[27.7532,44.219],[27.7333,44.2097],[27.6917,44.2046],[27.6075,44.2055],[27.5687,44.1954],[27.5158,44.1727],[27.5073,44.1653],[27.4997,44.1561],[27.4817,44.1459],[27.4609,44.1376],[27.4448,44.1343],[27.2926,44.1514],[27.2774,44.1426],[27.2651,44.1348],[27.2529,44.1218],[27.2529,44.1214],[27.251,44.1223],[27.2264,44.1209],[27.2056,44.1292],[27.1006,44.1445],[27.0278,44.1769],[27.0013,44.1653],[26.884,44.1565],[26.7894,44.1158],[26.7535,44.1079],[26.709,44.1079],[26.6977,44.1061],[26.6769,44.0968],[26.6674,44.095],[26.6476,44.0936],[26.6145,44.0848],[26.4159,44.064],[26.414,44.0779],[26.4177,44.0881],[26.4244,44.1005],[26.4537,44.1306],[26.4603,44.144],[26.4622,44.1607],[26.4594,44.1852],[26.4518,44.2069],[26.4376,44.2264],[26.4149,44.2444],[26.326,44.2823],[26.2797,44.3216],[26.291,44.348],[26.3165,44.3771],[26.3421,44.4017],[26.36,44.4137],[26.378,44.4229],[26.4385,44.4428],[26.4499,44.4516],[26.4565,44.4604],[26.4603,44.4683],[26.4594,44.4738],[26.4537,44.4775],[26.4357,44.4821],[26.4215,44.4881],[26.4121,44.496],[26.413,44.5085],[26.4168,44.5145],[26.4338,44.5233],[26.5133,44.5534],[26.5293,44.5552],[26.5435,44.5529],[26.5577,44.5473],[26.5899,44.5302],[26.6022,44.527],[26.6164,44.5261],[26.6334,44.5275],[26.657,44.5335],[26.6674,44.5376],[26.6759,44.5432],[26.6911,44.5571],[26.6977,44.5617],[26.7071,44.5631],[26.7157,44.5608],[26.7478,44.5376],[26.7648,44.5302],[26.7838,44.5261],[26.8093,44.5265],[26.8244,44.5284],[26.8396,44.5288],[26.8509,44.5265],[26.8812,44.514],[26.8991,44.5113],[26.9568,44.5187],[26.9767,44.5177],[27.0003,44.514],[27.0732,44.4923],[27.0977,44.4881],[27.128,44.4886],[27.1857,44.496],[27.3635,44.4937],[27.3815,44.4969],[27.4099,44.5048],[27.4354,44.5076],[27.4657,44.5066],[27.6056,44.4877],[27.634,44.4775],[27.6898,44.4687],[27.7021,44.4646],[27.7182,44.4548],[27.739,44.4377],[27.7806,44.4178],[27.8714,44.3901],[28.0227,44.3549]]]}'),
+  ('528', 'Giurgiu', 'Județul Giurgiu', 'GR', ARRAY[25.4937, 43.719, 26.4622, 44.5658], ARRAY[44.1424, 25.9779], 10, '{"type":"Polygon","coordinates":[[[26.2797,44.3216],[26.326,44.2823],[26.4149,44.2444],[26.4376,44.2264],[26.4518,44.2069],[26.4594,44.1852],[26.4622,44.1607],[26.4603,44.144],[26.4537,44.1306],[26.4244,44.1005],[26.4177,44.0881],[26.414,44.0779],[26.4159,44.064],[26.3326,44.0548],[26.3109,44.0524],[26.2314,44.0275],[26.151,44.0122],[26.116,43.9988],[26.0792,43.9692],[26.0612,43.9498],[26.0546,43.9345],[25.9345,43.8702],[25.9241,43.8586],[25.9165,43.8443],[25.8692,43.8008],[25.8389,43.7883],[25.8058,43.7638],[25.8039,43.7601],[25.7812,43.7319],[25.7396,43.719],[25.733,43.719],[25.716,43.8212],[25.7103,43.8341],[25.6857,43.8586],[25.6744,43.8836],[25.6488,43.9877],[25.6403,44.045],[25.6403,44.0603],[25.6422,44.0737],[25.6479,44.0862],[25.6592,44.1047],[25.664,44.1149],[25.6687,44.1362],[25.6725,44.144],[25.6819,44.1491],[25.6904,44.1514],[25.7018,44.1528],[25.7113,44.1551],[25.7198,44.1598],[25.7217,44.1709],[25.7217,44.1861],[25.7169,44.2148],[25.7198,44.2296],[25.7188,44.2555],[25.715,44.2708],[25.7094,44.2823],[25.7009,44.2888],[25.681,44.299],[25.6526,44.3179],[25.6375,44.3216],[25.5505,44.3295],[25.5372,44.3364],[25.5278,44.3489],[25.5145,44.3753],[25.5041,44.3878],[25.4966,44.3984],[25.4937,44.4067],[25.4985,44.4197],[25.5193,44.4572],[25.5363,44.4789],[25.5372,44.4872],[25.5344,44.4937],[25.5136,44.5057],[25.5401,44.5312],[25.5514,44.5395],[25.5713,44.5469],[25.5987,44.5529],[25.907,44.5658],[25.9316,44.5275],[25.9307,44.515],[25.9288,44.4988],[25.9231,44.4881],[25.908,44.4655],[25.8976,44.4461],[25.8891,44.4007],[25.8947,44.3818],[25.9051,44.3693],[25.9316,44.36],[25.9505,44.3554],[25.9647,44.3485],[25.9723,44.3364],[25.9799,44.3309],[25.9893,44.329],[26.0007,44.3295],[26.0111,44.329],[26.0234,44.3249],[26.099,44.2758],[26.116,44.2684],[26.1312,44.2634],[26.1473,44.2601],[26.1624,44.2583],[26.1756,44.2587],[26.1889,44.261],[26.2012,44.2661],[26.2258,44.2809],[26.2797,44.3216]]]}')
+) AS counties(id, name, display_name, code, bbox, center, zoom, geometry);
+
+-- Subscriptions must point at a registered region (area or county). NOT VALID keeps any
+-- legacy rows with free-form region ids while enforcing the reference for new rows.
+ALTER TABLE public.alert_subscriptions
+ADD CONSTRAINT alert_subscriptions_region_id_fkey
+FOREIGN KEY (region_id) REFERENCES public.regions(id) ON DELETE CASCADE NOT VALID;
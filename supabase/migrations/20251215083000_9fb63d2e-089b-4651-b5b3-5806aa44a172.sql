@@ -0,0 +1,43 @@
+-- Every analyze run, kept so a region's indicators can be charted over time
+CREATE TABLE public.analysis_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  region_id TEXT NOT NULL REFERENCES public.regions(id) ON DELETE CASCADE,
+  analyzed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  days_back INTEGER NOT NULL,
+  data_date TIMESTAMP WITH TIME ZONE, -- latest scene used by the GEE pipelines
+  -- Headline metrics, denormalized from the JSON below so history queries stay cheap
+  ndvi_mean DOUBLE PRECISION,
+  ndvi_min DOUBLE PRECISION,
+  ndvi_max DOUBLE PRECISION,
+  flood_percentage DOUBLE PRECISION,
+  water_percentage DOUBLE PRECISION,
+  hotspot_count INTEGER NOT NULL DEFAULT 0,
+  high_confidence_count INTEGER NOT NULL DEFAULT 0,
+  total_frp DOUBLE PRECISION NOT NULL DEFAULT 0,
+  max_brightness DOUBLE PRECISION NOT NULL DEFAULT 0,
+  flood_risk TEXT NOT NULL,
+  vegetation_health TEXT NOT NULL,
+  fire_risk TEXT NOT NULL,
+  -- Full HazardIndicators / GEEAnalysis as returned by the analyze action
+  indicators JSONB NOT NULL,
+  gee_analysis JSONB
+);
+
+CREATE INDEX idx_analysis_snapshots_region_time
+ON public.analysis_snapshots(region_id, analyzed_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.analysis_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Hazard history is public information, like the live status page
+CREATE POLICY "Anyone can view analysis snapshots"
+ON public.analysis_snapshots
+FOR SELECT
+USING (true);
+
+-- Snapshots are written by the satellite-data function with the service role; admins may prune them
+CREATE POLICY "Admins can delete analysis snapshots"
+ON public.analysis_snapshots
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
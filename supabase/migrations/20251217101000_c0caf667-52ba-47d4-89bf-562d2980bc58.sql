@@ -0,0 +1,5 @@
+-- Per-day hotspot count and FRP for the FIRMS window of each run, so fire activity can be
+-- charted per acquisition day instead of per (overlapping) analysis window.
+-- [{ "date": "YYYY-MM-DD", "count": n, "frp": MW }], NULL when FIRMS could not be queried
+ALTER TABLE public.analysis_snapshots
+ADD COLUMN fire_daily JSONB;
@@ -0,0 +1,50 @@
+-- Scheduled server-side analysis: the analyze-regions function runs on a pg_cron schedule,
+-- and clients read the latest stored snapshot instead of analyzing on page load.
+
+-- Keep the hotspots returned by analyze so a snapshot reproduces the full RegionAnalysis
+ALTER TABLE public.analysis_snapshots
+ADD COLUMN fire_hotspots JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Most recent snapshot of every region, with the region fields clients need to render it
+CREATE VIEW public.latest_analysis_snapshots
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (s.region_id)
+  s.*,
+  r.display_name AS region_name,
+  r.bbox AS region_bbox,
+  r.kind AS region_kind
+FROM public.analysis_snapshots s
+JOIN public.regions r ON r.id = s.region_id
+ORDER BY s.region_id, s.analyzed_at DESC;
+
+-- Schedule the job. The project URL and the shared cron secret (ANALYSIS_CRON_SECRET in the
+-- function environment) are read from Vault so no credentials live in migrations:
+--   select vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   select vault.create_secret('<random secret>', 'analysis_cron_secret');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.invoke_analyze_regions(_kind TEXT)
+RETURNS BIGINT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/analyze-regions',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'analysis_cron_secret')
+    ),
+    body := jsonb_build_object('kind', _kind),
+    timeout_milliseconds := 300000
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_analyze_regions(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Each call analyzes a small batch of due regions, so the job runs often: monitoring areas are
+-- covered every 3 hours and the larger county set every 6 (see analyze-regions), while every
+-- call stays inside the edge function time limit. The two sets are offset to spread load.
+SELECT cron.schedule('analyze-areas', '*/10 * * * *', $$SELECT public.invoke_analyze_regions('area')$$);
+SELECT cron.schedule('analyze-counties', '5-59/10 * * * *', $$SELECT public.invoke_analyze_regions('county')$$);
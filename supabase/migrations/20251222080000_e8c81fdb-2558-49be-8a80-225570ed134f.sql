@@ -0,0 +1,49 @@
+-- Whether each hazard was above its alert threshold at a region's last dispatch, so an
+-- email goes out when the risk crosses the threshold rather than on every analysis run
+CREATE TABLE public.region_hazard_states (
+  region_id TEXT NOT NULL REFERENCES public.regions(id) ON DELETE CASCADE,
+  hazard_type TEXT NOT NULL CHECK (hazard_type IN ('flood', 'vegetation', 'fire')),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  level TEXT NOT NULL,
+  snapshot_id UUID REFERENCES public.analysis_snapshots(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (region_id, hazard_type)
+);
+
+-- One row per alert email attempt
+CREATE TABLE public.alert_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id UUID NOT NULL REFERENCES public.alert_subscriptions(id) ON DELETE CASCADE,
+  region_id TEXT NOT NULL REFERENCES public.regions(id) ON DELETE CASCADE,
+  hazard_type TEXT NOT NULL,
+  level TEXT NOT NULL,
+  snapshot_id UUID REFERENCES public.analysis_snapshots(id) ON DELETE SET NULL,
+  transport TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- A retried dispatch for the same analysis must not email a subscriber twice
+  UNIQUE (subscription_id, snapshot_id, hazard_type)
+);
+
+CREATE INDEX idx_alert_notifications_created
+ON public.alert_notifications(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.region_hazard_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Both tables are written by the analyze-regions function with the service role
+CREATE POLICY "Admins can view region hazard states"
+ON public.region_hazard_states
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Notifications contain subscriber emails through their subscription, so admins only
+CREATE POLICY "Admins can view alert notifications"
+ON public.alert_notifications
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
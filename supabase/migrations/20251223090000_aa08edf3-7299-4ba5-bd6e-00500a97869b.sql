@@ -0,0 +1,34 @@
+-- Double opt-in for alert subscriptions: a new subscription stays pending (confirmed_at IS NULL)
+-- until the link emailed to the address is opened, and pending rows expire.
+ALTER TABLE public.alert_subscriptions
+ADD COLUMN confirmed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN confirmation_token UUID,
+ADD COLUMN confirmation_sent_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN confirmation_expires_at TIMESTAMP WITH TIME ZONE; -- set from SUBSCRIPTION_CONFIRMATION_TTL_HOURS
+
+-- Subscriptions created before double opt-in keep receiving alerts
+UPDATE public.alert_subscriptions SET confirmed_at = created_at;
+
+-- One subscription per address and region, whatever the case of the address. manage-subscription
+-- stores addresses lower-case; duplicates from before keep their oldest row.
+DELETE FROM public.alert_subscriptions a
+USING public.alert_subscriptions b
+WHERE lower(a.email) = lower(b.email)
+  AND a.region_id = b.region_id
+  AND (a.created_at, a.id) > (b.created_at, b.id);
+
+UPDATE public.alert_subscriptions SET email = lower(email) WHERE email <> lower(email);
+
+CREATE UNIQUE INDEX idx_alert_subscriptions_email_region
+ON public.alert_subscriptions(lower(email), region_id);
+
+CREATE UNIQUE INDEX idx_alert_subscriptions_confirmation_token
+ON public.alert_subscriptions(confirmation_token)
+WHERE confirmation_token IS NOT NULL;
+
+-- Drop pending subscriptions whose confirmation link has expired
+SELECT cron.schedule(
+  'purge-unconfirmed-subscriptions',
+  '15 * * * *',
+  $$DELETE FROM public.alert_subscriptions WHERE confirmed_at IS NULL AND confirmation_expires_at < now()$$
+);
@@ -0,0 +1,69 @@
+-- Subscriber preferences, edited on the /subscriptions/manage page. The same values are
+-- applied to every subscription of an address.
+ALTER TABLE public.alert_subscriptions
+ADD COLUMN min_severity TEXT NOT NULL DEFAULT 'warning' CHECK (min_severity IN ('warning', 'danger')),
+ADD COLUMN digest_frequency TEXT NOT NULL DEFAULT 'immediate' CHECK (digest_frequency IN ('immediate', 'daily', 'weekly'));
+
+-- The manage page works on all subscriptions of one email
+CREATE INDEX idx_alert_subscriptions_email
+ON public.alert_subscriptions(email);
+
+-- Applies the /subscriptions/manage form in one transaction: removes regions the subscriber
+-- dropped, applies the preferences to the regions kept, confirms pending rows for chosen
+-- regions (the address is already verified by the manage token) and adds new regions. A
+-- failure leaves every subscription of the address as it was. Validation happens in
+-- manage-subscription, which calls this with the service role.
+CREATE OR REPLACE FUNCTION public.update_subscription_preferences(
+  _email TEXT,
+  _region_ids TEXT[],
+  _preferences JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _paused BOOLEAN;
+BEGIN
+  -- Serialize concurrent saves of the same address
+  PERFORM 1 FROM public.alert_subscriptions WHERE email = _email FOR UPDATE;
+
+  -- New and newly confirmed regions follow the paused state of the address
+  SELECT COALESCE(bool_and(is_active = false), false) INTO _paused
+  FROM public.alert_subscriptions
+  WHERE email = _email AND confirmed_at IS NOT NULL;
+
+  DELETE FROM public.alert_subscriptions
+  WHERE email = _email AND confirmed_at IS NOT NULL AND NOT (region_id = ANY(_region_ids));
+
+  UPDATE public.alert_subscriptions
+  SET
+    hazard_types = ARRAY(SELECT jsonb_array_elements_text(_preferences->'hazard_types')),
+    min_severity = _preferences->>'min_severity',
+    digest_frequency = _preferences->>'digest_frequency',
+    confirmed_at = COALESCE(confirmed_at, now()),
+    confirmation_token = NULL,
+    confirmation_expires_at = NULL,
+    is_active = CASE WHEN confirmed_at IS NULL THEN NOT _paused ELSE is_active END
+  WHERE email = _email AND region_id = ANY(_region_ids);
+
+  INSERT INTO public.alert_subscriptions (
+    email, region_id, is_active, confirmed_at, hazard_types, min_severity, digest_frequency
+  )
+  SELECT
+    _email,
+    wanted.region_id,
+    NOT _paused,
+    now(),
+    ARRAY(SELECT jsonb_array_elements_text(_preferences->'hazard_types')),
+    _preferences->>'min_severity',
+    _preferences->>'digest_frequency'
+  FROM unnest(_region_ids) AS wanted(region_id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.alert_subscriptions s WHERE s.email = _email AND s.region_id = wanted.region_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_subscription_preferences(TEXT, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
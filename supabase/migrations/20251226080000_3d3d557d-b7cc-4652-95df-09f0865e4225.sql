@@ -0,0 +1,135 @@
+-- Per-subscription alert rules: optional numeric thresholds on top of min_severity, quiet
+-- hours in the subscriber's timezone, and digest delivery through a notification queue.
+ALTER TABLE public.alert_subscriptions
+ADD COLUMN flood_threshold DOUBLE PRECISION CHECK (flood_threshold >= 0 AND flood_threshold <= 100), -- alert when flood % > value
+ADD COLUMN hotspot_threshold INTEGER CHECK (hotspot_threshold >= 1), -- alert when hotspots >= value
+ADD COLUMN quiet_hours_start TIME,
+ADD COLUMN quiet_hours_end TIME,
+ADD COLUMN timezone TEXT NOT NULL DEFAULT 'Europe/Bucharest', -- IANA name, validated by manage-subscription
+ADD CONSTRAINT alert_subscriptions_quiet_hours_check
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+
+-- The /subscriptions/manage form saves the new rules together with the other preferences
+CREATE OR REPLACE FUNCTION public.update_subscription_preferences(
+  _email TEXT,
+  _region_ids TEXT[],
+  _preferences JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _paused BOOLEAN;
+BEGIN
+  -- Serialize concurrent saves of the same address
+  PERFORM 1 FROM public.alert_subscriptions WHERE email = _email FOR UPDATE;
+
+  -- New and newly confirmed regions follow the paused state of the address
+  SELECT COALESCE(bool_and(is_active = false), false) INTO _paused
+  FROM public.alert_subscriptions
+  WHERE email = _email AND confirmed_at IS NOT NULL;
+
+  DELETE FROM public.alert_subscriptions
+  WHERE email = _email AND confirmed_at IS NOT NULL AND NOT (region_id = ANY(_region_ids));
+
+  UPDATE public.alert_subscriptions
+  SET
+    hazard_types = ARRAY(SELECT jsonb_array_elements_text(_preferences->'hazard_types')),
+    min_severity = _preferences->>'min_severity',
+    digest_frequency = _preferences->>'digest_frequency',
+    flood_threshold = (_preferences->>'flood_threshold')::DOUBLE PRECISION,
+    hotspot_threshold = (_preferences->>'hotspot_threshold')::INTEGER,
+    quiet_hours_start = (_preferences->>'quiet_hours_start')::TIME,
+    quiet_hours_end = (_preferences->>'quiet_hours_end')::TIME,
+    timezone = _preferences->>'timezone',
+    confirmed_at = COALESCE(confirmed_at, now()),
+    confirmation_token = NULL,
+    confirmation_expires_at = NULL,
+    is_active = CASE WHEN confirmed_at IS NULL THEN NOT _paused ELSE is_active END
+  WHERE email = _email AND region_id = ANY(_region_ids);
+
+  INSERT INTO public.alert_subscriptions (
+    email, region_id, is_active, confirmed_at, hazard_types, min_severity, digest_frequency,
+    flood_threshold, hotspot_threshold, quiet_hours_start, quiet_hours_end, timezone
+  )
+  SELECT
+    _email,
+    wanted.region_id,
+    NOT _paused,
+    now(),
+    ARRAY(SELECT jsonb_array_elements_text(_preferences->'hazard_types')),
+    _preferences->>'min_severity',
+    _preferences->>'digest_frequency',
+    (_preferences->>'flood_threshold')::DOUBLE PRECISION,
+    (_preferences->>'hotspot_threshold')::INTEGER,
+    (_preferences->>'quiet_hours_start')::TIME,
+    (_preferences->>'quiet_hours_end')::TIME,
+    _preferences->>'timezone'
+  FROM unnest(_region_ids) AS wanted(region_id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.alert_subscriptions s WHERE s.email = _email AND s.region_id = wanted.region_id
+  );
+END;
+$$;
+
+-- Whether an alert fires now depends on each subscriber's rules, so the "already alerted"
+-- state moves from regions to subscriptions
+DROP TABLE public.region_hazard_states;
+
+CREATE TABLE public.subscription_alert_states (
+  subscription_id UUID NOT NULL REFERENCES public.alert_subscriptions(id) ON DELETE CASCADE,
+  hazard_type TEXT NOT NULL CHECK (hazard_type IN ('flood', 'vegetation', 'fire')),
+  severity TEXT CHECK (severity IN ('warning', 'danger')), -- NULL while the subscriber's rules are not met
+  snapshot_id UUID REFERENCES public.analysis_snapshots(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (subscription_id, hazard_type)
+);
+
+ALTER TABLE public.subscription_alert_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view subscription alert states"
+ON public.subscription_alert_states
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Notifications held back by quiet hours or digest mode wait in alert_notifications as
+-- 'queued' until scheduled_for, with everything needed to render them later in payload
+ALTER TABLE public.alert_notifications
+ADD COLUMN severity TEXT CHECK (severity IN ('warning', 'danger')),
+ADD COLUMN payload JSONB,
+ADD COLUMN scheduled_for TIMESTAMP WITH TIME ZONE,
+ADD COLUMN sent_at TIMESTAMP WITH TIME ZONE,
+ALTER COLUMN transport DROP NOT NULL,
+DROP CONSTRAINT alert_notifications_status_check,
+ADD CONSTRAINT alert_notifications_status_check CHECK (status IN ('queued', 'sent', 'failed'));
+
+CREATE INDEX idx_alert_notifications_queue
+ON public.alert_notifications(scheduled_for)
+WHERE status = 'queued';
+
+-- Hourly delivery of due digests and notifications deferred by quiet hours, using the same
+-- Vault secrets as invoke_analyze_regions
+CREATE OR REPLACE FUNCTION public.invoke_send_alert_digests()
+RETURNS BIGINT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-alert-digests',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'analysis_cron_secret')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 120000
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_send_alert_digests() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('send-alert-digests', '5 * * * *', $$SELECT public.invoke_send_alert_digests()$$);
@@ -0,0 +1,89 @@
+-- Hazard alerts raised from analysis snapshots, worked through by analysts on the Dashboard.
+-- An alert stays live (open or acknowledged) for as long as its hazard persists, so repeated
+-- analyses of the same ongoing flood update one row instead of creating new ones.
+CREATE TABLE public.alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  region_id TEXT NOT NULL REFERENCES public.regions(id) ON DELETE CASCADE,
+  hazard_type TEXT NOT NULL CHECK (hazard_type IN ('flood', 'vegetation', 'fire')),
+  severity TEXT NOT NULL CHECK (severity IN ('warning', 'danger')), -- as of the latest snapshot
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  message TEXT NOT NULL,
+  first_snapshot_id UUID REFERENCES public.analysis_snapshots(id) ON DELETE SET NULL,
+  last_snapshot_id UUID REFERENCES public.analysis_snapshots(id) ON DELETE SET NULL,
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), -- latest snapshot still showing the hazard
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL when the hazard cleared by itself
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Deduplication: at most one live alert per region and hazard
+CREATE UNIQUE INDEX idx_alerts_live
+ON public.alerts(region_id, hazard_type)
+WHERE status <> 'resolved';
+
+CREATE INDEX idx_alerts_status_time
+ON public.alerts(status, last_seen_at DESC);
+
+-- Status changes are stamped here so clients only ever send the new status. Resolved
+-- alerts are final; a hazard that comes back opens a new alert.
+CREATE OR REPLACE FUNCTION public.stamp_alert_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'resolved' THEN
+      RAISE EXCEPTION 'Resolved alerts cannot be reopened';
+    END IF;
+
+    IF NEW.status = 'acknowledged' THEN
+      NEW.acknowledged_at := now();
+      NEW.acknowledged_by := auth.uid();
+    ELSIF NEW.status = 'resolved' THEN
+      NEW.resolved_at := now();
+      NEW.resolved_by := auth.uid();
+    ELSE
+      -- Reopened after an escalation
+      NEW.acknowledged_at := NULL;
+      NEW.acknowledged_by := NULL;
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_alert_updated
+  BEFORE UPDATE ON public.alerts
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_alert_status();
+
+-- Enable RLS
+ALTER TABLE public.alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view alerts"
+ON public.alerts
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Alerts are raised by the satellite-data function with the service role; analysts work them
+CREATE POLICY "Admins and analysts can update alerts"
+ON public.alerts
+FOR UPDATE
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin') OR
+  public.has_role(auth.uid(), 'analyst')
+);
+
+-- ...but only their status; the trigger fills in who and when
+REVOKE UPDATE ON public.alerts FROM authenticated;
+GRANT UPDATE (status) ON public.alerts TO authenticated;
+
+-- Live updates for the Dashboard inbox
+ALTER PUBLICATION supabase_realtime ADD TABLE public.alerts;
@@ -0,0 +1,31 @@
+-- Thresholds of the shared risk scoring model (supabase/functions/_shared/risk-scoring.ts),
+-- one row per hazard. The analyze action scores every run with these and stores the result,
+-- so the public page, the Dashboard and the alerts all read the same classification.
+CREATE TABLE public.risk_thresholds (
+  hazard_type TEXT NOT NULL PRIMARY KEY CHECK (hazard_type IN ('flood', 'vegetation', 'fire')),
+  thresholds JSONB NOT NULL,
+  model_version INTEGER NOT NULL, -- RISK_MODEL_VERSION the thresholds were written for
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+-- Enable RLS
+ALTER TABLE public.risk_thresholds ENABLE ROW LEVEL SECURITY;
+
+-- The classification rules are public, like the results they produce
+CREATE POLICY "Anyone can view risk thresholds"
+ON public.risk_thresholds
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can update risk thresholds"
+ON public.risk_thresholds
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- DEFAULT_RISK_THRESHOLDS of model version 1
+INSERT INTO public.risk_thresholds (hazard_type, thresholds, model_version) VALUES
+  ('flood', '{"medium": 3, "high": 7, "critical": 12}', 1),
+  ('vegetation', '{"medium": 0.4, "high": 0.3, "critical": 0.2, "good": 0.5}', 1),
+  ('fire', '{"hotspots": {"medium": 1, "high": 5, "critical": 10}, "highConfidence": {"high": 2, "critical": 5}, "frp": {"high": 50, "critical": 100}}', 1);
@@ -0,0 +1,133 @@
+-- Per-region overrides of the risk thresholds, edited by admins on /admin/thresholds. A region
+-- uses its override for a hazard instead of the row in public.risk_thresholds.
+CREATE TABLE public.region_risk_thresholds (
+  region_id TEXT NOT NULL REFERENCES public.regions(id) ON DELETE CASCADE,
+  hazard_type TEXT NOT NULL CHECK (hazard_type IN ('flood', 'vegetation', 'fire')),
+  thresholds JSONB NOT NULL,
+  model_version INTEGER NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  PRIMARY KEY (region_id, hazard_type)
+);
+
+-- Every change to the default or a region's thresholds, written by the trigger below
+CREATE TABLE public.risk_threshold_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  hazard_type TEXT NOT NULL,
+  region_id TEXT, -- NULL for the defaults; kept after the region is deleted
+  previous_thresholds JSONB, -- NULL when an override was added
+  thresholds JSONB, -- NULL when an override was removed
+  model_version INTEGER NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_risk_threshold_changes_time
+ON public.risk_threshold_changes(changed_at DESC);
+
+-- Who and when are stamped here so clients only send the thresholds
+CREATE OR REPLACE FUNCTION public.stamp_risk_thresholds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  NEW.updated_by := auth.uid();
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_risk_thresholds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row JSONB;
+  _previous JSONB;
+  _thresholds JSONB;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _row := to_jsonb(OLD);
+    _previous := OLD.thresholds;
+  ELSIF TG_OP = 'INSERT' THEN
+    _row := to_jsonb(NEW);
+    _thresholds := NEW.thresholds;
+  ELSE
+    IF NEW.thresholds IS NOT DISTINCT FROM OLD.thresholds THEN
+      RETURN NULL;
+    END IF;
+    _row := to_jsonb(NEW);
+    _previous := OLD.thresholds;
+    _thresholds := NEW.thresholds;
+  END IF;
+
+  INSERT INTO public.risk_threshold_changes (
+    hazard_type, region_id, previous_thresholds, thresholds, model_version, changed_by, changed_by_email
+  )
+  VALUES (
+    _row->>'hazard_type',
+    _row->>'region_id', -- absent on public.risk_thresholds
+    _previous,
+    _thresholds,
+    (_row->>'model_version')::INTEGER,
+    auth.uid(),
+    (SELECT email FROM auth.users WHERE id = auth.uid())
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_risk_thresholds_updated
+  BEFORE UPDATE ON public.risk_thresholds
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_risk_thresholds();
+
+CREATE TRIGGER on_risk_thresholds_changed
+  AFTER UPDATE ON public.risk_thresholds
+  FOR EACH ROW EXECUTE FUNCTION public.audit_risk_thresholds();
+
+CREATE TRIGGER on_region_risk_thresholds_written
+  BEFORE INSERT OR UPDATE ON public.region_risk_thresholds
+  FOR EACH ROW EXECUTE FUNCTION public.stamp_risk_thresholds();
+
+CREATE TRIGGER on_region_risk_thresholds_changed
+  AFTER INSERT OR UPDATE OR DELETE ON public.region_risk_thresholds
+  FOR EACH ROW EXECUTE FUNCTION public.audit_risk_thresholds();
+
+-- Enable RLS
+ALTER TABLE public.region_risk_thresholds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.risk_threshold_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view region risk thresholds"
+ON public.region_risk_thresholds
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can add region risk thresholds"
+ON public.region_risk_thresholds
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update region risk thresholds"
+ON public.region_risk_thresholds
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete region risk thresholds"
+ON public.region_risk_thresholds
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- The audit log is written only by the trigger
+CREATE POLICY "Admins can view risk threshold changes"
+ON public.risk_threshold_changes
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
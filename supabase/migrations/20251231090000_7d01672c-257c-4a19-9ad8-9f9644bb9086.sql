@@ -0,0 +1,41 @@
+-- Fire events tracked across FIRMS pulls: each analyze run links its hotspot clusters to the
+-- region's events still burning, so an event keeps its number from first detection until it
+-- is marked extinguished
+CREATE TABLE public.fire_events (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  region_id TEXT NOT NULL REFERENCES public.regions(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'growing' CHECK (status IN ('growing', 'stable', 'extinguished')),
+  first_detected_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_detected_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  centroid_lat DOUBLE PRECISION NOT NULL,
+  centroid_lon DOUBLE PRECISION NOT NULL,
+  -- Largest convex-hull perimeter seen so far (GeoJSON Polygon)
+  perimeter JSONB NOT NULL,
+  perimeter_km DOUBLE PRECISION NOT NULL,
+  area_km2 DOUBLE PRECISION NOT NULL,
+  hotspot_count INTEGER NOT NULL,
+  cumulative_frp DOUBLE PRECISION NOT NULL,
+  max_frp DOUBLE PRECISION NOT NULL,
+  sources TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_fire_events_region_status
+ON public.fire_events(region_id, status, last_detected_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.fire_events ENABLE ROW LEVEL SECURITY;
+
+-- Fire events are public information, like the analysis snapshots they come from
+CREATE POLICY "Anyone can view fire events"
+ON public.fire_events
+FOR SELECT
+USING (true);
+
+-- Events are written by the satellite-data function with the service role; admins may prune them
+CREATE POLICY "Admins can delete fire events"
+ON public.fire_events
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,48 @@
+-- Known static thermal sources (steelworks, refinery flares, power plants). FIRMS detections
+-- inside them are industrial heat, not fires: they are listed as industrial and left out of
+-- fire risk scoring and fire events. Admins maintain the manual entries; the satellite-data
+-- function adds 'auto' entries for locations that fire on most days of a FIRMS window.
+CREATE TABLE public.static_thermal_sources (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- GeoJSON Point (masked within radius_km) or Polygon / MultiPolygon (masked inside)
+  geometry JSONB NOT NULL,
+  radius_km DOUBLE PRECISION NOT NULL DEFAULT 1 CHECK (radius_km > 0 AND radius_km <= 10),
+  origin TEXT NOT NULL DEFAULT 'manual' CHECK (origin IN ('manual', 'auto')),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.static_thermal_sources ENABLE ROW LEVEL SECURITY;
+
+-- Listed with the fire data, which is public
+CREATE POLICY "Anyone can view static thermal sources"
+ON public.static_thermal_sources
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can insert static thermal sources"
+ON public.static_thermal_sources
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update static thermal sources"
+ON public.static_thermal_sources
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete static thermal sources"
+ON public.static_thermal_sources
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Large industrial sites that show up in FIRMS year-round (approximate site centres)
+INSERT INTO public.static_thermal_sources (name, geometry, radius_km) VALUES
+  ('Liberty Galați steelworks', '{"type": "Point", "coordinates": [27.98, 45.45]}', 3),
+  ('Petromidia refinery, Năvodari', '{"type": "Point", "coordinates": [28.64, 44.35]}', 2),
+  ('Petrobrazi refinery, Brazi', '{"type": "Point", "coordinates": [26.01, 44.87]}', 2),
+  ('Petrotel-Lukoil refinery, Ploiești', '{"type": "Point", "coordinates": [26.06, 44.93]}', 1.5);
@@ -0,0 +1,134 @@
+-- Links one FIRMS pull's clusters to a region's fire events in a single transaction. Runs of
+-- the same region (scheduled batches and live analyses) take a per-region lock, so two runs
+-- cannot both create an event for the same fire. Links are one-to-one, nearest pair first: an
+-- event takes at most one cluster and a cluster extends at most one event. The tuning values
+-- come from _shared/fire-tracking.ts, which calls this with the service role.
+--
+-- _clusters: [{ first_detected_at, last_detected_at, centroid_lat, centroid_lon, perimeter,
+-- perimeter_km, area_km2, hotspot_count, cumulative_frp, max_frp, sources }]
+-- Returns the events touched by the pull: still burning, new, or just extinguished.
+CREATE OR REPLACE FUNCTION public.track_fire_events(
+  _region_id TEXT,
+  _clusters JSONB,
+  _now TIMESTAMP WITH TIME ZONE,
+  _link_km DOUBLE PRECISION,
+  _growth_ratio DOUBLE PRECISION,
+  _extinguished_days INTEGER
+)
+RETURNS SETOF public.fire_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active BIGINT[];
+  _created BIGINT[] := '{}';
+  _linked_events BIGINT[] := '{}';
+  _linked_clusters INTEGER[] := '{}';
+  _link RECORD;
+  _cluster JSONB;
+  _area DOUBLE PRECISION;
+  _id BIGINT;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('fire_events:' || _region_id));
+
+  SELECT COALESCE(array_agg(id), '{}') INTO _active
+  FROM public.fire_events
+  WHERE region_id = _region_id AND status <> 'extinguished';
+
+  -- Candidate links within the link distance plus the radii of circles with each area, so large
+  -- fires link over larger distances (haversine, as distanceKm in _shared/firms.ts)
+  FOR _link IN
+    SELECT e.id AS event_id, c.idx AS cluster_idx
+    FROM public.fire_events e
+    CROSS JOIN LATERAL (
+      SELECT (n - 1)::INTEGER AS idx, value AS cluster
+      FROM jsonb_array_elements(_clusters) WITH ORDINALITY AS clusters(value, n)
+    ) c
+    CROSS JOIN LATERAL (
+      SELECT 2 * 6371 * asin(sqrt(
+        sin(radians((c.cluster->>'centroid_lat')::DOUBLE PRECISION - e.centroid_lat) / 2) ^ 2 +
+        cos(radians(e.centroid_lat)) * cos(radians((c.cluster->>'centroid_lat')::DOUBLE PRECISION)) *
+        sin(radians((c.cluster->>'centroid_lon')::DOUBLE PRECISION - e.centroid_lon) / 2) ^ 2
+      )) AS km
+    ) d
+    WHERE e.id = ANY(_active)
+      AND d.km <= _link_km + sqrt(e.area_km2 / pi()) + sqrt((c.cluster->>'area_km2')::DOUBLE PRECISION / pi())
+    ORDER BY d.km, e.id, c.idx
+  LOOP
+    CONTINUE WHEN _link.event_id = ANY(_linked_events) OR _link.cluster_idx = ANY(_linked_clusters);
+    _linked_events := _linked_events || _link.event_id;
+    _linked_clusters := _linked_clusters || _link.cluster_idx;
+
+    _cluster := _clusters->_link.cluster_idx;
+    _area := (_cluster->>'area_km2')::DOUBLE PRECISION;
+
+    -- Clusters cover the whole FIRMS window, so counts and FRP are the largest seen rather than
+    -- sums over pulls; the extent is the one of the largest perimeter
+    UPDATE public.fire_events
+    SET
+      -- Without new detections the status stands until the event goes out
+      status = CASE
+        WHEN (_cluster->>'last_detected_at')::TIMESTAMP WITH TIME ZONE <= last_detected_at THEN status
+        WHEN _area > area_km2 * _growth_ratio THEN 'growing'
+        ELSE 'stable'
+      END,
+      first_detected_at = LEAST(first_detected_at, (_cluster->>'first_detected_at')::TIMESTAMP WITH TIME ZONE),
+      last_detected_at = GREATEST(last_detected_at, (_cluster->>'last_detected_at')::TIMESTAMP WITH TIME ZONE),
+      centroid_lat = CASE WHEN _area > area_km2 THEN (_cluster->>'centroid_lat')::DOUBLE PRECISION ELSE centroid_lat END,
+      centroid_lon = CASE WHEN _area > area_km2 THEN (_cluster->>'centroid_lon')::DOUBLE PRECISION ELSE centroid_lon END,
+      perimeter = CASE WHEN _area > area_km2 THEN _cluster->'perimeter' ELSE perimeter END,
+      perimeter_km = CASE WHEN _area > area_km2 THEN (_cluster->>'perimeter_km')::DOUBLE PRECISION ELSE perimeter_km END,
+      area_km2 = GREATEST(area_km2, _area),
+      hotspot_count = GREATEST(hotspot_count, (_cluster->>'hotspot_count')::INTEGER),
+      cumulative_frp = GREATEST(cumulative_frp, (_cluster->>'cumulative_frp')::DOUBLE PRECISION),
+      max_frp = GREATEST(max_frp, (_cluster->>'max_frp')::DOUBLE PRECISION),
+      sources = ARRAY(
+        SELECT DISTINCT unnest(sources || ARRAY(SELECT jsonb_array_elements_text(_cluster->'sources')))
+        ORDER BY 1
+      ),
+      updated_at = _now
+    WHERE id = _link.event_id;
+  END LOOP;
+
+  FOR _idx IN 0 .. jsonb_array_length(_clusters) - 1 LOOP
+    CONTINUE WHEN _idx = ANY(_linked_clusters);
+    _cluster := _clusters->_idx;
+
+    INSERT INTO public.fire_events (
+      region_id, status, first_detected_at, last_detected_at, centroid_lat, centroid_lon, perimeter,
+      perimeter_km, area_km2, hotspot_count, cumulative_frp, max_frp, sources
+    )
+    VALUES (
+      _region_id,
+      'growing',
+      (_cluster->>'first_detected_at')::TIMESTAMP WITH TIME ZONE,
+      (_cluster->>'last_detected_at')::TIMESTAMP WITH TIME ZONE,
+      (_cluster->>'centroid_lat')::DOUBLE PRECISION,
+      (_cluster->>'centroid_lon')::DOUBLE PRECISION,
+      _cluster->'perimeter',
+      (_cluster->>'perimeter_km')::DOUBLE PRECISION,
+      (_cluster->>'area_km2')::DOUBLE PRECISION,
+      (_cluster->>'hotspot_count')::INTEGER,
+      (_cluster->>'cumulative_frp')::DOUBLE PRECISION,
+      (_cluster->>'max_frp')::DOUBLE PRECISION,
+      ARRAY(SELECT jsonb_array_elements_text(_cluster->'sources'))
+    )
+    RETURNING id INTO _id;
+    _created := _created || _id;
+  END LOOP;
+
+  UPDATE public.fire_events
+  SET status = 'extinguished', updated_at = _now
+  WHERE id = ANY(_active)
+    AND status <> 'extinguished'
+    AND last_detected_at < _now - make_interval(days => _extinguished_days);
+
+  RETURN QUERY
+  SELECT * FROM public.fire_events
+  WHERE id = ANY(_active || _created)
+  ORDER BY last_detected_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.track_fire_events(TEXT, JSONB, TIMESTAMP WITH TIME ZONE, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) FROM PUBLIC, anon, authenticated;
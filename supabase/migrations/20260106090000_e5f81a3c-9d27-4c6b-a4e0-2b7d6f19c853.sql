@@ -0,0 +1,15 @@
+-- Auto-detected static thermal sources are candidates until an admin confirms them: only
+-- confirmed, active sources mask FIRMS detections. A wrongly detected source would otherwise
+-- hide a real fire for good. Stored analyses refresh last_seen_at whenever a source fires on
+-- most days of their window again; auto sources not seen for a while stop masking until they
+-- are seen again (STATIC_SOURCE_EXPIRY_DAYS in _shared/static-sources.ts).
+ALTER TABLE public.static_thermal_sources
+  ADD COLUMN confirmed_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- Admin entries are confirmed by whoever added them; existing auto entries go back to review
+UPDATE public.static_thermal_sources SET confirmed_at = created_at WHERE origin = 'manual';
+UPDATE public.static_thermal_sources SET confirmed_at = NULL, last_seen_at = created_at WHERE origin = 'auto';
+
+ALTER TABLE public.static_thermal_sources
+  ADD CONSTRAINT static_thermal_sources_manual_confirmed CHECK (origin = 'auto' OR confirmed_at IS NOT NULL);